@@ -1,14 +1,24 @@
 import type { ProjectContext } from '../core/context.js';
+import type { ModuleManifest } from '../types/module.js';
+import { collectClaudeContributions } from './module-contributions.js';
+import type { ModuleClaudeContribution } from './module-contributions.js';
 
 /**
  * Generates a slim CLAUDE.md (~90 lines) for a scaffolded Flutter project.
  * Detailed rules are referenced via @-imports to .claude/rules/ files.
+ *
+ * @param modules - Registered module manifests, e.g. `registry.getAll()`; the built-in
+ *   modules are always known
  */
-export function generateClaudeMd(context: ProjectContext): string {
+export function generateClaudeMd(
+  context: ProjectContext,
+  modules?: readonly ModuleManifest[],
+): string {
+  const contributions = collectClaudeContributions(context, modules);
   const sections: string[] = [
-    generateHeader(context),
-    generateRules(context),
-    generateBuildCommands(),
+    generateHeader(context, contributions),
+    generateRules(contributions),
+    generateBuildCommands(context),
     generateQualityGates(),
     generateSecurity(),
     generateModelPolicy(),
@@ -16,6 +26,11 @@ export function generateClaudeMd(context: ProjectContext): string {
     generateKeyPaths(),
   ];
 
+  const notes = contributions.filter(({ contribution }) => contribution.claudeMd);
+  if (notes.length > 0) {
+    sections.push(generateModuleNotes(notes));
+  }
+
   if (context.claude.agentTeams) {
     sections.push(generateAgentTeams());
   }
@@ -23,7 +38,10 @@ export function generateClaudeMd(context: ProjectContext): string {
   return sections.join('\n\n');
 }
 
-function generateHeader(context: ProjectContext): string {
+function generateHeader(
+  context: ProjectContext,
+  contributions: readonly ModuleClaudeContribution[],
+): string {
   const lines = [
     `# CLAUDE.md - ${context.projectName}`,
     '',
@@ -36,7 +54,7 @@ function generateHeader(context: ProjectContext): string {
     lines.push('', context.description);
   }
 
-  const enabledModules = getEnabledModuleNames(context);
+  const enabledModules = contributions.map(({ moduleId }) => moduleId);
   if (enabledModules.length > 0) {
     lines.push('', `**Active modules:** ${enabledModules.join(', ')}`);
   }
@@ -46,7 +64,7 @@ function generateHeader(context: ProjectContext): string {
   return lines.join('\n');
 }
 
-function generateRules(context: ProjectContext): string {
+function generateRules(contributions: readonly ModuleClaudeContribution[]): string {
   const imports = [
     '## Rules',
     '',
@@ -61,25 +79,32 @@ function generateRules(context: ProjectContext): string {
     '@.claude/rules/context-management.md',
   ];
 
-  if (context.modules.auth) imports.push('@.claude/rules/auth.md');
-  if (context.modules.api) imports.push('@.claude/rules/api.md');
-  if (context.modules.database) imports.push('@.claude/rules/database.md');
-  if (context.modules.i18n) imports.push('@.claude/rules/i18n.md');
-  if (context.modules.theme) imports.push('@.claude/rules/theme.md');
-  if (context.modules.push) imports.push('@.claude/rules/push.md');
-  if (context.modules.analytics) imports.push('@.claude/rules/analytics.md');
-  if (context.modules.cicd) imports.push('@.claude/rules/cicd.md');
-  if (context.modules.deepLinking) imports.push('@.claude/rules/deep-linking.md');
+  for (const { contribution } of contributions) {
+    for (const rule of contribution.rules ?? []) {
+      imports.push(`@.claude/rules/${rule.name}.md`);
+    }
+  }
 
   return imports.join('\n');
 }
 
-function generateBuildCommands(): string {
+function generateBuildCommands(context: ProjectContext): string {
+  // With flavors, every run and build names its entry point, and the flavor once `flutter create`
+  // added the Android product flavors (see FLAVORS.md)
+  const environments = context.rawConfig.environments ?? [];
+  const flavorFlag = context.platforms.includes('android') && !!context.scaffold.flutterCreate;
+  const run =
+    environments.length > 0
+      ? environments.map(
+          ({ name }) =>
+            `flutter run ${flavorFlag ? `--flavor ${name} ` : ''}-t lib/main_${name}.dart`,
+        )
+      : ['flutter run'];
   return `## Build Commands
 
 \`\`\`bash
 flutter pub get
-flutter run
+${run.join('\n')}
 dart run build_runner build
 flutter test
 flutter analyze
@@ -147,6 +172,14 @@ function generateKeyPaths(): string {
 - \`prd.json\``;
 }
 
+function generateModuleNotes(notes: readonly ModuleClaudeContribution[]): string {
+  const lines = ['## Module Notes'];
+  for (const { moduleName, contribution } of notes) {
+    lines.push('', `### ${moduleName}`, '', (contribution.claudeMd ?? '').trim());
+  }
+  return lines.join('\n');
+}
+
 function generateAgentTeams(): string {
   return `## Agent Teams Workflow
 
@@ -154,17 +187,3 @@ Stories in \`prd.json\`. Enable: \`CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS=1\`.
 Roles: architect, builder, tester, reviewer.
 Commit: \`feat: [StoryID] - description\`.`;
 }
-
-function getEnabledModuleNames(context: ProjectContext): string[] {
-  const modules: string[] = [];
-  if (context.modules.auth) modules.push('auth');
-  if (context.modules.api) modules.push('api');
-  if (context.modules.database) modules.push('database');
-  if (context.modules.i18n) modules.push('i18n');
-  if (context.modules.theme) modules.push('theme');
-  if (context.modules.push) modules.push('push');
-  if (context.modules.analytics) modules.push('analytics');
-  if (context.modules.cicd) modules.push('cicd');
-  if (context.modules.deepLinking) modules.push('deep-linking');
-  return modules;
-}
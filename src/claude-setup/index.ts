@@ -6,5 +6,7 @@ export { writeSettings } from './settings-writer.js';
 export { writeMcpConfig } from './mcp-config-writer.js';
 export { writeCommands } from './commands-writer.js';
 export { generatePrd } from './prd-generator.js';
-export { runClaudeSetup } from './setup-orchestrator.js';
+export { runClaudeSetup, CLAUDE_SETUP_PATHS } from './setup-orchestrator.js';
 export type { ClaudeSetupResult } from './setup-orchestrator.js';
+export { collectClaudeContributions } from './module-contributions.js';
+export type { ModuleClaudeContribution } from './module-contributions.js';
@@ -0,0 +1,55 @@
+import { toModuleKey } from '../core/context.js';
+import type { ProjectContext } from '../core/context.js';
+import { BUILT_IN_MODULE_IDS, BUILT_IN_MODULES } from '../modules/definitions/index.js';
+import type { ClaudeContribution, ModuleManifest } from '../types/module.js';
+
+/**
+ * Claude contribution of one module enabled in the project.
+ */
+export interface ModuleClaudeContribution {
+  moduleId: string;
+  moduleName: string;
+  contribution: ClaudeContribution;
+}
+
+/** Rule and skill names become file and directory names. */
+const FILE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Collect the Claude contributions of the modules enabled in the project.
+ * The built-in modules come first, in display order, followed by the other registered
+ * `modules` (external and project-local ones) in the given order. A registered manifest
+ * replaces the built-in one with the same ID.
+ *
+ * @param modules - Registered module manifests, e.g. `registry.getAll()`
+ * @throws Error when a module contributes a rule or skill name that is not kebab-case
+ */
+export function collectClaudeContributions(
+  context: ProjectContext,
+  modules: readonly ModuleManifest[] = [],
+): ModuleClaudeContribution[] {
+  const manifests = new Map<string, ModuleManifest>(
+    BUILT_IN_MODULE_IDS.map((id) => [id, BUILT_IN_MODULES[id].manifest]),
+  );
+  for (const manifest of modules) {
+    manifests.set(manifest.id, manifest);
+  }
+
+  const contributions: ModuleClaudeContribution[] = [];
+  for (const manifest of manifests.values()) {
+    if (!context.modules[toModuleKey(manifest.id)]) continue;
+
+    const contribution =
+      typeof manifest.claude === 'function' ? manifest.claude(context) : (manifest.claude ?? {});
+    for (const { name } of [...(contribution.rules ?? []), ...(contribution.skills ?? [])]) {
+      if (!FILE_NAME_PATTERN.test(name)) {
+        throw new Error(
+          `Module '${manifest.id}' contributes an invalid Claude rule or skill name: '${name}' ` +
+            '(use kebab-case, e.g. my-rule)',
+        );
+      }
+    }
+    contributions.push({ moduleId: manifest.id, moduleName: manifest.name, contribution });
+  }
+  return contributions;
+}
@@ -1,4 +1,7 @@
+import { toModuleKey } from '../core/context.js';
 import type { ProjectContext } from '../core/context.js';
+import type { ModuleManifest } from '../types/module.js';
+import { collectClaudeContributions } from './module-contributions.js';
 import type { AcceptanceCriterion, Prd, PrdPhase, PrdStory } from './prd-schema.js';
 
 type StoryInput = Omit<PrdStory, 'id'>;
@@ -22,13 +25,16 @@ function prefixedStories(
  * Generates a prd.json for the scaffolded Flutter project.
  * Stories are organized into three phases:
  *   Phase 1 - Core app setup and basic navigation
- *   Phase 2 - Module-specific features (conditional on enabled modules)
+ *   Phase 2 - Module-specific features, contributed by the enabled modules' manifests
  *   Phase 3 - Integration and end-to-end testing
+ *
+ * @param modules - Registered module manifests, e.g. `registry.getAll()`; the built-in
+ *   modules are always known
  */
-export function generatePrd(context: ProjectContext): string {
+export function generatePrd(context: ProjectContext, modules?: readonly ModuleManifest[]): string {
   const phase1Stories = prefixedStories(buildPhase1Inputs(context), 1, 'CORE');
   const phase1Ids = phase1Stories.map((s) => s.id);
-  const phase2Stories = buildPhase2Stories(context, phase1Ids);
+  const phase2Stories = buildPhase2Stories(context, modules);
   const phase3Stories = buildPhase3Stories(context, phase1Ids, phase2Stories);
 
   const phases: PrdPhase[] = [
@@ -130,272 +136,30 @@ function buildPhase1Inputs(context: ProjectContext): StoryInput[] {
   ];
 }
 
-function buildPhase2Stories(context: ProjectContext, phase1Ids: string[]): PrdStory[] {
+/**
+ * Build the Phase 2 stories contributed by the enabled modules.
+ * Story IDs are numbered per module, e.g. P2-AUTH-001.
+ */
+function buildPhase2Stories(
+  context: ProjectContext,
+  modules: readonly ModuleManifest[] | undefined,
+): PrdStory[] {
   const stories: PrdStory[] = [];
-  const coreSetupId = phase1Ids[0]; // P1-CORE-001
-  const routerId = phase1Ids[1]; // P1-CORE-002
-  const riverpodId = phase1Ids[2]; // P1-CORE-003
-
-  if (context.modules.auth) {
-    const provider = context.modules.auth.provider;
-    const providerLabel =
-      provider === 'firebase'
-        ? 'Firebase Auth'
-        : provider === 'supabase'
-          ? 'Supabase Auth'
-          : 'custom auth';
-    const inputs: StoryInput[] = [
-      {
-        phase: 2,
-        priority: 'P0',
-        module: 'auth',
-        title: `Implement authentication with ${providerLabel}`,
-        description: `Build the auth feature in \`lib/features/auth/\` following Clean Architecture. Domain layer: \`AuthRepository\` interface and \`User\` entity. Data layer: \`${capitalize(provider)}AuthDataSource\` and \`AuthRepositoryImpl\`. Presentation layer: \`authRepositoryProvider\`, login page, register page. Add auth guard to go_router redirect.`,
-        storyPoints: 8,
-        dependencies: [coreSetupId, routerId, riverpodId],
-        acceptanceCriteria: [
-          ac('`lib/features/auth/domain/repositories/auth_repository.dart` defines `AuthRepository` interface'),
-          ac('`lib/features/auth/domain/entities/user.dart` defines `User` entity with freezed'),
-          ac('Auth repository implementation connects to ' + providerLabel),
-          ac('`/login` and `/register` routes exist and render auth pages'),
-          ac('Auth guard in go_router redirects unauthenticated users to `/login`'),
-          ac('Unit tests for auth use cases pass'),
-          ac('`flutter analyze` reports zero errors'),
-        ],
-        passes: false,
-      },
-    ];
-    stories.push(...prefixedStories(inputs, 2, 'AUTH'));
-  }
-
-  if (context.modules.api) {
-    const baseUrl = context.modules.api.baseUrl ?? 'API_BASE_URL env variable';
-    const inputs: StoryInput[] = [
-      {
-        phase: 2,
-        priority: 'P1',
-        module: 'api',
-        title: 'Implement API client with Dio and interceptors',
-        description: `Configure a Dio HTTP client in \`lib/features/api/\`. Base URL: ${baseUrl}. Add interceptors for auth token injection, retry on transient failures, and request logging. Expose via \`dioClientProvider\`. Define \`ApiException\` for typed error handling.`,
-        storyPoints: 5,
-        dependencies: [coreSetupId, riverpodId],
-        acceptanceCriteria: [
-          ac('`dioClientProvider` is a Riverpod Provider returning a configured `Dio` instance'),
-          ac('Auth interceptor injects Bearer token from auth state (if auth module is enabled)'),
-          ac('Retry interceptor handles 5xx errors with exponential backoff'),
-          ac('`ApiException` maps HTTP status codes to typed errors'),
-          ac('Unit tests for interceptors pass'),
-          ac('`flutter analyze` reports zero errors'),
-        ],
-        passes: false,
-      },
-    ];
-    stories.push(...prefixedStories(inputs, 2, 'API'));
-  }
-
-  if (context.modules.database) {
-    const engine = context.modules.database.engine;
-    const engineLabel =
-      engine === 'drift' ? 'Drift (SQLite)' : engine === 'hive' ? 'Hive' : 'Isar';
-    const inputs: StoryInput[] = [
-      {
-        phase: 2,
-        priority: 'P1',
-        module: 'database',
-        title: `Configure local database with ${engineLabel}`,
-        description: `Set up ${engineLabel} in \`lib/features/database/\`. Define initial schema/collections. Expose database via \`databaseProvider\`. Add initialization in main.dart before runApp. Run build_runner to generate database code.`,
-        storyPoints: 5,
-        dependencies: [coreSetupId, riverpodId],
-        acceptanceCriteria: [
-          ac(`${engineLabel} is initialized before the app starts`),
-          ac('`databaseProvider` exposes the database instance via Riverpod'),
-          ac(
-            engine === 'drift'
-              ? '`AppDatabase` class with at least one table defined'
-              : `${engineLabel} adapter/collection defined`,
-          ),
-          ac('build_runner generates code without conflicts'),
-          ac('Unit test verifies database can be opened and written to'),
-          ac('`flutter analyze` reports zero errors'),
-        ],
-        passes: false,
-      },
-    ];
-    stories.push(...prefixedStories(inputs, 2, 'DB'));
-  }
-
-  if (context.modules.i18n) {
-    const { defaultLocale, supportedLocales } = context.modules.i18n;
-    const inputs: StoryInput[] = [
-      {
-        phase: 2,
-        priority: 'P1',
-        module: 'i18n',
-        title: 'Implement internationalization with flutter_localizations',
-        description: `Set up i18n in \`lib/core/l10n/\`. Create ARB files for: ${supportedLocales.join(', ')} (default: ${defaultLocale}). Run \`flutter gen-l10n\` to generate \`AppLocalizations\`. Update MaterialApp to include localization delegates.`,
-        storyPoints: 3,
-        dependencies: [coreSetupId],
-        acceptanceCriteria: [
-          ac(`ARB files exist for all supported locales: ${supportedLocales.join(', ')}`),
-          ac('`AppLocalizations` is generated and available via `AppLocalizations.of(context)!`'),
-          ac('MaterialApp includes `AppLocalizations.delegate` and `supportedLocales`'),
-          ac('At minimum, app title and home screen greeting are localized'),
-          ac('`flutter analyze` reports zero errors'),
-        ],
-        passes: false,
-      },
-    ];
-    stories.push(...prefixedStories(inputs, 2, 'I18N'));
-  }
 
-  if (context.modules.theme) {
-    const { seedColor, darkMode } = context.modules.theme;
-    const seedNote = seedColor ? `seed color ${seedColor}` : 'default purple seed color';
-    const inputs: StoryInput[] = [
-      {
-        phase: 2,
-        priority: 'P1',
-        module: 'theme',
-        title: 'Implement Material 3 theme system',
-        description: `Build the theme in \`lib/core/theme/app_theme.dart\` using Material 3 ColorScheme.fromSeed with ${seedNote}. ${darkMode ? 'Support both light and dark themes via `appThemeModeProvider`.' : 'Light theme only.'} Apply Google Fonts (Inter) as the default text theme.`,
-        storyPoints: 3,
-        dependencies: [coreSetupId],
-        acceptanceCriteria: [
-          ac('`AppTheme.light()` returns a `ThemeData` with Material 3 enabled'),
-          ac(
-            darkMode
-              ? '`AppTheme.dark()` returns a dark `ThemeData`'
-              : 'Light theme applied consistently',
-          ),
-          ac(
-            darkMode
-              ? '`appThemeModeProvider` toggles between light and dark modes'
-              : 'Theme applied to MaterialApp',
-          ),
-          ac('Google Fonts Inter is applied as the text theme'),
-          ac('`flutter analyze` reports zero errors'),
-        ],
-        passes: false,
-      },
-    ];
-    stories.push(...prefixedStories(inputs, 2, 'THEME'));
-  }
-
-  if (context.modules.push) {
-    const provider = context.modules.push.provider;
-    const providerLabel =
-      provider === 'firebase' ? 'Firebase Cloud Messaging' : 'OneSignal';
-    const inputs: StoryInput[] = [
-      {
-        phase: 2,
-        priority: 'P2',
-        module: 'push',
-        title: `Implement push notifications with ${providerLabel}`,
-        description: `Configure ${providerLabel} in \`lib/features/push/\`. Request notification permissions at app startup. Handle foreground, background, and terminated state notifications. Expose push token via \`pushTokenProvider\`.`,
-        storyPoints: 5,
-        dependencies: [coreSetupId, riverpodId],
-        acceptanceCriteria: [
-          ac(`${providerLabel} is initialized before the app starts`),
-          ac('Notification permission is requested on first launch'),
-          ac('Foreground notification handler displays an in-app notification'),
-          ac('Background/terminated notification tap navigates to correct screen'),
-          ac('`pushTokenProvider` returns the device token as a Future<String?>'),
-          ac('`flutter analyze` reports zero errors'),
-        ],
-        passes: false,
-      },
-    ];
-    stories.push(...prefixedStories(inputs, 2, 'PUSH'));
-  }
-
-  if (context.modules.analytics) {
-    const inputs: StoryInput[] = [
-      {
-        phase: 2,
-        priority: 'P2',
-        module: 'analytics',
-        title: 'Implement analytics event tracking',
-        description:
-          'Create `AnalyticsService` abstraction in `lib/features/analytics/`. Implement a GoRouter observer that tracks screen views automatically. Provide `analyticsServiceProvider` for logging custom events. Log app open event on startup.',
-        storyPoints: 3,
-        dependencies: [coreSetupId, routerId],
-        acceptanceCriteria: [
-          ac('`AnalyticsService` interface defines `logEvent(name, params)` and `logScreen(name)`'),
-          ac('GoRouter observer automatically tracks screen navigation'),
-          ac('`analyticsServiceProvider` exposes the `AnalyticsService`'),
-          ac('App open event is logged on startup'),
-          ac('Unit tests mock `AnalyticsService` and verify event calls'),
-          ac('`flutter analyze` reports zero errors'),
-        ],
-        passes: false,
-      },
-    ];
-    stories.push(...prefixedStories(inputs, 2, 'ANLT'));
-  }
-
-  if (context.modules.cicd) {
-    const providerLabel = context.modules.cicd.provider;
-    const inputs: StoryInput[] = [
-      {
-        phase: 2,
-        priority: 'P2',
-        module: 'cicd',
-        title: `Configure ${capitalize(providerLabel)} CI/CD pipeline`,
-        description: `Set up CI/CD pipeline for ${capitalize(providerLabel)}. Pipeline should run on every push: (1) flutter analyze, (2) flutter test, (3) flutter build. Cache Flutter SDK and pub dependencies for speed.`,
-        storyPoints: 2,
-        dependencies: [coreSetupId],
-        acceptanceCriteria: [
-          ac(
-            providerLabel === 'github'
-              ? '`.github/workflows/ci.yml` exists and is valid YAML'
-              : providerLabel === 'gitlab'
-                ? '`.gitlab-ci.yml` exists and is valid YAML'
-                : '`bitbucket-pipelines.yml` exists and is valid YAML',
-          ),
-          ac('Pipeline includes analyze, test, and build stages/jobs'),
-          ac('Flutter pub cache is configured for fast runs'),
-          ac('Pipeline triggers on push to main and pull requests'),
-          ac('`flutter analyze` reports zero errors in CI config files'),
-        ],
-        passes: false,
-      },
-    ];
-    stories.push(...prefixedStories(inputs, 2, 'CICD'));
-  }
-
-  if (context.modules.deepLinking) {
-    const { scheme, host } = context.modules.deepLinking;
-    const linkExample =
-      scheme && host ? `${scheme}://${host}` : 'app://example.com';
-    const inputs: StoryInput[] = [
-      {
-        phase: 2,
-        priority: 'P2',
-        module: 'deepLinking',
-        title: 'Implement deep linking with app_links',
-        description: `Configure deep links using \`app_links\` package. Handle Universal Links (iOS) and App Links (Android). Integrate with go_router for automatic route resolution. Example link: \`${linkExample}\`.`,
-        storyPoints: 5,
-        dependencies: [coreSetupId, routerId],
-        acceptanceCriteria: [
-          ac('`app_links` is initialized at app startup'),
-          ac('Incoming deep links are forwarded to go_router for navigation'),
-          ac(
-            scheme
-              ? `Custom scheme \`${scheme}://\` is handled`
-              : 'Deep link scheme is configured in platform files',
-          ),
-          ac(
-            host
-              ? `Host \`${host}\` is configured for Universal/App Links`
-              : 'Host is configured in platform-specific files',
-          ),
-          ac('Widget test verifies deep link navigation'),
-          ac('`flutter analyze` reports zero errors'),
-        ],
-        passes: false,
-      },
-    ];
-    stories.push(...prefixedStories(inputs, 2, 'LINK'));
+  for (const { moduleId, contribution } of collectClaudeContributions(context, modules)) {
+    const inputs: StoryInput[] = (contribution.stories ?? []).map((story) => ({
+      phase: 2,
+      priority: story.priority,
+      module: toModuleKey(moduleId),
+      title: story.title,
+      description: story.description,
+      storyPoints: story.storyPoints,
+      dependencies: story.dependencies,
+      acceptanceCriteria: story.acceptanceCriteria.map(ac),
+      passes: false,
+    }));
+    const prefix = contribution.storyPrefix ?? toModuleKey(moduleId).toUpperCase();
+    stories.push(...prefixedStories(inputs, 2, prefix));
   }
 
   return stories;
@@ -451,6 +215,3 @@ function buildPhase3Stories(
   return prefixedStories(inputs, 3, 'QA');
 }
 
-function capitalize(str: string): string {
-  return str.charAt(0).toUpperCase() + str.slice(1);
-}
@@ -1,6 +1,8 @@
 import { writeFile, mkdir } from 'node:fs/promises';
 import { join } from 'node:path';
 import type { ProjectContext } from '../core/context.js';
+import type { ModuleManifest } from '../types/module.js';
+import { collectClaudeContributions } from './module-contributions.js';
 
 function frontmatter(paths: string[]): string {
   const pathLines = paths.map((p) => `  - "${p}"`).join('\n');
@@ -120,159 +122,6 @@ Follow these security best practices in all code.
   );
 }
 
-function generateAuthRule(): string {
-  return (
-    frontmatter(['lib/features/auth/**', 'test/features/auth/**']) +
-    `# Authentication Rules
-
-Guidelines for the auth feature module.
-
-## Rules
-- All auth state is managed through the auth provider — never store tokens in plain SharedPreferences.
-- Use secure storage for auth tokens and session data.
-- Protect routes by checking auth state in go_router redirect guards.
-- On logout, clear all cached user data and navigate to the login screen.
-- Handle token refresh transparently in the API client interceptor.
-`
-  );
-}
-
-function generateApiRule(): string {
-  return (
-    frontmatter(['lib/core/api/**', 'lib/data/**']) +
-    `# API & HTTP Client Rules
-
-Guidelines for HTTP networking with Dio.
-
-## Rules
-- All API calls go through the central Dio client configured in \`core/api/\`.
-- Use interceptors for auth token injection and token refresh.
-- Map HTTP error responses to typed domain failures — never expose raw Dio exceptions to use cases.
-- Use \`retrofit\` or a repository pattern to abstract API endpoints.
-- Log requests and responses only in debug mode; never log sensitive data.
-`
-  );
-}
-
-function generateDatabaseRule(): string {
-  return (
-    frontmatter(['lib/data/**', 'test/data/**']) +
-    `# Database & Local Storage Rules
-
-Guidelines for local database and storage access.
-
-## Rules
-- All database access is encapsulated in repository implementations under \`data/\`.
-- Use Drift (or Hive/Isar) for structured local data; never raw file I/O for app data.
-- Define database schema migrations explicitly — never drop and recreate tables.
-- Expose only domain models from repositories — never leak database entities to \`domain\` or \`presentation\`.
-- Use transactions for multi-step writes to ensure consistency.
-`
-  );
-}
-
-function generateThemeRule(): string {
-  return (
-    frontmatter(['lib/core/theme/**']) +
-    `# Theme & Styling Rules
-
-Guidelines for Material 3 theming.
-
-## Rules
-- Define all theme data in \`lib/core/theme/\` using Material 3 and \`ColorScheme.fromSeed()\`.
-- Support both light and dark mode via separate \`ThemeData\` instances.
-- Never hardcode colors in widgets — always reference \`Theme.of(context).colorScheme\`.
-- Use \`TextTheme\` from the theme for all typography — no inline \`TextStyle\` with hardcoded sizes.
-- Expose a \`ThemeProvider\` for runtime theme switching (light/dark/system).
-`
-  );
-}
-
-function generatePushRule(): string {
-  return (
-    frontmatter(['lib/features/push/**', 'test/features/push/**']) +
-    `# Push Notification Rules
-
-Guidelines for push notification handling.
-
-## Rules
-- All notification logic lives in \`lib/features/push/\`.
-- Request notification permission explicitly — never assume it is granted.
-- Handle foreground, background, and terminated-state notifications separately.
-- Use a dedicated notification service abstraction — never call platform APIs directly from widgets.
-- Store the device token securely and refresh it on app start.
-`
-  );
-}
-
-function generateAnalyticsRule(): string {
-  return (
-    frontmatter(['lib/features/analytics/**', 'test/features/analytics/**']) +
-    `# Analytics Rules
-
-Guidelines for event tracking and analytics.
-
-## Rules
-- All analytics logic lives in \`lib/features/analytics/\`.
-- Use a route observer to automatically track screen views.
-- Log events through a central analytics service — never call tracking APIs directly from widgets.
-- Define event names as constants to prevent typos and ensure consistency.
-- Never log PII (emails, names, tokens) in analytics events.
-`
-  );
-}
-
-function generateCicdRule(): string {
-  return (
-    frontmatter(['.github/**', 'Makefile', 'Fastfile']) +
-    `# CI/CD Pipeline Rules
-
-Guidelines for continuous integration and deployment.
-
-## Rules
-- All CI/CD configuration lives in \`.github/\` (GitHub Actions workflows).
-- Every PR must pass \`flutter analyze\`, \`flutter test\`, and \`dart format --set-exit-if-changed .\`.
-- Use caching for Flutter SDK and pub dependencies to speed up builds.
-- Separate workflows for PR checks, staging deployment, and production release.
-- Never store secrets in workflow files — use GitHub Actions secrets or environment variables.
-`
-  );
-}
-
-function generateDeepLinkingRule(): string {
-  return (
-    frontmatter(['lib/core/router/**']) +
-    `# Deep Linking Rules
-
-Guidelines for deep link handling with GoRouter.
-
-## Rules
-- Configure deep link routes in the central GoRouter configuration under \`lib/core/router/\`.
-- Register custom URL schemes and associated domains in platform-specific config files.
-- Validate and sanitize all deep link parameters before navigation.
-- Provide fallback routes for unrecognized deep links — never crash on malformed URLs.
-- Test deep links on both Android and iOS with real device or emulator verification.
-`
-  );
-}
-
-function generateI18nRule(): string {
-  return (
-    frontmatter(['lib/**']) +
-    `# Internationalization (i18n) Rules
-
-Guidelines for localization.
-
-## Rules
-- All user-visible strings must be externalized in ARB files under \`l10n/\`.
-- Never hardcode display strings in widget code.
-- Use \`AppLocalizations.of(context)!\` to access translations.
-- Add new strings to all supported locale files before shipping.
-- Use ICU message format for plurals and gender variations.
-`
-  );
-}
-
 function generateGitWorkflowRule(): string {
   return (
     frontmatter(['**']) +
@@ -405,47 +254,51 @@ Context quality degrades significantly at 70%+ fill. Monitor usage and act proac
   );
 }
 
-export async function writeRules(context: ProjectContext, outputPath: string): Promise<void> {
+/**
+ * Write the core rules and the rules of the enabled modules to `.claude/rules/`.
+ *
+ * @param modules - Registered module manifests, e.g. `registry.getAll()`; the built-in
+ *   modules are always known
+ * @returns Paths of the written rule files
+ */
+export async function writeRules(
+  context: ProjectContext,
+  outputPath: string,
+  modules?: readonly ModuleManifest[],
+): Promise<string[]> {
   const rulesDir = join(outputPath, '.claude', 'rules');
   await mkdir(rulesDir, { recursive: true });
 
   // Core rules — always generated
-  await writeFile(join(rulesDir, 'architecture.md'), generateArchitectureRule(), 'utf-8');
-  await writeFile(join(rulesDir, 'riverpod.md'), generateRiverpodRule(), 'utf-8');
-  await writeFile(join(rulesDir, 'go-router.md'), generateGoRouterRule(), 'utf-8');
-  await writeFile(join(rulesDir, 'testing.md'), generateTestingRule(), 'utf-8');
-  await writeFile(join(rulesDir, 'security.md'), generateSecurityRule(), 'utf-8');
-  await writeFile(join(rulesDir, 'git-workflow.md'), generateGitWorkflowRule(), 'utf-8');
-  await writeFile(join(rulesDir, 'code-quality.md'), generateCodeQualityRule(), 'utf-8');
-  await writeFile(join(rulesDir, 'error-recovery.md'), generateErrorRecoveryRule(), 'utf-8');
-  await writeFile(join(rulesDir, 'context-management.md'), generateContextManagementRule(), 'utf-8');
-
-  // Conditional module rules
-  if (context.modules.auth) {
-    await writeFile(join(rulesDir, 'auth.md'), generateAuthRule(), 'utf-8');
-  }
-  if (context.modules.api) {
-    await writeFile(join(rulesDir, 'api.md'), generateApiRule(), 'utf-8');
-  }
-  if (context.modules.database) {
-    await writeFile(join(rulesDir, 'database.md'), generateDatabaseRule(), 'utf-8');
-  }
-  if (context.modules.i18n) {
-    await writeFile(join(rulesDir, 'i18n.md'), generateI18nRule(), 'utf-8');
+  const rules: Array<[name: string, content: string]> = [
+    ['architecture', generateArchitectureRule()],
+    ['riverpod', generateRiverpodRule()],
+    ['go-router', generateGoRouterRule()],
+    ['testing', generateTestingRule()],
+    ['security', generateSecurityRule()],
+    ['git-workflow', generateGitWorkflowRule()],
+    ['code-quality', generateCodeQualityRule()],
+    ['error-recovery', generateErrorRecoveryRule()],
+    ['context-management', generateContextManagementRule()],
+  ];
+
+  // Rules contributed by the enabled modules
+  for (const { moduleId, contribution } of collectClaudeContributions(context, modules)) {
+    for (const rule of contribution.rules ?? []) {
+      if (rules.some(([name]) => name === rule.name)) {
+        throw new Error(
+          `Module '${moduleId}' contributes a rule named '${rule.name}', which already exists`,
+        );
+      }
+      rules.push([rule.name, frontmatter(rule.paths) + rule.content]);
+    }
   }
-  if (context.modules.theme) {
-    await writeFile(join(rulesDir, 'theme.md'), generateThemeRule(), 'utf-8');
-  }
-  if (context.modules.push) {
-    await writeFile(join(rulesDir, 'push.md'), generatePushRule(), 'utf-8');
-  }
-  if (context.modules.analytics) {
-    await writeFile(join(rulesDir, 'analytics.md'), generateAnalyticsRule(), 'utf-8');
-  }
-  if (context.modules.cicd) {
-    await writeFile(join(rulesDir, 'cicd.md'), generateCicdRule(), 'utf-8');
-  }
-  if (context.modules.deepLinking) {
-    await writeFile(join(rulesDir, 'deep-linking.md'), generateDeepLinkingRule(), 'utf-8');
+
+  const written: string[] = [];
+  for (const [name, content] of rules) {
+    const rulePath = join(rulesDir, `${name}.md`);
+    await writeFile(rulePath, content, 'utf-8');
+    written.push(rulePath);
   }
+  return written;
 }
@@ -1,6 +1,7 @@
 import { writeFile, mkdir } from 'node:fs/promises';
 import { join } from 'node:path';
 import type { ProjectContext } from '../core/context.js';
+import type { ModuleManifest } from '../types/module.js';
 import { generateClaudeMd } from './claude-md-generator.js';
 import { writeAgents } from './agent-writer.js';
 import { writeSkills } from './skill-writer.js';
@@ -12,6 +13,9 @@ import { writeRules } from './rules-writer.js';
 import { resolvePreset } from './preset-resolver.js';
 import { generatePrd } from './prd-generator.js';
 
+/** Paths (relative to the project root) runClaudeSetup may write. */
+export const CLAUDE_SETUP_PATHS = ['CLAUDE.md', 'prd.json', '.mcp.json', '.claude'] as const;
+
 export interface ClaudeSetupResult {
   filesWritten: string[];
 }
@@ -25,12 +29,18 @@ export interface ClaudeSetupOptions {
    * Use this for the upgrade command since users may have marked stories complete.
    */
   skipPrd?: boolean;
+  /**
+   * Registered module manifests (e.g. `registry.getAll()`). The enabled ones contribute
+   * rules, skills, CLAUDE.md notes and prd.json stories; the built-in modules are always known.
+   */
+  modules?: readonly ModuleManifest[];
 }
 
 /**
  * Runs the full Claude setup for a scaffolded Flutter project.
  * Generates CLAUDE.md, rules, agent definitions, skills, hooks, MCP config,
- * slash commands, and prd.json — gated by the resolved preset.
+ * slash commands, and prd.json — gated by the resolved preset. The enabled modules
+ * add their own rules, skills, CLAUDE.md notes and stories.
  */
 export async function runClaudeSetup(
   context: ProjectContext,
@@ -48,7 +58,7 @@ export async function runClaudeSetup(
 
   // 2. Generate slim CLAUDE.md
   if (resolved.claudeMd) {
-    const claudeMdContent = generateClaudeMd(context);
+    const claudeMdContent = generateClaudeMd(context, options?.modules);
     const claudeMdPath = join(outputPath, 'CLAUDE.md');
     await writeFile(claudeMdPath, claudeMdContent, 'utf-8');
     filesWritten.push(claudeMdPath);
@@ -56,23 +66,8 @@ export async function runClaudeSetup(
 
   // 3. Write rules (.claude/rules/)
   if (resolved.rules) {
-    await writeRules(context, outputPath);
-    const rulesDir = join(outputPath, '.claude', 'rules');
-    filesWritten.push(
-      join(rulesDir, 'architecture.md'),
-      join(rulesDir, 'riverpod.md'),
-      join(rulesDir, 'go-router.md'),
-      join(rulesDir, 'testing.md'),
-      join(rulesDir, 'security.md'),
-      join(rulesDir, 'git-workflow.md'),
-      join(rulesDir, 'code-quality.md'),
-      join(rulesDir, 'error-recovery.md'),
-      join(rulesDir, 'context-management.md'),
-    );
-    if (context.modules.auth) filesWritten.push(join(rulesDir, 'auth.md'));
-    if (context.modules.api) filesWritten.push(join(rulesDir, 'api.md'));
-    if (context.modules.database) filesWritten.push(join(rulesDir, 'database.md'));
-    if (context.modules.i18n) filesWritten.push(join(rulesDir, 'i18n.md'));
+    const ruleFiles = await writeRules(context, outputPath, options?.modules);
+    filesWritten.push(...ruleFiles);
   }
 
   // 4. Write agent definition files (.claude/agents/)
@@ -96,23 +91,8 @@ export async function runClaudeSetup(
 
   // 6. Write skill files (.claude/skills/)
   if (resolved.skills) {
-    await writeSkills(context, outputPath);
-    const skillsDir = join(outputPath, '.claude', 'skills');
-    filesWritten.push(
-      join(skillsDir, 'flutter-patterns', 'SKILL.md'),
-      join(skillsDir, 'go-router-patterns', 'SKILL.md'),
-      join(skillsDir, 'module-conventions', 'SKILL.md'),
-      join(skillsDir, 'prd', 'SKILL.md'),
-      join(skillsDir, 'security-review', 'SKILL.md'),
-      join(skillsDir, 'performance-check', 'SKILL.md'),
-      join(skillsDir, 'add-feature', 'SKILL.md'),
-      join(skillsDir, 'quality-gate', 'SKILL.md'),
-      join(skillsDir, 'error-recovery', 'SKILL.md'),
-      join(skillsDir, 'debug-workflow', 'SKILL.md'),
-      join(skillsDir, 'sdd-workflow', 'SKILL.md'),
-      join(skillsDir, 'spec-template', 'SKILL.md'),
-      join(skillsDir, 'plan-template', 'SKILL.md'),
-    );
+    const skillFiles = await writeSkills(context, outputPath, options?.modules);
+    filesWritten.push(...skillFiles);
   }
 
   // 7. Write slash commands (.claude/commands/)
@@ -133,7 +113,7 @@ export async function runClaudeSetup(
 
   // 9. Generate and write prd.json (skipped when skipPrd is true)
   if (!options?.skipPrd) {
-    const prdContent = generatePrd(context);
+    const prdContent = generatePrd(context, options?.modules);
     const prdPath = join(outputPath, 'prd.json');
     await writeFile(prdPath, prdContent, 'utf-8');
     filesWritten.push(prdPath);
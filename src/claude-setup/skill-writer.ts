@@ -1,32 +1,61 @@
 import fs from 'fs-extra';
 import path from 'node:path';
 import type { ProjectContext } from '../core/context.js';
+import type { ModuleManifest } from '../types/module.js';
+import { collectClaudeContributions } from './module-contributions.js';
 
-async function writeSkillFile(skillsDir: string, name: string, content: string): Promise<void> {
+async function writeSkillFile(skillsDir: string, name: string, content: string): Promise<string> {
   const dir = path.join(skillsDir, name);
   await fs.ensureDir(dir);
-  await fs.writeFile(path.join(dir, 'SKILL.md'), content);
+  const skillPath = path.join(dir, 'SKILL.md');
+  await fs.writeFile(skillPath, content);
+  return skillPath;
 }
 
-export async function writeSkills(context: ProjectContext, outputPath: string): Promise<void> {
+/**
+ * Write the core skills and the skills of the enabled modules to `.claude/skills/`.
+ *
+ * @param modules - Registered module manifests, e.g. `registry.getAll()`; the built-in
+ *   modules are always known
+ * @returns Paths of the written SKILL.md files
+ */
+export async function writeSkills(
+  context: ProjectContext,
+  outputPath: string,
+  modules?: readonly ModuleManifest[],
+): Promise<string[]> {
   const skillsDir = path.join(outputPath, '.claude', 'skills');
   await fs.ensureDir(skillsDir);
 
-  await Promise.all([
-    writeSkillFile(skillsDir, 'flutter-patterns', generateFlutterPatterns()),
-    writeSkillFile(skillsDir, 'go-router-patterns', generateGoRouterPatterns(context)),
-    writeSkillFile(skillsDir, 'module-conventions', generateModuleConventions()),
-    writeSkillFile(skillsDir, 'prd', generatePrdGuide()),
-    writeSkillFile(skillsDir, 'security-review', generateSecurityReview()),
-    writeSkillFile(skillsDir, 'performance-check', generatePerformanceCheck()),
-    writeSkillFile(skillsDir, 'add-feature', generateAddFeatureSkill(context)),
-    writeSkillFile(skillsDir, 'quality-gate', generateQualityGate()),
-    writeSkillFile(skillsDir, 'error-recovery', generateErrorRecoverySkill()),
-    writeSkillFile(skillsDir, 'debug-workflow', generateDebugWorkflowSkill()),
-    writeSkillFile(skillsDir, 'sdd-workflow', generateSddWorkflowSkill()),
-    writeSkillFile(skillsDir, 'spec-template', generateSpecTemplateSkill(context)),
-    writeSkillFile(skillsDir, 'plan-template', generatePlanTemplateSkill()),
-  ]);
+  const skills: Array<[name: string, content: string]> = [
+    ['flutter-patterns', generateFlutterPatterns()],
+    ['go-router-patterns', generateGoRouterPatterns(context)],
+    ['module-conventions', generateModuleConventions()],
+    ['prd', generatePrdGuide()],
+    ['security-review', generateSecurityReview()],
+    ['performance-check', generatePerformanceCheck()],
+    ['add-feature', generateAddFeatureSkill(context)],
+    ['quality-gate', generateQualityGate()],
+    ['error-recovery', generateErrorRecoverySkill()],
+    ['debug-workflow', generateDebugWorkflowSkill()],
+    ['sdd-workflow', generateSddWorkflowSkill()],
+    ['spec-template', generateSpecTemplateSkill(context)],
+    ['plan-template', generatePlanTemplateSkill()],
+  ];
+
+  // Skills contributed by the enabled modules
+  for (const { moduleId, contribution } of collectClaudeContributions(context, modules)) {
+    for (const skill of contribution.skills ?? []) {
+      if (skills.some(([name]) => name === skill.name)) {
+        throw new Error(
+          `Module '${moduleId}' contributes a skill named '${skill.name}', which already exists`,
+        );
+      }
+      skills.push([skill.name, skill.content]);
+    }
+  }
+
+  return Promise.all(skills.map(([name, content]) => writeSkillFile(skillsDir, name, content)));
 }
 
 function generateFlutterPatterns(): string {
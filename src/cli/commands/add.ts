@@ -1,6 +1,6 @@
 import { fileURLToPath } from 'node:url';
-import { dirname, join } from 'node:path';
-import { readFile, writeFile, readdir, stat } from 'node:fs/promises';
+import { dirname, join, relative } from 'node:path';
+import { copyFile, readFile, writeFile, readdir, stat } from 'node:fs/promises';
 import { Command } from 'commander';
 import * as p from '@clack/prompts';
 import { load as yamlLoad, dump as yamlDump } from 'js-yaml';
@@ -8,20 +8,37 @@ import fsExtra from 'fs-extra';
 
 import { loadConfig, parseConfig } from '../../core/config/loader.js';
 import { createProjectContext } from '../../core/context.js';
-import { ModuleRegistry } from '../../modules/registry.js';
+import { formatExternalModuleError, loadModuleRegistry } from '../../modules/registry.js';
 import { ModuleResolver } from '../../modules/resolver.js';
-import { pickNewerVersion } from '../../modules/composer.js';
+import { runModuleHooks, writeHookChanges } from '../../modules/hooks.js';
+import { MODULE_LOCK_PATH, updateModuleLock } from '../../modules/versions.js';
+import {
+  APP_PROVIDERS_OUTPUT_PATH,
+  ModuleComposer,
+  formatVersionConflict,
+} from '../../modules/composer.js';
 import { TemplateRenderer } from '../../scaffold/renderer.js';
-import { FileWriter } from '../../scaffold/file-writer.js';
-import { runClaudeSetup } from '../../claude-setup/index.js';
+import { BASE_DIR, FileWriter } from '../../scaffold/file-writer.js';
+import {
+  GENERATION_MANIFEST_PATH,
+  createFileRecords,
+  getFileStates,
+  recordGeneratedFiles,
+  updateGenerationManifest,
+} from '../../scaffold/generation-manifest.js';
+import { withTransaction } from '../../scaffold/transaction.js';
+import { CLAUDE_SETUP_PATHS, runClaudeSetup } from '../../claude-setup/index.js';
 import {
-  buildTemplateContext,
-  collectAndRenderTemplates,
-  processPubspecPartial,
+  ENV_ACCESSOR_OUTPUT_PATH,
+  ENV_EXAMPLE_OUTPUT_PATH,
+  appendEnvVars,
+  composeModules,
+  mergePubspecContent,
 } from '../../scaffold/template-helpers.js';
 import { createSpinner } from '../ui/spinner.js';
+import { promptForProviders } from '../ui/prompts.js';
 import type { MaxsimConfig } from '../../types/config.js';
-import type { ModuleManifest } from '../../types/module.js';
+import type { ModuleManifest, PubspecDependency } from '../../types/module.js';
 import type { GeneratedFile } from '../../types/project.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -29,6 +46,23 @@ const __dirname = dirname(__filename);
 
 const { pathExists } = fsExtra;
 
+/** Generated router file (relative to the project root) that receives module routes. */
+export const ROUTER_OUTPUT_PATH = 'lib/core/router/app_router.dart';
+
+/**
+ * Outcome of writeRegeneratedFiles().
+ */
+export interface RegeneratedFilesResult {
+  /** Files replaced with the new content */
+  written: string[];
+  /** Edited files the template changes were merged into cleanly */
+  merged: string[];
+  /** Edited files written with conflict markers */
+  mergeConflicts: string[];
+  /** Edited files without a merge base, backed up to .bak before they were replaced */
+  backedUp: string[];
+}
+
 export function createAddCommand(): Command {
   const cmd = new Command('add');
 
@@ -78,9 +112,11 @@ async function runAdd(
   const config = await loadConfig(configPath);
   const enabledIds = getEnabledModuleIds(config);
 
-  // 3. Load module registry to get manifests and optional modules list
-  const registry = new ModuleRegistry();
-  await registry.loadAll();
+  // 3. Load module registry (built-in + config.externalModules) to get manifests and optional modules list
+  const { registry, externalErrors } = await loadModuleRegistry(config.externalModules, projectRoot);
+  for (const error of externalErrors) {
+    p.log.warn(formatExternalModuleError(error));
+  }
 
   // 4. Determine target module(s) — from arg or interactive prompt
   let selectedId: string;
@@ -166,19 +202,21 @@ async function runAdd(
   // 7. Resolve dependencies (auto-add required modules)
   let resolvedModuleIds: string[] = [selectedId];
   let autoDependencies: string[] = [];
+  let resolvedModules: readonly ModuleManifest[] | null = null;
 
   if (registry.has(selectedId)) {
-    try {
-      const resolver = new ModuleResolver(registry);
-      const resolved = resolver.resolve([selectedId, ...Array.from(enabledIds)]);
-      const allNewIds = resolved.ordered
-        .map((m) => m.id)
-        .filter((id) => !enabledIds.has(id) && id !== selectedId && !m_alwaysIncluded(resolved.ordered, id));
-      autoDependencies = allNewIds;
-      resolvedModuleIds = [selectedId, ...allNewIds];
-    } catch {
-      // If registry doesn't have all modules, just proceed with the selected module
-    }
+    // Enabled modules missing from the registry (e.g. an uninstalled external module) are left
+    // out; missing capabilities, conflicts and cycles are errors
+    const resolver = new ModuleResolver(registry);
+    const requestedIds = [selectedId, ...Array.from(enabledIds).filter((id) => registry.has(id))];
+    const providerChoices = await promptForProviders(resolver, requestedIds, 'Add cancelled.');
+    const resolved = resolver.resolve(requestedIds, { providerChoices });
+    resolvedModules = resolved.ordered;
+    const allNewIds = resolved.ordered
+      .map((m) => m.id)
+      .filter((id) => !enabledIds.has(id) && id !== selectedId && !m_alwaysIncluded(resolved.ordered, id));
+    autoDependencies = allNewIds;
+    resolvedModuleIds = [selectedId, ...allNewIds];
   }
 
   if (autoDependencies.length > 0) {
@@ -203,10 +241,38 @@ async function runAdd(
 
   rawConfig['modules'] = rawModules;
 
-  // Re-parse to validate
-  const updatedConfig = parseConfig(rawConfig);
+  // Re-parse to validate (module options against their manifests' config schemas)
+  const updatedConfig = parseConfig(rawConfig, registry.getAll());
   const updatedContext = createProjectContext(updatedConfig, projectRoot);
 
+  // Compose every enabled module (existing + new) the way `create` does; only the new
+  // modules' templates are rendered, while the router, provider barrel and pubspec.yaml
+  // are updated with the contributions of all of them
+  const renderer = new TemplateRenderer();
+  const composedModules = resolvedModules ?? [registry.get(selectedId)];
+  const addedModules = composedModules.filter((m) => resolvedModuleIds.includes(m.id));
+  const { templateContext, files: generatedFiles, composed } = await composeModules(
+    composedModules,
+    updatedContext,
+    {
+      renderer,
+      modulesTemplatesDir: getModulesTemplatesDir(),
+      getTemplateDir: (id) => registry.getTemplateDir(id),
+      renderModuleIds: resolvedModuleIds,
+    },
+  );
+  const routes = resolvedModules ? composed.routes : [];
+  const routerPath = join(projectRoot, ROUTER_OUTPUT_PATH);
+  const updateRouter = resolvedModules !== null && (await pathExists(routerPath));
+  const providersPath = join(projectRoot, APP_PROVIDERS_OUTPUT_PATH);
+  const updateProviders = resolvedModules !== null && (await pathExists(providersPath));
+  const envAccessorPath = join(projectRoot, ENV_ACCESSOR_OUTPUT_PATH);
+  const updateEnv = composed.envVars.length > 0 || (await pathExists(envAccessorPath));
+
+  for (const conflict of composed.conflicts) {
+    p.log.warn(formatVersionConflict(conflict));
+  }
+
   // 9. Show preview in dry-run mode
   if (dryRun) {
     p.log.info('Dry run — no files will be written.');
@@ -217,7 +283,7 @@ async function runAdd(
 
     const modulesTemplatesDir = getModulesTemplatesDir();
     for (const id of resolvedModuleIds) {
-      const moduleTemplateDir = join(modulesTemplatesDir, id);
+      const moduleTemplateDir = registry.getTemplateDir(id) ?? join(modulesTemplatesDir, id);
       if (await pathExists(moduleTemplateDir)) {
         const files = await listTemplateFiles(moduleTemplateDir);
         p.log.info(`Files that would be generated for '${id}': ${files.length} file(s)`);
@@ -228,7 +294,18 @@ async function runAdd(
     }
 
     p.log.info('pubspec.yaml would be updated with new dependencies');
-    p.log.info('maxsim.config.yaml would be updated');
+    if (updateRouter) {
+      p.log.info(`${ROUTER_OUTPUT_PATH} would be regenerated with ${routes.length} module route(s)`);
+    }
+    if (updateProviders) {
+      p.log.info(`${APP_PROVIDERS_OUTPUT_PATH} would be regenerated`);
+    }
+    if (updateEnv) {
+      p.log.info(
+        `${ENV_EXAMPLE_OUTPUT_PATH} and ${ENV_ACCESSOR_OUTPUT_PATH} would list ${composed.envVars.length} env var(s)`,
+      );
+    }
+    p.log.info(`maxsim.config.yaml and ${MODULE_LOCK_PATH} would be updated`);
     if (options.claude !== false) {
       p.log.info('CLAUDE.md would be regenerated');
     }
@@ -237,87 +314,128 @@ async function runAdd(
     return;
   }
 
-  // 10. Generate module template files
   const spinner = createSpinner(`Adding module '${selectedId}'...`);
   spinner.start();
 
-  const renderer = new TemplateRenderer();
-  const templateContext = buildTemplateContext(updatedContext);
-  const modulesTemplatesDir = getModulesTemplatesDir();
-
-  const generatedFiles: GeneratedFile[] = [];
-  const extraDeps = new Map<string, string | Record<string, unknown>>();
-  const extraDevDeps = new Map<string, string | Record<string, unknown>>();
-  const extraFlutter: Record<string, unknown> = {};
-
-  for (const id of resolvedModuleIds) {
-    const moduleTemplateDir = join(modulesTemplatesDir, id);
-    if (!(await pathExists(moduleTemplateDir))) continue;
-
-    // Render module templates (exclude pubspec.partial.yaml)
-    const moduleFiles = await collectAndRenderTemplates(
-      moduleTemplateDir,
-      templateContext,
-      renderer,
-      ['pubspec.partial.yaml'],
-    );
-    generatedFiles.push(...moduleFiles);
-
-    // Process pubspec.partial.yaml
-    const partialPath = join(moduleTemplateDir, 'pubspec.partial.yaml');
-    const partial = await processPubspecPartial(partialPath, renderer, templateContext);
-    for (const [name, version] of partial.deps) {
-      if (typeof version === 'object') {
-        extraDeps.set(name, version);
-      } else {
-        const existing = extraDeps.get(name);
-        extraDeps.set(
-          name,
-          existing !== undefined && typeof existing === 'string'
-            ? pickNewerVersion(existing, version)
-            : version,
-        );
+  // 10-16 run as a transaction: when a step throws, the project is restored to its previous state
+  const { writeResult, regenerated, pubspecUpdated, moduleMessages } = await withTransaction(
+    projectRoot,
+    async (transaction) => {
+      // 10. Write module files
+      const writer = new FileWriter({
+        outputDir: projectRoot,
+        dryRun: false,
+        overwriteMode: 'never', // don't overwrite existing files for add command
+      });
+
+      const fileMap = new Map(generatedFiles.map((f) => [f.relativePath, f.content]));
+      const beforeGenerate = await runModuleHooks(
+        addedModules,
+        'beforeGenerate',
+        updatedContext,
+        projectRoot,
+        fileMap,
+      );
+      for (const [relativePath, content] of beforeGenerate.changes) {
+        fileMap.set(relativePath, content);
       }
-    }
-    for (const [name, version] of partial.devDeps) {
-      if (typeof version === 'object') {
-        extraDevDeps.set(name, version);
-      } else {
-        const existing = extraDevDeps.get(name);
-        extraDevDeps.set(
-          name,
-          existing !== undefined && typeof existing === 'string'
-            ? pickNewerVersion(existing, version)
-            : version,
-        );
+      const moduleMessages = [...beforeGenerate.messages];
+      await transaction.track([
+        ...fileMap.keys(),
+        BASE_DIR,
+        MODULE_LOCK_PATH,
+        GENERATION_MANIFEST_PATH,
+        'pubspec.yaml',
+        'maxsim.config.yaml',
+        ENV_EXAMPLE_OUTPUT_PATH,
+        ...[ROUTER_OUTPUT_PATH, APP_PROVIDERS_OUTPUT_PATH, ENV_ACCESSOR_OUTPUT_PATH].flatMap(
+          (path) => [path, `${path}.bak`],
+        ),
+      ]);
+      const writeResult = await writer.writeAll(fileMap);
+
+      // 11. Merge pubspec.yaml
+      const pubspecUpdated = await mergePubspecYaml(
+        projectRoot,
+        composed.dependencies,
+        composed.devDependencies,
+        composed.pubspecFlutter,
+      );
+
+      // 12. Re-render app_router.dart and app_providers.dart so the new modules are wired in
+      const regeneratedFiles: GeneratedFile[] = [];
+      if (updateRouter) {
+        const routerTemplate = join(getCoreTemplatesDir(), `${ROUTER_OUTPUT_PATH}.hbs`);
+        regeneratedFiles.push({
+          relativePath: ROUTER_OUTPUT_PATH,
+          content: await renderer.renderFile(routerTemplate, templateContext),
+          templateSource: routerTemplate,
+        });
+      }
+      if (updateProviders) {
+        regeneratedFiles.push({
+          relativePath: APP_PROVIDERS_OUTPUT_PATH,
+          content: new ModuleComposer().generateAppProvidersBarrel(composed.providers),
+          templateSource: join(getCoreTemplatesDir(), `${APP_PROVIDERS_OUTPUT_PATH}.hbs`),
+        });
       }
-    }
-    Object.assign(extraFlutter, partial.flutter);
-  }
 
-  // 11. Write module files
-  const writer = new FileWriter({
-    outputDir: projectRoot,
-    dryRun: false,
-    overwriteMode: 'never', // don't overwrite existing files for add command
-  });
+      // 13. Extend .env.example and regenerate env.dart with the env vars of all modules
+      if (updateEnv) {
+        const envExamplePath = join(projectRoot, ENV_EXAMPLE_OUTPUT_PATH);
+        const envExample = (await pathExists(envExamplePath))
+          ? appendEnvVars(await readFile(envExamplePath, 'utf-8'), composed.envVars)
+          : await renderer.renderFile(
+              join(getCoreTemplatesDir(), `${ENV_EXAMPLE_OUTPUT_PATH}.hbs`),
+              templateContext,
+            );
+        await writeFile(envExamplePath, envExample, 'utf-8');
+
+        const envAccessorTemplate = join(getCoreTemplatesDir(), `${ENV_ACCESSOR_OUTPUT_PATH}.hbs`);
+        regeneratedFiles.push({
+          relativePath: ENV_ACCESSOR_OUTPUT_PATH,
+          content: await renderer.renderFile(envAccessorTemplate, templateContext),
+          templateSource: envAccessorTemplate,
+        });
+      }
 
-  const fileMap = new Map(generatedFiles.map((f) => [f.relativePath, f.content]));
-  const writeResult = await writer.writeAll(fileMap);
+      // Merged into the files, so routes and providers added by hand are kept
+      const regenerated = await writeRegeneratedFiles(projectRoot, regeneratedFiles);
+
+      // 14. Run the afterGenerate and onAdd hooks of the new modules
+      for (const hook of ['afterGenerate', 'onAdd'] as const) {
+        const result = await runModuleHooks(
+          addedModules,
+          hook,
+          updatedContext,
+          projectRoot,
+          fileMap,
+        );
+        await transaction.track(result.changes.keys());
+        await writeHookChanges(projectRoot, result.changes);
+        moduleMessages.push(...result.messages);
+      }
 
-  // 12. Merge pubspec.yaml
-  if (extraDeps.size > 0 || extraDevDeps.size > 0 || Object.keys(extraFlutter).length > 0) {
-    await mergePubspecYaml(projectRoot, extraDeps, extraDevDeps, extraFlutter);
-  }
+      // 15. Update maxsim.config.yaml, record the versions of the new modules, and record
+      //     the written and regenerated files in .maxsim/generated.json
+      const updatedYaml = yamlDump(updatedConfig, { indent: 2, lineWidth: 120 });
+      await writeFile(configPath, updatedYaml, 'utf-8');
+      await updateModuleLock(projectRoot, addedModules);
+      const written = new Set(writeResult.written);
+      await recordGeneratedFiles(
+        projectRoot,
+        generatedFiles.filter((f) => written.has(f.relativePath)),
+      );
 
-  // 13. Update maxsim.config.yaml
-  const updatedYaml = yamlDump(updatedConfig, { indent: 2, lineWidth: 120 });
-  await writeFile(configPath, updatedYaml, 'utf-8');
+      // 16. Regenerate Claude setup if enabled (unless --no-claude was passed)
+      if (updatedContext.claude.enabled && options.claude !== false) {
+        await transaction.track(CLAUDE_SETUP_PATHS);
+        await runClaudeSetup(updatedContext, projectRoot, { modules: registry.getAll() });
+      }
 
-  // 14. Regenerate Claude setup if enabled (unless --no-claude was passed)
-  if (updatedContext.claude.enabled && options.claude !== false) {
-    await runClaudeSetup(updatedContext, projectRoot);
-  }
+      return { writeResult, regenerated, pubspecUpdated, moduleMessages };
+    },
+  );
 
   spinner.succeed(`Added module '${selectedId}'`);
 
@@ -327,8 +445,21 @@ async function runAdd(
   if (writeResult.skipped.length > 0) {
     p.log.warn(`Skipped ${writeResult.skipped.length} existing file(s)`);
   }
-  if (extraDeps.size > 0) {
-    p.log.success(`Updated pubspec.yaml with ${extraDeps.size + extraDevDeps.size} dependency(ies)`);
+  if (updateRouter) {
+    p.log.success(`Updated ${ROUTER_OUTPUT_PATH}`);
+  }
+  if (updateProviders) {
+    p.log.success(`Updated ${APP_PROVIDERS_OUTPUT_PATH}`);
+  }
+  if (updateEnv) {
+    p.log.success(`Updated ${ENV_EXAMPLE_OUTPUT_PATH} and ${ENV_ACCESSOR_OUTPUT_PATH}`);
+  }
+  logRegeneratedFiles(regenerated);
+  if (pubspecUpdated) {
+    p.log.success('Updated pubspec.yaml with the new dependencies');
+  }
+  for (const message of moduleMessages) {
+    p.log.info(message);
   }
 
   p.log.info('Run `flutter pub get` to install new dependencies.');
@@ -357,35 +488,12 @@ export async function findProjectRoot(startDir: string): Promise<string | null>
  */
 export function getEnabledModuleIds(config: MaxsimConfig): Set<string> {
   const enabled = new Set<string>();
-  const m = config.modules;
 
-  if (m.auth !== undefined && m.auth !== false && m.auth.enabled !== false) {
-    enabled.add('auth');
-  }
-  if (m.api !== undefined && m.api !== false && m.api.enabled !== false) {
-    enabled.add('api');
-  }
-  if (m.database !== undefined && m.database !== false && m.database.enabled !== false) {
-    enabled.add('database');
-  }
-  if (m.i18n !== undefined && m.i18n !== false && m.i18n.enabled !== false) {
-    enabled.add('i18n');
-  }
-  if (m.theme !== undefined && m.theme !== false && m.theme.enabled !== false) {
-    enabled.add('theme');
-  }
-  if (m.push !== undefined && m.push !== false && m.push.enabled !== false) {
-    enabled.add('push');
-  }
-  if (m.analytics !== undefined && m.analytics !== false && m.analytics.enabled !== false) {
-    enabled.add('analytics');
-  }
-  if (m.cicd !== undefined && m.cicd !== false && m.cicd.enabled !== false) {
-    enabled.add('cicd');
-  }
-  const dl = m['deep-linking'];
-  if (dl !== undefined && dl !== false && dl.enabled !== false) {
-    enabled.add('deep-linking');
+  // Built-in and external modules share the same shape: false | { enabled, ...options }
+  for (const [id, mod] of Object.entries(config.modules)) {
+    if (mod !== undefined && mod !== false && mod.enabled !== false) {
+      enabled.add(id);
+    }
   }
 
   return enabled;
@@ -413,62 +521,97 @@ async function listTemplateFiles(baseDir: string): Promise<string[]> {
   return files;
 }
 
+/**
+ * Write the project files that commands regenerate from every enabled module and feature
+ * (app_router.dart, app_providers.dart, env.dart) in merge mode, so routes and providers added
+ * by hand are kept: the template changes are merged into edited files, and edited files
+ * generated before merge bases were stored are backed up to .bak and replaced. The files are
+ * recorded in .maxsim/generated.json with their generated content.
+ */
+export async function writeRegeneratedFiles(
+  projectRoot: string,
+  files: readonly GeneratedFile[],
+): Promise<RegeneratedFilesResult> {
+  const paths = files.map((f) => f.relativePath);
+  const states = await getFileStates(projectRoot, paths, () => false);
+  const backedUp: string[] = [];
+  const writer = new FileWriter({
+    outputDir: projectRoot,
+    overwriteMode: 'merge',
+    onConflict: async (filePath) => {
+      if (states.get(relative(projectRoot, filePath)) === 'modified') {
+        await copyFile(filePath, `${filePath}.bak`);
+        backedUp.push(relative(projectRoot, filePath));
+      }
+      return true;
+    },
+  });
+  const result = await writer.writeAll(new Map(files.map((f) => [f.relativePath, f.content])));
+  await updateGenerationManifest(projectRoot, createFileRecords(files, projectRoot));
+
+  return {
+    written: result.written,
+    merged: result.merged,
+    mergeConflicts: result.mergeConflicts,
+    backedUp,
+  };
+}
+
+/**
+ * Report the edited files writeRegeneratedFiles() merged into or backed up.
+ */
+export function logRegeneratedFiles(result: RegeneratedFilesResult): void {
+  if (result.merged.length > 0) {
+    p.log.info(`Kept your changes to ${result.merged.join(', ')}`);
+  }
+  if (result.backedUp.length > 0) {
+    p.log.info(`Backed up your edited ${result.backedUp.join(', ')} to .bak before replacing it`);
+  }
+  if (result.mergeConflicts.length > 0) {
+    p.log.warn(`Resolve the conflict markers in ${result.mergeConflicts.join(', ')}`);
+  }
+}
+
 /**
  * Merge additional dependencies into the project's existing pubspec.yaml.
+ * Returns true when the file was changed.
  */
 export async function mergePubspecYaml(
   projectDir: string,
-  extraDeps: Map<string, string | Record<string, unknown>>,
-  extraDevDeps: Map<string, string | Record<string, unknown>>,
-  extraFlutter: Record<string, unknown> = {},
-): Promise<void> {
+  extraDeps: ReadonlyMap<string, PubspecDependency>,
+  extraDevDeps: ReadonlyMap<string, PubspecDependency>,
+  extraFlutter: Readonly<Record<string, unknown>> = {},
+): Promise<boolean> {
   const pubspecPath = join(projectDir, 'pubspec.yaml');
-  if (!(await pathExists(pubspecPath))) return;
+  if (!(await pathExists(pubspecPath))) return false;
 
   const content = await readFile(pubspecPath, 'utf-8');
-  const pubspec = yamlLoad(content) as Record<string, unknown>;
-
-  const deps = (pubspec['dependencies'] ?? {}) as Record<string, unknown>;
-  for (const [name, version] of extraDeps) {
-    if (typeof version === 'object') {
-      deps[name] = version;
-    } else if (typeof deps[name] === 'string') {
-      deps[name] = pickNewerVersion(deps[name] as string, version);
-    } else if (deps[name] === undefined) {
-      deps[name] = version;
-    }
-  }
-  pubspec['dependencies'] = deps;
-
-  const devDeps = (pubspec['dev_dependencies'] ?? {}) as Record<string, unknown>;
-  for (const [name, version] of extraDevDeps) {
-    if (typeof version === 'object') {
-      devDeps[name] = version;
-    } else if (typeof devDeps[name] === 'string') {
-      devDeps[name] = pickNewerVersion(devDeps[name] as string, version);
-    } else if (devDeps[name] === undefined) {
-      devDeps[name] = version;
-    }
-  }
-  pubspec['dev_dependencies'] = devDeps;
-
-  if (Object.keys(extraFlutter).length > 0) {
-    const flutterSection = (pubspec['flutter'] ?? {}) as Record<string, unknown>;
-    Object.assign(flutterSection, extraFlutter);
-    pubspec['flutter'] = flutterSection;
-  }
+  const merged = mergePubspecContent(content, {
+    dependencies: extraDeps,
+    devDependencies: extraDevDeps,
+    pubspecFlutter: extraFlutter,
+  });
+  if (merged === content) return false;
 
-  await writeFile(pubspecPath, yamlDump(pubspec, { indent: 2, lineWidth: 120, noRefs: true }), 'utf-8');
+  await writeFile(pubspecPath, merged, 'utf-8');
+  return true;
 }
 
 /**
  * Resolve the modules templates directory relative to this file.
  * In dist: dist/cli/commands/add.js → dist/../../templates/modules → templates/modules
  */
-function getModulesTemplatesDir(): string {
+export function getModulesTemplatesDir(): string {
   return join(__dirname, '../../../templates/modules');
 }
 
+/**
+ * Resolve the core templates directory relative to this file.
+ */
+export function getCoreTemplatesDir(): string {
+  return join(__dirname, '../../../templates/core');
+}
+
 /**
  * Helper to check if a module ID is in the always-included set.
  */
@@ -7,8 +7,19 @@ import { loadConfig, parseConfig } from '../../core/config/loader.js';
 import { createProjectContext } from '../../core/context.js';
 import { validateEnvironment } from '../../core/validator.js';
 import { ScaffoldEngine } from '../../scaffold/engine.js';
+import { BUILT_IN_MODULE_IDS } from '../../modules/definitions/index.js';
+import { formatExternalModuleError, loadModuleRegistry } from '../../modules/registry.js';
+import type { ModuleRegistry, RegistryLoadResult } from '../../modules/registry.js';
+import { ModuleResolver } from '../../modules/resolver.js';
+import { getEnabledModuleIds } from './add.js';
 import { createSpinner } from '../ui/spinner.js';
-import { promptForProjectCreation, promptForModuleConfig, promptForPreset, getPresetModules } from '../ui/prompts.js';
+import {
+  promptForProjectCreation,
+  promptForModuleConfig,
+  promptForPreset,
+  getPresetModules,
+  promptForProviders,
+} from '../ui/prompts.js';
 import type { MaxsimConfig } from '../../types/config.js';
 
 const { writeFile, ensureDir } = fsExtra;
@@ -25,6 +36,7 @@ export function createCreateCommand(): Command {
     .option('--auth-provider <provider>', 'Auth provider: firebase|supabase|custom')
     .option('--no-claude', 'Skip .claude/ setup generation')
     .option('--dry-run', 'Preview generated files without writing')
+    .option('--flutter-create', 'Generate the native platform folders with flutter create')
     .option('--config <file>', 'Path to preset config file (maxsim.config.yaml)')
     .option('--yes', 'Accept all defaults without prompting')
     .action(async (appName: string | undefined, options: Record<string, unknown>) => {
@@ -41,53 +53,78 @@ export function createCreateCommand(): Command {
 
 /**
  * Build module configuration from a comma-separated list of module IDs.
- * Uses Zod schema defaults for all module-specific settings.
+ * Built-in modules and those of the registry (external and project-local modules) are
+ * enabled; unknown IDs are ignored. Module-specific settings use the defaults of each
+ * module's config schema unless set by a CLI flag (e.g. --auth-provider).
  */
 function buildModulesConfig(
   modulesList: string[],
   options: Record<string, unknown>,
+  registryIds: readonly string[],
 ): Record<string, unknown> {
+  const knownIds: readonly string[] = [...BUILT_IN_MODULE_IDS, ...registryIds];
   const modules: Record<string, unknown> = {};
 
   for (const mod of modulesList) {
     const id = mod.trim();
-    switch (id) {
-      case 'auth':
-        modules.auth = {
-          enabled: true,
-          provider: (options.authProvider as string) ?? undefined,
-        };
-        break;
-      case 'api':
-        modules.api = { enabled: true };
-        break;
-      case 'theme':
-        modules.theme = { enabled: true };
-        break;
-      case 'database':
-        modules.database = { enabled: true };
-        break;
-      case 'i18n':
-        modules.i18n = { enabled: true };
-        break;
-      case 'push':
-        modules.push = { enabled: true };
-        break;
-      case 'analytics':
-        modules.analytics = { enabled: true };
-        break;
-      case 'cicd':
-        modules.cicd = { enabled: true };
-        break;
-      case 'deep-linking':
-        modules['deep-linking'] = { enabled: true };
-        break;
-    }
+    if (!knownIds.includes(id)) continue;
+    modules[id] = { enabled: true };
+  }
+
+  if (modules.auth !== undefined) {
+    modules.auth = { enabled: true, provider: (options.authProvider as string) ?? undefined };
   }
 
   return modules;
 }
 
+/**
+ * Enable a provider for each capability the enabled modules require that several modules
+ * provide and no enabled module does. The provider is asked for interactively; otherwise
+ * the choice is ambiguous and an error, rather than silently the first provider by ID.
+ *
+ * @throws Error naming the candidates when a provider is ambiguous and `interactive` is false
+ */
+async function enableCapabilityProviders(
+  config: MaxsimConfig,
+  registry: ModuleRegistry,
+  interactive: boolean,
+): Promise<MaxsimConfig> {
+  const resolver = new ModuleResolver(registry);
+  const enabledIds = [...getEnabledModuleIds(config)].filter((id) => registry.has(id));
+
+  if (!interactive) {
+    const [open] = resolver.findCapabilityChoices(enabledIds);
+    if (open) {
+      const candidates = open.candidates.map((m) => m.id);
+      throw new Error(
+        `Ambiguous provider for '${open.capability}': '${open.requiredBy}' requires it and ` +
+          `several modules provide it (${candidates.join(', ')}). Enable the one to use, e.g. ` +
+          `--modules ${[...enabledIds, candidates[0]].join(',')} or in maxsim.config.yaml.`,
+      );
+    }
+    return config;
+  }
+
+  const providerChoices = await promptForProviders(
+    resolver,
+    enabledIds,
+    'Project creation cancelled.',
+  );
+  const providers = Object.values(providerChoices);
+  if (providers.length === 0) return config;
+  return parseConfig(
+    {
+      ...config,
+      modules: {
+        ...config.modules,
+        ...Object.fromEntries(providers.map((id) => [id, { enabled: true }])),
+      },
+    },
+    registry.getAll(),
+  );
+}
+
 async function runCreate(
   appName: string | undefined,
   options: Record<string, unknown>,
@@ -95,6 +132,7 @@ async function runCreate(
   p.intro('maxsim-flutter — Create a new Flutter app');
 
   let config: MaxsimConfig;
+  let loaded: RegistryLoadResult | undefined;
 
   if (options.config) {
     // Load from config file
@@ -106,7 +144,8 @@ async function runCreate(
     const modulesList = options.modules
       ? (options.modules as string).split(',')
       : [];
-    const modules = buildModulesConfig(modulesList, options);
+    loaded = await loadModuleRegistry([], join(process.cwd(), name));
+    const modules = buildModulesConfig(modulesList, options, loaded.registry.getAllOptionalIds());
 
     config = parseConfig({
       project: {
@@ -120,6 +159,7 @@ async function runCreate(
       claude: { preset: 'standard' },
       scaffold: {
         dryRun: options.dryRun === true,
+        runFlutterCreate: options.flutterCreate === true,
       },
     });
   } else {
@@ -152,11 +192,23 @@ async function runCreate(
       claude: isCustom ? {} : { preset: presetId as 'minimal' | 'standard' | 'full' },
       scaffold: {
         dryRun: options.dryRun === true,
+        runFlutterCreate: options.flutterCreate === true,
       },
     });
   }
 
   const outputDir = join(process.cwd(), config.project.name);
+
+  // Load the module registry (built-in, config.externalModules and the output directory's
+  // .maxsim/modules) and parse again, so external and project-local module options are
+  // validated against their config schemas and get their defaults
+  const { registry, externalErrors } =
+    loaded ?? (await loadModuleRegistry(config.externalModules, outputDir));
+  for (const error of externalErrors) {
+    p.log.warn(formatExternalModuleError(error));
+  }
+  config = parseConfig(config, registry.getAll());
+  config = await enableCapabilityProviders(config, registry, !options.yes && !options.config);
   const context = createProjectContext(config, outputDir);
 
   // Validate environment (non-blocking)
@@ -165,12 +217,16 @@ async function runCreate(
     p.log.warn('Some tools may be missing: ' + validation.errors.join(', '));
     p.log.info('Continuing with scaffold (post-processors may be skipped)');
   }
+  for (const warning of validation.warnings) {
+    p.log.warn(warning);
+  }
 
   const spinner = createSpinner('Generating Flutter project...');
   spinner.start();
 
   const engine = new ScaffoldEngine({
     noClaude: options.claude === false,
+    registry,
   });
   const result = await engine.run(context);
 
@@ -188,13 +244,49 @@ async function runCreate(
     p.log.warn(`Skipped ${result.filesSkipped.length} existing files`);
   }
 
-  if (result.postProcessorsRun.length > 0) {
-    p.log.info(`Ran: ${result.postProcessorsRun.join(', ')}`);
+  if (result.filesMerged.length > 0) {
+    p.log.info(`Merged template changes into ${result.filesMerged.length} edited files`);
+  }
+
+  if (result.mergeConflicts.length > 0) {
+    p.log.warn(
+      `Resolve the conflict markers in ${result.mergeConflicts.length} file(s):\n` +
+        result.mergeConflicts.map((f) => `  ${f}`).join('\n'),
+    );
+  }
+
+  if (result.nativePlatforms.length > 0) {
+    p.log.info(
+      `Added native platform folders: ${result.nativePlatforms.map((dir) => `${dir}/`).join(', ')}`,
+    );
+  }
+
+  for (const err of result.nativePlatformErrors) {
+    p.log.warn(err);
+  }
+
+  const succeeded = result.postProcessorResults.filter((r) => r.status === 'success');
+  if (succeeded.length > 0) {
+    p.log.info(
+      `Ran: ${succeeded.map((r) => `${r.id} (${(r.durationMs / 1000).toFixed(1)}s)`).join(', ')}`,
+    );
   }
 
   for (const err of result.postProcessorErrors) {
     p.log.warn(err);
   }
 
+  for (const err of result.externalModuleErrors) {
+    p.log.warn(err);
+  }
+
+  for (const conflict of result.dependencyConflicts) {
+    p.log.warn(conflict);
+  }
+
+  for (const message of result.moduleMessages) {
+    p.log.info(message);
+  }
+
   p.outro(`Project created! Run:\n  cd ${config.project.name}\n  flutter run`);
 }
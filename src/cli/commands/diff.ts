@@ -0,0 +1,154 @@
+import { join } from 'node:path';
+import { Command } from 'commander';
+import * as p from '@clack/prompts';
+import chalk from 'chalk';
+
+import { loadConfig, parseConfig } from '../../core/config/loader.js';
+import { createProjectContext } from '../../core/context.js';
+import { formatExternalModuleError, loadModuleRegistry } from '../../modules/registry.js';
+import { diffProject } from '../../scaffold/project-diff.js';
+import type { FileDiff, ProjectDiff } from '../../scaffold/project-diff.js';
+import { findProjectRoot } from './add.js';
+
+/** Widest `+`/`-` bar printed by --stat. */
+const MAX_STAT_BAR = 40;
+
+/**
+ * Commander command factory for the diff command.
+ * Usage: maxsim-flutter diff [path] [--stat] [--json]
+ */
+export function createDiffCommand(): Command {
+  const cmd = new Command('diff');
+
+  cmd
+    .description('Show what regenerating the project from maxsim.config.yaml would change')
+    .argument('[path]', 'Path to the project root (default: current directory)')
+    .option('--stat', 'Only list the changed files with their added and deleted line counts')
+    .option('--json', 'Print the changes as JSON (for CI)')
+    .action(async (pathArg: string | undefined, options: Record<string, unknown>) => {
+      try {
+        await runDiff(pathArg, options);
+      } catch (err) {
+        p.log.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runDiff(
+  pathArg: string | undefined,
+  options: Record<string, unknown>,
+): Promise<void> {
+  const stat = options.stat === true;
+  const json = options.json === true;
+
+  const searchDir = pathArg ?? process.cwd();
+  const projectRoot = await findProjectRoot(searchDir);
+  if (!projectRoot) {
+    throw new Error(
+      `No maxsim.config.yaml found in ${searchDir} or its parent directories.\n` +
+        'Run this command from inside a maxsim-flutter project, or pass the path as an argument.',
+    );
+  }
+
+  const rawConfig = await loadConfig(join(projectRoot, 'maxsim.config.yaml'));
+  const { registry, externalErrors } = await loadModuleRegistry(
+    rawConfig.externalModules,
+    projectRoot,
+  );
+  const config = parseConfig(rawConfig, registry.getAll());
+  const diff = await diffProject(createProjectContext(config, projectRoot), { registry });
+  const warnings = [...externalErrors.map(formatExternalModuleError), ...diff.postProcessorErrors];
+
+  if (json) {
+    console.log(JSON.stringify(toJson(projectRoot, diff, warnings, stat), null, 2));
+    return;
+  }
+
+  p.intro('maxsim-flutter — Diff');
+  p.log.info(`Project: ${chalk.cyan(projectRoot)}`);
+  for (const warning of warnings) {
+    p.log.warn(warning);
+  }
+
+  if (diff.files.length === 0) {
+    p.outro('No changes — the project matches its templates.');
+    return;
+  }
+
+  if (stat) {
+    console.log(formatStat(diff.files));
+  } else {
+    for (const file of diff.files) {
+      process.stdout.write(colorDiff(file.text));
+    }
+  }
+  p.outro(formatSummary(diff.files));
+}
+
+/** JSON output: every changed file with its counts (and diff, unless --stat), plus totals. */
+function toJson(projectRoot: string, diff: ProjectDiff, warnings: string[], stat: boolean) {
+  return {
+    projectRoot,
+    files: diff.files.map((f) => ({
+      path: f.path,
+      status: f.status,
+      additions: f.additions,
+      deletions: f.deletions,
+      ...(stat ? {} : { diff: f.text }),
+    })),
+    summary: {
+      files: diff.files.length,
+      additions: sum(diff.files, 'additions'),
+      deletions: sum(diff.files, 'deletions'),
+    },
+    warnings,
+  };
+}
+
+/**
+ * `git diff --stat` style listing: path, changed line count and a `+`/`-` bar
+ * (scaled down when the largest change is wider than MAX_STAT_BAR).
+ */
+export function formatStat(files: readonly FileDiff[]): string {
+  const pathWidth = Math.max(...files.map((f) => f.path.length));
+  const maxChanges = Math.max(...files.map((f) => f.additions + f.deletions));
+  const countWidth = String(maxChanges).length;
+  const scale = maxChanges > MAX_STAT_BAR ? MAX_STAT_BAR / maxChanges : 1;
+
+  const lines = files.map((f) => {
+    const plus = Math.ceil(f.additions * scale);
+    const minus = Math.ceil(f.deletions * scale);
+    const count = String(f.additions + f.deletions).padStart(countWidth);
+    return (
+      ` ${f.path.padEnd(pathWidth)} | ${count} ` +
+      chalk.green('+'.repeat(plus)) +
+      chalk.red('-'.repeat(minus))
+    );
+  });
+  return lines.join('\n');
+}
+
+function formatSummary(files: readonly FileDiff[]): string {
+  const added = files.filter((f) => f.status === 'added').length;
+  return (
+    `${files.length} file(s) would change (${added} new), ` +
+    `${sum(files, 'additions')} insertion(s)(+), ${sum(files, 'deletions')} deletion(s)(-)`
+  );
+}
+
+function colorDiff(text: string): string {
+  return text.replace(/^.*$/gm, (line) => {
+    if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+    if (line.startsWith('@@')) return chalk.cyan(line);
+    if (line.startsWith('+')) return chalk.green(line);
+    if (line.startsWith('-')) return chalk.red(line);
+    return line;
+  });
+}
+
+function sum(files: readonly FileDiff[], key: 'additions' | 'deletions'): number {
+  return files.reduce((total, f) => total + f[key], 0);
+}
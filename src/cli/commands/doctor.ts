@@ -0,0 +1,325 @@
+import { readdir, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Command } from 'commander';
+import * as p from '@clack/prompts';
+import chalk from 'chalk';
+import fsExtra from 'fs-extra';
+
+import { loadConfig, parseConfig } from '../../core/config/loader.js';
+import { createProjectContext } from '../../core/context.js';
+import {
+  checkSdkVersions,
+  getToolVersionOutput,
+  parseToolVersions,
+  readSdkConstraints,
+} from '../../core/validator.js';
+import { formatExternalModuleError, loadModuleRegistry } from '../../modules/registry.js';
+import type { ModuleRegistry } from '../../modules/registry.js';
+import { ScaffoldEngine } from '../../scaffold/engine.js';
+import type { RenderedProject } from '../../scaffold/engine.js';
+import type { MaxsimConfig } from '../../types/config.js';
+import { findProjectRoot } from './add.js';
+
+const { pathExists } = fsExtra;
+
+/** Missing files listed per module before the list is cut short. */
+const MAX_LISTED_FILES = 5;
+
+export type DoctorStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * Outcome of one doctor check.
+ */
+export interface DoctorCheck {
+  status: DoctorStatus;
+  message: string;
+  /** Suggested fix for warnings and failures */
+  fix?: string;
+}
+
+/**
+ * Commander command factory for the doctor command.
+ * Usage: maxsim-flutter doctor [path]
+ */
+export function createDoctorCommand(): Command {
+  const cmd = new Command('doctor');
+
+  cmd
+    .description('Check the tools and the health of a maxsim-flutter project')
+    .argument('[path]', 'Path to the project root (default: current directory)')
+    .action(async (pathArg: string | undefined) => {
+      try {
+        await runDoctor(pathArg);
+      } catch (err) {
+        p.log.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runDoctor(pathArg: string | undefined): Promise<void> {
+  p.intro('maxsim-flutter — Doctor');
+
+  p.log.info(chalk.bold('Tools'));
+  const checks = await checkTools();
+  printChecks(checks);
+
+  const searchDir = pathArg ?? process.cwd();
+  const projectRoot = await findProjectRoot(searchDir);
+  p.log.info(chalk.bold('Project'));
+  const projectChecks: DoctorCheck[] = projectRoot
+    ? await checkProject(projectRoot)
+    : [
+        {
+          status: 'fail',
+          message: `No maxsim.config.yaml found in ${searchDir} or its parent directories`,
+          fix: 'Run this command from inside a maxsim-flutter project, or pass the path as an argument',
+        },
+      ];
+  if (projectRoot) p.log.message(`Project: ${chalk.cyan(projectRoot)}`);
+  printChecks(projectChecks);
+  checks.push(...projectChecks);
+
+  const count = (status: DoctorStatus): number => checks.filter((c) => c.status === status).length;
+  const summary = `${count('pass')} passed, ${count('warn')} warning(s), ${count('fail')} failed`;
+  if (count('fail') > 0) {
+    p.outro(chalk.red(summary));
+    process.exitCode = 1;
+  } else {
+    p.outro(count('warn') > 0 ? chalk.yellow(summary) : chalk.green(summary));
+  }
+}
+
+function printChecks(checks: readonly DoctorCheck[]): void {
+  for (const check of checks) {
+    const fix = check.fix ? `\n${chalk.dim(`→ ${check.fix}`)}` : '';
+    if (check.status === 'pass') {
+      p.log.success(check.message);
+    } else if (check.status === 'warn') {
+      p.log.warn(check.message + fix);
+    } else {
+      p.log.error(check.message + fix);
+    }
+  }
+}
+
+/**
+ * Check that flutter, dart and git are installed, and that the Flutter and Dart versions
+ * satisfy the SDK constraints of generated projects.
+ */
+export async function checkTools(): Promise<DoctorCheck[]> {
+  const [flutterOutput, dartOutput, gitOutput] = await Promise.all([
+    getToolVersionOutput('flutter'),
+    getToolVersionOutput('dart'),
+    getToolVersionOutput('git'),
+  ]);
+  const constraints = await readSdkConstraints();
+  const checks: DoctorCheck[] = [];
+
+  for (const [tool, output, constraint, install] of [
+    [
+      'flutter',
+      flutterOutput,
+      constraints.flutter,
+      'Install Flutter: https://docs.flutter.dev/get-started/install',
+    ],
+    ['dart', dartOutput, constraints.dart, 'Dart ships with Flutter: add flutter/bin to your PATH'],
+  ] as const) {
+    if (output === undefined) {
+      checks.push({
+        status: 'fail',
+        message: `${tool} is not installed or not found in PATH`,
+        fix: install,
+      });
+      continue;
+    }
+    const version = parseToolVersions(output)[tool];
+    const [warning] = checkSdkVersions({ [tool]: version }, constraints);
+    if (warning) {
+      checks.push({ status: 'warn', message: warning, fix: 'Run `flutter upgrade`' });
+    } else {
+      checks.push({
+        status: 'pass',
+        message: version
+          ? `${tool} ${version}${constraint ? ` (requires ${constraint})` : ''}`
+          : `${tool} is installed`,
+      });
+    }
+  }
+
+  checks.push(
+    gitOutput === undefined
+      ? {
+          status: 'fail',
+          message: 'git is not installed or not found in PATH',
+          fix: 'Install git: https://git-scm.com/downloads',
+        }
+      : { status: 'pass', message: 'git is installed' },
+  );
+
+  return checks;
+}
+
+/**
+ * Check a maxsim-flutter project: its config, the files of its enabled modules, its platform
+ * folders and its Claude hooks.
+ */
+export async function checkProject(projectRoot: string): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+
+  let config: MaxsimConfig;
+  let registry: ModuleRegistry;
+  try {
+    const rawConfig = await loadConfig(join(projectRoot, 'maxsim.config.yaml'));
+    const loaded = await loadModuleRegistry(rawConfig.externalModules, projectRoot);
+    for (const error of loaded.externalErrors) {
+      checks.push({
+        status: 'warn',
+        message: formatExternalModuleError(error),
+        fix: 'Fix or remove the entry in externalModules of maxsim.config.yaml',
+      });
+    }
+    registry = loaded.registry;
+    config = parseConfig(rawConfig, registry.getAll());
+  } catch (err) {
+    checks.push({
+      status: 'fail',
+      message: err instanceof Error ? err.message : String(err),
+      fix: 'Fix maxsim.config.yaml, then run `maxsim-flutter doctor` again',
+    });
+    return [...checks, ...(await checkClaudeHooks(projectRoot))];
+  }
+  checks.push({ status: 'pass', message: 'maxsim.config.yaml is valid' });
+
+  checks.push(...(await checkModuleFiles(projectRoot, config, registry)));
+  checks.push(...(await checkPlatforms(projectRoot, config.platforms)));
+  checks.push(...(await checkClaudeHooks(projectRoot)));
+  return checks;
+}
+
+/**
+ * Check that every file the enabled modules generate exists in the project.
+ * Fails when the modules cannot be rendered (e.g. an unresolvable requirement or a broken
+ * template).
+ */
+export async function checkModuleFiles(
+  projectRoot: string,
+  config: MaxsimConfig,
+  registry: ModuleRegistry,
+): Promise<DoctorCheck[]> {
+  let rendered: RenderedProject;
+  try {
+    rendered = await new ScaffoldEngine({ registry, noClaude: true }).render(
+      createProjectContext(config, projectRoot),
+    );
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    return [
+      {
+        status: 'fail',
+        message: `Cannot render the enabled modules: ${reason}`,
+        fix: 'Fix the modules in maxsim.config.yaml (`maxsim-flutter why <module>` explains them)',
+      },
+    ];
+  }
+  const modules = rendered.modules.filter((m) => !m.alwaysIncluded);
+  if (modules.length === 0) {
+    return [{ status: 'pass', message: 'No optional modules enabled' }];
+  }
+
+  const checks: DoctorCheck[] = [];
+  for (const module of modules) {
+    const missing: string[] = [];
+    for (const file of rendered.generatedFiles.filter((f) => f.module === module.id)) {
+      if (!(await pathExists(join(projectRoot, file.relativePath)))) {
+        missing.push(file.relativePath);
+      }
+    }
+    if (missing.length === 0) continue;
+
+    const listed = missing.slice(0, MAX_LISTED_FILES).join(', ');
+    const more =
+      missing.length > MAX_LISTED_FILES ? ` and ${missing.length - MAX_LISTED_FILES} more` : '';
+    checks.push({
+      status: 'fail',
+      message: `Module '${module.id}' is missing ${missing.length} file(s): ${listed}${more}`,
+      fix: 'Restore the files from version control, or see them with `maxsim-flutter diff`',
+    });
+  }
+
+  if (checks.length === 0) {
+    checks.push({
+      status: 'pass',
+      message: `All files of the enabled modules exist (${modules.map((m) => m.id).join(', ')})`,
+    });
+  }
+  return checks;
+}
+
+/**
+ * Check that the project has a folder for each configured platform.
+ */
+export async function checkPlatforms(
+  projectRoot: string,
+  platforms: readonly string[],
+): Promise<DoctorCheck[]> {
+  const missing: string[] = [];
+  for (const platform of platforms) {
+    if (!(await pathExists(join(projectRoot, platform)))) missing.push(platform);
+  }
+  if (missing.length === 0) {
+    return [{ status: 'pass', message: `Platform folders exist (${platforms.join(', ')})` }];
+  }
+  return [
+    {
+      status: 'warn',
+      message: `Platform folder(s) missing: ${missing.join(', ')}`,
+      fix: `Run \`flutter create --platforms=${missing.join(',')} .\` in the project`,
+    },
+  ];
+}
+
+/**
+ * Check that the hook scripts in .claude/hooks/ are executable, and that jq (which
+ * protect-secrets.sh uses to read the tool input) is installed.
+ * Projects without Claude hooks are not checked.
+ */
+export async function checkClaudeHooks(projectRoot: string): Promise<DoctorCheck[]> {
+  const hooksDir = join(projectRoot, '.claude', 'hooks');
+  if (!(await pathExists(hooksDir))) return [];
+
+  const checks: DoctorCheck[] = [];
+  const scripts = (await readdir(hooksDir)).filter((f) => f.endsWith('.sh'));
+
+  if (process.platform !== 'win32') {
+    const notExecutable: string[] = [];
+    for (const script of scripts) {
+      if (((await stat(join(hooksDir, script))).mode & 0o111) === 0) notExecutable.push(script);
+    }
+    checks.push(
+      notExecutable.length === 0
+        ? { status: 'pass', message: 'Claude hooks are executable' }
+        : {
+            status: 'fail',
+            message: `Claude hook(s) not executable: ${notExecutable.join(', ')}`,
+            fix: 'Run `chmod +x .claude/hooks/*.sh`',
+          },
+    );
+  }
+
+  if (scripts.includes('protect-secrets.sh')) {
+    checks.push(
+      (await getToolVersionOutput('jq')) === undefined
+        ? {
+            status: 'warn',
+            message: 'jq is not installed, so protect-secrets.sh cannot block access to secrets',
+            fix: 'Install jq: https://jqlang.github.io/jq/download/',
+          }
+        : { status: 'pass', message: 'jq is installed (used by protect-secrets.sh)' },
+    );
+  }
+
+  return checks;
+}
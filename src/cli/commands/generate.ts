@@ -0,0 +1,333 @@
+import { join } from 'node:path';
+import { readFile, writeFile } from 'node:fs/promises';
+import { Command } from 'commander';
+import * as p from '@clack/prompts';
+import { load as yamlLoad, dump as yamlDump } from 'js-yaml';
+import fsExtra from 'fs-extra';
+
+import { loadConfig, parseConfig } from '../../core/config/loader.js';
+import { createProjectContext } from '../../core/context.js';
+import {
+  ARTIFACT_KINDS,
+  ARTIFACT_LAYERS,
+  parseArtifactTarget,
+  renderArtifact,
+  renderFeature,
+} from '../../generate/index.js';
+import type { ArtifactKind } from '../../generate/index.js';
+import { formatExternalModuleError, loadModuleRegistry } from '../../modules/registry.js';
+import type { ModuleRegistry } from '../../modules/registry.js';
+import { ModuleResolver } from '../../modules/resolver.js';
+import { FileWriter } from '../../scaffold/file-writer.js';
+import { recordGeneratedFiles } from '../../scaffold/generation-manifest.js';
+import { TemplateRenderer, toSnakeCase } from '../../scaffold/renderer.js';
+import { composeModules } from '../../scaffold/template-helpers.js';
+import type { TemplateRoute } from '../../scaffold/template-helpers.js';
+import type { MaxsimConfig } from '../../types/config.js';
+import type { ModuleManifest } from '../../types/module.js';
+import type { GeneratedFile } from '../../types/project.js';
+import {
+  ROUTER_OUTPUT_PATH,
+  findProjectRoot,
+  getCoreTemplatesDir,
+  getEnabledModuleIds,
+  getModulesTemplatesDir,
+  logRegeneratedFiles,
+  mergePubspecYaml,
+  writeRegeneratedFiles,
+} from './add.js';
+
+const { pathExists } = fsExtra;
+
+/** Descriptions of the artifacts the `generate` subcommands write into an existing feature. */
+const ARTIFACT_DESCRIPTIONS: Record<ArtifactKind, string> = {
+  usecase: 'use case',
+  repository: 'repository interface and implementation',
+  datasource: 'data source',
+  model: 'freezed JSON model',
+  provider: 'Riverpod provider',
+  page: 'page',
+};
+
+/**
+ * Commander command factory for the generate command.
+ * Usage: maxsim-flutter generate feature <name> [options]
+ *        maxsim-flutter generate usecase|provider|page|repository|datasource|model <feature>/<name>
+ */
+export function createGenerateCommand(): Command {
+  const cmd = new Command('generate');
+
+  cmd.description('Generate code in an existing maxsim-flutter project');
+
+  cmd
+    .command('feature')
+    .description('Generate a Clean Architecture feature in lib/features/<name>/')
+    .argument('<name>', 'Feature name in snake_case, e.g. order_items')
+    .option('--project-dir <path>', 'Path to the project directory (default: current directory)')
+    .option('--route <path>', 'Route path of the feature page (default: /<name in kebab-case>)')
+    .option('--crud', 'Add create, update and delete operations')
+    .option('--list-detail', 'Add a detail page at <route>/:id')
+    .option('--offline-cache', 'Cache the items on the device and show them while offline')
+    .option('--dry-run', 'Preview changes without writing files')
+    .action(async (name: string, options: Record<string, unknown>) => {
+      try {
+        await runGenerateFeature(name, options);
+      } catch (err) {
+        p.log.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+
+  for (const kind of ARTIFACT_KINDS) {
+    const layers = ARTIFACT_LAYERS[kind].map((layer) => `${layer}/`).join(' and ');
+    cmd
+      .command(kind)
+      .description(
+        `Generate a ${ARTIFACT_DESCRIPTIONS[kind]} (with a test) in ${layers} of a feature`,
+      )
+      .argument('<target>', '<feature>/<name>, e.g. orders/get_orders')
+      .option('--project-dir <path>', 'Path to the project directory (default: current directory)')
+      .option('--dry-run', 'Preview changes without writing files')
+      .action(async (target: string, options: Record<string, unknown>) => {
+        try {
+          await runGenerateArtifact(kind, target, options);
+        } catch (err) {
+          p.log.error(err instanceof Error ? err.message : String(err));
+          process.exit(1);
+        }
+      });
+  }
+
+  return cmd;
+}
+
+async function runGenerateFeature(
+  nameArg: string,
+  options: Record<string, unknown>,
+): Promise<void> {
+  const dryRun = options.dryRun === true;
+
+  p.intro(`maxsim-flutter — Generate a feature${dryRun ? ' (dry run)' : ''}`);
+
+  // 1. Detect project root and load the config with the project's modules
+  const { projectRoot, configPath, config, registry } = await loadProject(options);
+
+  // 2. Render the feature
+  const name = toSnakeCase(nameArg.trim());
+  const featureDir = `lib/features/${name}`;
+  if (
+    (config.features ?? []).some((f) => f.name === name) ||
+    (await pathExists(join(projectRoot, featureDir)))
+  ) {
+    throw new Error(`Feature '${name}' already exists in ${featureDir}/`);
+  }
+
+  const generation = await renderFeature(createProjectContext(config, projectRoot), {
+    name,
+    route: typeof options.route === 'string' ? options.route : undefined,
+    crud: options.crud === true,
+    listDetail: options.listDetail === true,
+    offlineCache: options.offlineCache === true,
+  });
+
+  // 3. Add the feature to the config and compose the router routes with it
+  const rawConfig = yamlLoad(await readFile(configPath, 'utf-8')) as Record<string, unknown>;
+  const rawFeatures = (rawConfig['features'] ?? []) as unknown[];
+  rawConfig['features'] = [...rawFeatures, generation.feature];
+  const updatedConfig = parseConfig(rawConfig, registry.getAll());
+
+  const renderer = new TemplateRenderer();
+  const { templateContext } = await composeModules(
+    resolveEnabledModules(updatedConfig, registry),
+    createProjectContext(updatedConfig, projectRoot),
+    {
+      renderer,
+      modulesTemplatesDir: getModulesTemplatesDir(),
+      getTemplateDir: (id) => registry.getTemplateDir(id),
+      renderModuleIds: [],
+    },
+  );
+  const route = generation.feature.route;
+  const routes = templateContext['routes'] as TemplateRoute[];
+  if (route === '/' || routes.filter((r) => r.path === route).length > 1) {
+    throw new Error(`Route '${route}' is already used. Choose another one with --route.`);
+  }
+
+  const routerPath = join(projectRoot, ROUTER_OUTPUT_PATH);
+  const updateRouter = await pathExists(routerPath);
+
+  // 4. Show preview in dry-run mode
+  if (dryRun) {
+    p.log.info('Dry run — no files will be written.');
+    p.log.info(`Files that would be generated: ${generation.files.length} file(s)`);
+    for (const file of generation.files) {
+      p.log.step(`  + ${file.relativePath}`);
+    }
+    if (generation.dependencies.size > 0) {
+      p.log.info(
+        `pubspec.yaml would be updated with: ${[...generation.dependencies.keys()].join(', ')}`,
+      );
+    }
+    if (updateRouter) {
+      p.log.info(`${ROUTER_OUTPUT_PATH} would be regenerated with the route ${route}`);
+    }
+    p.log.info('maxsim.config.yaml would list the feature');
+    p.outro('Dry run complete — no changes made.');
+    return;
+  }
+
+  // 5. Write the feature files, merge its dependencies and re-render the router
+  const writer = new FileWriter({
+    outputDir: projectRoot,
+    dryRun: false,
+    overwriteMode: 'never',
+  });
+  const writeResult = await writer.writeAll(
+    new Map(generation.files.map((f) => [f.relativePath, f.content])),
+  );
+  const pubspecUpdated = await mergePubspecYaml(projectRoot, generation.dependencies, new Map());
+
+  const regeneratedFiles: GeneratedFile[] = [];
+  if (updateRouter) {
+    const routerTemplate = join(getCoreTemplatesDir(), `${ROUTER_OUTPUT_PATH}.hbs`);
+    regeneratedFiles.push({
+      relativePath: ROUTER_OUTPUT_PATH,
+      content: await renderer.renderFile(routerTemplate, templateContext),
+      templateSource: routerTemplate,
+    });
+  }
+  // Merged into the router, so routes added by hand are kept
+  const regenerated = await writeRegeneratedFiles(projectRoot, regeneratedFiles);
+
+  // 6. Update maxsim.config.yaml and record the files in .maxsim/generated.json
+  await writeFile(configPath, yamlDump(updatedConfig, { indent: 2, lineWidth: 120 }), 'utf-8');
+  const written = new Set(writeResult.written);
+  await recordGeneratedFiles(
+    projectRoot,
+    generation.files.filter((f) => written.has(f.relativePath)),
+  );
+
+  p.log.success(`Generated ${writeResult.written.length} file(s)`);
+  if (writeResult.skipped.length > 0) {
+    p.log.warn(`Skipped ${writeResult.skipped.length} existing file(s)`);
+  }
+  if (updateRouter) {
+    p.log.success(`Updated ${ROUTER_OUTPUT_PATH} with the route ${route}`);
+  }
+  logRegeneratedFiles(regenerated);
+  if (pubspecUpdated) {
+    p.log.success('Updated pubspec.yaml with the new dependencies');
+    p.log.info('Run `flutter pub get` to install new dependencies.');
+  }
+  p.log.info(
+    'Run `dart run build_runner build --delete-conflicting-outputs` to generate the ' +
+      'freezed, JSON and Riverpod code.',
+  );
+  p.outro(`Feature '${name}' generated in ${featureDir}/`);
+}
+
+async function runGenerateArtifact(
+  kind: ArtifactKind,
+  targetArg: string,
+  options: Record<string, unknown>,
+): Promise<void> {
+  const dryRun = options.dryRun === true;
+
+  p.intro(
+    `maxsim-flutter — Generate a ${ARTIFACT_DESCRIPTIONS[kind]}${dryRun ? ' (dry run)' : ''}`,
+  );
+
+  const target = parseArtifactTarget(kind, targetArg.trim());
+  const { projectRoot, config } = await loadProject(options);
+
+  const featureDir = `lib/features/${target.feature}`;
+  if (!(await pathExists(join(projectRoot, featureDir)))) {
+    throw new Error(
+      `Feature '${target.feature}' does not exist in ${featureDir}/. ` +
+        `Create it with \`maxsim-flutter generate feature ${target.feature}\`.`,
+    );
+  }
+
+  const files = await renderArtifact(createProjectContext(config, projectRoot), kind, target);
+  const existing: string[] = [];
+  for (const file of files) {
+    if (await pathExists(join(projectRoot, file.relativePath))) existing.push(file.relativePath);
+  }
+  if (existing.length > 0) {
+    throw new Error(`Refusing to overwrite existing file(s): ${existing.join(', ')}`);
+  }
+
+  if (dryRun) {
+    p.log.info('Dry run — no files will be written.');
+    p.log.info(`Files that would be generated: ${files.length} file(s)`);
+    for (const file of files) {
+      p.log.step(`  + ${file.relativePath}`);
+    }
+    p.outro('Dry run complete — no changes made.');
+    return;
+  }
+
+  const writer = new FileWriter({
+    outputDir: projectRoot,
+    dryRun: false,
+    overwriteMode: 'never',
+  });
+  const writeResult = await writer.writeAll(new Map(files.map((f) => [f.relativePath, f.content])));
+  await recordGeneratedFiles(projectRoot, files);
+
+  for (const relativePath of writeResult.written) {
+    p.log.success(`Created ${relativePath}`);
+  }
+  if (kind === 'model' || kind === 'provider') {
+    p.log.info(
+      'Run `dart run build_runner build --delete-conflicting-outputs` to generate the ' +
+        `${kind === 'model' ? 'freezed and JSON' : 'Riverpod'} code.`,
+    );
+  }
+  p.outro(`Generated ${ARTIFACT_DESCRIPTIONS[kind]} '${target.name}' in ${featureDir}/`);
+}
+
+/**
+ * Find the project from --project-dir (or the current directory) and load its config,
+ * validated against its modules.
+ */
+async function loadProject(options: Record<string, unknown>): Promise<{
+  projectRoot: string;
+  configPath: string;
+  config: MaxsimConfig;
+  registry: ModuleRegistry;
+}> {
+  const searchDir = options.projectDir ? String(options.projectDir) : process.cwd();
+  const projectRoot = await findProjectRoot(searchDir);
+  if (!projectRoot) {
+    throw new Error(
+      `No maxsim.config.yaml found in ${searchDir} or its parent directories.\n` +
+        'Run this command from inside a maxsim-flutter project, or use --project-dir.',
+    );
+  }
+
+  const configPath = join(projectRoot, 'maxsim.config.yaml');
+  const loadedConfig = await loadConfig(configPath);
+  const { registry, externalErrors } = await loadModuleRegistry(
+    loadedConfig.externalModules,
+    projectRoot,
+  );
+  for (const error of externalErrors) {
+    p.log.warn(formatExternalModuleError(error));
+  }
+  return {
+    projectRoot,
+    configPath,
+    config: parseConfig(loadedConfig, registry.getAll()),
+    registry,
+  };
+}
+
+/** Topologically sorted manifests of the modules the config enables. */
+function resolveEnabledModules(
+  config: MaxsimConfig,
+  registry: ModuleRegistry,
+): readonly ModuleManifest[] {
+  const enabledIds = [...getEnabledModuleIds(config)].filter((id) => registry.has(id));
+  return enabledIds.length > 0 ? new ModuleResolver(registry).resolve(enabledIds).ordered : [];
+}
@@ -3,23 +3,13 @@ import { Command } from 'commander';
 import * as p from '@clack/prompts';
 import chalk from 'chalk';
 
-import { loadConfig } from '../../core/config/loader.js';
+import { loadConfig, parseConfig } from '../../core/config/loader.js';
+import { formatExternalModuleError, loadModuleRegistry } from '../../modules/registry.js';
+import type { ModuleRegistry } from '../../modules/registry.js';
+import { BUILT_IN_MODULES, BUILT_IN_MODULE_IDS } from '../../modules/definitions/index.js';
 import { findProjectRoot, getEnabledModuleIds } from './add.js';
 import type { MaxsimConfig } from '../../types/config.js';
-
-/** All optional module IDs in display order. */
-const ALL_MODULE_IDS = [
-  'auth',
-  'api',
-  'database',
-  'i18n',
-  'theme',
-  'push',
-  'analytics',
-  'cicd',
-  'deep-linking',
-] as const;
-
+import type { ModuleManifest } from '../../types/module.js';
 
 export function createListCommand(): Command {
   const cmd = new Command('list');
@@ -51,95 +41,85 @@ async function runList(options: Record<string, unknown>): Promise<void> {
   }
 
   const configPath = join(projectRoot, 'maxsim.config.yaml');
-  const config = await loadConfig(configPath);
-  const enabledIds = getEnabledModuleIds(config);
+  const rawConfig = await loadConfig(configPath);
 
   p.intro('maxsim-flutter — Module Status');
   p.log.info(`Project: ${chalk.cyan(projectRoot)}`);
 
-  printModuleTable(config, enabledIds);
+  // External and project-local modules are listed after the built-in ones
+  const { registry, externalErrors } = await loadModuleRegistry(
+    rawConfig.externalModules,
+    projectRoot,
+  );
+  for (const error of externalErrors) {
+    p.log.warn(formatExternalModuleError(error));
+  }
+  const config = parseConfig(rawConfig, registry.getAll());
+  const enabledIds = getEnabledModuleIds(config);
+  const builtInIds: readonly string[] = BUILT_IN_MODULE_IDS;
+  const moduleIds = [
+    ...builtInIds,
+    ...registry.getAllOptionalIds().filter((id) => !builtInIds.includes(id)),
+  ];
+
+  printModuleTable(config, enabledIds, moduleIds, registry);
 
   const enabledCount = enabledIds.size;
-  const totalCount = ALL_MODULE_IDS.length;
+  const totalCount = moduleIds.length;
   p.outro(`${enabledCount}/${totalCount} modules enabled`);
 }
 
 /**
  * Extract key config details for a module as a human-readable string.
+ * Shows the options listed in the manifest's `configSummary`, or every string and
+ * number option when the manifest has none.
+ *
+ * @param manifest - Manifest of the module (defaults to the built-in manifest for `moduleId`)
  */
-export function getModuleConfigDetails(config: MaxsimConfig, moduleId: string): string {
-  const m = config.modules;
-  const parts: string[] = [];
+export function getModuleConfigDetails(
+  config: MaxsimConfig,
+  moduleId: string,
+  manifest: ModuleManifest | undefined = getBuiltInManifest(moduleId),
+): string {
+  const mod = config.modules[moduleId];
+  if (!mod) return '';
+
+  const options = mod as Record<string, unknown>;
+  const labels =
+    manifest?.configSummary ??
+    Object.fromEntries(
+      Object.keys(options)
+        .filter((key) => key !== 'enabled')
+        .map((key) => [key, key]),
+    );
 
-  switch (moduleId) {
-    case 'auth': {
-      const mod = m.auth;
-      if (mod) {
-        parts.push(`provider: ${mod.provider}`);
-      }
-      break;
-    }
-    case 'database': {
-      const mod = m.database;
-      if (mod) {
-        parts.push(`engine: ${mod.engine}`);
-      }
-      break;
-    }
-    case 'push': {
-      const mod = m.push;
-      if (mod) {
-        parts.push(`provider: ${mod.provider}`);
-      }
-      break;
-    }
-    case 'cicd': {
-      const mod = m.cicd;
-      if (mod) {
-        parts.push(`provider: ${mod.provider}`);
-      }
-      break;
-    }
-    case 'i18n': {
-      const mod = m.i18n;
-      if (mod) {
-        parts.push(`locale: ${mod.defaultLocale}`);
-      }
-      break;
-    }
-    case 'theme': {
-      const mod = m.theme;
-      if (mod) {
-        if (mod.seedColor) parts.push(`seed: ${mod.seedColor}`);
-      }
-      break;
-    }
-    case 'deep-linking': {
-      const mod = m['deep-linking'];
-      if (mod) {
-        if (mod.scheme) parts.push(`scheme: ${mod.scheme}`);
-        if (mod.host) parts.push(`host: ${mod.host}`);
-      }
-      break;
-    }
-    case 'api': {
-      const mod = m.api;
-      if (mod) {
-        if (mod.baseUrl) parts.push(`baseUrl: ${mod.baseUrl}`);
-      }
-      break;
+  const parts: string[] = [];
+  for (const [key, label] of Object.entries(labels)) {
+    const value = options[key];
+    if ((typeof value === 'string' && value !== '') || typeof value === 'number') {
+      parts.push(`${label}: ${value}`);
     }
-    default:
-      break;
   }
-
   return parts.join(', ');
 }
 
+function getBuiltInManifest(moduleId: string): ModuleManifest | undefined {
+  const builtIns: Record<string, { manifest: ModuleManifest }> = BUILT_IN_MODULES;
+  return builtIns[moduleId]?.manifest;
+}
+
 /**
  * Print a formatted table of all modules with their status.
+ *
+ * @param moduleIds - Module rows to print (defaults to the built-in modules)
+ * @param registry - Registry whose manifests describe the config of non-built-in modules
  */
-export function printModuleTable(config: MaxsimConfig, enabledIds: Set<string>): void {
+export function printModuleTable(
+  config: MaxsimConfig,
+  enabledIds: Set<string>,
+  moduleIds: readonly string[] = BUILT_IN_MODULE_IDS,
+  registry?: ModuleRegistry,
+): void {
   const COL_MODULE = 16;
   const COL_STATUS = 12;
 
@@ -154,9 +134,10 @@ export function printModuleTable(config: MaxsimConfig, enabledIds: Set<string>):
   console.log(header);
   console.log(separator);
 
-  for (const id of ALL_MODULE_IDS) {
+  for (const id of moduleIds) {
     const isEnabled = enabledIds.has(id);
-    const details = isEnabled ? chalk.dim(getModuleConfigDetails(config, id)) : '';
+    const manifest = registry?.has(id) ? registry.get(id) : undefined;
+    const details = isEnabled ? chalk.dim(getModuleConfigDetails(config, id, manifest)) : '';
 
     const moduleCol = id.padEnd(COL_MODULE);
     const statusCol = (isEnabled ? 'enabled' : 'disabled').padEnd(COL_STATUS);
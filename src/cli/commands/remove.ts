@@ -0,0 +1,574 @@
+import { dirname, join } from 'node:path';
+import { readFile, writeFile, readdir, rm, rmdir } from 'node:fs/promises';
+import { Command } from 'commander';
+import * as p from '@clack/prompts';
+import { load as yamlLoad, dump as yamlDump } from 'js-yaml';
+import fsExtra from 'fs-extra';
+
+import { loadConfig, parseConfig } from '../../core/config/loader.js';
+import { createProjectContext } from '../../core/context.js';
+import type { ProjectContext } from '../../core/context.js';
+import { formatExternalModuleError, loadModuleRegistry } from '../../modules/registry.js';
+import type { ModuleRegistry } from '../../modules/registry.js';
+import { ModuleResolver } from '../../modules/resolver.js';
+import type { ResolutionTrace } from '../../modules/resolver.js';
+import { runModuleHooks, writeHookChanges } from '../../modules/hooks.js';
+import { MODULE_LOCK_PATH, readModuleLock, updateModuleLock } from '../../modules/versions.js';
+import { APP_PROVIDERS_OUTPUT_PATH, ModuleComposer } from '../../modules/composer.js';
+import { TemplateRenderer } from '../../scaffold/renderer.js';
+import {
+  getFileStates,
+  readGenerationManifest,
+  recordGeneratedFiles,
+  updateGenerationManifest,
+} from '../../scaffold/generation-manifest.js';
+import { FileWriter } from '../../scaffold/file-writer.js';
+import { collectClaudeContributions, runClaudeSetup } from '../../claude-setup/index.js';
+import {
+  ENV_ACCESSOR_OUTPUT_PATH,
+  ENV_EXAMPLE_OUTPUT_PATH,
+  appendEnvVars,
+  composeModules,
+  removeEnvVars,
+  removePubspecEntries,
+} from '../../scaffold/template-helpers.js';
+import type { ModuleComposition, PubspecRemovals } from '../../scaffold/template-helpers.js';
+import { createSpinner } from '../ui/spinner.js';
+import {
+  ROUTER_OUTPUT_PATH,
+  findProjectRoot,
+  getCoreTemplatesDir,
+  getEnabledModuleIds,
+  getModulesTemplatesDir,
+  logRegeneratedFiles,
+  mergePubspecYaml,
+  writeRegeneratedFiles,
+} from './add.js';
+import type { MaxsimConfig } from '../../types/config.js';
+import type { ModuleManifest } from '../../types/module.js';
+import type { GeneratedFile } from '../../types/project.js';
+
+const { pathExists } = fsExtra;
+
+/**
+ * Everything removing a module changes in a project, computed without writing anything.
+ */
+export interface RemovalPlan {
+  /** Config with the module disabled */
+  readonly config: MaxsimConfig;
+  /** Project context after the removal */
+  readonly context: ProjectContext;
+  /** Composition of the remaining modules (router, providers, env vars, added modules' files) */
+  readonly remaining: ModuleComposition;
+  /** Modules added to provide the capabilities the remaining modules took from the removed one */
+  readonly addedModules: readonly ModuleManifest[];
+  /** Generated files of the module that are unchanged since they were generated and are deleted */
+  readonly deletedFiles: readonly string[];
+  /** Generated files of the module that were edited since and are kept */
+  readonly modifiedFiles: readonly string[];
+  /** pubspec.yaml entries that neither the core template nor a remaining module needs */
+  readonly pubspec: PubspecRemovals;
+  /** Env vars that no remaining module declares */
+  readonly envVars: readonly string[];
+  /** Claude rules and skills the module contributed (relative paths) */
+  readonly claudeFiles: readonly string[];
+}
+
+export function createRemoveCommand(): Command {
+  const cmd = new Command('remove');
+
+  cmd
+    .description('Remove a module from an existing maxsim-flutter project')
+    .argument('<module>', 'Module to remove (see `maxsim-flutter list` for enabled modules)')
+    .option('--project-dir <path>', 'Path to the project directory (default: current directory)')
+    .option('--dry-run', 'Preview changes without writing files')
+    .option('--no-claude', 'Skip Claude setup regeneration')
+    .action(async (moduleArg: string, options: Record<string, unknown>) => {
+      try {
+        await runRemove(moduleArg, options);
+      } catch (err) {
+        p.log.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runRemove(moduleArg: string, options: Record<string, unknown>): Promise<void> {
+  const dryRun = options.dryRun === true;
+  const moduleId = moduleArg.trim();
+
+  p.intro(`maxsim-flutter — Remove a module${dryRun ? ' (dry run)' : ''}`);
+
+  // 1. Detect project root
+  const searchDir = options.projectDir ? String(options.projectDir) : process.cwd();
+
+  const projectRoot = await findProjectRoot(searchDir);
+  if (!projectRoot) {
+    throw new Error(
+      `No maxsim.config.yaml found in ${searchDir} or its parent directories.\n` +
+        'Run this command from inside a maxsim-flutter project, or use --project-dir.',
+    );
+  }
+
+  const configPath = join(projectRoot, 'maxsim.config.yaml');
+  p.log.info(`Found project at: ${projectRoot}`);
+
+  // 2. Load the config and the module registry (built-in + config.externalModules)
+  const config = await loadConfig(configPath);
+  const { registry, externalErrors } = await loadModuleRegistry(
+    config.externalModules,
+    projectRoot,
+  );
+  for (const error of externalErrors) {
+    p.log.warn(formatExternalModuleError(error));
+  }
+
+  // 3. Work out what the removal changes (refuses when other modules require the module)
+  const rawConfig = yamlLoad(await readFile(configPath, 'utf-8')) as Record<string, unknown>;
+  const plan = await planRemoval(projectRoot, rawConfig, registry, moduleId);
+  const { remaining } = plan;
+  const addedIds = plan.addedModules.map((m) => m.id);
+
+  const routerPath = join(projectRoot, ROUTER_OUTPUT_PATH);
+  const updateRouter = await pathExists(routerPath);
+  const providersPath = join(projectRoot, APP_PROVIDERS_OUTPUT_PATH);
+  const updateProviders = await pathExists(providersPath);
+  const envExamplePath = join(projectRoot, ENV_EXAMPLE_OUTPUT_PATH);
+  const envAccessorPath = join(projectRoot, ENV_ACCESSOR_OUTPUT_PATH);
+  const updateEnv =
+    (await pathExists(envAccessorPath)) ||
+    (addedIds.length > 0 && remaining.composed.envVars.length > 0);
+  const removedPackages = [...plan.pubspec.dependencies, ...plan.pubspec.devDependencies];
+  const updateClaude = plan.context.claude.enabled && options.claude !== false;
+  const updateLock = (await readModuleLock(projectRoot)) !== null;
+
+  // 4. Show preview in dry-run mode
+  if (dryRun) {
+    p.log.info('Dry run — no files will be written.');
+    p.log.info(`Module to remove: ${moduleId}`);
+    if (addedIds.length > 0) {
+      p.log.info(`Modules that would be added in its place: ${addedIds.join(', ')}`);
+      for (const f of remaining.files) {
+        p.log.step(`  + ${f.relativePath}`);
+      }
+    }
+
+    p.log.info(
+      `Files that would be deleted for '${moduleId}': ${plan.deletedFiles.length} file(s)`,
+    );
+    for (const f of plan.deletedFiles) {
+      p.log.step(`  - ${f}`);
+    }
+    if (plan.modifiedFiles.length > 0) {
+      p.log.warn(`Modified files that would be kept: ${plan.modifiedFiles.length} file(s)`);
+      for (const f of plan.modifiedFiles) {
+        p.log.step(`  ~ ${f}`);
+      }
+    }
+
+    if (removedPackages.length > 0) {
+      p.log.info(`pubspec.yaml would drop: ${removedPackages.join(', ')}`);
+    }
+    if (updateRouter) {
+      p.log.info(
+        `${ROUTER_OUTPUT_PATH} would be regenerated with ${remaining.composed.routes.length} module route(s)`,
+      );
+    }
+    if (updateProviders) {
+      p.log.info(`${APP_PROVIDERS_OUTPUT_PATH} would be regenerated`);
+    }
+    if (updateEnv) {
+      p.log.info(
+        `${ENV_EXAMPLE_OUTPUT_PATH} and ${ENV_ACCESSOR_OUTPUT_PATH} would list ${remaining.composed.envVars.length} env var(s)`,
+      );
+    }
+    p.log.info('maxsim.config.yaml would be updated');
+    if (updateLock) {
+      p.log.info(`${MODULE_LOCK_PATH} would be updated`);
+    }
+    if (updateClaude) {
+      for (const relativePath of plan.claudeFiles) {
+        p.log.step(`  - ${relativePath}`);
+      }
+      p.log.info('CLAUDE.md would be regenerated');
+    }
+
+    p.outro('Dry run complete — no changes made.');
+    return;
+  }
+
+  // 5. Delete the module's unmodified files, and write the files of the modules added in its place
+  const spinner = createSpinner(`Removing module '${moduleId}'...`);
+  spinner.start();
+
+  for (const relativePath of plan.deletedFiles) {
+    await rm(join(projectRoot, relativePath), { force: true });
+    await removeEmptyParents(projectRoot, relativePath);
+  }
+
+  const fileMap = new Map(remaining.files.map((f) => [f.relativePath, f.content]));
+  const moduleMessages: string[] = [];
+  let written: string[] = [];
+  if (addedIds.length > 0) {
+    const beforeGenerate = await runModuleHooks(
+      plan.addedModules,
+      'beforeGenerate',
+      plan.context,
+      projectRoot,
+      fileMap,
+    );
+    for (const [relativePath, content] of beforeGenerate.changes) {
+      fileMap.set(relativePath, content);
+    }
+    moduleMessages.push(...beforeGenerate.messages);
+    const writer = new FileWriter({
+      outputDir: projectRoot,
+      dryRun: false,
+      overwriteMode: 'never',
+    });
+    written = (await writer.writeAll(fileMap)).written;
+  }
+
+  // 6. Drop pubspec.yaml entries no other module needs, and add those of the added modules
+  const pubspecPath = join(projectRoot, 'pubspec.yaml');
+  let pubspecUpdated = false;
+  if (await pathExists(pubspecPath)) {
+    const content = await readFile(pubspecPath, 'utf-8');
+    const updated = removePubspecEntries(content, plan.pubspec);
+    if (updated !== content) {
+      await writeFile(pubspecPath, updated, 'utf-8');
+      pubspecUpdated = true;
+    }
+  }
+  if (addedIds.length > 0) {
+    const merged = await mergePubspecYaml(
+      projectRoot,
+      remaining.composed.dependencies,
+      remaining.composed.devDependencies,
+      remaining.composed.pubspecFlutter,
+    );
+    pubspecUpdated ||= merged;
+  }
+
+  // 7. Re-render app_router.dart and app_providers.dart without the module
+  const renderer = new TemplateRenderer();
+  const regeneratedFiles: GeneratedFile[] = [];
+  if (updateRouter) {
+    const routerTemplate = join(getCoreTemplatesDir(), `${ROUTER_OUTPUT_PATH}.hbs`);
+    regeneratedFiles.push({
+      relativePath: ROUTER_OUTPUT_PATH,
+      content: await renderer.renderFile(routerTemplate, remaining.templateContext),
+      templateSource: routerTemplate,
+    });
+  }
+  if (updateProviders) {
+    regeneratedFiles.push({
+      relativePath: APP_PROVIDERS_OUTPUT_PATH,
+      content: new ModuleComposer().generateAppProvidersBarrel(remaining.composed.providers),
+      templateSource: join(getCoreTemplatesDir(), `${APP_PROVIDERS_OUTPUT_PATH}.hbs`),
+    });
+  }
+
+  // 8. Drop the module's env vars from .env.example (adding those of the added modules) and
+  //    regenerate env.dart
+  if (updateEnv) {
+    if (await pathExists(envExamplePath)) {
+      const envExample = removeEnvVars(await readFile(envExamplePath, 'utf-8'), plan.envVars);
+      await writeFile(
+        envExamplePath,
+        appendEnvVars(envExample, remaining.composed.envVars),
+        'utf-8',
+      );
+    } else if (addedIds.length > 0) {
+      const envExampleTemplate = join(getCoreTemplatesDir(), `${ENV_EXAMPLE_OUTPUT_PATH}.hbs`);
+      await writeFile(
+        envExamplePath,
+        await renderer.renderFile(envExampleTemplate, remaining.templateContext),
+        'utf-8',
+      );
+    }
+    const envAccessorTemplate = join(getCoreTemplatesDir(), `${ENV_ACCESSOR_OUTPUT_PATH}.hbs`);
+    regeneratedFiles.push({
+      relativePath: ENV_ACCESSOR_OUTPUT_PATH,
+      content: await renderer.renderFile(envAccessorTemplate, remaining.templateContext),
+      templateSource: envAccessorTemplate,
+    });
+  }
+
+  // Merged into the files, so routes and providers added by hand are kept
+  const regenerated = await writeRegeneratedFiles(projectRoot, regeneratedFiles);
+
+  // 9. Run the module's onRemove hook (e.g. to undo its native project edits), then the
+  //    afterGenerate and onAdd hooks of the added modules
+  const onRemove = await runModuleHooks(
+    [registry.get(moduleId)],
+    'onRemove',
+    plan.context,
+    projectRoot,
+  );
+  await writeHookChanges(projectRoot, onRemove.changes);
+  moduleMessages.unshift(...onRemove.messages);
+  if (addedIds.length > 0) {
+    for (const hook of ['afterGenerate', 'onAdd'] as const) {
+      const result = await runModuleHooks(
+        plan.addedModules,
+        hook,
+        plan.context,
+        projectRoot,
+        fileMap,
+      );
+      await writeHookChanges(projectRoot, result.changes);
+      moduleMessages.push(...result.messages);
+    }
+  }
+
+  // 10. Update maxsim.config.yaml, swap the module for the added ones in the lockfile, and drop
+  //     its deleted files from .maxsim/generated.json (recording those of the added modules)
+  const updatedYaml = yamlDump(plan.config, { indent: 2, lineWidth: 120 });
+  await writeFile(configPath, updatedYaml, 'utf-8');
+  if (updateLock) {
+    await updateModuleLock(projectRoot, plan.addedModules, [moduleId]);
+  }
+  if ((await readGenerationManifest(projectRoot)) !== null) {
+    await updateGenerationManifest(projectRoot, [], plan.deletedFiles);
+  }
+  if (written.length > 0) {
+    const writtenPaths = new Set(written);
+    await recordGeneratedFiles(
+      projectRoot,
+      remaining.files.filter((f) => writtenPaths.has(f.relativePath)),
+    );
+  }
+
+  // 11. Regenerate Claude setup without the module's rules and skills (unless --no-claude)
+  if (updateClaude) {
+    for (const relativePath of plan.claudeFiles) {
+      await rm(join(projectRoot, relativePath), { recursive: true, force: true });
+    }
+    await runClaudeSetup(plan.context, projectRoot, { modules: registry.getAll() });
+  }
+
+  spinner.succeed(`Removed module '${moduleId}'`);
+
+  if (addedIds.length > 0) {
+    p.log.success(`Added ${addedIds.join(', ')} in its place (${written.length} file(s))`);
+  }
+
+  if (plan.deletedFiles.length > 0) {
+    p.log.success(`Deleted ${plan.deletedFiles.length} file(s)`);
+  }
+  if (plan.modifiedFiles.length > 0) {
+    p.log.warn(`Kept ${plan.modifiedFiles.length} modified file(s):`);
+    for (const f of plan.modifiedFiles) {
+      p.log.step(`  ~ ${f}`);
+    }
+  }
+  if (updateRouter) {
+    p.log.success(`Updated ${ROUTER_OUTPUT_PATH}`);
+  }
+  if (updateProviders) {
+    p.log.success(`Updated ${APP_PROVIDERS_OUTPUT_PATH}`);
+  }
+  if (updateEnv) {
+    p.log.success(`Updated ${ENV_EXAMPLE_OUTPUT_PATH} and ${ENV_ACCESSOR_OUTPUT_PATH}`);
+  }
+  logRegeneratedFiles(regenerated);
+  if (pubspecUpdated) {
+    p.log.success('Removed unused dependencies from pubspec.yaml');
+    p.log.info('Run `flutter pub get` to update your dependencies.');
+  }
+  for (const message of moduleMessages) {
+    p.log.info(message);
+  }
+
+  p.outro(`Module '${moduleId}' removed successfully!`);
+}
+
+/**
+ * Compute what removing a module changes: its generated files (deleted when unchanged since
+ * they were generated),
+ * the pubspec.yaml entries and env vars that only it needed, and the updated config.
+ *
+ * @param rawConfig - maxsim.config.yaml as loaded from disk
+ * @throws Error when the module is unknown, not enabled, always included, or required by
+ *   another enabled module
+ */
+export async function planRemoval(
+  projectRoot: string,
+  rawConfig: Record<string, unknown>,
+  registry: ModuleRegistry,
+  moduleId: string,
+): Promise<RemovalPlan> {
+  const currentConfig = parseConfig(rawConfig, registry.getAll());
+  const enabledIds = getEnabledModuleIds(currentConfig);
+
+  if (!registry.has(moduleId)) {
+    throw new Error(
+      `Unknown module '${moduleId}'. Valid modules: ${registry.getAllOptionalIds().join(', ')}`,
+    );
+  }
+  const manifest = registry.get(moduleId);
+  if (manifest.alwaysIncluded) {
+    throw new Error(`Module '${moduleId}' is always included and cannot be removed.`);
+  }
+  if (!enabledIds.has(moduleId)) {
+    throw new Error(`Module '${moduleId}' is not enabled in this project.`);
+  }
+
+  // Refuse when a remaining module still requires the module, or a capability no other module
+  // provides; the capabilities it was only picked for move to another provider
+  const resolver = new ModuleResolver(registry);
+  const remainingIds = [...enabledIds].filter((id) => id !== moduleId);
+  const trace = resolver.trace(remainingIds);
+  const providerChoices = findOtherProviders(registry, trace, moduleId);
+  const retrace =
+    Object.keys(providerChoices).length > 0
+      ? resolver.trace(remainingIds, { providerChoices })
+      : trace;
+  if (retrace.reasons.has(moduleId) || (retrace !== trace && retrace.issues.length > 0)) {
+    const dependents = [...trace.dependencies]
+      .filter(([, deps]) => deps.includes(moduleId))
+      .map(([id]) => id);
+    throw new Error(
+      `Module '${moduleId}' is required by ${dependents.join(', ')}. ` +
+        `Remove ${dependents.length === 1 ? 'it' : 'them'} first, or run ` +
+        `\`maxsim-flutter why ${moduleId}\` for details.`,
+    );
+  }
+  const remainingModules = resolver.resolve(remainingIds, { providerChoices }).ordered;
+
+  // Modules the remaining ones now need that the project did not have are added in its place
+  const currentIds = new Set(resolver.trace([...enabledIds]).ordered.map((m) => m.id));
+  const addedModules = remainingModules.filter((m) => !currentIds.has(m.id));
+
+  const rawModules = (rawConfig['modules'] ?? {}) as Record<string, unknown>;
+  const config = parseConfig(
+    {
+      ...rawConfig,
+      modules: {
+        ...rawModules,
+        [moduleId]: false,
+        ...Object.fromEntries(addedModules.map((m) => [m.id, { enabled: true }])),
+      },
+    },
+    registry.getAll(),
+  );
+  const context = createProjectContext(config, projectRoot);
+
+  // Render the module the way it was generated, and compose the modules that stay
+  const renderer = new TemplateRenderer();
+  const composeOptions = {
+    renderer,
+    modulesTemplatesDir: getModulesTemplatesDir(),
+    getTemplateDir: (id: string) => registry.getTemplateDir(id),
+  };
+  const currentContext = createProjectContext(currentConfig, projectRoot);
+  const removed = await composeModules([manifest], currentContext, composeOptions);
+  const remaining = await composeModules(remainingModules, context, {
+    ...composeOptions,
+    renderModuleIds: addedModules.map((m) => m.id),
+  });
+
+  // A file is unmodified when it matches the hash recorded in .maxsim/generated.json (i.e. as
+  // written after formatting and hooks); files it does not record are compared with the render
+  const rendered = new Map(removed.files.map((f) => [f.relativePath, f.content]));
+  const recorded = ((await readGenerationManifest(projectRoot))?.files ?? [])
+    .filter((r) => r.module === moduleId)
+    .map((r) => r.path);
+  const states = await getFileStates(
+    projectRoot,
+    new Set([...rendered.keys(), ...recorded]),
+    (relativePath, content) => rendered.get(relativePath) === content,
+  );
+  const deletedFiles: string[] = [];
+  const modifiedFiles: string[] = [];
+  for (const [relativePath, state] of states) {
+    if (state === 'untouched') deletedFiles.push(relativePath);
+    if (state === 'modified') modifiedFiles.push(relativePath);
+  }
+
+  // Entries of the core pubspec.yaml template stay even when the module contributed them
+  const corePubspec = (yamlLoad(
+    await renderer.renderFile(
+      join(getCoreTemplatesDir(), 'pubspec.yaml.hbs'),
+      remaining.templateContext,
+    ),
+  ) ?? {}) as Record<string, Record<string, unknown> | undefined>;
+  const unused = (
+    contributed: Iterable<string>,
+    kept: Iterable<string>,
+    core: Record<string, unknown> = {},
+  ): string[] => {
+    const keep = new Set(kept);
+    return [...contributed].filter((name) => !keep.has(name) && !(name in core));
+  };
+
+  const claude = collectClaudeContributions(currentContext, registry.getAll()).find(
+    (c) => c.moduleId === moduleId,
+  )?.contribution;
+  const claudeFiles = [
+    ...(claude?.rules ?? []).map((rule) => `.claude/rules/${rule.name}.md`),
+    ...(claude?.skills ?? []).map((skill) => `.claude/skills/${skill.name}`),
+  ];
+
+  return {
+    config,
+    context,
+    remaining,
+    addedModules,
+    deletedFiles,
+    modifiedFiles,
+    pubspec: {
+      dependencies: unused(
+        removed.composed.dependencies.keys(),
+        remaining.composed.dependencies.keys(),
+        corePubspec['dependencies'],
+      ),
+      devDependencies: unused(
+        removed.composed.devDependencies.keys(),
+        remaining.composed.devDependencies.keys(),
+        corePubspec['dev_dependencies'],
+      ),
+      pubspecFlutter: unused(
+        Object.keys(removed.composed.pubspecFlutter),
+        Object.keys(remaining.composed.pubspecFlutter),
+        corePubspec['flutter'],
+      ),
+    },
+    envVars: unused(removed.composed.envVars, remaining.composed.envVars),
+    claudeFiles,
+  };
+}
+
+/**
+ * Pick another provider (the first by ID) for each capability the resolution picked the module
+ * for (capability -> module ID).
+ */
+function findOtherProviders(
+  registry: ModuleRegistry,
+  trace: ResolutionTrace,
+  moduleId: string,
+): Record<string, string> {
+  const choices: Record<string, string> = {};
+  for (const [capability, providerId] of trace.capabilities) {
+    if (providerId !== moduleId) continue;
+    const other = registry.getProviders(capability).find((m) => m.id !== moduleId);
+    if (other) choices[capability] = other.id;
+  }
+  return choices;
+}
+
+/**
+ * Remove the directories of a deleted file that are left empty, up to the project root.
+ */
+async function removeEmptyParents(projectRoot: string, relativePath: string): Promise<void> {
+  let dir = dirname(relativePath);
+  while (dir !== '.' && dir !== '/') {
+    const absoluteDir = join(projectRoot, dir);
+    if (!(await pathExists(absoluteDir)) || (await readdir(absoluteDir)).length > 0) return;
+    await rmdir(absoluteDir);
+    dir = dirname(dir);
+  }
+}
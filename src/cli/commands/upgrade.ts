@@ -1,12 +1,69 @@
-import { copyFile, readdir, stat } from 'node:fs/promises';
+import { copyFile, readFile, readdir, stat } from 'node:fs/promises';
 import { join } from 'node:path';
 import { Command } from 'commander';
 import * as p from '@clack/prompts';
+import fsExtra from 'fs-extra';
 import { loadConfig } from '../../core/config/loader.js';
 import { parseConfig } from '../../core/config/loader.js';
 import { createProjectContext } from '../../core/context.js';
+import type { ProjectContext } from '../../core/context.js';
 import { runClaudeSetup } from '../../claude-setup/setup-orchestrator.js';
-import { findProjectRoot } from './add.js';
+import { formatExternalModuleError, loadModuleRegistry } from '../../modules/registry.js';
+import type { ModuleRegistry } from '../../modules/registry.js';
+import { ModuleResolver } from '../../modules/resolver.js';
+import { runModuleHooks } from '../../modules/hooks.js';
+import { APP_PROVIDERS_OUTPUT_PATH, ModuleComposer } from '../../modules/composer.js';
+import {
+  MODULE_LOCK_PATH,
+  findModuleUpdates,
+  formatModuleUpdate,
+  readModuleLock,
+  updateModuleLock,
+} from '../../modules/versions.js';
+import type { ModuleUpdate } from '../../modules/versions.js';
+import { TemplateRenderer } from '../../scaffold/renderer.js';
+import { FileWriter } from '../../scaffold/file-writer.js';
+import { getFileStates, recordGeneratedFiles } from '../../scaffold/generation-manifest.js';
+import { composeModules } from '../../scaffold/template-helpers.js';
+import type { ModuleComposition } from '../../scaffold/template-helpers.js';
+import type { ModuleManifest } from '../../types/module.js';
+import type { GeneratedFile } from '../../types/project.js';
+import {
+  ROUTER_OUTPUT_PATH,
+  findProjectRoot,
+  getCoreTemplatesDir,
+  getEnabledModuleIds,
+  getModulesTemplatesDir,
+  logRegeneratedFiles,
+  mergePubspecYaml,
+  writeRegeneratedFiles,
+} from './add.js';
+
+const { pathExists } = fsExtra;
+
+/**
+ * What `upgrade --modules` changes in a project, computed without writing anything.
+ */
+export interface ModuleUpgradePlan {
+  /** Enabled modules whose templates are newer than the installed version */
+  readonly updates: readonly ModuleUpdate[];
+  /** Manifests of the modules in `updates` */
+  readonly modules: readonly ModuleManifest[];
+  /** Current output of the updated modules (relative path -> content) */
+  readonly files: ReadonlyMap<string, string>;
+  /** Files in `files` that do not exist in the project yet */
+  readonly newFiles: readonly string[];
+  /** Files in `files` whose content in the project differs */
+  readonly changedFiles: readonly string[];
+  /**
+   * Files in `changedFiles` edited since they were generated, according to
+   * .maxsim/generated.json; the template changes are merged into them. Files it does not
+   * record count as edited.
+   */
+  readonly editedFiles: readonly string[];
+  /** Composition of every enabled module (pubspec entries, routes, providers) */
+  readonly composition: ModuleComposition;
+}
 
 /**
  * Back up existing markdown files in a .claude/ subdirectory (agents or rules).
@@ -70,7 +127,7 @@ export async function backupRulesFiles(rulesDir: string): Promise<string[]> {
 
 /**
  * Commander command factory for the upgrade command.
- * Usage: maxsim-flutter upgrade [path] [--yes] [--dry-run] [--regenerate-prd]
+ * Usage: maxsim-flutter upgrade [path] [--yes] [--dry-run] [--regenerate-prd] [--modules]
  */
 export function createUpgradeCommand(): Command {
   const cmd = new Command('upgrade');
@@ -81,6 +138,7 @@ export function createUpgradeCommand(): Command {
     .option('--yes', 'Skip confirmation prompt')
     .option('--dry-run', 'Show what would change without writing files')
     .option('--regenerate-prd', 'Also regenerate prd.json (default: preserve existing)')
+    .option('--modules', 'Upgrade the files of modules with newer templates instead of .claude/')
     .action(async (pathArg: string | undefined, options: Record<string, unknown>) => {
       try {
         await runUpgrade(pathArg, options);
@@ -100,8 +158,12 @@ async function runUpgrade(
   const dryRun = options.dryRun === true;
   const yes = options.yes === true;
   const regeneratePrd = options.regeneratePrd === true;
+  const upgradeModules = options.modules === true;
 
-  p.intro(`maxsim-flutter — Upgrade .claude/ directory${dryRun ? ' (dry run)' : ''}`);
+  p.intro(
+    `maxsim-flutter — Upgrade ${upgradeModules ? 'modules' : '.claude/ directory'}` +
+      (dryRun ? ' (dry run)' : ''),
+  );
 
   // 1. Resolve project root
   const searchDir = pathArg ?? process.cwd();
@@ -118,9 +180,24 @@ async function runUpgrade(
 
   // 2. Load config
   const rawConfig = await loadConfig(configPath);
-  const config = parseConfig(rawConfig);
+
+  // Load external modules so broken entries in config.externalModules surface here too,
+  // and so their options are validated against their config schemas
+  const { registry, externalErrors } = await loadModuleRegistry(
+    rawConfig.externalModules,
+    projectRoot,
+  );
+  for (const error of externalErrors) {
+    p.log.warn(formatExternalModuleError(error));
+  }
+  const config = parseConfig(rawConfig, registry.getAll());
   const context = createProjectContext(config, projectRoot);
 
+  if (upgradeModules) {
+    await runModuleUpgrade(projectRoot, context, registry, { dryRun, yes });
+    return;
+  }
+
   const agentsDir = join(projectRoot, '.claude', 'agents');
 
   // 3. Dry-run mode — show what would change, write nothing
@@ -176,8 +253,207 @@ async function runUpgrade(
   }
 
   // 6. Re-run Claude setup (skipPrd unless --regenerate-prd)
-  const result = await runClaudeSetup(context, projectRoot, { skipPrd: !regeneratePrd });
+  const result = await runClaudeSetup(context, projectRoot, {
+    skipPrd: !regeneratePrd,
+    modules: registry.getAll(),
+  });
 
   p.log.success(`Regenerated ${result.filesWritten.length} file(s)`);
   p.outro('Upgrade complete!');
 }
+
+/**
+ * Upgrade the files of the enabled modules whose templates are newer than the version
+ * recorded in the lockfile. Files left as generated are replaced; template changes are merged
+ * into edited files, and edited files generated before merge bases were stored are backed up
+ * to .bak and replaced.
+ */
+async function runModuleUpgrade(
+  projectRoot: string,
+  context: ProjectContext,
+  registry: ModuleRegistry,
+  options: { dryRun: boolean; yes: boolean },
+): Promise<void> {
+  const plan = await planModuleUpgrade(projectRoot, context, registry);
+
+  if (plan.updates.length === 0) {
+    p.outro('All modules are up to date.');
+    return;
+  }
+
+  p.log.info('Modules with newer templates:');
+  for (const update of plan.updates) {
+    p.log.step(`  ${formatModuleUpdate(update)}`);
+  }
+
+  const routerPath = join(projectRoot, ROUTER_OUTPUT_PATH);
+  const updateRouter = await pathExists(routerPath);
+  const providersPath = join(projectRoot, APP_PROVIDERS_OUTPUT_PATH);
+  const updateProviders = await pathExists(providersPath);
+
+  // Dry-run mode — show what would change, write nothing
+  if (options.dryRun) {
+    p.log.info(
+      `Files that would be written: ${plan.newFiles.length} new, ${plan.changedFiles.length} changed`,
+    );
+    for (const f of plan.newFiles) {
+      p.log.step(`  + ${f}`);
+    }
+    for (const f of plan.changedFiles) {
+      p.log.step(`  ~ ${f}${plan.editedFiles.includes(f) ? ' (edited, would be merged)' : ''}`);
+    }
+    p.log.info('pubspec.yaml would be updated with new dependencies');
+    if (updateRouter) {
+      p.log.info(`${ROUTER_OUTPUT_PATH} would be regenerated`);
+    }
+    if (updateProviders) {
+      p.log.info(`${APP_PROVIDERS_OUTPUT_PATH} would be regenerated`);
+    }
+    p.log.info(`${MODULE_LOCK_PATH} would be updated`);
+    p.outro('Dry run complete — no changes made.');
+    return;
+  }
+
+  if (!options.yes) {
+    const confirmed = await p.confirm({
+      message: 'This will merge the new module templates into your files. Continue?',
+      initialValue: true,
+    });
+    if (p.isCancel(confirmed) || !confirmed) {
+      p.cancel('Upgrade cancelled.');
+      process.exit(0);
+    }
+  }
+
+  // Replace the files left as generated and merge the new template output into edited ones;
+  // edited files without a merge base are backed up and replaced
+  const edited = new Set(plan.editedFiles);
+  const toFileMap = (paths: readonly string[]) =>
+    new Map(paths.map((f) => [f, plan.files.get(f) ?? '']));
+  const replaced = await new FileWriter({
+    outputDir: projectRoot,
+    overwriteMode: 'always',
+  }).writeAll(toFileMap([...plan.newFiles, ...plan.changedFiles.filter((f) => !edited.has(f))]));
+  const backedUp: string[] = [];
+  const writer = new FileWriter({
+    outputDir: projectRoot,
+    overwriteMode: 'merge',
+    onConflict: async (filePath) => {
+      await copyFile(filePath, `${filePath}.bak`);
+      backedUp.push(filePath);
+      return true;
+    },
+  });
+  const writeResult = await writer.writeAll(toFileMap(plan.editedFiles));
+
+  const { composed, templateContext } = plan.composition;
+  const pubspecUpdated = await mergePubspecYaml(
+    projectRoot,
+    composed.dependencies,
+    composed.devDependencies,
+    composed.pubspecFlutter,
+  );
+  const regeneratedFiles: GeneratedFile[] = [];
+  if (updateRouter) {
+    const routerTemplate = join(getCoreTemplatesDir(), `${ROUTER_OUTPUT_PATH}.hbs`);
+    regeneratedFiles.push({
+      relativePath: ROUTER_OUTPUT_PATH,
+      content: await new TemplateRenderer().renderFile(routerTemplate, templateContext),
+      templateSource: routerTemplate,
+    });
+  }
+  if (updateProviders) {
+    regeneratedFiles.push({
+      relativePath: APP_PROVIDERS_OUTPUT_PATH,
+      content: new ModuleComposer().generateAppProvidersBarrel(composed.providers),
+      templateSource: join(getCoreTemplatesDir(), `${APP_PROVIDERS_OUTPUT_PATH}.hbs`),
+    });
+  }
+  // Merged into the files, so routes and providers added by hand are kept
+  const regenerated = await writeRegeneratedFiles(projectRoot, regeneratedFiles);
+
+  await updateModuleLock(projectRoot, plan.modules);
+  const written = new Set([...replaced.written, ...writeResult.written]);
+  await recordGeneratedFiles(
+    projectRoot,
+    plan.composition.files.filter((f) => written.has(f.relativePath)),
+  );
+
+  p.log.success(
+    `Upgraded ${plan.updates.length} module(s): ${plan.newFiles.length} new, ` +
+      `${plan.changedFiles.length} changed file(s)`,
+  );
+  if (writeResult.merged.length > 0) {
+    p.log.info(`Merged template changes into ${writeResult.merged.length} edited file(s)`);
+  }
+  if (backedUp.length > 0) {
+    p.log.info(`Backed up ${backedUp.length} replaced file(s) to .bak`);
+  }
+  if (writeResult.mergeConflicts.length > 0) {
+    p.log.warn(`Resolve the conflict markers in ${writeResult.mergeConflicts.length} file(s):`);
+    for (const f of writeResult.mergeConflicts) {
+      p.log.step(`  ${f}`);
+    }
+  }
+  logRegeneratedFiles(regenerated);
+  if (pubspecUpdated) {
+    p.log.info('Run `flutter pub get` to install new dependencies.');
+  }
+  p.outro('Module upgrade complete! Run `maxsim-flutter upgrade` to refresh .claude/ as well.');
+}
+
+/**
+ * Compute what upgrading the modules of a project changes: which enabled modules have newer
+ * templates than the lockfile records, and which of their files are new or differ on disk.
+ * The module templates are rendered (and their `beforeGenerate` hooks run) the way `create`
+ * renders them.
+ *
+ * @throws Error when the lockfile is malformed or records a version that is not semver
+ */
+export async function planModuleUpgrade(
+  projectRoot: string,
+  context: ProjectContext,
+  registry: ModuleRegistry,
+): Promise<ModuleUpgradePlan> {
+  const enabledIds = [...getEnabledModuleIds(context.rawConfig)].filter((id) => registry.has(id));
+  const enabledModules =
+    enabledIds.length > 0 ? new ModuleResolver(registry).resolve(enabledIds).ordered : [];
+
+  const updates = findModuleUpdates(enabledModules, await readModuleLock(projectRoot));
+  const updatedIds = updates.map((u) => u.moduleId);
+  const modules = enabledModules.filter((m) => updatedIds.includes(m.id));
+
+  const composition = await composeModules(enabledModules, context, {
+    renderer: new TemplateRenderer(),
+    modulesTemplatesDir: getModulesTemplatesDir(),
+    getTemplateDir: (id) => registry.getTemplateDir(id),
+    renderModuleIds: updatedIds,
+  });
+  const files = new Map(composition.files.map((f) => [f.relativePath, f.content]));
+  const beforeGenerate = await runModuleHooks(
+    modules,
+    'beforeGenerate',
+    context,
+    projectRoot,
+    files,
+  );
+  for (const [relativePath, content] of beforeGenerate.changes) {
+    files.set(relativePath, content);
+  }
+
+  const newFiles: string[] = [];
+  const changedFiles: string[] = [];
+  for (const [relativePath, content] of files) {
+    const filePath = join(projectRoot, relativePath);
+    if (!(await pathExists(filePath))) {
+      newFiles.push(relativePath);
+    } else if ((await readFile(filePath, 'utf-8')) !== content) {
+      changedFiles.push(relativePath);
+    }
+  }
+
+  const states = await getFileStates(projectRoot, changedFiles, () => false);
+  const editedFiles = changedFiles.filter((f) => states.get(f) === 'modified');
+
+  return { updates, modules, files, newFiles, changedFiles, editedFiles, composition };
+}
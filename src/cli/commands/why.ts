@@ -0,0 +1,296 @@
+import { join } from 'node:path';
+import { Command } from 'commander';
+import * as p from '@clack/prompts';
+import chalk from 'chalk';
+
+import { loadConfig, parseConfig } from '../../core/config/loader.js';
+import {
+  formatExternalModuleError,
+  loadModuleRegistry,
+  LOCAL_MODULES_DIR,
+} from '../../modules/registry.js';
+import type { ModuleRegistry } from '../../modules/registry.js';
+import { ModuleResolver } from '../../modules/resolver.js';
+import type { ResolutionIssue, ResolutionTrace } from '../../modules/resolver.js';
+import { findProjectRoot, getEnabledModuleIds } from './add.js';
+
+export function createWhyCommand(): Command {
+  const cmd = new Command('why');
+
+  cmd
+    .description(
+      'Explain why a module is part of a maxsim-flutter project, or what blocks adding it',
+    )
+    .argument('<module>', 'Module ID to explain (e.g. api)')
+    .option('--project-dir <path>', 'Path to the project directory (default: current directory)')
+    .action(async (moduleId: string, options: Record<string, unknown>) => {
+      try {
+        await runWhy(moduleId, options);
+      } catch (err) {
+        p.log.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      }
+    });
+
+  return cmd;
+}
+
+async function runWhy(moduleId: string, options: Record<string, unknown>): Promise<void> {
+  const searchDir = options.projectDir ? String(options.projectDir) : process.cwd();
+
+  const projectRoot = await findProjectRoot(searchDir);
+  if (!projectRoot) {
+    throw new Error(
+      `No maxsim.config.yaml found in ${searchDir} or its parent directories.\n` +
+        'Run this command from inside a maxsim-flutter project, or use --project-dir.',
+    );
+  }
+
+  const configPath = join(projectRoot, 'maxsim.config.yaml');
+  const rawConfig = await loadConfig(configPath);
+
+  p.intro(`maxsim-flutter — Why ${moduleId}`);
+  p.log.info(`Project: ${chalk.cyan(projectRoot)}`);
+
+  const { registry, externalErrors } = await loadModuleRegistry(
+    rawConfig.externalModules,
+    projectRoot,
+  );
+  for (const error of externalErrors) {
+    p.log.warn(formatExternalModuleError(error));
+  }
+  const config = parseConfig(rawConfig, registry.getAll());
+  const enabledIds = [...getEnabledModuleIds(config)];
+
+  const resolver = new ModuleResolver(registry);
+  const trace = resolver.trace(enabledIds);
+
+  if (trace.reasons.has(moduleId)) {
+    p.log.success(`${chalk.cyan(moduleId)} is ${describeReason(trace, moduleId)}`);
+    for (const line of describeRelations(trace, registry, moduleId)) {
+      p.log.message(line);
+    }
+  } else {
+    explainCandidate(resolver, trace, enabledIds, moduleId);
+  }
+
+  if (trace.issues.length > 0) {
+    p.log.warn('The current configuration does not resolve:');
+    printIssues(trace.issues, trace);
+  }
+
+  printResolutionGraph(trace);
+  p.outro(`${trace.reasons.size} modules resolved`);
+}
+
+/**
+ * Report what enabling a module that is not part of the project would add,
+ * and what would block it.
+ */
+function explainCandidate(
+  resolver: ModuleResolver,
+  trace: ResolutionTrace,
+  enabledIds: readonly string[],
+  moduleId: string,
+): void {
+  const candidateTrace = resolver.trace([...enabledIds, moduleId]);
+  const blockers = findBlockers(trace, candidateTrace);
+
+  p.log.info(`${chalk.cyan(moduleId)} is not part of this project.`);
+  const added = [...candidateTrace.reasons.keys()].filter(
+    (id) => id !== moduleId && !trace.reasons.has(id),
+  );
+  if (added.length > 0) {
+    p.log.message(`Enabling it would also add: ${added.join(', ')}`);
+  }
+
+  if (blockers.length === 0) {
+    p.log.message(`Add it with: ${chalk.cyan(`maxsim-flutter add ${moduleId}`)}`);
+    return;
+  }
+  p.log.warn(`Enabling ${moduleId} is blocked:`);
+  printIssues(blockers, candidateTrace, moduleId);
+}
+
+function printIssues(
+  issues: readonly ResolutionIssue[],
+  trace: ResolutionTrace,
+  candidateId?: string,
+): void {
+  for (const issue of issues) {
+    p.log.message(
+      `${chalk.red('✖')} ${issue.message}\n  ${chalk.dim('→')} ${suggestFix(issue, trace, candidateId)}`,
+    );
+  }
+}
+
+/**
+ * Describe why a resolved module is present, following the chain of requirements
+ * back to the selected or always-included module that pulled it in.
+ *
+ * @example "required by auth, which is selected in maxsim.config.yaml"
+ */
+export function describeReason(trace: ResolutionTrace, moduleId: string): string {
+  const parts: string[] = [];
+  const seen = new Set<string>();
+  let id = moduleId;
+
+  for (;;) {
+    const reason = trace.reasons.get(id);
+    if (!reason) return parts.join(', which is ');
+    if (reason.kind === 'selected') {
+      parts.push('selected in maxsim.config.yaml');
+      break;
+    }
+    if (reason.kind === 'always-included') {
+      parts.push('always included');
+      break;
+    }
+    const via = reason.requirement === id ? '' : ` (provides '${reason.requirement}')`;
+    parts.push(`required by ${reason.by}${via}`);
+    if (seen.has(reason.by)) break;
+    seen.add(id);
+    id = reason.by;
+  }
+
+  return parts.join(', which is ');
+}
+
+/**
+ * Get the module a user would disable to drop `moduleId`: the module itself when it is
+ * selected, otherwise the selected module that pulled it in. Undefined for modules that
+ * are always included.
+ */
+export function findSelectionRoot(trace: ResolutionTrace, moduleId: string): string | undefined {
+  const seen = new Set<string>();
+  let id = moduleId;
+  for (let reason = trace.reasons.get(id); reason; reason = trace.reasons.get(id)) {
+    if (reason.kind === 'selected') return id;
+    if (reason.kind === 'always-included' || seen.has(reason.by)) return undefined;
+    seen.add(id);
+    id = reason.by;
+  }
+  return undefined;
+}
+
+/**
+ * Describe how a resolved module relates to the others: what requires it, what it requires,
+ * the capabilities it provides and the modules it enhances.
+ */
+export function describeRelations(
+  trace: ResolutionTrace,
+  registry: ModuleRegistry,
+  moduleId: string,
+): string[] {
+  const lines: string[] = [];
+
+  const requiredBy = [...trace.dependencies]
+    .filter(([, deps]) => deps.includes(moduleId))
+    .map(([id]) => id);
+  if (requiredBy.length > 0) lines.push(`Required by: ${requiredBy.join(', ')}`);
+
+  const requires = trace.dependencies.get(moduleId) ?? [];
+  if (requires.length > 0) lines.push(`Requires: ${requires.join(', ')}`);
+
+  const provides = [...trace.capabilities]
+    .filter(([, providerId]) => providerId === moduleId)
+    .map(([capability]) => capability);
+  const declared = registry.has(moduleId) ? (registry.get(moduleId).provides ?? []) : [];
+  const capabilities = [...new Set([...provides, ...declared])];
+  if (capabilities.length > 0) lines.push(`Provides: ${capabilities.join(', ')}`);
+
+  const enhances = trace.enhancements.get(moduleId) ?? [];
+  if (enhances.length > 0) lines.push(`Enhances: ${enhances.join(', ')}`);
+
+  return lines;
+}
+
+/**
+ * Get the issues a candidate module would introduce: those of `candidateTrace`
+ * that are not already present in the current trace.
+ */
+export function findBlockers(
+  current: ResolutionTrace,
+  candidateTrace: ResolutionTrace,
+): ResolutionIssue[] {
+  const existing = new Set(current.issues.map((issue) => issue.message));
+  return candidateTrace.issues.filter((issue) => !existing.has(issue.message));
+}
+
+/**
+ * Suggest a concrete change to the project that resolves an issue.
+ *
+ * @param trace - Trace the issue was found in
+ * @param candidateId - Module being considered, kept out of suggestions to disable modules
+ */
+export function suggestFix(
+  issue: ResolutionIssue,
+  trace: ResolutionTrace,
+  candidateId?: string,
+): string {
+  switch (issue.type) {
+    case 'not-found':
+      if (issue.moduleId === candidateId) {
+        return (
+          `Check the module ID with 'maxsim-flutter list', or register the module ` +
+          `(externalModules or ${LOCAL_MODULES_DIR}/)`
+        );
+      }
+      return (
+        `Set modules.${issue.moduleId}: false in maxsim.config.yaml, or register the module ` +
+        `(externalModules or ${LOCAL_MODULES_DIR}/)`
+      );
+    case 'missing-requirement': {
+      const register =
+        `Register a module providing '${issue.requirement}' ` +
+        `(externalModules or ${LOCAL_MODULES_DIR}/)`;
+      if (candidateId !== undefined && findSelectionRoot(trace, issue.moduleId) === candidateId) {
+        return register;
+      }
+      return `${register}, or ${describeDisable(trace, issue.moduleId)}`;
+    }
+    case 'invalid-choice':
+      return `Choose a module that provides '${issue.capability}'`;
+    case 'conflict': {
+      const pair = [issue.moduleId, issue.conflictsWith];
+      const others = pair.filter((id) => findSelectionRoot(trace, id) !== candidateId);
+      const fix = (others.length > 0 ? others : pair)
+        .map((id) => describeDisable(trace, id))
+        .join(', or ');
+      return fix.charAt(0).toUpperCase() + fix.slice(1);
+    }
+    case 'cycle':
+      return `Remove one of the 'requires' entries linking ${issue.moduleIds.join(', ')} in their manifests`;
+  }
+}
+
+function describeDisable(trace: ResolutionTrace, moduleId: string): string {
+  const root = findSelectionRoot(trace, moduleId);
+  if (root === undefined) return `remove '${moduleId}' (it is always included)`;
+  if (root === moduleId) return `set modules.${moduleId}: false in maxsim.config.yaml`;
+  return `set modules.${root}: false in maxsim.config.yaml (it requires ${moduleId})`;
+}
+
+/**
+ * Print every resolved module in dependency order with why it is present
+ * and the modules it requires.
+ */
+export function printResolutionGraph(trace: ResolutionTrace): void {
+  const COL_MODULE = 16;
+  const separator = chalk.dim('─'.repeat(60));
+  const ordered = trace.ordered.map((m) => m.id);
+  const unordered = [...trace.reasons.keys()].filter((id) => !ordered.includes(id));
+
+  console.log('');
+  console.log(chalk.bold('Resolution graph'));
+  console.log(separator);
+
+  for (const id of [...ordered, ...unordered]) {
+    const requires = trace.dependencies.get(id) ?? [];
+    const deps = requires.length > 0 ? chalk.dim(` → requires ${requires.join(', ')}`) : '';
+    console.log(`${chalk.white(id.padEnd(COL_MODULE))}${describeReason(trace, id)}${deps}`);
+  }
+
+  console.log(separator);
+  console.log('');
+}
@@ -3,10 +3,15 @@ import chalk from 'chalk';
 import { Command } from 'commander';
 import { createCreateCommand } from './commands/create.js';
 import { createAddCommand } from './commands/add.js';
+import { createRemoveCommand } from './commands/remove.js';
 import { createMigrateCommand } from './commands/migrate.js';
 import { createListCommand } from './commands/list.js';
 import { createUpgradeCommand } from './commands/upgrade.js';
 import { createPlanCommand } from './commands/plan.js';
+import { createWhyCommand } from './commands/why.js';
+import { createDiffCommand } from './commands/diff.js';
+import { createDoctorCommand } from './commands/doctor.js';
+import { createGenerateCommand } from './commands/generate.js';
 import { checkForUpdate, getCurrentVersion } from './version-check.js';
 
 const program = new Command();
@@ -19,10 +24,15 @@ program
 
 program.addCommand(createCreateCommand());
 program.addCommand(createAddCommand());
+program.addCommand(createRemoveCommand());
 program.addCommand(createMigrateCommand());
 program.addCommand(createListCommand());
 program.addCommand(createUpgradeCommand());
 program.addCommand(createPlanCommand());
+program.addCommand(createWhyCommand());
+program.addCommand(createDiffCommand());
+program.addCommand(createDoctorCommand());
+program.addCommand(createGenerateCommand());
 
 program.parse();
 
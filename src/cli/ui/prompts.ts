@@ -1,5 +1,7 @@
 import * as p from '@clack/prompts';
 
+import type { ModuleResolver } from '../../modules/resolver.js';
+
 /** Identifies which preset the user chose. */
 export type PresetId = 'minimal' | 'standard' | 'full' | 'custom';
 
@@ -214,3 +216,33 @@ export async function promptForModuleConfig(moduleId: string): Promise<Record<st
       return { enabled: true };
   }
 }
+
+/**
+ * Ask which module should provide each required capability that several modules provide
+ * (and none of `moduleIds` does). Returns the choices (capability -> module ID).
+ * Exits with `cancelMessage` on cancel.
+ */
+export async function promptForProviders(
+  resolver: ModuleResolver,
+  moduleIds: readonly string[],
+  cancelMessage: string,
+): Promise<Record<string, string>> {
+  const choices: Record<string, string> = {};
+
+  for (;;) {
+    const [open] = resolver.findCapabilityChoices(moduleIds, choices);
+    if (!open) return choices;
+
+    const selected = await p.select({
+      message: `'${open.requiredBy}' requires ${open.capability} — which module should provide it?`,
+      options: open.candidates.map((m) => ({ value: m.id, label: m.name })),
+    });
+
+    if (p.isCancel(selected)) {
+      p.cancel(cancelMessage);
+      process.exit(0);
+    }
+
+    choices[open.capability] = selected as string;
+  }
+}
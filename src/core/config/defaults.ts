@@ -14,9 +14,11 @@ export const defaultConfig: Partial<MaxsimConfig> = {
   },
   scaffold: {
     overwriteExisting: 'ask',
+    runFlutterCreate: false,
     runDartFormat: true,
     runPubGet: true,
     runBuildRunner: false,
     dryRun: false,
+    postProcessors: [],
   },
 };
@@ -1,12 +1,22 @@
 import { readFile } from 'node:fs/promises';
 import { load as yamlLoad } from 'js-yaml';
 import { ZodError } from 'zod';
-import { MaxsimConfigSchema } from './schema.js';
+import { MaxsimConfigSchema, createMaxsimConfigSchema } from './schema.js';
 import type { MaxsimConfig } from '../../types/config.js';
+import type { ModuleManifest } from '../../types/module.js';
 
-export function parseConfig(raw: unknown): MaxsimConfig {
+/**
+ * Validate a raw config object and apply defaults.
+ *
+ * @param manifests - Module manifests (typically `registry.getAll()`) whose config schemas
+ *   validate their entries in `modules`. Built-in module options are always validated;
+ *   pass the registry's manifests to also validate external and project-local module
+ *   options. Re-parsing an already parsed config is safe.
+ */
+export function parseConfig(raw: unknown, manifests?: readonly ModuleManifest[]): MaxsimConfig {
+  const schema = manifests === undefined ? MaxsimConfigSchema : createMaxsimConfigSchema(manifests);
   try {
-    return MaxsimConfigSchema.parse(raw);
+    return schema.parse(raw);
   } catch (err) {
     if (err instanceof ZodError) {
       const messages = err.errors.map((e) => `  - ${e.path.join('.')}: ${e.message}`).join('\n');
@@ -0,0 +1,4 @@
+import { z } from 'zod';
+
+/** Target platforms accepted in maxsim.config.yaml. */
+export const PlatformSchema = z.enum(['android', 'ios', 'web', 'macos', 'windows', 'linux']);
@@ -1,149 +1,192 @@
 import { z } from 'zod';
-
-const PlatformSchema = z.enum(['android', 'ios', 'web', 'macos', 'windows', 'linux']);
-
-const AuthModuleSchema = z.union([
-  z.literal(false),
-  z.object({
-    enabled: z.boolean().default(true),
-    provider: z.enum(['firebase', 'supabase', 'custom']).default('firebase'),
-  }),
-]);
-
-const ApiModuleSchema = z.union([
-  z.literal(false),
-  z.object({
-    enabled: z.boolean().default(true),
-    baseUrl: z.string().optional(),
-    timeout: z.number().optional(),
-  }),
-]);
-
-const DatabaseModuleSchema = z.union([
-  z.literal(false),
-  z.object({
-    enabled: z.boolean().default(true),
-    engine: z.enum(['drift', 'hive', 'isar']).default('drift'),
-  }),
-]);
-
-const I18nModuleSchema = z.union([
-  z.literal(false),
-  z.object({
-    enabled: z.boolean().default(true),
-    defaultLocale: z.string().default('en'),
-    supportedLocales: z.array(z.string()).default(['en']),
-  }),
-]);
-
-const ThemeModuleSchema = z.union([
-  z.literal(false),
-  z.object({
-    enabled: z.boolean().default(true),
-    seedColor: z.string().optional(),
-    useMaterial3: z.boolean().default(true),
-    darkMode: z.boolean().default(true),
-  }),
-]);
-
-const PushModuleSchema = z.union([
-  z.literal(false),
-  z.object({
-    enabled: z.boolean().default(true),
-    provider: z.enum(['firebase', 'onesignal']).default('firebase'),
-  }),
-]);
-
-const AnalyticsModuleSchema = z.union([
-  z.literal(false),
-  z.object({
-    enabled: z.boolean().default(true),
-  }),
-]);
-
-const CicdModuleSchema = z.union([
-  z.literal(false),
-  z.object({
-    enabled: z.boolean().default(true),
-    provider: z.enum(['github', 'gitlab', 'bitbucket']).default('github'),
-    targets: z.array(PlatformSchema).optional(),
-  }),
-]);
-
-const DeepLinkingModuleSchema = z.union([
+import { PlatformSchema } from './platform-schema.js';
+import { BUILT_IN_MODULES } from '../../modules/definitions/index.js';
+import type { ModuleManifest } from '../../types/module.js';
+
+/**
+ * Build the config entry schema of a module from its options schema:
+ * either `false`, or the module's options plus `enabled` (default true).
+ */
+export function createModuleConfigSchema<T extends z.AnyZodObject>(optionsSchema: T) {
+  return z.union([
+    z.literal(false),
+    optionsSchema.extend({ enabled: z.boolean().default(true) }),
+  ]);
+}
+
+type BuiltInModules = typeof BUILT_IN_MODULES;
+
+type BuiltInModulesShape = {
+  [K in keyof BuiltInModules]: z.ZodOptional<
+    ReturnType<typeof createModuleConfigSchema<BuiltInModules[K]['configSchema']>>
+  >;
+};
+
+/**
+ * Config entry for a module whose config schema is not known here (an external or
+ * project-local module not passed to createMaxsimConfigSchema, or one without a
+ * `configSchema`). Only `enabled` is checked; other options are passed through unchanged.
+ */
+const ExternalModuleSchema = z.union([
   z.literal(false),
-  z.object({
-    enabled: z.boolean().default(true),
-    scheme: z.string().optional(),
-    host: z.string().optional(),
-  }),
-]);
-
-export const MaxsimConfigSchema = z.object({
-  version: z.string().default('1'),
-
-  project: z.object({
-    name: z.string(),
-    orgId: z.string(),
-    description: z.string().optional(),
-    minSdkVersion: z.string().optional(),
-  }),
-
-  platforms: z.array(PlatformSchema).default(['android', 'ios']),
-
-  modules: z
-    .object({
-      auth: AuthModuleSchema.optional(),
-      api: ApiModuleSchema.optional(),
-      database: DatabaseModuleSchema.optional(),
-      i18n: I18nModuleSchema.optional(),
-      theme: ThemeModuleSchema.optional(),
-      push: PushModuleSchema.optional(),
-      analytics: AnalyticsModuleSchema.optional(),
-      cicd: CicdModuleSchema.optional(),
-      'deep-linking': DeepLinkingModuleSchema.optional(),
-    })
-    .default({}),
-
-  claude: z
+  z
     .object({
       enabled: z.boolean().default(true),
-      preset: z.enum(['minimal', 'standard', 'full']).optional(),
-      overrides: z
-        .object({
-          claudeMd: z.boolean().optional(),
-          rules: z.boolean().optional(),
-          agents: z.boolean().optional(),
-          hooks: z.boolean().optional(),
-          skills: z.boolean().optional(),
-          commands: z.boolean().optional(),
-          mcp: z.boolean().optional(),
-        })
-        .optional(),
-      generateAgents: z.boolean().default(false),
-      generateSkills: z.boolean().default(false),
-      generateHooks: z.boolean().default(false),
-      agentTeams: z.boolean().default(false),
-      mcpServers: z.array(z.string()).default([]),
     })
-    .default({}),
+    .passthrough(),
+]);
 
-  ralph: z
-    .object({
-      enabled: z.boolean().default(false),
-      maxIterations: z.number().default(25),
-    })
-    .optional(),
+/**
+ * Build the `modules` shape: the built-in modules plus every given manifest that declares
+ * a `configSchema` (a registered manifest replaces a built-in one with the same ID).
+ */
+function createModulesShape(manifests: readonly ModuleManifest[]): BuiltInModulesShape {
+  const shape: z.ZodRawShape = {};
+  for (const [id, mod] of Object.entries(BUILT_IN_MODULES)) {
+    shape[id] = createModuleConfigSchema(mod.configSchema).optional();
+  }
+  for (const manifest of manifests) {
+    if (manifest.configSchema === undefined) continue;
+    shape[manifest.id] = createModuleConfigSchema(manifest.configSchema).optional();
+  }
+  return shape as BuiltInModulesShape;
+}
+
+/**
+ * A feature generated by `maxsim-flutter generate feature`. Its routes are wired into
+ * app_router.dart whenever the router is regenerated.
+ */
+export const FeatureConfigSchema = z.object({
+  /** snake_case name; the feature lives in lib/features/<name>/ */
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Feature names must be snake_case'),
+  /** Route path of the feature's page, e.g. '/orders' */
+  route: z.string().startsWith('/'),
+  /** Whether the feature has a detail page at `<route>/:id` */
+  listDetail: z.boolean().default(false),
+  /** Whether the feature caches its items on the device (adds shared_preferences) */
+  offlineCache: z.boolean().default(false),
+});
 
-  scaffold: z
-    .object({
-      overwriteExisting: z.enum(['ask', 'always', 'never']).default('ask'),
-      runDartFormat: z.boolean().default(true),
-      runPubGet: z.boolean().default(true),
-      runBuildRunner: z.boolean().default(true),
-      dryRun: z.boolean().default(false),
-    })
-    .default({}),
+const EnvironmentNameSchema = z
+  .string()
+  .regex(
+    /^[a-z][a-zA-Z0-9]*$/,
+    'Environment names must start with a lowercase letter and contain only letters and digits',
+  );
+
+/**
+ * A flavor of the app (e.g. dev, staging, prod) with its own entry point, lib/main_<name>.dart.
+ * Listing just the name (`environments: [dev, prod]`) uses the defaults.
+ */
+export const EnvironmentConfigSchema = z.object({
+  name: EnvironmentNameSchema,
+  /** Appended to the application/bundle ID (default: '.<name>', none for prod/production) */
+  bundleIdSuffix: z.string().optional(),
+  /** App name shown on the device (default: the project name, plus the flavor outside prod) */
+  appName: z.string().optional(),
+  /** API values of the flavor (used by the api module) */
+  api: z.object({ baseUrl: z.string().url().optional() }).optional(),
+});
 
-  externalModules: z.array(z.string()).default([]),
+/**
+ * A command run on the generated project after it was written, e.g. `dart fix --apply`.
+ * Steps are ordered among the built-in ones: 'flutter-pub-get', 'build-runner' and 'dart-format'.
+ */
+export const PostProcessorConfigSchema = z.object({
+  /** Kebab-case ID; a step with the ID of a built-in or module step replaces it */
+  id: z.string().regex(/^[a-z][a-z0-9-]*$/, 'Post-processor IDs must be kebab-case'),
+  /** Command line, run in the project without a shell (e.g. 'dart fix --apply') */
+  command: z.string().trim().min(1),
+  /** Steps that must succeed first; this one is skipped when one of them does not */
+  dependsOn: z.array(z.string()).default([]),
+  /** Steps this one runs after when they are present */
+  after: z.array(z.string()).default([]),
+  /** Steps this one runs before when they are present */
+  before: z.array(z.string()).default([]),
+  /** Seconds before the command is aborted (default 600) */
+  timeout: z.number().int().positive().optional(),
 });
+
+/**
+ * Build the maxsim.config.yaml schema. Module entries are validated against the built-in
+ * modules' config schemas and those of `manifests` (e.g. external and project-local modules
+ * from the registry); entries of other modules only get their `enabled` flag checked.
+ */
+export function createMaxsimConfigSchema(manifests: readonly ModuleManifest[] = []) {
+  return z.object({
+    version: z.string().default('1'),
+
+    project: z.object({
+      name: z.string(),
+      orgId: z.string(),
+      description: z.string().optional(),
+      minSdkVersion: z.string().optional(),
+    }),
+
+    platforms: z.array(PlatformSchema).default(['android', 'ios']),
+
+    modules: z.object(createModulesShape(manifests)).catchall(ExternalModuleSchema).default({}),
+
+    claude: z
+      .object({
+        enabled: z.boolean().default(true),
+        preset: z.enum(['minimal', 'standard', 'full']).optional(),
+        overrides: z
+          .object({
+            claudeMd: z.boolean().optional(),
+            rules: z.boolean().optional(),
+            agents: z.boolean().optional(),
+            hooks: z.boolean().optional(),
+            skills: z.boolean().optional(),
+            commands: z.boolean().optional(),
+            mcp: z.boolean().optional(),
+          })
+          .optional(),
+        generateAgents: z.boolean().default(false),
+        generateSkills: z.boolean().default(false),
+        generateHooks: z.boolean().default(false),
+        agentTeams: z.boolean().default(false),
+        mcpServers: z.array(z.string()).default([]),
+      })
+      .default({}),
+
+    ralph: z
+      .object({
+        enabled: z.boolean().default(false),
+        maxIterations: z.number().default(25),
+      })
+      .optional(),
+
+    features: z.array(FeatureConfigSchema).optional(),
+
+    environments: z
+      .array(
+        z.union([
+          EnvironmentNameSchema.transform((name) => ({ name })),
+          EnvironmentConfigSchema,
+        ]),
+      )
+      .refine(
+        (environments) => new Set(environments.map((e) => e.name)).size === environments.length,
+        'Environment names must be unique',
+      )
+      .optional(),
+
+    scaffold: z
+      .object({
+        overwriteExisting: z.enum(['ask', 'always', 'never', 'merge']).default('ask'),
+        runFlutterCreate: z.boolean().default(false),
+        runDartFormat: z.boolean().default(true),
+        runPubGet: z.boolean().default(true),
+        runBuildRunner: z.boolean().default(true),
+        dryRun: z.boolean().default(false),
+        postProcessors: z.array(PostProcessorConfigSchema).default([]),
+      })
+      .default({}),
+
+    externalModules: z.array(z.string()).default([]),
+  });
+}
+
+/** Schema of maxsim.config.yaml with the built-in modules' options. */
+export const MaxsimConfigSchema = createMaxsimConfigSchema();
@@ -1,5 +1,24 @@
-import type { MaxsimConfig } from '../types/config.js';
+import type { z } from 'zod';
+import type { MaxsimConfig, PostProcessorConfig } from '../types/config.js';
 import type { Platform } from '../types/project.js';
+import type { OverwriteMode } from '../scaffold/file-writer.js';
+import { BUILT_IN_MODULE_IDS } from '../modules/definitions/index.js';
+import type { BUILT_IN_MODULES } from '../modules/definitions/index.js';
+
+/** Context value of a module: `false` when disabled, otherwise its options. */
+type ResolvedModule = false | Record<string, unknown>;
+
+/** Kebab-case module ID → camelCase context key, e.g. 'deep-linking' → 'deepLinking'. */
+type ModuleKey<Id extends string> = Id extends `${infer Head}-${infer Tail}`
+  ? `${Head}${Capitalize<ModuleKey<Tail>>}`
+  : Id;
+
+/** Resolved options of the built-in modules, typed by their manifests' config schemas. */
+export type BuiltInModuleOptions = {
+  [Id in keyof typeof BUILT_IN_MODULES as ModuleKey<Id>]:
+    | false
+    | z.output<(typeof BUILT_IN_MODULES)[Id]['configSchema']>;
+};
 
 export interface ProjectContext {
   // Core project info
@@ -11,26 +30,23 @@ export interface ProjectContext {
   platforms: Platform[];
 
   // Module configuration (resolved from config)
-  modules: {
-    auth: false | { provider: 'firebase' | 'supabase' | 'custom' };
-    api: false | { baseUrl?: string };
-    database: false | { engine: 'drift' | 'hive' | 'isar' };
-    i18n: false | { defaultLocale: string; supportedLocales: string[] };
-    theme: false | { seedColor?: string; darkMode: boolean };
-    push: false | { provider: 'firebase' | 'onesignal' };
-    analytics: false | { enabled: boolean };
-    cicd: false | { provider: 'github' | 'gitlab' | 'bitbucket' };
-    deepLinking: false | { scheme?: string; host?: string };
+  modules: BuiltInModuleOptions & {
+    /** External and project-local modules, keyed by the camelCase form of their module ID */
+    [externalModule: string]: ResolvedModule | undefined;
   };
 
   // Scaffold settings
   scaffold: {
     dryRun: boolean;
-    overwrite: 'ask' | 'always' | 'never';
+    overwrite: OverwriteMode;
+    /** Merge the native platform folders of `flutter create` into the output */
+    flutterCreate?: boolean;
     postProcessors: {
       dartFormat: boolean;
       flutterPubGet: boolean;
       buildRunner: boolean;
+      /** Commands from `scaffold.postProcessors` in maxsim.config.yaml */
+      custom?: PostProcessorConfig[];
     };
   };
 
@@ -57,76 +73,31 @@ export interface ProjectContext {
   rawConfig: MaxsimConfig;
 }
 
-function resolveAuthModule(
-  raw: MaxsimConfig['modules']['auth'],
-): ProjectContext['modules']['auth'] {
-  if (raw === false || raw === undefined) return false;
-  if (!raw.enabled) return false;
-  return { provider: raw.provider };
-}
-
-function resolveApiModule(
-  raw: MaxsimConfig['modules']['api'],
-): ProjectContext['modules']['api'] {
-  if (raw === false || raw === undefined) return false;
-  if (!raw.enabled) return false;
-  return { baseUrl: raw.baseUrl };
-}
-
-function resolveDatabaseModule(
-  raw: MaxsimConfig['modules']['database'],
-): ProjectContext['modules']['database'] {
-  if (raw === false || raw === undefined) return false;
-  if (!raw.enabled) return false;
-  return { engine: raw.engine };
-}
-
-function resolveI18nModule(
-  raw: MaxsimConfig['modules']['i18n'],
-): ProjectContext['modules']['i18n'] {
-  if (raw === false || raw === undefined) return false;
-  if (!raw.enabled) return false;
-  return { defaultLocale: raw.defaultLocale, supportedLocales: raw.supportedLocales };
+/**
+ * Convert a kebab-case module ID to its ProjectContext key (e.g. 'deep-linking' → 'deepLinking').
+ */
+export function toModuleKey(moduleId: string): string {
+  return moduleId.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
 }
 
-function resolveThemeModule(
-  raw: MaxsimConfig['modules']['theme'],
-): ProjectContext['modules']['theme'] {
-  if (raw === false || raw === undefined) return false;
-  if (!raw.enabled) return false;
-  return { seedColor: raw.seedColor, darkMode: raw.darkMode };
-}
-
-function resolvePushModule(
-  raw: MaxsimConfig['modules']['push'],
-): ProjectContext['modules']['push'] {
-  if (raw === false || raw === undefined) return false;
-  if (!raw.enabled) return false;
-  return { provider: raw.provider };
-}
-
-function resolveAnalyticsModule(
-  raw: MaxsimConfig['modules']['analytics'],
-): ProjectContext['modules']['analytics'] {
-  if (raw === false || raw === undefined) return false;
-  if (!raw.enabled) return false;
-  return { enabled: raw.enabled };
-}
-
-function resolveCicdModule(
-  raw: MaxsimConfig['modules']['cicd'],
-): ProjectContext['modules']['cicd'] {
-  if (raw === false || raw === undefined) return false;
-  if (!raw.enabled) return false;
-  return { provider: raw.provider };
-}
-
-function resolveDeepLinkingModule(
-  raw: MaxsimConfig['modules']['deep-linking'],
-): ProjectContext['modules']['deepLinking'] {
-  if (raw === false || raw === undefined) return false;
-  if (!raw.enabled) return false;
-  return { scheme: raw.scheme, host: raw.host };
+/**
+ * Resolve every module entry of the config into its ProjectContext value:
+ * `false` when disabled, otherwise the module's parsed options without `enabled`.
+ */
+function resolveModules(rawModules: MaxsimConfig['modules']): Record<string, ResolvedModule> {
+  const resolved: Record<string, ResolvedModule> = {};
+  for (const id of BUILT_IN_MODULE_IDS) {
+    resolved[toModuleKey(id)] = false;
+  }
+  for (const [id, raw] of Object.entries(rawModules)) {
+    const key = toModuleKey(id);
+    if (raw === false || raw === undefined || !raw.enabled) {
+      resolved[key] = false;
+      continue;
+    }
+    resolved[key] = Object.fromEntries(Object.entries(raw).filter(([k]) => k !== 'enabled'));
+  }
+  return resolved;
 }
 
 // Factory function to create context from config
@@ -138,25 +109,17 @@ export function createProjectContext(config: MaxsimConfig, outputDir: string): P
 
     platforms: config.platforms,
 
-    modules: {
-      auth: resolveAuthModule(config.modules.auth),
-      api: resolveApiModule(config.modules.api),
-      database: resolveDatabaseModule(config.modules.database),
-      i18n: resolveI18nModule(config.modules.i18n),
-      theme: resolveThemeModule(config.modules.theme),
-      push: resolvePushModule(config.modules.push),
-      analytics: resolveAnalyticsModule(config.modules.analytics),
-      cicd: resolveCicdModule(config.modules.cicd),
-      deepLinking: resolveDeepLinkingModule(config.modules['deep-linking']),
-    },
+    modules: resolveModules(config.modules) as ProjectContext['modules'],
 
     scaffold: {
       dryRun: config.scaffold.dryRun,
       overwrite: config.scaffold.overwriteExisting,
+      flutterCreate: config.scaffold.runFlutterCreate,
       postProcessors: {
         dartFormat: config.scaffold.runDartFormat,
         flutterPubGet: config.scaffold.runPubGet,
         buildRunner: config.scaffold.runBuildRunner,
+        custom: config.scaffold.postProcessors,
       },
     },
 
@@ -1,4 +1,13 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
 import { execa } from 'execa';
+import { SEMVER_PATTERN, compareVersions } from '../modules/versions.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/** pubspec.yaml template of generated projects, which declares their SDK constraints. */
+const PUBSPEC_TEMPLATE_PATH = join(__dirname, '../../templates/core/pubspec.yaml.hbs');
 
 export interface ValidationResult {
   valid: boolean;
@@ -6,36 +15,146 @@ export interface ValidationResult {
   warnings: string[];
 }
 
-async function checkTool(command: string, args: string[]): Promise<boolean> {
+/**
+ * SDK constraints from the `environment:` section of the generated pubspec.yaml.
+ */
+export interface SdkConstraints {
+  /** Dart SDK constraint, e.g. '^3.5.0' */
+  dart?: string;
+  /** Flutter SDK constraint, e.g. '^3.24.0' */
+  flutter?: string;
+}
+
+/**
+ * Run `<command> --version` and return its output, or undefined when the tool is not installed.
+ */
+export async function getToolVersionOutput(command: string): Promise<string | undefined> {
   try {
-    await execa(command, args, { reject: true });
-    return true;
+    const result = await execa(command, ['--version'], { reject: true });
+    return `${result.stdout ?? ''}\n${result.stderr ?? ''}`;
   } catch {
-    return false;
+    return undefined;
   }
 }
 
-// Check that required tools are installed
+/**
+ * Extract the Flutter and Dart versions from `flutter --version` or `dart --version` output.
+ */
+export function parseToolVersions(output: string): { flutter?: string; dart?: string } {
+  const semver = SEMVER_PATTERN.source.slice(1, -1);
+  return {
+    flutter: new RegExp(`Flutter (${semver})`).exec(output)?.[1],
+    dart: new RegExp(`Dart(?: SDK version:)? (${semver})`).exec(output)?.[1],
+  };
+}
+
+/**
+ * Read the SDK constraints generated projects declare (from the core pubspec.yaml template).
+ */
+export async function readSdkConstraints(
+  pubspecPath = PUBSPEC_TEMPLATE_PATH,
+): Promise<SdkConstraints> {
+  const content = await readFile(pubspecPath, 'utf-8');
+  const environment = /^environment:\n((?:[ \t]+.*\n?)+)/m.exec(content)?.[1] ?? '';
+  const constraint = (key: string): string | undefined =>
+    new RegExp(`^\\s+${key}:\\s*['"]?([^'"\\n]+?)['"]?\\s*$`, 'm').exec(environment)?.[1];
+  return { dart: constraint('sdk'), flutter: constraint('flutter') };
+}
+
+/**
+ * Check a version against a pub version constraint: `^1.2.3`, `any`, an exact version,
+ * or comparisons such as `>=1.2.0 <2.0.0`. Constraints that cannot be parsed are
+ * treated as satisfied.
+ */
+export function satisfiesConstraint(version: string, constraint: string): boolean {
+  if (!SEMVER_PATTERN.test(version)) return true;
+  const trimmed = constraint.trim();
+  if (trimmed === 'any') return true;
+
+  const caret = /^\^(\S+)$/.exec(trimmed);
+  if (caret) {
+    const match = SEMVER_PATTERN.exec(caret[1]);
+    if (!match) return true;
+    const [, major, minor, patch] = match.map(Number);
+    const upper =
+      major > 0 ? `${major + 1}.0.0` : minor > 0 ? `0.${minor + 1}.0` : `0.0.${patch + 1}`;
+    return compareVersions(version, caret[1]) >= 0 && compareVersions(version, upper) < 0;
+  }
+
+  return trimmed.split(/\s+/).every((part) => {
+    const comparison = /^(>=|<=|>|<)?(.+)$/.exec(part);
+    if (!comparison || !SEMVER_PATTERN.test(comparison[2])) return true;
+    const order = compareVersions(version, comparison[2]);
+    switch (comparison[1]) {
+      case '>=':
+        return order >= 0;
+      case '<=':
+        return order <= 0;
+      case '>':
+        return order > 0;
+      case '<':
+        return order < 0;
+      default:
+        return order === 0;
+    }
+  });
+}
+
+/**
+ * Warnings for Flutter and Dart versions that do not satisfy the SDK constraints of generated
+ * projects. Versions that cannot be determined are not reported.
+ */
+export function checkSdkVersions(
+  versions: { flutter?: string; dart?: string },
+  constraints: SdkConstraints,
+): string[] {
+  const warnings: string[] = [];
+  if (versions.flutter && constraints.flutter) {
+    if (!satisfiesConstraint(versions.flutter, constraints.flutter)) {
+      warnings.push(
+        `Flutter ${versions.flutter} does not satisfy the Flutter SDK constraint ` +
+          `${constraints.flutter} of generated projects`,
+      );
+    }
+  }
+  if (versions.dart && constraints.dart) {
+    if (!satisfiesConstraint(versions.dart, constraints.dart)) {
+      warnings.push(
+        `Dart ${versions.dart} does not satisfy the Dart SDK constraint ` +
+          `${constraints.dart} of generated projects`,
+      );
+    }
+  }
+  return warnings;
+}
+
+// Check that required tools are installed, and warn about Flutter/Dart versions
+// that generated projects do not support
 export async function validateEnvironment(): Promise<ValidationResult> {
   const errors: string[] = [];
-  const warnings: string[] = [];
 
-  const [flutterOk, dartOk, gitOk] = await Promise.all([
-    checkTool('flutter', ['--version']),
-    checkTool('dart', ['--version']),
-    checkTool('git', ['--version']),
+  const [flutterOutput, dartOutput, gitOutput] = await Promise.all([
+    getToolVersionOutput('flutter'),
+    getToolVersionOutput('dart'),
+    getToolVersionOutput('git'),
   ]);
 
-  if (!flutterOk) {
+  if (flutterOutput === undefined) {
     errors.push('flutter is not installed or not found in PATH');
   }
-  if (!dartOk) {
+  if (dartOutput === undefined) {
     errors.push('dart is not installed or not found in PATH');
   }
-  if (!gitOk) {
+  if (gitOutput === undefined) {
     errors.push('git is not installed or not found in PATH');
   }
 
+  const versions = {
+    flutter: parseToolVersions(flutterOutput ?? '').flutter,
+    dart: parseToolVersions(dartOutput ?? '').dart,
+  };
+  const warnings = checkSdkVersions(versions, await readSdkConstraints());
+
   return {
     valid: errors.length === 0,
     errors,
@@ -0,0 +1,98 @@
+import { join } from 'node:path';
+
+import type { ProjectContext } from '../core/context.js';
+import { isValidSnakeCase } from '../plan/types.js';
+import { TemplateRenderer, toSnakeCase } from '../scaffold/renderer.js';
+import { buildTemplateContext, collectAndRenderTemplates } from '../scaffold/template-helpers.js';
+import type { GeneratedFile } from '../types/project.js';
+import { GENERATORS_TEMPLATES_DIR, resolvePathPlaceholders } from './template-paths.js';
+
+/**
+ * Layer directories (below lib/features/<feature>/) that each kind of artifact is written to.
+ * Repositories span two layers: the interface in the domain, its implementation in the data layer.
+ */
+export const ARTIFACT_LAYERS = {
+  usecase: ['domain/usecases'],
+  repository: ['domain/repositories', 'data/repositories'],
+  datasource: ['data/datasources'],
+  model: ['data/models'],
+  provider: ['presentation/providers'],
+  page: ['presentation/pages'],
+} as const;
+
+export type ArtifactKind = keyof typeof ARTIFACT_LAYERS;
+
+export const ARTIFACT_KINDS = Object.keys(ARTIFACT_LAYERS) as ArtifactKind[];
+
+/**
+ * Where an artifact goes: `<feature>/<name>` of a `generate` target.
+ */
+export interface ArtifactTarget {
+  /** snake_case name of the feature (lib/features/<feature>/) */
+  feature: string;
+  /** snake_case name of the artifact */
+  name: string;
+}
+
+/**
+ * Parse a `generate` target: `<feature>/<name>`, optionally with the layer directory in
+ * between (e.g. 'orders/domain/usecases/get_orders'). The name is converted to snake_case.
+ *
+ * @throws Error when the target is malformed, a name is not snake_case, or the layer
+ *   directory is not one the kind of artifact belongs in
+ */
+export function parseArtifactTarget(kind: ArtifactKind, target: string): ArtifactTarget {
+  const segments = target.split('/').filter((segment) => segment.length > 0);
+  if (segments.length < 2) {
+    throw new Error(
+      `Invalid target '${target}': expected <feature>/<name>, e.g. orders/get_orders`,
+    );
+  }
+
+  const feature = segments[0];
+  const name = toSnakeCase(segments[segments.length - 1]);
+  if (!isValidSnakeCase(feature)) {
+    throw new Error(`Invalid feature name '${feature}': use snake_case, e.g. 'orders'`);
+  }
+  if (!isValidSnakeCase(name)) {
+    throw new Error(`Invalid name '${name}': use snake_case, e.g. 'get_orders'`);
+  }
+
+  const layer = segments.slice(1, -1).join('/');
+  const layers: readonly string[] = ARTIFACT_LAYERS[kind];
+  if (layer && !layers.some((l) => l === layer || l.startsWith(`${layer}/`))) {
+    const expected = layers.map((l) => `lib/features/${feature}/${l}/`).join(' and ');
+    throw new Error(`A ${kind} belongs in ${expected}, not in lib/features/${feature}/${layer}/`);
+  }
+
+  return { feature, name };
+}
+
+/**
+ * Render an artifact of an existing feature — its file(s) in the layer directory and a
+ * matching test in test/features/<feature>/.
+ */
+export async function renderArtifact(
+  context: ProjectContext,
+  kind: ArtifactKind,
+  target: ArtifactTarget,
+  templatesDir = join(GENERATORS_TEMPLATES_DIR, kind),
+): Promise<GeneratedFile[]> {
+  const templateContext = {
+    ...buildTemplateContext(context),
+    feature: target.feature,
+    name: target.name,
+  };
+  const rendered = await collectAndRenderTemplates(
+    templatesDir,
+    templateContext,
+    new TemplateRenderer(),
+  );
+  return rendered.map((file) => ({
+    ...file,
+    relativePath: resolvePathPlaceholders(file.relativePath, {
+      feature: target.feature,
+      name: target.name,
+    }),
+  }));
+}
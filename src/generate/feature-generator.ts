@@ -0,0 +1,122 @@
+import { join } from 'node:path';
+
+import type { ProjectContext } from '../core/context.js';
+import { isValidSnakeCase } from '../plan/types.js';
+import { TemplateRenderer, toCamelCase, toPascalCase } from '../scaffold/renderer.js';
+import {
+  buildTemplateContext,
+  collectAndRenderTemplates,
+  getFeatureDependencies,
+} from '../scaffold/template-helpers.js';
+import type { FeatureConfig } from '../types/config.js';
+import type { PubspecDependency } from '../types/module.js';
+import type { GeneratedFile } from '../types/project.js';
+import { GENERATORS_TEMPLATES_DIR, resolvePathPlaceholders } from './template-paths.js';
+
+/** Templates of the feature generator; `[name]` in their paths stands for the feature name. */
+export const FEATURE_TEMPLATES_DIR = join(GENERATORS_TEMPLATES_DIR, 'feature');
+
+/** Templates that are only rendered when their variant is enabled. */
+const VARIANT_TEMPLATES = {
+  listDetail: '[name]_detail_page.dart.hbs',
+  offlineCache: '[name]_local_data_source.dart.hbs',
+} as const;
+
+export interface FeatureOptions {
+  /** snake_case feature name */
+  name: string;
+  /** Route path of the feature's page (default: the name in kebab-case, e.g. '/order-items') */
+  route?: string;
+  /** Add create, update and delete to the repository, data source and list provider */
+  crud?: boolean;
+  /** Add a detail page at `<route>/:id` */
+  listDetail?: boolean;
+  /** Cache the items on the device and fall back to them while offline */
+  offlineCache?: boolean;
+}
+
+/**
+ * A rendered feature, ready to be written to a project.
+ */
+export interface FeatureGeneration {
+  /** Entry for the `features` list of maxsim.config.yaml */
+  feature: FeatureConfig;
+  /** Rendered files, relative to the project root */
+  files: GeneratedFile[];
+  /** Dependencies to merge into pubspec.yaml */
+  dependencies: Map<string, PubspecDependency>;
+}
+
+/**
+ * Default route path of a feature: its name in kebab-case (e.g. 'order_items' → '/order-items').
+ */
+export function defaultFeatureRoute(name: string): string {
+  return `/${name.replace(/_/g, '-')}`;
+}
+
+/**
+ * Render a Clean Architecture feature skeleton — entity, repository interface and
+ * implementation, data sources, freezed model, Riverpod providers, pages and tests —
+ * for `lib/features/<name>/` and `test/features/<name>/`.
+ *
+ * @throws Error when the name is not snake_case or the route does not start with '/'
+ */
+export async function renderFeature(
+  context: ProjectContext,
+  options: FeatureOptions,
+  templatesDir = FEATURE_TEMPLATES_DIR,
+): Promise<FeatureGeneration> {
+  const { name } = options;
+  if (!isValidSnakeCase(name)) {
+    throw new Error(`Invalid feature name '${name}': use snake_case, e.g. 'order_items'`);
+  }
+  const route = options.route ?? defaultFeatureRoute(name);
+  if (!route.startsWith('/')) {
+    throw new Error(`Invalid route '${route}': routes start with '/'`);
+  }
+
+  const variants = {
+    crud: options.crud ?? false,
+    listDetail: options.listDetail ?? false,
+    offlineCache: options.offlineCache ?? false,
+  };
+  const templateContext = {
+    ...buildTemplateContext(context),
+    feature: {
+      name,
+      className: toPascalCase(name),
+      camelName: toCamelCase(name),
+      title: name
+        .split('_')
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' '),
+      route,
+      ...variants,
+    },
+  };
+
+  const excluded = (Object.keys(VARIANT_TEMPLATES) as (keyof typeof VARIANT_TEMPLATES)[])
+    .filter((variant) => !variants[variant])
+    .map((variant) => VARIANT_TEMPLATES[variant]);
+  const rendered = await collectAndRenderTemplates(
+    templatesDir,
+    templateContext,
+    new TemplateRenderer(),
+    excluded,
+  );
+
+  const feature: FeatureConfig = {
+    name,
+    route,
+    listDetail: variants.listDetail,
+    offlineCache: variants.offlineCache,
+  };
+  return {
+    feature,
+    files: rendered.map((file) => ({
+      ...file,
+      relativePath: resolvePathPlaceholders(file.relativePath, { name }),
+    })),
+    dependencies: getFeatureDependencies([feature]),
+  };
+}
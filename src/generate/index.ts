@@ -0,0 +1,10 @@
+export { FEATURE_TEMPLATES_DIR, defaultFeatureRoute, renderFeature } from './feature-generator.js';
+export type { FeatureGeneration, FeatureOptions } from './feature-generator.js';
+export {
+  ARTIFACT_KINDS,
+  ARTIFACT_LAYERS,
+  parseArtifactTarget,
+  renderArtifact,
+} from './artifact-generator.js';
+export type { ArtifactKind, ArtifactTarget } from './artifact-generator.js';
+export { GENERATORS_TEMPLATES_DIR, resolvePathPlaceholders } from './template-paths.js';
@@ -0,0 +1,21 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/** Templates of the `generate` subcommands, one directory per generator. */
+export const GENERATORS_TEMPLATES_DIR = join(__dirname, '../../templates/generators');
+
+/**
+ * Replace the `[key]` placeholders in a template path with their values
+ * (e.g. 'lib/features/[feature]/[name].dart' → 'lib/features/orders/get_orders.dart').
+ */
+export function resolvePathPlaceholders(
+  relativePath: string,
+  values: Readonly<Record<string, string>>,
+): string {
+  return relativePath.replace(
+    /\[(\w+)\]/g,
+    (placeholder, key: string) => values[key] ?? placeholder,
+  );
+}
@@ -1,36 +1,173 @@
 // Scaffold
 export { ScaffoldEngine } from './scaffold/engine.js';
-export type { ScaffoldResult, ScaffoldEngineOptions } from './scaffold/engine.js';
+export type { ScaffoldResult, ScaffoldEngineOptions, RenderedProject } from './scaffold/engine.js';
 
 export { TemplateRenderer } from './scaffold/renderer.js';
-export type { TemplateContext } from './scaffold/renderer.js';
+export type { TemplateContext, TemplateEntry } from './scaffold/renderer.js';
 
-export { FileWriter } from './scaffold/file-writer.js';
-export type { FileWriterOptions, WriteResult, OverwriteMode } from './scaffold/file-writer.js';
+export { FileWriter, BASE_DIR } from './scaffold/file-writer.js';
+export type {
+  FileWriterOptions,
+  WriteResult,
+  WriteOutcome,
+  OverwriteMode,
+} from './scaffold/file-writer.js';
+export { mergeThreeWay } from './scaffold/three-way-merge.js';
+export type { MergeResult } from './scaffold/three-way-merge.js';
+export {
+  GENERATION_MANIFEST_PATH,
+  hashContent,
+  createFileRecords,
+  readGenerationManifest,
+  writeGenerationManifest,
+  updateGenerationManifest,
+  recordGeneratedFiles,
+  getGeneratedFileState,
+  getFileStates,
+  checkGeneratedFiles,
+} from './scaffold/generation-manifest.js';
+export type {
+  GeneratedFileRecord,
+  GenerationManifest,
+  GeneratedFileState,
+  GeneratedFileStatus,
+} from './scaffold/generation-manifest.js';
+export { createUnifiedDiff } from './scaffold/unified-diff.js';
+export {
+  createNativePlatforms,
+  flutterCreateArgs,
+  runFlutter,
+} from './scaffold/native-platforms.js';
+export type { FlutterRunner } from './scaffold/native-platforms.js';
+export type { UnifiedDiff } from './scaffold/unified-diff.js';
+export { diffProject } from './scaffold/project-diff.js';
+export { ScaffoldTransaction, withTransaction } from './scaffold/transaction.js';
+export type { FileDiff, ProjectDiff } from './scaffold/project-diff.js';
+export {
+  DEFAULT_POST_PROCESSOR_TIMEOUT_MS,
+  collectPostProcessors,
+  commandPostProcessor,
+  configPostProcessor,
+  formatPostProcessorError,
+  getBuiltInPostProcessors,
+  orderPostProcessors,
+  runPostProcessors,
+} from './scaffold/post-processors/pipeline.js';
+export type { PostProcessorCommandOptions } from './scaffold/post-processors/pipeline.js';
+
+// Generators
+export {
+  renderFeature,
+  renderArtifact,
+  parseArtifactTarget,
+  ARTIFACT_KINDS,
+  ARTIFACT_LAYERS,
+} from './generate/index.js';
+export type {
+  FeatureGeneration,
+  FeatureOptions,
+  ArtifactKind,
+  ArtifactTarget,
+} from './generate/index.js';
 
 // Modules
-export { ModuleRegistry } from './modules/registry.js';
+export {
+  ModuleRegistry,
+  loadModuleRegistry,
+  createProjectLoader,
+  formatExternalModuleError,
+  LOCAL_MODULES_DIR,
+} from './modules/registry.js';
+export type { ExternalModuleLoadError, RegistryLoadResult } from './modules/registry.js';
 export { ModuleResolver } from './modules/resolver.js';
-export type { ResolveResult } from './modules/resolver.js';
-export { ModuleComposer, pickNewerVersion } from './modules/composer.js';
-export type { ComposeResult } from './modules/composer.js';
+export type {
+  ResolveResult,
+  ResolveOptions,
+  CapabilityChoice,
+  ResolutionReason,
+  ResolutionIssue,
+  ResolutionTrace,
+} from './modules/resolver.js';
+export {
+  ModuleComposer,
+  getActiveContributions,
+  pickNewerVersion,
+  formatVersionConflict,
+} from './modules/composer.js';
+export type { ComposeResult, VersionConflict } from './modules/composer.js';
+export {
+  ProjectFileEditor,
+  runModuleHooks,
+  writeHookChanges,
+  insertMarkedBlock,
+  removeMarkedBlock,
+  ANDROID_MANIFEST_PATH,
+  IOS_INFO_PLIST_PATH,
+} from './modules/hooks.js';
+export type { ModuleHookResult, MarkedBlockOptions } from './modules/hooks.js';
+export {
+  MODULE_LOCK_PATH,
+  compareVersions,
+  findModuleUpdates,
+  getModuleVersion,
+  readModuleLock,
+  updateModuleLock,
+  writeModuleLock,
+} from './modules/versions.js';
+export type { ModuleLock, ModuleUpdate } from './modules/versions.js';
+export { BUILT_IN_MODULES, BUILT_IN_MODULE_IDS } from './modules/definitions/index.js';
+export type { BuiltInModuleId } from './modules/definitions/index.js';
 
 // Core
-export { createProjectContext } from './core/context.js';
-export type { ProjectContext } from './core/context.js';
+export { createProjectContext, toModuleKey } from './core/context.js';
+export type { ProjectContext, BuiltInModuleOptions } from './core/context.js';
 
-export { MaxsimConfigSchema } from './core/config/schema.js';
+export {
+  MaxsimConfigSchema,
+  FeatureConfigSchema,
+  EnvironmentConfigSchema,
+  PostProcessorConfigSchema,
+  createMaxsimConfigSchema,
+  createModuleConfigSchema,
+} from './core/config/schema.js';
 export { parseConfig, loadConfig } from './core/config/loader.js';
-export { validateEnvironment } from './core/validator.js';
-export type { ValidationResult } from './core/validator.js';
+export {
+  validateEnvironment,
+  readSdkConstraints,
+  satisfiesConstraint,
+  checkSdkVersions,
+} from './core/validator.js';
+export type { ValidationResult, SdkConstraints } from './core/validator.js';
 
 // Types
-export type { MaxsimConfig } from './types/config.js';
+export type {
+  MaxsimConfig,
+  FeatureConfig,
+  EnvironmentConfig,
+  PostProcessorConfig,
+} from './types/config.js';
 export type {
   ModuleManifest,
   ModuleContribution,
+  PubspecDependency,
+  ConditionalContribution,
   ModuleQuestion,
   ProviderContribution,
   RouteContribution,
+  ModuleHook,
+  ModuleHooks,
+  ModuleHookName,
+  ModuleHookContext,
+  ModuleFileEditor,
+  ClaudeContribution,
+  ClaudeRuleContribution,
+  ClaudeSkillContribution,
+  PrdStoryContribution,
 } from './types/module.js';
 export type { GeneratedFile, TemplateInstruction, Platform } from './types/project.js';
+export type {
+  PostProcessor,
+  PostProcessorRunContext,
+  PostProcessorResult,
+  PostProcessorStatus,
+} from './types/post-processor.js';
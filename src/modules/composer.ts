@@ -1,15 +1,44 @@
-import type { ModuleManifest, ProviderContribution, RouteContribution } from '../types/module.js';
+import type {
+  ModuleContribution,
+  ModuleManifest,
+  ProviderContribution,
+  PubspecDependency,
+  RouteContribution,
+} from '../types/module.js';
 import type { ProjectContext } from '../core/context.js';
+import type { PubspecPartialResult } from '../scaffold/template-helpers.js';
+
+/** Generated barrel (relative to the project root) exporting the providers of all modules. */
+export const APP_PROVIDERS_OUTPUT_PATH = 'lib/core/providers/app_providers.dart';
+
+/**
+ * A package requested by several modules with constraints that cannot be
+ * satisfied together (e.g. ^1.0.0 and ^2.0.0). The newer constraint is used.
+ */
+export interface VersionConflict {
+  /** Package name */
+  readonly package: string;
+  /** pubspec.yaml section the package belongs to */
+  readonly section: 'dependencies' | 'dev_dependencies';
+  /** Every distinct constraint requested, with the module requesting it */
+  readonly requested: readonly { moduleId: string; version: string }[];
+  /** The constraint written to pubspec.yaml */
+  readonly resolved: string;
+}
 
 /**
  * Result of composing all active modules.
  * Contains merged dependencies, providers, routes, and env vars.
  */
 export interface ComposeResult {
-  /** Merged pubspec dependencies (name -> version constraint) */
-  readonly dependencies: ReadonlyMap<string, string>;
-  /** Merged pubspec dev dependencies (name -> version constraint) */
-  readonly devDependencies: ReadonlyMap<string, string>;
+  /** Merged pubspec dependencies (name -> version constraint or source) */
+  readonly dependencies: ReadonlyMap<string, PubspecDependency>;
+  /** Merged pubspec dev dependencies (name -> version constraint or source) */
+  readonly devDependencies: ReadonlyMap<string, PubspecDependency>;
+  /** Merged `flutter:` section entries from the modules' pubspec partials */
+  readonly pubspecFlutter: Readonly<Record<string, unknown>>;
+  /** Packages requested with incompatible constraints */
+  readonly conflicts: readonly VersionConflict[];
   /** All provider contributions from active modules */
   readonly providers: readonly ProviderContribution[];
   /** All route contributions from active modules */
@@ -37,6 +66,90 @@ export function pickNewerVersion(a: string, b: string): string {
   return a; // identical — keep first
 }
 
+/**
+ * Format a dependency for display: version constraints as-is,
+ * sources as `key: value` pairs (e.g. 'sdk: flutter').
+ */
+export function formatDependency(dependency: PubspecDependency): string {
+  if (typeof dependency === 'string') return dependency;
+  return Object.entries(dependency)
+    .map(
+      ([key, value]) =>
+        `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`,
+    )
+    .join(', ');
+}
+
+/**
+ * Format a version conflict as a one-line warning.
+ */
+export function formatVersionConflict(conflict: VersionConflict): string {
+  const requested = conflict.requested.map((r) => `${r.moduleId} requires ${r.version}`).join(', ');
+  return `Version conflict for ${conflict.package}: ${requested} — using ${conflict.resolved}`;
+}
+
+/**
+ * The range of versions a caret constraint allows, keyed by its first significant
+ * component: ^1.2.3 → '1', ^0.19.0 → '0.19'. Constraints with equal keys are compatible.
+ */
+function compatibilityKey(version: string): string {
+  const parts = version.replace(/^[\^~>=<!\s]+/, '').split('.');
+  if (parts.some((part) => part === '' || Number.isNaN(Number.parseInt(part, 10)))) {
+    return version;
+  }
+  const major = Number.parseInt(parts[0], 10);
+  return major > 0 ? String(major) : `0.${Number.parseInt(parts[1] ?? '0', 10)}`;
+}
+
+/** Merge one requested dependency into `target`: sources win over constraints, newer constraints win. */
+function mergeDependency(
+  target: Map<string, PubspecDependency>,
+  name: string,
+  version: PubspecDependency,
+): void {
+  const existing = target.get(name);
+  if (typeof version === 'object' || existing === undefined) {
+    target.set(name, version);
+  } else if (typeof existing === 'string') {
+    target.set(name, pickNewerVersion(existing, version));
+  }
+}
+
+/**
+ * Find the packages whose requested constraints cannot be satisfied together.
+ */
+function findConflicts(
+  section: VersionConflict['section'],
+  requests: ReadonlyMap<string, { moduleId: string; version: string }[]>,
+  resolved: ReadonlyMap<string, PubspecDependency>,
+): VersionConflict[] {
+  const conflicts: VersionConflict[] = [];
+  for (const [name, requested] of requests) {
+    const keys = new Set(requested.map((r) => compatibilityKey(r.version)));
+    if (keys.size > 1) {
+      conflicts.push({
+        package: name,
+        section,
+        requested,
+        resolved: formatDependency(resolved.get(name) ?? ''),
+      });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Get the contributions a module makes to a project: its base contributions
+ * followed by every conditional block that applies to the context.
+ */
+export function getActiveContributions(
+  manifest: ModuleManifest,
+  context: ProjectContext,
+): ModuleContribution[] {
+  const active = (manifest.conditionalContributions ?? []).filter((block) => block.when(context));
+  return [manifest.contributions, ...active.map((block) => block.contributions)];
+}
+
 /**
  * Composes resolved modules into a unified set of contributions.
  * Takes topologically sorted ModuleManifests and merges their
@@ -48,62 +161,92 @@ export class ModuleComposer {
    * Compose contributions from an ordered list of modules.
    *
    * @param modules - Topologically sorted module manifests (from ModuleResolver)
-   * @param context - Project context for evaluating isEnabled predicates
+   * @param context - Project context for evaluating isEnabled and conditional contribution predicates
+   * @param partials - Rendered pubspec.partial.yaml of each module (by module ID), merged with its manifest dependencies
    * @returns Merged ComposeResult
    */
-  compose(modules: readonly ModuleManifest[], context: ProjectContext): ComposeResult {
-    const dependencies = new Map<string, string>();
-    const devDependencies = new Map<string, string>();
+  compose(
+    modules: readonly ModuleManifest[],
+    context: ProjectContext,
+    partials: ReadonlyMap<string, PubspecPartialResult> = new Map(),
+  ): ComposeResult {
+    const dependencies = new Map<string, PubspecDependency>();
+    const devDependencies = new Map<string, PubspecDependency>();
+    const dependencyRequests = new Map<string, { moduleId: string; version: string }[]>();
+    const devDependencyRequests = new Map<string, { moduleId: string; version: string }[]>();
+    const pubspecFlutter: Record<string, unknown> = {};
     const providers: ProviderContribution[] = [];
     const routes: RouteContribution[] = [];
     const envVarsSet = new Set<string>();
 
+    const request = (
+      target: Map<string, PubspecDependency>,
+      requests: Map<string, { moduleId: string; version: string }[]>,
+      moduleId: string,
+      entries: Iterable<[string, PubspecDependency]>,
+    ): void => {
+      for (const [name, version] of entries) {
+        mergeDependency(target, name, version);
+        const requested = requests.get(name) ?? [];
+        const formatted = formatDependency(version);
+        if (!requested.some((r) => r.moduleId === moduleId && r.version === formatted)) {
+          requested.push({ moduleId, version: formatted });
+        }
+        requests.set(name, requested);
+      }
+    };
+
     for (const mod of modules) {
       // Skip modules that have an isEnabled predicate that returns false
       if (mod.isEnabled && !mod.isEnabled(context)) {
         continue;
       }
 
-      const contrib = mod.contributions;
+      // Dependencies of the module's pubspec.partial.yaml (newer version wins)
+      const partial = partials.get(mod.id);
+      if (partial) {
+        request(dependencies, dependencyRequests, mod.id, partial.deps);
+        request(devDependencies, devDependencyRequests, mod.id, partial.devDeps);
+        Object.assign(pubspecFlutter, partial.flutter);
+      }
 
-      // Merge dependencies (newer version wins)
-      if (contrib.pubspecDependencies) {
-        for (const [name, version] of Object.entries(contrib.pubspecDependencies)) {
-          const existing = dependencies.get(name);
-          if (existing) {
-            dependencies.set(name, pickNewerVersion(existing, version));
-          } else {
-            dependencies.set(name, version);
-          }
+      // Base contributions plus the conditional blocks that apply to this project
+      for (const contrib of getActiveContributions(mod, context)) {
+        // Merge dependencies (newer version wins)
+        if (contrib.pubspecDependencies) {
+          request(
+            dependencies,
+            dependencyRequests,
+            mod.id,
+            Object.entries(contrib.pubspecDependencies),
+          );
         }
-      }
 
-      // Merge dev dependencies (newer version wins)
-      if (contrib.pubspecDevDependencies) {
-        for (const [name, version] of Object.entries(contrib.pubspecDevDependencies)) {
-          const existing = devDependencies.get(name);
-          if (existing) {
-            devDependencies.set(name, pickNewerVersion(existing, version));
-          } else {
-            devDependencies.set(name, version);
-          }
+        // Merge dev dependencies (newer version wins)
+        if (contrib.pubspecDevDependencies) {
+          request(
+            devDependencies,
+            devDependencyRequests,
+            mod.id,
+            Object.entries(contrib.pubspecDevDependencies),
+          );
         }
-      }
 
-      // Collect providers
-      if (contrib.providers) {
-        providers.push(...contrib.providers);
-      }
+        // Collect providers
+        if (contrib.providers) {
+          providers.push(...contrib.providers);
+        }
 
-      // Collect routes
-      if (contrib.routes) {
-        routes.push(...contrib.routes);
-      }
+        // Collect routes
+        if (contrib.routes) {
+          routes.push(...contrib.routes);
+        }
 
-      // Collect environment variables
-      if (contrib.envVars) {
-        for (const envVar of contrib.envVars) {
-          envVarsSet.add(envVar);
+        // Collect environment variables
+        if (contrib.envVars) {
+          for (const envVar of contrib.envVars) {
+            envVarsSet.add(envVar);
+          }
         }
       }
     }
@@ -111,6 +254,11 @@ export class ModuleComposer {
     return {
       dependencies,
       devDependencies,
+      pubspecFlutter,
+      conflicts: [
+        ...findConflicts('dependencies', dependencyRequests, dependencies),
+        ...findConflicts('dev_dependencies', devDependencyRequests, devDependencies),
+      ],
       providers,
       routes,
       envVars: [...envVarsSet],
@@ -121,9 +269,18 @@ export class ModuleComposer {
    * Generate a pubspec.yaml dependencies block from a ComposeResult.
    * Returns a string with YAML-formatted dependency lines.
    */
-  formatPubspecDependencies(deps: ReadonlyMap<string, string>): string {
+  formatPubspecDependencies(deps: ReadonlyMap<string, PubspecDependency>): string {
     const sorted = [...deps.entries()].sort(([a], [b]) => a.localeCompare(b));
-    return sorted.map(([name, version]) => `  ${name}: ${version}`).join('\n');
+    return sorted
+      .map(([name, version]) =>
+        typeof version === 'string'
+          ? `  ${name}: ${version}`
+          : [
+              `  ${name}:`,
+              ...Object.entries(version).map(([k, v]) => `    ${k}: ${String(v)}`),
+            ].join('\n'),
+      )
+      .join('\n');
   }
 
   /**
@@ -1,16 +1,25 @@
+import { z } from 'zod';
 import type { ModuleManifest } from '../../../types/module.js';
 
+/** Options of the `analytics` entry in maxsim.config.yaml (besides `enabled`). */
+export const configSchema = z.object({});
+
 /**
  * Analytics module using Firebase Analytics.
- * Provides route observer and event tracking infrastructure.
+ * Provides route observer and event tracking infrastructure, and tracks the signed-in
+ * user when the auth module is enabled.
  */
 export const manifest: ModuleManifest = {
   id: 'analytics',
   name: 'Analytics',
   description: 'Analytics event tracking and route observation via Firebase Analytics',
+  version: '1.0.0',
   requires: [],
+  // The router sets the analytics user ID from the auth state (app_router.dart)
+  enhances: ['auth'],
   templateDir: 'templates/modules/analytics',
   ralphPhase: 2,
+  configSchema,
 
   contributions: {
     pubspecDependencies: {
@@ -26,6 +35,43 @@ export const manifest: ModuleManifest = {
     routes: [],
     envVars: [],
   },
+  claude: {
+    rules: [
+      {
+        name: 'analytics',
+        paths: ['lib/features/analytics/**', 'test/features/analytics/**'],
+        content: `# Analytics Rules
+
+Guidelines for event tracking and analytics.
 
-  isEnabled: (context) => context.modules.analytics !== false,
+## Rules
+- All analytics logic lives in \`lib/features/analytics/\`.
+- Use a route observer to automatically track screen views.
+- Log events through a central analytics service — never call tracking APIs directly from widgets.
+- Define event names as constants to prevent typos and ensure consistency.
+- Never log PII (emails, names, tokens) in analytics events.
+- With the auth module, the router sets the analytics user ID on sign-in and resets it on sign-out; don't set it elsewhere.
+`,
+      },
+    ],
+    storyPrefix: 'ANLT',
+    stories: [
+      {
+        priority: 'P2',
+        title: 'Implement analytics event tracking',
+        description:
+          'Create `AnalyticsService` abstraction in `lib/features/analytics/`. Implement a GoRouter observer that tracks screen views automatically. Provide `analyticsServiceProvider` for logging custom events. Log app open event on startup.',
+        storyPoints: 3,
+        dependencies: ['P1-CORE-001', 'P1-CORE-002'],
+        acceptanceCriteria: [
+          '`AnalyticsService` interface defines `logEvent(name, params)` and `logScreen(name)`',
+          'GoRouter observer automatically tracks screen navigation',
+          '`analyticsServiceProvider` exposes the `AnalyticsService`',
+          'App open event is logged on startup',
+          'Unit tests mock `AnalyticsService` and verify event calls',
+          '`flutter analyze` reports zero errors',
+        ],
+      },
+    ],
+  },
 };
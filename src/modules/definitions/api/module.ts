@@ -1,5 +1,12 @@
+import { z } from 'zod';
 import type { ModuleManifest } from '../../../types/module.js';
 
+/** Options of the `api` entry in maxsim.config.yaml (besides `enabled`). */
+export const configSchema = z.object({
+  baseUrl: z.string().optional(),
+  timeout: z.number().optional(),
+});
+
 /**
  * API module providing HTTP client setup with Dio, interceptors,
  * typed error handling, and Clean Architecture layers.
@@ -8,9 +15,11 @@ export const manifest: ModuleManifest = {
   id: 'api',
   name: 'API Client',
   description: 'HTTP client setup with Dio, interceptors, and typed error handling',
+  version: '1.0.0',
   requires: [],
   templateDir: 'templates/modules/api',
   ralphPhase: 2,
+  configSchema,
 
   questions: [
     {
@@ -40,6 +49,45 @@ export const manifest: ModuleManifest = {
     routes: [],
     envVars: ['API_BASE_URL'],
   },
+  claude: (context) => {
+    if (!context.modules.api) return {};
+    const baseUrl = context.modules.api.baseUrl ?? 'API_BASE_URL env variable';
+
+    return {
+      rules: [
+        {
+          name: 'api',
+          paths: ['lib/core/api/**', 'lib/data/**'],
+          content: `# API & HTTP Client Rules
 
-  isEnabled: (context) => context.modules.api !== false,
+Guidelines for HTTP networking with Dio.
+
+## Rules
+- All API calls go through the central Dio client configured in \`core/api/\`.
+- Use interceptors for auth token injection and token refresh.
+- Map HTTP error responses to typed domain failures — never expose raw Dio exceptions to use cases.
+- Use \`retrofit\` or a repository pattern to abstract API endpoints.
+- Log requests and responses only in debug mode; never log sensitive data.
+`,
+        },
+      ],
+      stories: [
+        {
+          priority: 'P1',
+          title: 'Implement API client with Dio and interceptors',
+          description: `Configure a Dio HTTP client in \`lib/features/api/\`. Base URL: ${baseUrl}. Add interceptors for auth token injection, retry on transient failures, and request logging. Expose via \`dioClientProvider\`. Define \`ApiException\` for typed error handling.`,
+          storyPoints: 5,
+          dependencies: ['P1-CORE-001', 'P1-CORE-003'],
+          acceptanceCriteria: [
+            '`dioClientProvider` is a Riverpod Provider returning a configured `Dio` instance',
+            'Auth interceptor injects Bearer token from auth state (if auth module is enabled)',
+            'Retry interceptor handles 5xx errors with exponential backoff',
+            '`ApiException` maps HTTP status codes to typed errors',
+            'Unit tests for interceptors pass',
+            '`flutter analyze` reports zero errors',
+          ],
+        },
+      ],
+    };
+  },
 };
@@ -1,4 +1,24 @@
+import { z } from 'zod';
 import type { ModuleManifest } from '../../../types/module.js';
+import type { ProjectContext } from '../../../core/context.js';
+
+/** Options of the `auth` entry in maxsim.config.yaml (besides `enabled`). */
+export const configSchema = z.object({
+  provider: z.enum(['firebase', 'supabase', 'custom']).default('firebase'),
+});
+
+/** Predicate matching projects whose auth module uses the given provider. */
+function usesProvider(provider: z.infer<typeof configSchema>['provider']) {
+  return (context: ProjectContext): boolean =>
+    context.modules.auth !== false && context.modules.auth.provider === provider;
+}
+
+/** Display name of each auth provider. */
+const PROVIDER_LABELS: Record<z.infer<typeof configSchema>['provider'], string> = {
+  firebase: 'Firebase Auth',
+  supabase: 'Supabase Auth',
+  custom: 'custom auth',
+};
 
 /**
  * Authentication module supporting Firebase Auth, Supabase Auth, and custom backends.
@@ -8,9 +28,11 @@ export const manifest: ModuleManifest = {
   id: 'auth',
   name: 'Authentication',
   description: 'User authentication with login, register, and session management',
+  version: '1.0.0',
   requires: [],
   templateDir: 'templates/modules/auth',
   ralphPhase: 2,
+  configSchema,
 
   questions: [
     {
@@ -27,10 +49,7 @@ export const manifest: ModuleManifest = {
   ],
 
   contributions: {
-    pubspecDependencies: {
-      'firebase_core': '^3.8.0',
-      'firebase_auth': '^5.3.4',
-    },
+    pubspecDependencies: {},
     pubspecDevDependencies: {},
     providers: [
       {
@@ -53,5 +72,76 @@ export const manifest: ModuleManifest = {
     envVars: [],
   },
 
-  isEnabled: (context) => context.modules.auth !== false,
+  conditionalContributions: [
+    {
+      when: usesProvider('firebase'),
+      contributions: {
+        pubspecDependencies: {
+          'firebase_core': '^3.8.0',
+          'firebase_auth': '^5.3.4',
+        },
+      },
+    },
+    {
+      when: usesProvider('supabase'),
+      contributions: {
+        pubspecDependencies: {
+          'supabase_flutter': '^2.8.2',
+        },
+      },
+    },
+    {
+      when: usesProvider('custom'),
+      contributions: {
+        pubspecDependencies: {
+          'dio': '^5.7.0',
+        },
+      },
+    },
+  ],
+
+  claude: (context) => {
+    if (!context.modules.auth) return {};
+    const { provider } = context.modules.auth;
+    const providerLabel = PROVIDER_LABELS[provider];
+    const dataSource = `${provider.charAt(0).toUpperCase()}${provider.slice(1)}AuthDataSource`;
+
+    return {
+      rules: [
+        {
+          name: 'auth',
+          paths: ['lib/features/auth/**', 'test/features/auth/**'],
+          content: `# Authentication Rules
+
+Guidelines for the auth feature module.
+
+## Rules
+- All auth state is managed through the auth provider — never store tokens in plain SharedPreferences.
+- Use secure storage for auth tokens and session data.
+- Protect routes by checking auth state in go_router redirect guards.
+- On logout, clear all cached user data and navigate to the login screen.
+- Handle token refresh transparently in the API client interceptor.
+`,
+        },
+      ],
+      stories: [
+        {
+          priority: 'P0',
+          title: `Implement authentication with ${providerLabel}`,
+          description: `Build the auth feature in \`lib/features/auth/\` following Clean Architecture. Domain layer: \`AuthRepository\` interface and \`User\` entity. Data layer: \`${dataSource}\` and \`AuthRepositoryImpl\`. Presentation layer: \`authRepositoryProvider\`, login page, register page. Add auth guard to go_router redirect.`,
+          storyPoints: 8,
+          dependencies: ['P1-CORE-001', 'P1-CORE-002', 'P1-CORE-003'],
+          acceptanceCriteria: [
+            '`lib/features/auth/domain/repositories/auth_repository.dart` defines `AuthRepository` interface',
+            '`lib/features/auth/domain/entities/user.dart` defines `User` entity with freezed',
+            `Auth repository implementation connects to ${providerLabel}`,
+            '`/login` and `/register` routes exist and render auth pages',
+            'Auth guard in go_router redirects unauthenticated users to `/login`',
+            'Unit tests for auth use cases pass',
+            '`flutter analyze` reports zero errors',
+          ],
+        },
+      ],
+    };
+  },
 };
@@ -1,5 +1,20 @@
+import { z } from 'zod';
+import { PlatformSchema } from '../../../core/config/platform-schema.js';
 import type { ModuleManifest } from '../../../types/module.js';
 
+/** Options of the `cicd` entry in maxsim.config.yaml (besides `enabled`). */
+export const configSchema = z.object({
+  provider: z.enum(['github', 'gitlab', 'bitbucket']).default('github'),
+  targets: z.array(PlatformSchema).optional(),
+});
+
+/** Pipeline configuration file of each CI/CD provider. */
+const PIPELINE_FILES: Record<z.infer<typeof configSchema>['provider'], string> = {
+  github: '.github/workflows/ci.yml',
+  gitlab: '.gitlab-ci.yml',
+  bitbucket: 'bitbucket-pipelines.yml',
+};
+
 /**
  * CI/CD module generating pipeline configuration files for GitHub Actions,
  * GitLab CI, or Bitbucket Pipelines.
@@ -8,9 +23,11 @@ export const manifest: ModuleManifest = {
   id: 'cicd',
   name: 'CI/CD',
   description: 'Continuous integration and deployment pipeline configuration',
+  version: '1.0.0',
   requires: [],
   templateDir: 'templates/modules/cicd',
   ralphPhase: 2,
+  configSchema,
 
   questions: [
     {
@@ -33,6 +50,45 @@ export const manifest: ModuleManifest = {
     routes: [],
     envVars: [],
   },
+  claude: (context) => {
+    if (!context.modules.cicd) return {};
+    const { provider } = context.modules.cicd;
+    const providerLabel = `${provider.charAt(0).toUpperCase()}${provider.slice(1)}`;
+
+    return {
+      rules: [
+        {
+          name: 'cicd',
+          paths: ['.github/**', 'Makefile', 'Fastfile'],
+          content: `# CI/CD Pipeline Rules
 
-  isEnabled: (context) => context.modules.cicd !== false,
+Guidelines for continuous integration and deployment.
+
+## Rules
+- All CI/CD configuration lives in \`.github/\` (GitHub Actions workflows).
+- Every PR must pass \`flutter analyze\`, \`flutter test\`, and \`dart format --set-exit-if-changed .\`.
+- Use caching for Flutter SDK and pub dependencies to speed up builds.
+- Separate workflows for PR checks, staging deployment, and production release.
+- Never store secrets in workflow files — use GitHub Actions secrets or environment variables.
+`,
+        },
+      ],
+      stories: [
+        {
+          priority: 'P2',
+          title: `Configure ${providerLabel} CI/CD pipeline`,
+          description: `Set up CI/CD pipeline for ${providerLabel}. Pipeline should run on every push: (1) flutter analyze, (2) flutter test, (3) flutter build. Cache Flutter SDK and pub dependencies for speed.`,
+          storyPoints: 2,
+          dependencies: ['P1-CORE-001'],
+          acceptanceCriteria: [
+            `\`${PIPELINE_FILES[provider]}\` exists and is valid YAML`,
+            'Pipeline includes analyze, test, and build stages/jobs',
+            'Flutter pub cache is configured for fast runs',
+            'Pipeline triggers on push to main and pull requests',
+            '`flutter analyze` reports zero errors in CI config files',
+          ],
+        },
+      ],
+    };
+  },
 };
@@ -8,6 +8,7 @@ export const manifest: ModuleManifest = {
   id: 'core',
   name: 'Core',
   description: 'Base Clean Architecture structure with Riverpod state management and go_router navigation',
+  version: '1.0.0',
   requires: [],
   templateDir: 'templates/core',
   ralphPhase: 1,
@@ -1,4 +1,24 @@
+import { z } from 'zod';
 import type { ModuleManifest } from '../../../types/module.js';
+import type { ProjectContext } from '../../../core/context.js';
+
+/** Options of the `database` entry in maxsim.config.yaml (besides `enabled`). */
+export const configSchema = z.object({
+  engine: z.enum(['drift', 'hive', 'isar']).default('drift'),
+});
+
+/** Predicate matching projects whose database module uses the given engine. */
+function usesEngine(engine: z.infer<typeof configSchema>['engine']) {
+  return (context: ProjectContext): boolean =>
+    context.modules.database !== false && context.modules.database.engine === engine;
+}
+
+/** Display name of each database engine. */
+const ENGINE_LABELS: Record<z.infer<typeof configSchema>['engine'], string> = {
+  drift: 'Drift (SQLite)',
+  hive: 'Hive',
+  isar: 'Isar',
+};
 
 /**
  * Database module supporting local persistence with Drift (SQLite),
@@ -9,9 +29,11 @@ export const manifest: ModuleManifest = {
   id: 'database',
   name: 'Database',
   description: 'Local database with drift, hive, or isar',
+  version: '1.0.0',
   requires: [],
   templateDir: 'templates/modules/database',
   ralphPhase: 2,
+  configSchema,
 
   questions: [
     {
@@ -29,14 +51,9 @@ export const manifest: ModuleManifest = {
 
   contributions: {
     pubspecDependencies: {
-      'drift': '^2.22.1',
-      'sqlite3_flutter_libs': '^0.5.28',
       'path_provider': '^2.1.5',
-      'path': '^1.9.0',
-    },
-    pubspecDevDependencies: {
-      'drift_dev': '^2.22.1',
     },
+    pubspecDevDependencies: {},
     providers: [
       {
         name: 'databaseProvider',
@@ -47,5 +64,87 @@ export const manifest: ModuleManifest = {
     envVars: [],
   },
 
-  isEnabled: (context) => context.modules.database !== false,
+  conditionalContributions: [
+    {
+      when: usesEngine('drift'),
+      contributions: {
+        pubspecDependencies: {
+          'drift': '^2.22.1',
+          'sqlite3_flutter_libs': '^0.5.28',
+          'path': '^1.9.0',
+        },
+        pubspecDevDependencies: {
+          'drift_dev': '^2.22.1',
+        },
+      },
+    },
+    {
+      when: usesEngine('hive'),
+      contributions: {
+        pubspecDependencies: {
+          'hive_ce_flutter': '^2.8.0',
+        },
+        pubspecDevDependencies: {
+          'hive_ce_generator': '^1.8.3',
+        },
+      },
+    },
+    {
+      when: usesEngine('isar'),
+      contributions: {
+        pubspecDependencies: {
+          'isar': '^3.1.0+1',
+          'isar_flutter_libs': '^3.1.0+1',
+        },
+        pubspecDevDependencies: {
+          'isar_generator': '^3.1.0+1',
+        },
+      },
+    },
+  ],
+  claude: (context) => {
+    if (!context.modules.database) return {};
+    const { engine } = context.modules.database;
+    const engineLabel = ENGINE_LABELS[engine];
+
+    return {
+      rules: [
+        {
+          name: 'database',
+          paths: ['lib/data/**', 'test/data/**'],
+          content: `# Database & Local Storage Rules
+
+Guidelines for local database and storage access.
+
+## Rules
+- All database access is encapsulated in repository implementations under \`data/\`.
+- Use Drift (or Hive/Isar) for structured local data; never raw file I/O for app data.
+- Define database schema migrations explicitly — never drop and recreate tables.
+- Expose only domain models from repositories — never leak database entities to \`domain\` or \`presentation\`.
+- Use transactions for multi-step writes to ensure consistency.
+`,
+        },
+      ],
+      storyPrefix: 'DB',
+      stories: [
+        {
+          priority: 'P1',
+          title: `Configure local database with ${engineLabel}`,
+          description: `Set up ${engineLabel} in \`lib/features/database/\`. Define initial schema/collections. Expose database via \`databaseProvider\`. Add initialization in main.dart before runApp. Run build_runner to generate database code.`,
+          storyPoints: 5,
+          dependencies: ['P1-CORE-001', 'P1-CORE-003'],
+          acceptanceCriteria: [
+            `${engineLabel} is initialized before the app starts`,
+            '`databaseProvider` exposes the database instance via Riverpod',
+            engine === 'drift'
+              ? '`AppDatabase` class with at least one table defined'
+              : `${engineLabel} adapter/collection defined`,
+            'build_runner generates code without conflicts',
+            'Unit test verifies database can be opened and written to',
+            '`flutter analyze` reports zero errors',
+          ],
+        },
+      ],
+    };
+  },
 };
@@ -1,4 +1,144 @@
-import type { ModuleManifest } from '../../../types/module.js';
+import { z } from 'zod';
+import type { ModuleHookContext, ModuleManifest } from '../../../types/module.js';
+import {
+  ANDROID_MANIFEST_PATH,
+  IOS_INFO_PLIST_PATH,
+  hasMarkedBlock,
+  insertMarkedBlock,
+  removeMarkedBlock,
+} from '../../hooks.js';
+
+/** Options of the `deep-linking` entry in maxsim.config.yaml (besides `enabled`). */
+export const configSchema = z.object({
+  scheme: z.string().optional(),
+  host: z.string().optional(),
+});
+
+/** Marker of the native project entries the module adds. */
+const NATIVE_MARKER = 'deep-linking';
+
+/** Info.plist key listing the URL types (custom schemes) of the app. */
+const URL_TYPES_KEY = '<key>CFBundleURLTypes</key>';
+
+/**
+ * Register the link scheme and host in the native projects: intent filters in the Android
+ * manifest and a URL type in the iOS Info.plist. Without a configured host, only the custom
+ * scheme is registered. Universal links also need the Associated Domains capability, which
+ * can only be enabled in Xcode.
+ */
+async function registerDeepLinks({ context, fs, log }: ModuleHookContext): Promise<void> {
+  const options = context.modules.deepLinking || {};
+  const scheme = options.scheme || 'myapp';
+  const host = options.host || undefined;
+
+  const intentFilters = [
+    ...(host
+      ? [
+          '<intent-filter android:autoVerify="true">',
+          '    <action android:name="android.intent.action.VIEW" />',
+          '    <category android:name="android.intent.category.DEFAULT" />',
+          '    <category android:name="android.intent.category.BROWSABLE" />',
+          `    <data android:scheme="https" android:host="${host}" />`,
+          '</intent-filter>',
+        ]
+      : []),
+    '<intent-filter>',
+    '    <action android:name="android.intent.action.VIEW" />',
+    '    <category android:name="android.intent.category.DEFAULT" />',
+    '    <category android:name="android.intent.category.BROWSABLE" />',
+    `    <data android:scheme="${scheme}" />`,
+    '</intent-filter>',
+  ].join('\n');
+  const androidUpdated = await fs.update(ANDROID_MANIFEST_PATH, (content) =>
+    insertMarkedBlock(content, NATIVE_MARKER, intentFilters, {
+      before: '</activity>',
+      indent: '    ',
+    }),
+  );
+  if (!androidUpdated) {
+    log(
+      `${ANDROID_MANIFEST_PATH} not found — add intent filters for ${scheme}://` +
+        `${host ? ` and https://${host}` : ''} to MainActivity`,
+    );
+  }
+
+  const iosUpdated = await fs.update(IOS_INFO_PLIST_PATH, (content) => addUrlType(content, scheme));
+  if (!iosUpdated) {
+    log(`${IOS_INFO_PLIST_PATH} not found — add ${scheme} to CFBundleURLTypes`);
+  }
+
+  if (host) {
+    log(
+      `Universal links: enable Associated Domains (applinks:${host}) in Xcode and host ` +
+        `apple-app-site-association and assetlinks.json on https://${host}/.well-known/`,
+    );
+  }
+}
+
+/**
+ * Add a URL type for `scheme` to the CFBundleURLTypes of an Info.plist: as a new entry of the
+ * existing array, or with the key when the plist has none. Returns the content unchanged when
+ * the scheme is already listed or the URL type was added before.
+ */
+function addUrlType(content: string, scheme: string): string {
+  const urlType = [
+    '<dict>',
+    '\t<key>CFBundleURLSchemes</key>',
+    '\t<array>',
+    `\t\t<string>${scheme}</string>`,
+    '\t</array>',
+    '</dict>',
+  ];
+
+  if (hasMarkedBlock(content, NATIVE_MARKER)) return content;
+
+  const keyIndex = content.indexOf(URL_TYPES_KEY);
+  if (keyIndex === -1) {
+    const block = [URL_TYPES_KEY, '<array>', ...urlType.map((line) => `\t${line}`), '</array>'];
+    return insertMarkedBlock(content, NATIVE_MARKER, block.join('\n'), {
+      before: '</dict>',
+      last: true,
+      indent: '\t',
+    });
+  }
+
+  const arrayEnd = findArrayEnd(content, keyIndex + URL_TYPES_KEY.length);
+  if (arrayEnd === -1 || content.slice(keyIndex, arrayEnd).includes(`<string>${scheme}</string>`)) {
+    return content;
+  }
+  // Insert before the line closing the array, indented one level deeper
+  const lineStart = content.lastIndexOf('\n', arrayEnd - 1) + 1;
+  return (
+    content.slice(0, lineStart) +
+    insertMarkedBlock(content.slice(lineStart), NATIVE_MARKER, urlType.join('\n'), {
+      before: '</array>',
+      indent: '\t',
+    })
+  );
+}
+
+/**
+ * Find the `</array>` closing the array that directly follows `from` in a plist.
+ * Returns -1 when no array follows (e.g. an empty `<array/>`) or it is not closed.
+ */
+function findArrayEnd(content: string, from: number): number {
+  if (!/^\s*<array>/.test(content.slice(from))) return -1;
+
+  const tags = /<(\/?)array>/g;
+  tags.lastIndex = from;
+  let depth = 0;
+  for (let match = tags.exec(content); match; match = tags.exec(content)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return match.index;
+  }
+  return -1;
+}
+
+async function unregisterDeepLinks({ fs }: ModuleHookContext): Promise<void> {
+  for (const path of [ANDROID_MANIFEST_PATH, IOS_INFO_PLIST_PATH]) {
+    await fs.update(path, (content) => removeMarkedBlock(content, NATIVE_MARKER));
+  }
+}
 
 /**
  * Deep Linking module using app_links for Android/iOS universal links.
@@ -8,9 +148,11 @@ export const manifest: ModuleManifest = {
   id: 'deep-linking',
   name: 'Deep Linking',
   description: 'Deep link and universal link handling via app_links with go_router integration',
+  version: '1.0.0',
   requires: [],
   templateDir: 'templates/modules/deep-linking',
   ralphPhase: 2,
+  configSchema,
 
   questions: [
     {
@@ -21,9 +163,8 @@ export const manifest: ModuleManifest = {
     },
     {
       id: 'host',
-      message: 'Host domain for universal links (e.g. example.com)',
+      message: 'Host domain for universal links (e.g. example.com; leave empty for none)',
       type: 'text',
-      defaultValue: 'example.com',
     },
   ],
 
@@ -38,15 +179,59 @@ export const manifest: ModuleManifest = {
         importPath: '../../features/deep_linking/presentation/providers/deep_link_provider.dart',
       },
     ],
-    routes: [
-      {
-        path: '/deep-link',
-        name: 'deepLink',
-        importPath: '../../features/deep_linking/presentation/pages/deep_link_page.dart',
-      },
-    ],
+    routes: [],
     envVars: [],
   },
 
-  isEnabled: (context) => context.modules.deepLinking !== false,
+  hooks: {
+    afterGenerate: registerDeepLinks,
+    onRemove: unregisterDeepLinks,
+  },
+  claude: (context) => {
+    if (!context.modules.deepLinking) return {};
+    const { scheme, host } = context.modules.deepLinking;
+    const linkExample = scheme && host ? `${scheme}://${host}` : 'app://example.com';
+
+    return {
+      rules: [
+        {
+          name: 'deep-linking',
+          paths: ['lib/core/router/**'],
+          content: `# Deep Linking Rules
+
+Guidelines for deep link handling with GoRouter.
+
+## Rules
+- Configure deep link routes in the central GoRouter configuration under \`lib/core/router/\`.
+- Register custom URL schemes and associated domains in platform-specific config files.
+- Validate and sanitize all deep link parameters before navigation.
+- Provide fallback routes for unrecognized deep links — never crash on malformed URLs.
+- Test deep links on both Android and iOS with real device or emulator verification.
+`,
+        },
+      ],
+      storyPrefix: 'LINK',
+      stories: [
+        {
+          priority: 'P2',
+          title: 'Implement deep linking with app_links',
+          description: `Configure deep links using \`app_links\` package. Handle Universal Links (iOS) and App Links (Android). Integrate with go_router for automatic route resolution. Example link: \`${linkExample}\`.`,
+          storyPoints: 5,
+          dependencies: ['P1-CORE-001', 'P1-CORE-002'],
+          acceptanceCriteria: [
+            '`app_links` is initialized at app startup',
+            'Incoming deep links are forwarded to go_router for navigation',
+            scheme
+              ? `Custom scheme \`${scheme}://\` is handled`
+              : 'Deep link scheme is configured in platform files',
+            host
+              ? `Host \`${host}\` is configured for Universal/App Links`
+              : 'Host is configured in platform-specific files',
+            'Widget test verifies deep link navigation',
+            '`flutter analyze` reports zero errors',
+          ],
+        },
+      ],
+    };
+  },
 };
@@ -1,4 +1,12 @@
+import { z } from 'zod';
 import type { ModuleManifest } from '../../../types/module.js';
+import { commandPostProcessor } from '../../../scaffold/post-processors/pipeline.js';
+
+/** Options of the `i18n` entry in maxsim.config.yaml (besides `enabled`). */
+export const configSchema = z.object({
+  defaultLocale: z.string().default('en'),
+  supportedLocales: z.array(z.string()).default(['en']),
+});
 
 /**
  * Internationalization module providing ARB files, l10n.yaml config,
@@ -8,9 +16,12 @@ export const manifest: ModuleManifest = {
   id: 'i18n',
   name: 'Internationalization',
   description: 'Multi-language support with ARB files and Flutter localization',
+  version: '1.0.0',
   requires: [],
   templateDir: 'templates/modules/i18n',
   ralphPhase: 2,
+  configSchema,
+  configSummary: { defaultLocale: 'locale' },
 
   questions: [
     {
@@ -23,7 +34,7 @@ export const manifest: ModuleManifest = {
 
   contributions: {
     pubspecDependencies: {
-      'flutter_localizations': 'sdk: flutter',
+      'flutter_localizations': { sdk: 'flutter' },
       'intl': '^0.19.0',
     },
     pubspecDevDependencies: {},
@@ -36,6 +47,58 @@ export const manifest: ModuleManifest = {
     routes: [],
     envVars: [],
   },
+  // Generate AppLocalizations from the ARB files before code generation and formatting
+  postProcessors: [
+    commandPostProcessor(
+      {
+        id: 'flutter-gen-l10n',
+        name: 'flutter gen-l10n',
+        dependsOn: ['flutter-pub-get'],
+        before: ['build-runner', 'dart-format'],
+        timeoutMs: 2 * 60 * 1000,
+      },
+      'flutter',
+      ['gen-l10n'],
+    ),
+  ],
+  claude: (context) => {
+    if (!context.modules.i18n) return {};
+    const { defaultLocale, supportedLocales } = context.modules.i18n;
 
-  isEnabled: (context) => context.modules.i18n !== false,
+    return {
+      rules: [
+        {
+          name: 'i18n',
+          paths: ['lib/**'],
+          content: `# Internationalization (i18n) Rules
+
+Guidelines for localization.
+
+## Rules
+- All user-visible strings must be externalized in ARB files under \`l10n/\`.
+- Never hardcode display strings in widget code.
+- Use \`AppLocalizations.of(context)!\` to access translations.
+- Add new strings to all supported locale files before shipping.
+- Use ICU message format for plurals and gender variations.
+`,
+        },
+      ],
+      stories: [
+        {
+          priority: 'P1',
+          title: 'Implement internationalization with flutter_localizations',
+          description: `Set up i18n in \`lib/core/l10n/\`. Create ARB files for: ${supportedLocales.join(', ')} (default: ${defaultLocale}). Run \`flutter gen-l10n\` to generate \`AppLocalizations\`. Update MaterialApp to include localization delegates.`,
+          storyPoints: 3,
+          dependencies: ['P1-CORE-001'],
+          acceptanceCriteria: [
+            `ARB files exist for all supported locales: ${supportedLocales.join(', ')}`,
+            '`AppLocalizations` is generated and available via `AppLocalizations.of(context)!`',
+            'MaterialApp includes `AppLocalizations.delegate` and `supportedLocales`',
+            'At minimum, app title and home screen greeting are localized',
+            '`flutter analyze` reports zero errors',
+          ],
+        },
+      ],
+    };
+  },
 };
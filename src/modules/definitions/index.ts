@@ -0,0 +1,32 @@
+import * as analytics from './analytics/module.js';
+import * as api from './api/module.js';
+import * as auth from './auth/module.js';
+import * as cicd from './cicd/module.js';
+import * as database from './database/module.js';
+import * as deepLinking from './deep-linking/module.js';
+import * as i18n from './i18n/module.js';
+import * as push from './push/module.js';
+import * as theme from './theme/module.js';
+
+/**
+ * The optional built-in modules keyed by module ID, in display order.
+ * The typed `modules` section of maxsim.config.yaml and of ProjectContext is derived
+ * from each module's `configSchema`, so adding a built-in module means writing its module.ts
+ * and listing it here.
+ */
+export const BUILT_IN_MODULES = {
+  auth,
+  api,
+  database,
+  i18n,
+  theme,
+  push,
+  analytics,
+  cicd,
+  'deep-linking': deepLinking,
+};
+
+export type BuiltInModuleId = keyof typeof BUILT_IN_MODULES;
+
+/** IDs of the optional built-in modules, in display order. */
+export const BUILT_IN_MODULE_IDS = Object.keys(BUILT_IN_MODULES) as BuiltInModuleId[];
@@ -1,4 +1,75 @@
-import type { ModuleManifest } from '../../../types/module.js';
+import { z } from 'zod';
+import type { ModuleHookContext, ModuleManifest } from '../../../types/module.js';
+import type { ProjectContext } from '../../../core/context.js';
+import {
+  ANDROID_MANIFEST_PATH,
+  IOS_INFO_PLIST_PATH,
+  insertMarkedBlock,
+  removeMarkedBlock,
+} from '../../hooks.js';
+
+/** Options of the `push` entry in maxsim.config.yaml (besides `enabled`). */
+export const configSchema = z.object({
+  provider: z.enum(['firebase', 'onesignal']).default('firebase'),
+});
+
+/** Predicate matching projects whose push module uses the given provider. */
+function usesProvider(provider: z.infer<typeof configSchema>['provider']) {
+  return (context: ProjectContext): boolean =>
+    context.modules.push !== false && context.modules.push.provider === provider;
+}
+
+/** Marker of the native project entries the module adds. */
+const NATIVE_MARKER = 'push';
+
+/**
+ * Configure the native capabilities push notifications need: the Android 13 notification
+ * permission and the iOS remote-notification background mode. The Push Notifications
+ * capability itself can only be enabled in Xcode.
+ */
+async function configureCapabilities({ context, fs, log }: ModuleHookContext): Promise<void> {
+  const androidUpdated = await fs.update(ANDROID_MANIFEST_PATH, (content) =>
+    insertMarkedBlock(
+      content,
+      NATIVE_MARKER,
+      '<uses-permission android:name="android.permission.POST_NOTIFICATIONS" />',
+      { before: '<application' },
+    ),
+  );
+  if (!androidUpdated) {
+    log(`${ANDROID_MANIFEST_PATH} not found — add the POST_NOTIFICATIONS permission`);
+  }
+
+  const backgroundMode = [
+    '<key>UIBackgroundModes</key>',
+    '<array>',
+    '\t<string>remote-notification</string>',
+    '</array>',
+  ].join('\n');
+  const iosUpdated = await fs.update(IOS_INFO_PLIST_PATH, (content) =>
+    content.includes('<key>UIBackgroundModes</key>')
+      ? content
+      : insertMarkedBlock(content, NATIVE_MARKER, backgroundMode, {
+          before: '</dict>',
+          last: true,
+          indent: '\t',
+        }),
+  );
+  if (!iosUpdated) {
+    log(`${IOS_INFO_PLIST_PATH} not found — add remote-notification to UIBackgroundModes`);
+  }
+
+  log('Enable the Push Notifications capability of the Runner target in Xcode');
+  if (usesProvider('firebase')(context)) {
+    log('Run `flutterfire configure` to add the Firebase config files for Android and iOS');
+  }
+}
+
+async function removeCapabilities({ fs }: ModuleHookContext): Promise<void> {
+  for (const path of [ANDROID_MANIFEST_PATH, IOS_INFO_PLIST_PATH]) {
+    await fs.update(path, (content) => removeMarkedBlock(content, NATIVE_MARKER));
+  }
+}
 
 /**
  * Push Notifications module supporting Firebase Cloud Messaging and OneSignal.
@@ -8,9 +79,11 @@ export const manifest: ModuleManifest = {
   id: 'push',
   name: 'Push Notifications',
   description: 'Push notification support via Firebase Cloud Messaging or OneSignal',
+  version: '1.0.0',
   requires: [],
   templateDir: 'templates/modules/push',
   ralphPhase: 2,
+  configSchema,
 
   questions: [
     {
@@ -26,9 +99,7 @@ export const manifest: ModuleManifest = {
   ],
 
   contributions: {
-    pubspecDependencies: {
-      'firebase_messaging': '^15.1.6',
-    },
+    pubspecDependencies: {},
     pubspecDevDependencies: {},
     providers: [
       {
@@ -40,5 +111,70 @@ export const manifest: ModuleManifest = {
     envVars: [],
   },
 
-  isEnabled: (context) => context.modules.push !== false,
+  conditionalContributions: [
+    {
+      when: usesProvider('firebase'),
+      contributions: {
+        pubspecDependencies: {
+          'firebase_messaging': '^15.1.6',
+        },
+      },
+    },
+    {
+      when: usesProvider('onesignal'),
+      contributions: {
+        pubspecDependencies: {
+          'onesignal_flutter': '^5.2.7',
+        },
+      },
+    },
+  ],
+
+  hooks: {
+    afterGenerate: configureCapabilities,
+    onRemove: removeCapabilities,
+  },
+  claude: (context) => {
+    if (!context.modules.push) return {};
+    const providerLabel = usesProvider('firebase')(context)
+      ? 'Firebase Cloud Messaging'
+      : 'OneSignal';
+
+    return {
+      rules: [
+        {
+          name: 'push',
+          paths: ['lib/features/push/**', 'test/features/push/**'],
+          content: `# Push Notification Rules
+
+Guidelines for push notification handling.
+
+## Rules
+- All notification logic lives in \`lib/features/push/\`.
+- Request notification permission explicitly — never assume it is granted.
+- Handle foreground, background, and terminated-state notifications separately.
+- Use a dedicated notification service abstraction — never call platform APIs directly from widgets.
+- Store the device token securely and refresh it on app start.
+`,
+        },
+      ],
+      stories: [
+        {
+          priority: 'P2',
+          title: `Implement push notifications with ${providerLabel}`,
+          description: `Configure ${providerLabel} in \`lib/features/push/\`. Request notification permissions at app startup. Handle foreground, background, and terminated state notifications. Expose push token via \`pushTokenProvider\`.`,
+          storyPoints: 5,
+          dependencies: ['P1-CORE-001', 'P1-CORE-003'],
+          acceptanceCriteria: [
+            `${providerLabel} is initialized before the app starts`,
+            'Notification permission is requested on first launch',
+            'Foreground notification handler displays an in-app notification',
+            'Background/terminated notification tap navigates to correct screen',
+            '`pushTokenProvider` returns the device token as a Future<String?>',
+            '`flutter analyze` reports zero errors',
+          ],
+        },
+      ],
+    };
+  },
 };
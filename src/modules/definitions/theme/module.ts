@@ -1,5 +1,13 @@
+import { z } from 'zod';
 import type { ModuleManifest } from '../../../types/module.js';
 
+/** Options of the `theme` entry in maxsim.config.yaml (besides `enabled`). */
+export const configSchema = z.object({
+  seedColor: z.string().optional(),
+  useMaterial3: z.boolean().default(true),
+  darkMode: z.boolean().default(true),
+});
+
 /**
  * Theme module providing Material 3 theming with ColorScheme.fromSeed,
  * dark/light mode switching via Riverpod, and optional Google Fonts.
@@ -8,9 +16,12 @@ export const manifest: ModuleManifest = {
   id: 'theme',
   name: 'Theme',
   description: 'Advanced Material 3 theming with seed colors, dark/light mode switching via Riverpod',
+  version: '1.0.0',
   requires: [],
   templateDir: 'templates/modules/theme',
   ralphPhase: 2,
+  configSchema,
+  configSummary: { seedColor: 'seed' },
 
   questions: [
     {
@@ -41,6 +52,49 @@ export const manifest: ModuleManifest = {
     routes: [],
     envVars: [],
   },
+  claude: (context) => {
+    if (!context.modules.theme) return {};
+    const { seedColor, darkMode } = context.modules.theme;
+    const seedNote = seedColor ? `seed color ${seedColor}` : 'default purple seed color';
+
+    return {
+      rules: [
+        {
+          name: 'theme',
+          paths: ['lib/core/theme/**'],
+          content: `# Theme & Styling Rules
 
-  isEnabled: (context) => context.modules.theme !== false,
+Guidelines for Material 3 theming.
+
+## Rules
+- Define all theme data in \`lib/core/theme/\` using Material 3 and \`ColorScheme.fromSeed()\`.
+- Support both light and dark mode via separate \`ThemeData\` instances.
+- Never hardcode colors in widgets — always reference \`Theme.of(context).colorScheme\`.
+- Use \`TextTheme\` from the theme for all typography — no inline \`TextStyle\` with hardcoded sizes.
+- Expose a \`ThemeProvider\` for runtime theme switching (light/dark/system).
+`,
+        },
+      ],
+      stories: [
+        {
+          priority: 'P1',
+          title: 'Implement Material 3 theme system',
+          description: `Build the theme in \`lib/core/theme/app_theme.dart\` using Material 3 ColorScheme.fromSeed with ${seedNote}. ${darkMode ? 'Support both light and dark themes via `appThemeModeProvider`.' : 'Light theme only.'} Apply Google Fonts (Inter) as the default text theme.`,
+          storyPoints: 3,
+          dependencies: ['P1-CORE-001'],
+          acceptanceCriteria: [
+            '`AppTheme.light()` returns a `ThemeData` with Material 3 enabled',
+            darkMode
+              ? '`AppTheme.dark()` returns a dark `ThemeData`'
+              : 'Light theme applied consistently',
+            darkMode
+              ? '`appThemeModeProvider` toggles between light and dark modes'
+              : 'Theme applied to MaterialApp',
+            'Google Fonts Inter is applied as the text theme',
+            '`flutter analyze` reports zero errors',
+          ],
+        },
+      ],
+    };
+  },
 };
@@ -1,10 +1,29 @@
-import type { ModuleManifest } from '../types/module.js';
+import type { ModuleHookName, ModuleManifest } from '../types/module.js';
+import { SEMVER_PATTERN } from './versions.js';
+
+/** Lifecycle hooks a manifest may define. */
+const MODULE_HOOK_NAMES: readonly ModuleHookName[] = [
+  'beforeGenerate',
+  'afterGenerate',
+  'onAdd',
+  'onRemove',
+];
+
+/**
+ * What an ExternalLoader yields for a package.
+ */
+export interface ExternalModuleExports {
+  /** The package's exported `manifest` (validated before registration) */
+  manifest?: unknown;
+  /** Absolute package root directory; relative `manifest.templateDir` values resolve against it */
+  packageRoot?: string;
+}
 
 /**
  * A function that dynamically imports a module package by name and returns its exports.
  * Injectable for testing — the default implementation uses native ESM dynamic import().
  */
-export type ExternalLoader = (packageName: string) => Promise<{ manifest?: unknown }>;
+export type ExternalLoader = (packageName: string) => Promise<ExternalModuleExports>;
 
 /**
  * Validates that an unknown value conforms to the ModuleManifest interface.
@@ -36,10 +55,27 @@ export function validateExternalManifest(value: unknown, packageName: string): M
     throw new Error(`${prefix} 'description' must be a string`);
   }
 
+  if (
+    obj['version'] !== undefined &&
+    (typeof obj['version'] !== 'string' || !SEMVER_PATTERN.test(obj['version']))
+  ) {
+    throw new Error(`${prefix} 'version' must be a semantic version (e.g. 1.2.0)`);
+  }
+
   if (!Array.isArray(obj['requires'])) {
     throw new Error(`${prefix} 'requires' must be an array`);
   }
 
+  for (const field of ['provides', 'enhances']) {
+    const value = obj[field];
+    if (
+      value !== undefined &&
+      (!Array.isArray(value) || !value.every((entry) => typeof entry === 'string'))
+    ) {
+      throw new Error(`${prefix} '${field}' must be an array of strings`);
+    }
+  }
+
   if (typeof obj['templateDir'] !== 'string' || obj['templateDir'].length === 0) {
     throw new Error(`${prefix} 'templateDir' must be a non-empty string`);
   }
@@ -52,5 +88,79 @@ export function validateExternalManifest(value: unknown, packageName: string): M
     throw new Error(`${prefix} 'contributions' must be a non-null object`);
   }
 
+  validateRoutes(obj['contributions'] as Record<string, unknown>, 'contributions', prefix);
+
+  const conditional = obj['conditionalContributions'];
+  if (conditional !== undefined) {
+    if (!Array.isArray(conditional)) {
+      throw new Error(`${prefix} 'conditionalContributions' must be an array`);
+    }
+    (conditional as unknown[]).forEach((block, i) => {
+      const b = (block ?? {}) as Record<string, unknown>;
+      const field = `conditionalContributions[${i}]`;
+      if (typeof b['when'] !== 'function') {
+        throw new Error(`${prefix} '${field}.when' must be a function`);
+      }
+      if (b['contributions'] === null || typeof b['contributions'] !== 'object') {
+        throw new Error(`${prefix} '${field}.contributions' must be a non-null object`);
+      }
+      validateRoutes(b['contributions'] as Record<string, unknown>, `${field}.contributions`, prefix);
+    });
+  }
+
+  const hooks = obj['hooks'];
+  if (hooks !== undefined) {
+    if (hooks === null || typeof hooks !== 'object') {
+      throw new Error(`${prefix} 'hooks' must be an object`);
+    }
+    for (const [name, hook] of Object.entries(hooks)) {
+      if (!(MODULE_HOOK_NAMES as readonly string[]).includes(name)) {
+        throw new Error(
+          `${prefix} 'hooks.${name}' is not a lifecycle hook (${MODULE_HOOK_NAMES.join(', ')})`,
+        );
+      }
+      if (typeof hook !== 'function') {
+        throw new Error(`${prefix} 'hooks.${name}' must be a function`);
+      }
+    }
+  }
+
+  const claude = obj['claude'];
+  if (
+    claude !== undefined &&
+    typeof claude !== 'function' &&
+    (claude === null || typeof claude !== 'object')
+  ) {
+    throw new Error(`${prefix} 'claude' must be an object or a function`);
+  }
+
   return obj as unknown as ModuleManifest;
 }
+
+/**
+ * Check the optional `routes` of a contributions object.
+ * @param field - Path of the contributions object, used in error messages
+ */
+function validateRoutes(
+  contributions: Record<string, unknown>,
+  field: string,
+  prefix: string,
+): void {
+  const routes = contributions['routes'];
+  if (routes === undefined) return;
+  if (!Array.isArray(routes)) {
+    throw new Error(`${prefix} '${field}.routes' must be an array`);
+  }
+  for (const route of routes as unknown[]) {
+    const r = (route ?? {}) as Record<string, unknown>;
+    if (
+      typeof r['path'] !== 'string' ||
+      typeof r['name'] !== 'string' ||
+      typeof r['importPath'] !== 'string'
+    ) {
+      throw new Error(
+        `${prefix} each route in '${field}.routes' needs string 'path', 'name' and 'importPath'`,
+      );
+    }
+  }
+}
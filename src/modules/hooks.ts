@@ -0,0 +1,209 @@
+import { join, posix } from 'node:path';
+import { readFile } from 'node:fs/promises';
+import fsExtra from 'fs-extra';
+
+import type { ProjectContext } from '../core/context.js';
+import type { ModuleFileEditor, ModuleHookName, ModuleManifest } from '../types/module.js';
+
+const { pathExists, outputFile } = fsExtra;
+
+/** Android manifest of a Flutter project (relative to the project root). */
+export const ANDROID_MANIFEST_PATH = 'android/app/src/main/AndroidManifest.xml';
+
+/** iOS Info.plist of a Flutter project (relative to the project root). */
+export const IOS_INFO_PLIST_PATH = 'ios/Runner/Info.plist';
+
+/**
+ * Outcome of running one hook of every module.
+ */
+export interface ModuleHookResult {
+  /** Files the hooks created or changed (relative path -> content) */
+  changes: Map<string, string>;
+  /** Messages the hooks logged, prefixed with the module ID */
+  messages: string[];
+}
+
+/**
+ * ModuleFileEditor that stages edits in memory on top of the files generated in this run
+ * and the project on disk. Paths escaping the project root are rejected.
+ */
+export class ProjectFileEditor implements ModuleFileEditor {
+  private readonly staged = new Map<string, string>();
+
+  constructor(
+    private readonly projectRoot: string,
+    private readonly files: ReadonlyMap<string, string> = new Map(),
+  ) {}
+
+  /** Files created or changed so far (relative path -> content) */
+  get changes(): ReadonlyMap<string, string> {
+    return this.staged;
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return (await this.read(path)) !== undefined;
+  }
+
+  async read(path: string): Promise<string | undefined> {
+    const relativePath = toProjectPath(path);
+    const inMemory = this.staged.get(relativePath) ?? this.files.get(relativePath);
+    if (inMemory !== undefined) return inMemory;
+
+    const absolutePath = join(this.projectRoot, relativePath);
+    if (!(await pathExists(absolutePath))) return undefined;
+    return readFile(absolutePath, 'utf-8');
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    this.staged.set(toProjectPath(path), content);
+  }
+
+  async update(path: string, edit: (content: string) => string): Promise<boolean> {
+    const content = await this.read(path);
+    if (content === undefined) return false;
+
+    const updated = edit(content);
+    if (updated !== content) await this.write(path, updated);
+    return true;
+  }
+}
+
+/**
+ * Normalize a hook path to a project-relative POSIX path.
+ * @throws Error when the path is absolute or leaves the project root
+ */
+function toProjectPath(path: string): string {
+  const normalized = posix.normalize(path.replace(/\\/g, '/'));
+  if (
+    posix.isAbsolute(normalized) ||
+    /^[A-Za-z]:/.test(normalized) ||
+    normalized === '..' ||
+    normalized.startsWith('../') ||
+    normalized === '.'
+  ) {
+    throw new Error(`Module hooks can only edit files inside the project: '${path}'`);
+  }
+  return normalized;
+}
+
+/**
+ * Run one lifecycle hook of every module, in the given (dependency) order.
+ * The hooks share one editor, so later hooks see the edits of earlier ones.
+ * Nothing is written: the caller applies the returned changes.
+ *
+ * @param files - Files generated in this run (relative path -> content)
+ * @throws Error naming the module when a hook fails
+ */
+export async function runModuleHooks(
+  modules: readonly ModuleManifest[],
+  hook: ModuleHookName,
+  context: ProjectContext,
+  projectRoot: string,
+  files: ReadonlyMap<string, string> = new Map(),
+): Promise<ModuleHookResult> {
+  const editor = new ProjectFileEditor(projectRoot, files);
+  const messages: string[] = [];
+
+  for (const mod of modules) {
+    const run = mod.hooks?.[hook];
+    if (!run) continue;
+
+    try {
+      await run({
+        context,
+        files,
+        fs: editor,
+        log: (message) => messages.push(`${mod.id}: ${message}`),
+      });
+    } catch (err) {
+      throw new Error(
+        `Module '${mod.id}' ${hook} hook failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  return { changes: new Map(editor.changes), messages };
+}
+
+/**
+ * Write the file changes of module hooks into the project.
+ */
+export async function writeHookChanges(
+  projectRoot: string,
+  changes: ReadonlyMap<string, string>,
+): Promise<void> {
+  for (const [relativePath, content] of changes) {
+    await outputFile(join(projectRoot, relativePath), content, 'utf-8');
+  }
+}
+
+/**
+ * Options for insertMarkedBlock().
+ */
+export interface MarkedBlockOptions {
+  /** Text the block is inserted before (its line keeps its position) */
+  before: string;
+  /** Use the last occurrence of `before` instead of the first */
+  last?: boolean;
+  /** Indentation added to the block on top of the indentation of the `before` line */
+  indent?: string;
+}
+
+/**
+ * Insert an XML block (AndroidManifest.xml, Info.plist) wrapped in `<!-- maxsim:<marker> -->`
+ * comments, so it can be found again by removeMarkedBlock().
+ * Returns the content unchanged when the block is already present or the anchor is missing.
+ */
+export function insertMarkedBlock(
+  content: string,
+  marker: string,
+  block: string,
+  options: MarkedBlockOptions,
+): string {
+  if (hasMarkedBlock(content, marker)) return content;
+
+  const anchorIndex = options.last
+    ? content.lastIndexOf(options.before)
+    : content.indexOf(options.before);
+  if (anchorIndex === -1) return content;
+
+  const lineStart = content.lastIndexOf('\n', anchorIndex - 1) + 1;
+  const anchorIndent = /^[ \t]*/.exec(content.slice(lineStart, anchorIndex))?.[0] ?? '';
+  const indent = anchorIndent + (options.indent ?? '');
+  const lines = [startMarker(marker), ...block.trimEnd().split('\n'), endMarker(marker)];
+
+  return (
+    content.slice(0, lineStart) +
+    lines.map((line) => `${indent}${line}\n`).join('') +
+    content.slice(lineStart)
+  );
+}
+
+/**
+ * Tell whether content holds a block inserted by insertMarkedBlock().
+ */
+export function hasMarkedBlock(content: string, marker: string): boolean {
+  return content.includes(startMarker(marker));
+}
+
+/**
+ * Remove a block inserted by insertMarkedBlock(), including its marker lines.
+ * Returns the content unchanged when the block is not present.
+ */
+export function removeMarkedBlock(content: string, marker: string): string {
+  const start = content.indexOf(startMarker(marker));
+  const end = content.indexOf(endMarker(marker), start);
+  if (start === -1 || end === -1) return content;
+
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = content.indexOf('\n', end);
+  return content.slice(0, lineStart) + (lineEnd === -1 ? '' : content.slice(lineEnd + 1));
+}
+
+function startMarker(marker: string): string {
+  return `<!-- maxsim:${marker} -->`;
+}
+
+function endMarker(marker: string): string {
+  return `<!-- /maxsim:${marker} -->`;
+}
@@ -1,22 +1,154 @@
-import { fileURLToPath } from 'node:url';
-import { dirname, join } from 'node:path';
-import { readdir, stat } from 'node:fs/promises';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { dirname, isAbsolute, join, resolve } from 'node:path';
+import { readFile, readdir, stat } from 'node:fs/promises';
+import { existsSync, statSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { load as yamlLoad } from 'js-yaml';
 import type { ModuleManifest } from '../types/module.js';
 import { validateExternalManifest } from './external-validator.js';
-import type { ExternalLoader } from './external-validator.js';
-
-const defaultLoader: ExternalLoader = async (pkg) =>
-  import(pkg) as Promise<{ manifest?: unknown }>;
+import type { ExternalLoader, ExternalModuleExports } from './external-validator.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+const defaultLoader: ExternalLoader = async (pkg) => {
+  const exports = (await import(pkg)) as { manifest?: unknown };
+  return { manifest: exports.manifest, packageRoot: findPackageRoot(pkg, __dirname) };
+};
+
+/** Project-relative directory holding team-private modules, one folder per module. */
+export const LOCAL_MODULES_DIR = '.maxsim/modules';
+
+/** Manifest file names looked up (in order) inside each project-local module folder. */
+const LOCAL_MANIFEST_FILES = ['module.json', 'module.yaml', 'module.yml', 'module.js', 'module.mjs'];
+
+/**
+ * A failure to load one of the packages listed in `externalModules`
+ * or one of the project-local modules in .maxsim/modules/.
+ */
+export interface ExternalModuleLoadError {
+  /** Package name (or path) as listed in maxsim.config.yaml, or the local module folder */
+  packageName: string;
+  /** Human-readable reason the package could not be loaded */
+  message: string;
+}
+
+/**
+ * Resolve an external manifest's templateDir to an absolute path.
+ * Returns undefined when it is relative and the package root is unknown.
+ */
+function resolveExternalTemplateDir(
+  manifest: ModuleManifest,
+  packageRoot: string | undefined,
+): string | undefined {
+  if (isAbsolute(manifest.templateDir)) return manifest.templateDir;
+  if (packageRoot === undefined) return undefined;
+  return resolve(packageRoot, manifest.templateDir);
+}
+
+/**
+ * Read the raw (unvalidated) manifest of a project-local module folder.
+ * @throws Error when the folder contains no supported manifest file
+ */
+async function readLocalManifest(moduleDir: string): Promise<unknown> {
+  for (const fileName of LOCAL_MANIFEST_FILES) {
+    const filePath = join(moduleDir, fileName);
+    if (!existsSync(filePath)) continue;
+
+    if (fileName.endsWith('.js') || fileName.endsWith('.mjs')) {
+      const exports = (await import(pathToFileURL(filePath).href)) as { manifest?: unknown };
+      return exports.manifest;
+    }
+    const content = await readFile(filePath, 'utf-8');
+    return fileName.endsWith('.json') ? JSON.parse(content) : yamlLoad(content);
+  }
+  throw new Error(`no manifest found (expected one of ${LOCAL_MANIFEST_FILES.join(', ')})`);
+}
+
+/**
+ * Whether an `externalModules` entry is a path (./x, ../x, /abs/x) rather than a package name.
+ */
+function isPathSpecifier(packageName: string): boolean {
+  return packageName.startsWith('.') || isAbsolute(packageName);
+}
+
+/**
+ * Format an external module load failure for CLI output and scaffold results.
+ */
+export function formatExternalModuleError(error: ExternalModuleLoadError): string {
+  return `Skipped external module '${error.packageName}': ${error.message}`;
+}
+
+/**
+ * Find the root directory (the one holding package.json) of an external module package.
+ * Path-like names (./x, ../x, /abs/x) resolve against `fromDir`; bare package names are
+ * looked up in node_modules directories from `fromDir` upwards.
+ *
+ * @returns Absolute package root, or undefined when the package cannot be located
+ */
+export function findPackageRoot(packageName: string, fromDir: string): string | undefined {
+  if (isPathSpecifier(packageName)) {
+    let current = resolve(fromDir, packageName);
+    if (existsSync(current) && !statSync(current).isDirectory()) {
+      current = dirname(current);
+    }
+    for (;;) {
+      if (existsSync(join(current, 'package.json'))) return current;
+      const parent = dirname(current);
+      if (parent === current) return undefined;
+      current = parent;
+    }
+  }
+
+  let current = resolve(fromDir);
+  for (;;) {
+    const candidate = join(current, 'node_modules', packageName);
+    if (existsSync(join(candidate, 'package.json'))) return candidate;
+    const parent = dirname(current);
+    if (parent === current) return undefined;
+    current = parent;
+  }
+}
+
+/**
+ * Create an ExternalLoader that resolves packages from the project's node_modules
+ * (or relative/absolute paths from the project directory). Falls back to
+ * maxsim-flutter's own resolution, e.g. for globally installed packages.
+ * The loader also reports the package root so relative template directories resolve.
+ *
+ * @param projectDir - Directory of the Flutter project owning maxsim.config.yaml
+ */
+export function createProjectLoader(projectDir: string): ExternalLoader {
+  const projectRequire = createRequire(join(projectDir, 'maxsim.config.yaml'));
+  return async (packageName) => {
+    let specifier = packageName;
+    try {
+      specifier = pathToFileURL(projectRequire.resolve(packageName)).href;
+    } catch {
+      // Not resolvable from the project (e.g. ESM-only exports) — import paths from the
+      // project directory, and package names with default resolution
+      if (isPathSpecifier(packageName)) {
+        specifier = pathToFileURL(resolve(projectDir, packageName)).href;
+      }
+    }
+    const exports = (await import(specifier)) as { manifest?: unknown };
+    return {
+      manifest: exports.manifest,
+      packageRoot: specifier === packageName
+        ? findPackageRoot(packageName, __dirname)
+        : findPackageRoot(packageName, projectDir),
+    };
+  };
+}
+
 /**
  * Registry that discovers and loads all module definitions
  * from src/modules/definitions/ (at runtime: dist/modules/definitions/).
  */
 export class ModuleRegistry {
   private readonly modules = new Map<string, ModuleManifest>();
+  /** Absolute template directories for modules whose templates live outside maxsim-flutter */
+  private readonly templateDirs = new Map<string, string>();
   private loaded = false;
 
   /** Override the definitions directory (useful for testing) */
@@ -32,6 +164,7 @@ export class ModuleRegistry {
    */
   async loadAll(): Promise<void> {
     this.modules.clear();
+    this.templateDirs.clear();
 
     let entries: string[];
     try {
@@ -63,9 +196,26 @@ export class ModuleRegistry {
 
   /**
    * Register a module manifest directly (useful for testing or programmatic registration).
+   *
+   * @param templateDir - Absolute templates directory, for modules that ship their own
+   *   templates (external packages). Omit for built-in modules.
    */
-  register(manifest: ModuleManifest): void {
+  register(manifest: ModuleManifest, templateDir?: string): void {
     this.modules.set(manifest.id, manifest);
+    if (templateDir !== undefined) {
+      this.templateDirs.set(manifest.id, templateDir);
+    } else {
+      this.templateDirs.delete(manifest.id);
+    }
+  }
+
+  /**
+   * Get the absolute templates directory recorded for a module at registration.
+   * Returns undefined for built-in modules, whose templates live in
+   * maxsim-flutter's own templates/modules/<id> directory.
+   */
+  getTemplateDir(id: string): string | undefined {
+    return this.templateDirs.get(id);
   }
 
   /**
@@ -93,6 +243,15 @@ export class ModuleRegistry {
     return Array.from(this.modules.values());
   }
 
+  /**
+   * Get the modules that provide a capability, sorted by ID.
+   */
+  getProviders(capability: string): ModuleManifest[] {
+    return this.getAll()
+      .filter((m) => m.provides?.includes(capability) === true)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
   /**
    * Get all modules that are always included (e.g., core).
    */
@@ -119,6 +278,8 @@ export class ModuleRegistry {
   /**
    * Load a module manifest from an external npm package.
    * The package must export `{ manifest }` from its main entry point.
+   * An absolute `manifest.templateDir` is used as-is; a relative one resolves against
+   * the package root reported by the loader.
    *
    * Uses an injectable `loader` for testability. In production,
    * the default loader uses native ESM dynamic import().
@@ -129,14 +290,80 @@ export class ModuleRegistry {
    */
   async loadExternal(packageName: string, loader?: ExternalLoader): Promise<void> {
     const effectiveLoader = loader ?? defaultLoader;
-    let exports: { manifest?: unknown };
+    let exports: ExternalModuleExports;
     try {
       exports = await effectiveLoader(packageName);
     } catch (err) {
       throw err instanceof Error ? err : new Error(String(err));
     }
     const manifest = validateExternalManifest(exports.manifest, packageName);
-    this.register(manifest);
+    this.register(manifest, resolveExternalTemplateDir(manifest, exports.packageRoot));
+  }
+
+  /**
+   * Load every external module package listed in the project config.
+   * Unlike loadExternal(), failures do not throw: each package that cannot be
+   * loaded or validated is reported and skipped so the remaining modules still load.
+   *
+   * @param packageNames - Entries of `externalModules` from maxsim.config.yaml
+   * @param loader - Optional custom loader; defaults to dynamic import()
+   * @returns One entry per package that failed to load (empty when all succeeded)
+   */
+  async loadExternalModules(
+    packageNames: readonly string[],
+    loader?: ExternalLoader,
+  ): Promise<ExternalModuleLoadError[]> {
+    const errors: ExternalModuleLoadError[] = [];
+    for (const packageName of packageNames) {
+      try {
+        await this.loadExternal(packageName, loader);
+      } catch (err) {
+        errors.push({
+          packageName,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Load project-local modules from a directory such as `<project>/.maxsim/modules/`.
+   * Each subfolder holds a manifest (module.json, module.yaml/.yml, or module.js/.mjs
+   * exporting `{ manifest }`) plus its templates; `manifest.templateDir` resolves against
+   * the module folder. Local modules replace registered modules with the same ID.
+   * A missing directory is not an error.
+   *
+   * @param modulesDir - Absolute path to the local modules directory
+   * @returns One entry per module folder that failed to load (empty when all succeeded)
+   */
+  async loadLocal(modulesDir: string): Promise<ExternalModuleLoadError[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(modulesDir);
+    } catch {
+      // No local modules directory — nothing to load
+      return [];
+    }
+
+    const errors: ExternalModuleLoadError[] = [];
+    for (const entry of entries.sort()) {
+      const moduleDir = join(modulesDir, entry);
+      const label = `${LOCAL_MODULES_DIR}/${entry}`;
+      try {
+        // stat() follows symlinks, so a dangling one is reported like a broken manifest
+        if (!(await stat(moduleDir)).isDirectory()) continue;
+
+        const manifest = validateExternalManifest(await readLocalManifest(moduleDir), label);
+        this.register(manifest, resolve(moduleDir, manifest.templateDir));
+      } catch (err) {
+        errors.push({
+          packageName: label,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    return errors;
   }
 
   /**
@@ -153,3 +380,34 @@ export class ModuleRegistry {
     return this.loaded;
   }
 }
+
+/**
+ * Result of loadModuleRegistry().
+ */
+export interface RegistryLoadResult {
+  registry: ModuleRegistry;
+  /** External module packages and local modules that could not be loaded */
+  externalErrors: ExternalModuleLoadError[];
+}
+
+/**
+ * Build a registry with all built-in modules, the external module packages
+ * listed in a project's config, and the project-local modules in .maxsim/modules/.
+ * Shared by the CLI commands and the scaffold engine.
+ *
+ * @param externalModules - `externalModules` entries from maxsim.config.yaml
+ * @param projectDir - Project directory used to resolve the packages
+ */
+export async function loadModuleRegistry(
+  externalModules: readonly string[],
+  projectDir: string,
+): Promise<RegistryLoadResult> {
+  const registry = new ModuleRegistry();
+  await registry.loadAll();
+  const externalErrors = await registry.loadExternalModules(
+    externalModules,
+    createProjectLoader(projectDir),
+  );
+  externalErrors.push(...(await registry.loadLocal(join(projectDir, LOCAL_MODULES_DIR))));
+  return { registry, externalErrors };
+}
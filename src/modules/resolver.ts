@@ -8,6 +8,80 @@ import type { ModuleRegistry } from './registry.js';
 export interface ResolveResult {
   /** Modules in dependency order (dependencies before dependents) */
   readonly ordered: readonly ModuleManifest[];
+  /** Module providing each capability required by a resolved module (capability -> module ID) */
+  readonly capabilities: ReadonlyMap<string, string>;
+  /** Resolved modules enhancing other resolved modules (module ID -> enhanced module IDs) */
+  readonly enhancements: ReadonlyMap<string, readonly string[]>;
+}
+
+/**
+ * Options for ModuleResolver.resolve().
+ */
+export interface ResolveOptions {
+  /** Provider to use for a required capability (capability -> module ID), e.g. chosen in a prompt */
+  providerChoices?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Why a module is part of a resolution.
+ * - `selected`: chosen by the user (enabled in maxsim.config.yaml)
+ * - `always-included`: the module's manifest sets `alwaysIncluded`
+ * - `required`: added because module `by` requires it — `requirement` is the module ID or
+ *   the capability it provides
+ */
+export type ResolutionReason =
+  | { readonly kind: 'selected' }
+  | { readonly kind: 'always-included' }
+  | { readonly kind: 'required'; readonly by: string; readonly requirement: string };
+
+/**
+ * A problem preventing resolution. `message` is the error ModuleResolver.resolve() throws.
+ */
+export type ResolutionIssue =
+  | { readonly type: 'not-found'; readonly moduleId: string; readonly message: string }
+  | {
+      readonly type: 'missing-requirement';
+      readonly moduleId: string;
+      readonly requirement: string;
+      readonly message: string;
+    }
+  | {
+      readonly type: 'invalid-choice';
+      readonly moduleId: string;
+      readonly capability: string;
+      readonly message: string;
+    }
+  | {
+      readonly type: 'conflict';
+      readonly moduleId: string;
+      readonly conflictsWith: string;
+      readonly message: string;
+    }
+  | { readonly type: 'cycle'; readonly moduleIds: readonly string[]; readonly message: string };
+
+/**
+ * Structured trace of a resolution, returned by ModuleResolver.trace() instead of throwing.
+ */
+export interface ResolutionTrace extends ResolveResult {
+  /** Why each resolved module is present (module ID -> first reason found) */
+  readonly reasons: ReadonlyMap<string, ResolutionReason>;
+  /** Resolved modules each module requires (module ID -> module IDs) */
+  readonly dependencies: ReadonlyMap<string, readonly string[]>;
+  /** Problems found, in the order resolve() would report them; empty when resolution succeeds */
+  readonly issues: readonly ResolutionIssue[];
+}
+
+/**
+ * A required capability that several registered modules provide and none of the
+ * resolved modules does — the user should pick one of the candidates.
+ */
+export interface CapabilityChoice {
+  /** The required capability */
+  readonly capability: string;
+  /** ID of the module requiring it */
+  readonly requiredBy: string;
+  /** Modules providing the capability, sorted by ID */
+  readonly candidates: readonly ModuleManifest[];
 }
 
 /**
@@ -21,41 +95,123 @@ export class ModuleResolver {
   /**
    * Resolve a set of selected module IDs into a topologically sorted list.
    * Always-included modules are automatically added.
+   * A required capability is satisfied by a resolved module providing it; otherwise its provider
+   * from `options.providerChoices` is added, or the first provider (by ID) when none was chosen.
    *
    * @param selectedIds - Module IDs explicitly chosen by the user
+   * @param options - Provider choices for required capabilities
    * @returns ResolveResult with ordered modules
    * @throws Error on missing dependency, circular dependency, or conflict
    */
-  resolve(selectedIds: readonly string[]): ResolveResult {
-    // Collect all module IDs: always-included + user-selected
-    const allIds = new Set<string>(selectedIds);
-    for (const m of this.registry.getAlwaysIncluded()) {
-      allIds.add(m.id);
+  resolve(selectedIds: readonly string[], options: ResolveOptions = {}): ResolveResult {
+    const { ordered, capabilities, enhancements, issues } = this.trace(selectedIds, options);
+    if (issues.length > 0) {
+      throw new Error(issues[0].message);
     }
+    return { ordered, capabilities, enhancements };
+  }
 
-    // Validate all selected IDs exist in the registry
-    for (const id of allIds) {
-      if (!this.registry.has(id)) {
-        throw new Error(`Module '${id}' not found in registry`);
-      }
-    }
+  /**
+   * Resolve like resolve(), but report problems in the returned trace instead of throwing,
+   * together with why each module is present and which modules it requires.
+   * Modules that cannot be ordered because of a cycle are left out of `ordered`.
+   *
+   * @param selectedIds - Module IDs explicitly chosen by the user
+   * @param options - Provider choices for required capabilities
+   */
+  trace(selectedIds: readonly string[], options: ResolveOptions = {}): ResolutionTrace {
+    const issues: ResolutionIssue[] = [];
+    const reasons = new Map<string, ResolutionReason>();
+    const allIds = this.collectInitialIds(selectedIds, reasons, issues);
 
     // Add transitive dependencies
-    this.addTransitiveDependencies(allIds);
+    const capabilities = new Map<string, string>();
+    this.addTransitiveDependencies(
+      allIds,
+      options.providerChoices ?? {},
+      capabilities,
+      reasons,
+      issues,
+    );
 
     // Check for conflicts between selected modules
-    this.checkConflicts(allIds);
+    this.checkConflicts(allIds, issues);
 
     // Topological sort
-    const ordered = this.topologicalSort(allIds);
+    const dependencies = this.collectDependencies(allIds);
+    const enhancements = this.collectEnhancements(allIds);
+    const ordered = this.topologicalSort(allIds, dependencies, enhancements, issues);
+
+    return { ordered, capabilities, enhancements, reasons, dependencies, issues };
+  }
 
-    return { ordered };
+  /**
+   * Find the required capabilities that need a provider choice: several registered
+   * modules provide them and none of the modules resolved so far does.
+   * Call again with the choices made until it returns an empty list.
+   *
+   * @param selectedIds - Module IDs explicitly chosen by the user
+   * @param providerChoices - Choices already made (capability -> module ID)
+   * @throws Error on an unknown module or missing dependency
+   */
+  findCapabilityChoices(
+    selectedIds: readonly string[],
+    providerChoices: Readonly<Record<string, string>> = {},
+  ): CapabilityChoice[] {
+    const choices: CapabilityChoice[] = [];
+    const issues: ResolutionIssue[] = [];
+    const ids = this.collectInitialIds(selectedIds, new Map(), issues);
+    this.addTransitiveDependencies(ids, providerChoices, new Map(), new Map(), issues, choices);
+    if (issues.length > 0) {
+      throw new Error(issues[0].message);
+    }
+    return choices;
   }
 
   /**
-   * Expand the set of IDs to include all transitive dependencies.
+   * Collect the selected and always-included module IDs, reporting the ones not in the registry.
    */
-  private addTransitiveDependencies(ids: Set<string>): void {
+  private collectInitialIds(
+    selectedIds: readonly string[],
+    reasons: Map<string, ResolutionReason>,
+    issues: ResolutionIssue[],
+  ): Set<string> {
+    // Collect all module IDs: always-included + user-selected
+    const allIds = new Set<string>();
+    for (const id of selectedIds) {
+      if (!this.registry.has(id)) {
+        issues.push({
+          type: 'not-found',
+          moduleId: id,
+          message: `Module '${id}' not found in registry`,
+        });
+        continue;
+      }
+      allIds.add(id);
+      reasons.set(id, { kind: 'selected' });
+    }
+    for (const m of this.registry.getAlwaysIncluded()) {
+      allIds.add(m.id);
+      reasons.set(m.id, { kind: 'always-included' });
+    }
+
+    return allIds;
+  }
+
+  /**
+   * Expand the set of IDs to include all transitive dependencies, recording why each one
+   * was added. Capability requirements are recorded in `capabilities`. When `openChoices`
+   * is given, capabilities with several providers and no choice are collected there instead
+   * of being resolved to their first provider.
+   */
+  private addTransitiveDependencies(
+    ids: Set<string>,
+    providerChoices: Readonly<Record<string, string>>,
+    capabilities: Map<string, string>,
+    reasons: Map<string, ResolutionReason>,
+    issues: ResolutionIssue[],
+    openChoices?: CapabilityChoice[],
+  ): void {
     const visited = new Set<string>();
     const stack = [...ids];
 
@@ -65,14 +221,23 @@ export class ModuleResolver {
       visited.add(id);
 
       const manifest = this.registry.get(id);
-      for (const depId of manifest.requires) {
-        if (!this.registry.has(depId)) {
-          throw new Error(
-            `Module '${id}' requires '${depId}', but '${depId}' was not found in registry`,
-          );
-        }
+      for (const requirement of manifest.requires) {
+        const depId = this.registry.has(requirement)
+          ? requirement
+          : this.pickProvider(
+              id,
+              requirement,
+              ids,
+              providerChoices,
+              capabilities,
+              issues,
+              openChoices,
+            );
+        if (depId === undefined) continue;
+
         if (!ids.has(depId)) {
           ids.add(depId);
+          reasons.set(depId, { kind: 'required', by: id, requirement });
         }
         if (!visited.has(depId)) {
           stack.push(depId);
@@ -82,28 +247,169 @@ export class ModuleResolver {
   }
 
   /**
-   * Check for conflicts between selected modules.
+   * Pick the module providing a required capability.
+   * Returns undefined when no provider can be picked (an issue is reported) or the choice
+   * is left open (see findCapabilityChoices).
+   */
+  private pickProvider(
+    requiredBy: string,
+    capability: string,
+    ids: ReadonlySet<string>,
+    providerChoices: Readonly<Record<string, string>>,
+    capabilities: Map<string, string>,
+    issues: ResolutionIssue[],
+    openChoices?: CapabilityChoice[],
+  ): string | undefined {
+    const candidates = this.registry.getProviders(capability);
+    if (candidates.length === 0) {
+      issues.push({
+        type: 'missing-requirement',
+        moduleId: requiredBy,
+        requirement: capability,
+        message: `Module '${requiredBy}' requires '${capability}', but '${capability}' was not found in registry`,
+      });
+      return undefined;
+    }
+
+    const resolved = candidates.find((m) => ids.has(m.id));
+    if (resolved) {
+      if (!capabilities.has(capability)) capabilities.set(capability, resolved.id);
+      return resolved.id;
+    }
+
+    const chosen = providerChoices[capability];
+    if (chosen !== undefined && !candidates.some((m) => m.id === chosen)) {
+      issues.push({
+        type: 'invalid-choice',
+        moduleId: chosen,
+        capability,
+        message:
+          `Module '${chosen}' was chosen for '${capability}', but it does not provide it. ` +
+          `Providers: ${candidates.map((m) => m.id).join(', ')}`,
+      });
+      return undefined;
+    }
+    if (chosen === undefined && candidates.length > 1 && openChoices) {
+      if (!openChoices.some((c) => c.capability === capability)) {
+        openChoices.push({ capability, requiredBy, candidates });
+      }
+      return undefined;
+    }
+
+    const providerId = chosen ?? candidates[0].id;
+    capabilities.set(capability, providerId);
+    return providerId;
+  }
+
+  /**
+   * Check for conflicts between selected modules. A conflict declared by both modules
+   * is reported once.
    */
-  private checkConflicts(ids: Set<string>): void {
+  private checkConflicts(ids: Set<string>, issues: ResolutionIssue[]): void {
     for (const id of ids) {
       const manifest = this.registry.get(id);
       if (!manifest.conflictsWith) continue;
 
       for (const conflictId of manifest.conflictsWith) {
-        if (ids.has(conflictId)) {
-          throw new Error(
-            `Module '${id}' conflicts with '${conflictId}' — they cannot be used together`,
-          );
-        }
+        if (!ids.has(conflictId)) continue;
+        const reported = issues.some(
+          (issue) =>
+            issue.type === 'conflict' &&
+            issue.moduleId === conflictId &&
+            issue.conflictsWith === id,
+        );
+        if (reported) continue;
+        issues.push({
+          type: 'conflict',
+          moduleId: id,
+          conflictsWith: conflictId,
+          message: `Module '${id}' conflicts with '${conflictId}' — they cannot be used together`,
+        });
       }
     }
   }
 
+  /**
+   * Get the IDs of the modules in `ids` that a requirement or enhancement refers to:
+   * the module itself, or the modules providing the capability.
+   */
+  private findInSet(target: string, ids: ReadonlySet<string>): string[] {
+    if (this.registry.has(target)) return ids.has(target) ? [target] : [];
+    return this.registry
+      .getProviders(target)
+      .map((m) => m.id)
+      .filter((id) => ids.has(id));
+  }
+
+  /**
+   * Map each module to the resolved modules it enhances.
+   */
+  private collectEnhancements(ids: Set<string>): Map<string, string[]> {
+    const enhancements = new Map<string, string[]>();
+    for (const id of ids) {
+      const enhanced = (this.registry.get(id).enhances ?? [])
+        .flatMap((target) => this.findInSet(target, ids))
+        .filter((target) => target !== id);
+      if (enhanced.length > 0) {
+        enhancements.set(id, [...new Set(enhanced)]);
+      }
+    }
+    return enhancements;
+  }
+
+  /**
+   * Map each module to the resolved modules it requires.
+   */
+  private collectDependencies(ids: Set<string>): Map<string, string[]> {
+    const dependencies = new Map<string, string[]>();
+    for (const id of ids) {
+      const deps = this.registry
+        .get(id)
+        .requires.flatMap((requirement) => this.findInSet(requirement, ids));
+      dependencies.set(id, [...new Set(deps)]);
+    }
+    return dependencies;
+  }
+
+  /**
+   * Sort modules so dependencies come first and enhancing modules follow the modules they enhance.
+   * Enhancements are soft: they are dropped when they would cause a cycle. Modules caught in a
+   * cycle of requirements are reported and left out.
+   */
+  private topologicalSort(
+    ids: Set<string>,
+    requirements: ReadonlyMap<string, readonly string[]>,
+    enhancements: ReadonlyMap<string, readonly string[]>,
+    issues: ResolutionIssue[],
+  ): ModuleManifest[] {
+    const withEnhancements = new Map<string, string[]>();
+    for (const [id, deps] of requirements) {
+      withEnhancements.set(id, [...deps, ...(enhancements.get(id) ?? [])]);
+    }
+
+    const sorted = this.sortByDependencies(ids, withEnhancements);
+    if (sorted.length === ids.size) return sorted;
+
+    const ordered = this.sortByDependencies(ids, requirements);
+    if (ordered.length !== ids.size) {
+      const unsorted = [...ids].filter((id) => !ordered.some((m) => m.id === id));
+      issues.push({
+        type: 'cycle',
+        moduleIds: unsorted,
+        message: `Circular dependency detected among modules: ${unsorted.join(', ')}`,
+      });
+    }
+    return ordered;
+  }
+
   /**
    * Perform a topological sort using Kahn's algorithm (BFS-based).
-   * Detects circular dependencies.
+   * Modules caught in a circular dependency are missing from the result.
    */
-  private topologicalSort(ids: Set<string>): ModuleManifest[] {
+  private sortByDependencies(
+    ids: Set<string>,
+    dependencies: ReadonlyMap<string, readonly string[]>,
+  ): ModuleManifest[] {
     // Build adjacency list and in-degree count (only for selected modules)
     const inDegree = new Map<string, number>();
     const dependents = new Map<string, string[]>(); // dep -> modules that depend on it
@@ -118,12 +424,9 @@ export class ModuleResolver {
     }
 
     for (const id of ids) {
-      const manifest = this.registry.get(id);
-      for (const depId of manifest.requires) {
-        if (ids.has(depId)) {
-          inDegree.set(id, (inDegree.get(id) ?? 0) + 1);
-          dependents.get(depId)!.push(id);
-        }
+      for (const depId of new Set(dependencies.get(id) ?? [])) {
+        inDegree.set(id, (inDegree.get(id) ?? 0) + 1);
+        dependents.get(depId)!.push(id);
       }
     }
 
@@ -158,14 +461,6 @@ export class ModuleResolver {
       }
     }
 
-    // If not all modules were sorted, there's a cycle
-    if (result.length !== ids.size) {
-      const unsorted = [...ids].filter((id) => !result.some((m) => m.id === id));
-      throw new Error(
-        `Circular dependency detected among modules: ${unsorted.join(', ')}`,
-      );
-    }
-
     return result;
   }
 }
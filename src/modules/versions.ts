@@ -0,0 +1,163 @@
+import { join } from 'node:path';
+import { readFile } from 'node:fs/promises';
+import fsExtra from 'fs-extra';
+
+import type { ModuleManifest } from '../types/module.js';
+
+const { pathExists, outputFile } = fsExtra;
+
+/** Lockfile recording the template version of every installed module (relative to the project root). */
+export const MODULE_LOCK_PATH = '.maxsim/modules.lock.json';
+
+/** Version of modules whose manifest does not declare one. */
+export const DEFAULT_MODULE_VERSION = '0.0.0';
+
+/** A semantic version: major.minor.patch with an optional pre-release (e.g. '1.2.0-beta.1'). */
+export const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/;
+
+/**
+ * Content of the module lockfile.
+ */
+export interface ModuleLock {
+  /** Installed module ID -> template version it was generated from */
+  modules: Record<string, string>;
+}
+
+/**
+ * A module whose templates are newer than the version installed in the project.
+ */
+export interface ModuleUpdate {
+  moduleId: string;
+  /** Version recorded in the lockfile; undefined when the module was never recorded */
+  installed?: string;
+  /** Version of the module's current templates */
+  available: string;
+}
+
+/** Template version of a module. */
+export function getModuleVersion(manifest: ModuleManifest): string {
+  return manifest.version ?? DEFAULT_MODULE_VERSION;
+}
+
+/**
+ * Compare two semantic versions. Returns a negative number when `a` is older than `b`,
+ * a positive number when it is newer, and 0 when they are equal.
+ * A pre-release is older than its release (1.0.0-beta < 1.0.0).
+ *
+ * @throws Error when either version is not a semantic version
+ */
+export function compareVersions(a: string, b: string): number {
+  const [partsA, partsB] = [a, b].map((version) => {
+    const match = SEMVER_PATTERN.exec(version);
+    if (!match) throw new Error(`'${version}' is not a semantic version (e.g. 1.2.0)`);
+    return match;
+  });
+
+  for (let i = 1; i <= 3; i++) {
+    const diff = Number(partsA[i]) - Number(partsB[i]);
+    if (diff !== 0) return diff;
+  }
+
+  const [preA, preB] = [partsA[4], partsB[4]];
+  if (preA === preB) return 0;
+  if (preA === undefined) return 1;
+  if (preB === undefined) return -1;
+  return preA.localeCompare(preB, 'en', { numeric: true });
+}
+
+/**
+ * Versions to record for the given modules; always-included modules are part of the core
+ * templates and are not recorded.
+ */
+export function lockModules(modules: readonly ModuleManifest[]): Record<string, string> {
+  return Object.fromEntries(
+    modules.filter((m) => !m.alwaysIncluded).map((m) => [m.id, getModuleVersion(m)]),
+  );
+}
+
+/**
+ * Read the module lockfile of a project.
+ * Returns null when the project has none (e.g. it was generated by an older maxsim-flutter).
+ *
+ * @throws Error when the lockfile is not valid JSON or does not list module versions
+ */
+export async function readModuleLock(projectRoot: string): Promise<ModuleLock | null> {
+  const lockPath = join(projectRoot, MODULE_LOCK_PATH);
+  if (!(await pathExists(lockPath))) return null;
+
+  let lock: unknown;
+  try {
+    lock = JSON.parse(await readFile(lockPath, 'utf-8'));
+  } catch (err) {
+    throw new Error(
+      `${MODULE_LOCK_PATH} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  const modules = (lock as Partial<ModuleLock> | null)?.modules;
+  if (
+    modules === null ||
+    typeof modules !== 'object' ||
+    Array.isArray(modules) ||
+    !Object.values(modules).every((v) => typeof v === 'string')
+  ) {
+    throw new Error(`${MODULE_LOCK_PATH} must map module IDs to versions under 'modules'`);
+  }
+  return { modules };
+}
+
+/**
+ * Write the module lockfile of a project, with the modules sorted by ID.
+ */
+export async function writeModuleLock(projectRoot: string, lock: ModuleLock): Promise<void> {
+  const modules = Object.fromEntries(
+    Object.entries(lock.modules).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  await outputFile(
+    join(projectRoot, MODULE_LOCK_PATH),
+    `${JSON.stringify({ modules }, null, 2)}\n`,
+    'utf-8',
+  );
+}
+
+/**
+ * Record the versions of `added` modules in the lockfile and drop the `removed` ones.
+ * Creates the lockfile when the project has none.
+ */
+export async function updateModuleLock(
+  projectRoot: string,
+  added: readonly ModuleManifest[],
+  removed: readonly string[] = [],
+): Promise<void> {
+  const lock = (await readModuleLock(projectRoot)) ?? { modules: {} };
+  const modules = { ...lock.modules, ...lockModules(added) };
+  for (const id of removed) {
+    delete modules[id];
+  }
+  await writeModuleLock(projectRoot, { modules });
+}
+
+/**
+ * Find the installed modules whose templates are newer than the recorded version.
+ * Without a lockfile, or when a module is missing from it, the installed version is unknown
+ * and the module is reported with `installed` undefined.
+ */
+export function findModuleUpdates(
+  modules: readonly ModuleManifest[],
+  lock: ModuleLock | null,
+): ModuleUpdate[] {
+  const updates: ModuleUpdate[] = [];
+  for (const manifest of modules) {
+    if (manifest.alwaysIncluded) continue;
+    const installed = lock?.modules[manifest.id];
+    const available = getModuleVersion(manifest);
+    if (installed === undefined || compareVersions(available, installed) > 0) {
+      updates.push({ moduleId: manifest.id, installed, available });
+    }
+  }
+  return updates;
+}
+
+/** Format an update for display, e.g. 'auth 1.0.0 → 1.1.0'. */
+export function formatModuleUpdate(update: ModuleUpdate): string {
+  return `${update.moduleId} ${update.installed ?? 'unknown'} → ${update.available}`;
+}
@@ -1,23 +1,41 @@
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
-import { load as yamlLoad, dump as yamlDump } from 'js-yaml';
-import fsExtra from 'fs-extra';
-const { pathExists } = fsExtra;
 import { TemplateRenderer } from './renderer.js';
-import { FileWriter } from './file-writer.js';
+import { BASE_DIR, FileWriter } from './file-writer.js';
+import { toModuleKey } from '../core/context.js';
 import type { ProjectContext } from '../core/context.js';
+import type { ModuleManifest } from '../types/module.js';
 import type { GeneratedFile } from '../types/project.js';
-import { ModuleRegistry } from '../modules/registry.js';
+import { formatExternalModuleError, loadModuleRegistry } from '../modules/registry.js';
+import type { ModuleRegistry } from '../modules/registry.js';
 import { ModuleResolver } from '../modules/resolver.js';
-import { pickNewerVersion } from '../modules/composer.js';
-import { runDartFormat } from './post-processors/dart-format.js';
-import { runFlutterPubGet } from './post-processors/flutter-pub-get.js';
-import { runBuildRunner } from './post-processors/build-runner.js';
-import { runClaudeSetup } from '../claude-setup/index.js';
+import { runModuleHooks, writeHookChanges } from '../modules/hooks.js';
+import { MODULE_LOCK_PATH, lockModules, writeModuleLock } from '../modules/versions.js';
+import {
+  APP_PROVIDERS_OUTPUT_PATH,
+  ModuleComposer,
+  formatVersionConflict,
+} from '../modules/composer.js';
+import type { ComposeResult } from '../modules/composer.js';
+import {
+  collectPostProcessors,
+  formatPostProcessorError,
+  orderPostProcessors,
+  runPostProcessors,
+} from './post-processors/pipeline.js';
+import type { PostProcessorResult } from '../types/post-processor.js';
+import { CLAUDE_SETUP_PATHS, runClaudeSetup } from '../claude-setup/index.js';
+import { GENERATION_MANIFEST_PATH, recordGeneratedFiles } from './generation-manifest.js';
+import { addAndroidProductFlavors, createNativePlatforms } from './native-platforms.js';
+import { withTransaction } from './transaction.js';
+import type { ScaffoldTransaction } from './transaction.js';
+import type { FlutterRunner } from './native-platforms.js';
 import {
-  buildTemplateContext,
   collectAndRenderTemplates,
-  processPubspecPartial,
+  composeModules,
+  getTemplateEnvironments,
+  mergePubspecContent,
+  renderFlavorTemplates,
 } from './template-helpers.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -27,8 +45,46 @@ export interface ScaffoldResult {
   filesWritten: string[];
   filesSkipped: string[];
   conflicts: string[];
+  /** Existing files the template changes were merged into (overwrite mode 'merge') */
+  filesMerged: string[];
+  /** Existing files written with conflict markers (overwrite mode 'merge') */
+  mergeConflicts: string[];
+  /** Platforms whose native folder (android/, ios/, …) `flutter create` added */
+  nativePlatforms: string[];
+  /** Why the native platform folders could not be generated (e.g. Flutter not installed) */
+  nativePlatformErrors: string[];
+  /** Outcome of each post-processor step, in the order they ran */
+  postProcessorResults: PostProcessorResult[];
+  /** IDs of the post-processor steps that succeeded */
   postProcessorsRun: string[];
+  /** Post-processor steps that failed, timed out or were skipped, and ordering errors */
   postProcessorErrors: string[];
+  /** External modules from config.externalModules that failed to load (skipped) */
+  externalModuleErrors: string[];
+  /** Packages that modules request with incompatible version constraints */
+  dependencyConflicts: string[];
+  /** Messages logged by module hooks, e.g. manual setup instructions */
+  moduleMessages: string[];
+}
+
+/**
+ * A project rendered in memory by ScaffoldEngine.render().
+ */
+export interface RenderedProject {
+  /** Content of every file to write, by path relative to the output directory */
+  files: Map<string, string>;
+  /** The rendered template files, before the beforeGenerate hook changes */
+  generatedFiles: GeneratedFile[];
+  /** Enabled modules in dependency order */
+  modules: readonly ModuleManifest[];
+  /** Registry the modules were resolved from; null when no module is enabled */
+  registry: ModuleRegistry | null;
+  /** Merged dependencies, routes and providers of the modules */
+  composed: ComposeResult;
+  /** External modules from config.externalModules that failed to load (skipped) */
+  externalModuleErrors: string[];
+  /** Messages logged by the beforeGenerate hooks */
+  moduleMessages: string[];
 }
 
 export interface ScaffoldEngineOptions {
@@ -36,175 +92,243 @@ export interface ScaffoldEngineOptions {
   templatesDir?: string;
   /** Override the modules templates base directory (useful for testing) */
   modulesTemplatesDir?: string;
-  /** Pre-loaded module registry (useful for testing) */
+  /** Override the flavor templates directory (useful for testing) */
+  flavorsTemplatesDir?: string;
+  /** Pre-loaded module registry, e.g. the one a command parsed the config with (or for testing) */
   registry?: ModuleRegistry;
   /** Skip Claude setup generation even if context.claude.enabled is true */
   noClaude?: boolean;
+  /** Override how `flutter create` is run (useful for testing without Flutter) */
+  flutterRunner?: FlutterRunner;
 }
 
 export class ScaffoldEngine {
   private renderer: TemplateRenderer;
   private readonly templatesDirOverride?: string;
   private readonly modulesTemplatesDirOverride?: string;
+  private readonly flavorsTemplatesDirOverride?: string;
   private readonly registryOverride?: ModuleRegistry;
   private readonly noClaudeOverride: boolean;
+  private readonly flutterRunnerOverride?: FlutterRunner;
 
   constructor(options: ScaffoldEngineOptions = {}) {
     this.renderer = new TemplateRenderer();
     this.templatesDirOverride = options.templatesDir;
     this.modulesTemplatesDirOverride = options.modulesTemplatesDir;
+    this.flavorsTemplatesDirOverride = options.flavorsTemplatesDir;
     this.registryOverride = options.registry;
     this.noClaudeOverride = options.noClaude ?? false;
+    this.flutterRunnerOverride = options.flutterRunner;
   }
 
   async run(context: ProjectContext): Promise<ScaffoldResult> {
-    const templateContext = buildTemplateContext(context);
-
-    // 1. Collect and render core templates
-    const generatedFiles = await collectAndRenderTemplates(
-      this.getTemplatesDir(),
-      templateContext,
-      this.renderer,
-    );
-
-    // 2. Handle module templates if any modules are enabled.
-    // Quick check: skip registry loading entirely when all modules are disabled.
-    const mods = context.modules as Record<string, unknown>;
-    const hasPotentialModules = Object.values(mods).some((v) => v !== false);
-    if (hasPotentialModules) {
-      const registry = await this.getRegistry();
-      const enabledModuleIds = this.getEnabledModuleIds(context, registry);
-      if (enabledModuleIds.length > 0) {
-        // Filter to only modules that exist in the registry (safety net)
-        const validIds = enabledModuleIds.filter((id) => registry.has(id));
-        if (validIds.length > 0) {
-          const resolver = new ModuleResolver(registry);
-          const resolved = resolver.resolve(validIds);
-
-          const modulesDir = this.getModulesTemplatesDir();
-          const extraDeps = new Map<string, string | Record<string, unknown>>();
-          const extraDevDeps = new Map<string, string | Record<string, unknown>>();
-          const extraFlutter: Record<string, unknown> = {};
-
-          for (const mod of resolved.ordered) {
-            if (mod.alwaysIncluded) continue;
-            if (mod.isEnabled && !mod.isEnabled(context)) continue;
-
-            const moduleTemplateDir = join(modulesDir, mod.id);
-            if (!(await pathExists(moduleTemplateDir))) continue;
-
-            // Collect and render module templates (excluding pubspec.partial.yaml)
-            const moduleFiles = await collectAndRenderTemplates(
-              moduleTemplateDir,
-              templateContext,
-              this.renderer,
-              ['pubspec.partial.yaml'],
-            );
-            generatedFiles.push(...moduleFiles);
-
-            // Process pubspec.partial.yaml for dependency merging
-            const partialPath = join(moduleTemplateDir, 'pubspec.partial.yaml');
-            const partial = await processPubspecPartial(partialPath, this.renderer, templateContext);
-            for (const [name, version] of partial.deps) {
-              if (typeof version === 'object') {
-                extraDeps.set(name, version);
-              } else {
-                const existing = extraDeps.get(name);
-                extraDeps.set(
-                  name,
-                  existing !== undefined && typeof existing === 'string'
-                    ? pickNewerVersion(existing, version)
-                    : version,
-                );
-              }
-            }
-            for (const [name, version] of partial.devDeps) {
-              if (typeof version === 'object') {
-                extraDevDeps.set(name, version);
-              } else {
-                const existing = extraDevDeps.get(name);
-                extraDevDeps.set(
-                  name,
-                  existing !== undefined && typeof existing === 'string'
-                    ? pickNewerVersion(existing, version)
-                    : version,
-                );
-              }
-            }
-            Object.assign(extraFlutter, partial.flutter);
-          }
+    // 1-4. Render the project in memory
+    const rendered = await this.render(context);
 
-          // Merge module deps into the rendered pubspec.yaml
-          if (extraDeps.size > 0 || extraDevDeps.size > 0 || Object.keys(extraFlutter).length > 0) {
-            this.mergePubspecDependencies(generatedFiles, extraDeps, extraDevDeps, extraFlutter);
-          }
-        }
-      }
-    }
-
-    // 3. Write files to disk
-    const fileMap = new Map<string, string>(
-      generatedFiles.map((f) => [f.relativePath, f.content]),
+    // 5-8. Write it as a transaction: when a step throws, the output directory is restored
+    if (context.scaffold.dryRun) return this.write(context, rendered);
+    return withTransaction(context.outputDir, (transaction) =>
+      this.write(context, rendered, transaction),
     );
+  }
 
+  /**
+   * Write a rendered project, run the Claude setup and the post-processors (steps 5-8).
+   * Every path is tracked in `transaction` before it is written; the changes of the
+   * post-processors (external commands) are not.
+   */
+  private async write(
+    context: ProjectContext,
+    rendered: RenderedProject,
+    transaction?: ScaffoldTransaction,
+  ): Promise<ScaffoldResult> {
+    const {
+      files: fileMap,
+      generatedFiles,
+      modules: resolvedModules,
+      registry,
+      composed,
+      externalModuleErrors,
+      moduleMessages,
+    } = rendered;
+
+    // 5. Write files to disk, merge in the native platform folders of `flutter create` (with a
+    //    product flavor per environment in the Android app) and record the module versions,
+    //    then run the afterGenerate hooks on the written project (so modules can patch native
+    //    files such as AndroidManifest.xml)
     const writer = new FileWriter({
       outputDir: context.outputDir,
       dryRun: context.scaffold.dryRun,
       overwriteMode: context.scaffold.overwrite,
     });
 
+    await transaction?.track([
+      ...fileMap.keys(),
+      BASE_DIR,
+      MODULE_LOCK_PATH,
+      GENERATION_MANIFEST_PATH,
+    ]);
     const writeResult = await writer.writeAll(fileMap);
 
-    // 4. Claude setup (CLAUDE.md, agents, skills, hooks, MCP config, prd.json)
-    if (!context.scaffold.dryRun && context.claude.enabled && !this.noClaudeOverride) {
-      await runClaudeSetup(context, context.outputDir);
-    }
-
-    // 5. Post-process
-    const postProcessorsRun: string[] = [];
-    const postProcessorErrors: string[] = [];
-
+    const nativePlatforms: string[] = [];
+    const nativePlatformErrors: string[] = [];
     if (!context.scaffold.dryRun) {
-      if (context.scaffold.postProcessors.dartFormat) {
+      if (context.scaffold.flutterCreate) {
         try {
-          await runDartFormat(context.outputDir);
-          postProcessorsRun.push('dart-format');
-        } catch (err) {
-          postProcessorErrors.push(
-            `dart format skipped: ${err instanceof Error ? err.message : String(err)}`,
+          await transaction?.track([...context.platforms, '.metadata']);
+          nativePlatforms.push(
+            ...(await createNativePlatforms(context, this.flutterRunnerOverride)),
           );
-        }
-      }
-
-      if (context.scaffold.postProcessors.flutterPubGet) {
-        try {
-          await runFlutterPubGet(context.outputDir);
-          postProcessorsRun.push('flutter-pub-get');
+          if (nativePlatforms.includes('android')) {
+            await addAndroidProductFlavors(context.outputDir, getTemplateEnvironments(context));
+          }
         } catch (err) {
-          postProcessorErrors.push(
-            `flutter pub get failed: ${err instanceof Error ? err.message : String(err)}`,
+          nativePlatformErrors.push(
+            `flutter create skipped: ${err instanceof Error ? err.message : String(err)}. ` +
+              `Run \`flutter create --org ${context.orgId} ` +
+              `--platforms=${context.platforms.join(',')} .\` in the project to add the ` +
+              'native platform folders' +
+              (context.platforms.includes('android') && getTemplateEnvironments(context).length
+                ? ', and declare the product flavors listed in FLAVORS.md in the Android app.'
+                : '.'),
           );
         }
       }
 
-      if (context.scaffold.postProcessors.buildRunner) {
-        try {
-          await runBuildRunner(context.outputDir);
-          postProcessorsRun.push('build-runner');
-        } catch (err) {
-          postProcessorErrors.push(
-            `build_runner failed: ${err instanceof Error ? err.message : String(err)}`,
-          );
-        }
+      await writeModuleLock(context.outputDir, { modules: lockModules(resolvedModules) });
+      const afterGenerate = await runModuleHooks(
+        resolvedModules,
+        'afterGenerate',
+        context,
+        context.outputDir,
+        fileMap,
+      );
+      await transaction?.track(afterGenerate.changes.keys());
+      await writeHookChanges(context.outputDir, afterGenerate.changes);
+      moduleMessages.push(...afterGenerate.messages);
+    }
+
+    // 6. Claude setup (CLAUDE.md, agents, skills, hooks, MCP config, prd.json)
+    if (!context.scaffold.dryRun && context.claude.enabled && !this.noClaudeOverride) {
+      await transaction?.track(CLAUDE_SETUP_PATHS);
+      await runClaudeSetup(context, context.outputDir, { modules: registry?.getAll() });
+    }
+
+    // 7. Post-process: the built-in, module and config steps in dependency order
+    let postProcessorResults: PostProcessorResult[] = [];
+    const postProcessorErrors: string[] = [];
+
+    if (!context.scaffold.dryRun) {
+      try {
+        const steps = orderPostProcessors(collectPostProcessors(context, resolvedModules));
+        postProcessorResults = await runPostProcessors(steps, context);
+      } catch (err) {
+        postProcessorErrors.push(
+          `Post-processors skipped: ${err instanceof Error ? err.message : String(err)}`,
+        );
       }
     }
 
+    const postProcessorsRun = postProcessorResults
+      .filter((r) => r.status === 'success')
+      .map((r) => r.id);
+    postProcessorErrors.push(
+      ...postProcessorResults.filter((r) => r.status !== 'success').map(formatPostProcessorError),
+    );
+
+    // 8. Record the written files in .maxsim/generated.json and as merge bases, as they ended
+    //    up on disk after the hooks and post-processors (e.g. dart format) changed them
+    if (!context.scaffold.dryRun) {
+      await writer.refreshBases(writeResult.written);
+      const written = new Set(writeResult.written);
+      await recordGeneratedFiles(
+        context.outputDir,
+        generatedFiles.filter((f) => written.has(f.relativePath)),
+      );
+    }
+
     return {
       filesWritten: writeResult.written,
       filesSkipped: writeResult.skipped,
       conflicts: writeResult.conflicts,
+      filesMerged: writeResult.merged,
+      mergeConflicts: writeResult.mergeConflicts,
+      nativePlatforms,
+      nativePlatformErrors,
+      postProcessorResults,
       postProcessorsRun,
       postProcessorErrors,
+      externalModuleErrors,
+      dependencyConflicts: composed.conflicts.map(formatVersionConflict),
+      moduleMessages,
+    };
+  }
+
+  /**
+   * Render the project for the given context in memory, without writing anything:
+   * the core and module templates, pubspec.yaml with the module dependencies merged in,
+   * the providers barrel, and the changes of the modules' beforeGenerate hooks.
+   */
+  async render(context: ProjectContext): Promise<RenderedProject> {
+    // Template files and directory listings are read once per run
+    this.renderer.clearFileCache();
+
+    // 1. Resolve enabled modules and compose their templates, dependencies and routes
+    const externalModuleErrors: string[] = [];
+    const { modules, registry } = await this.resolveModules(context, externalModuleErrors);
+    const { templateContext, files: moduleFiles, composed } = await composeModules(
+      modules,
+      context,
+      {
+        renderer: this.renderer,
+        modulesTemplatesDir: this.getModulesTemplatesDir(),
+        getTemplateDir: (id) => registry?.getTemplateDir(id),
+      },
+    );
+
+    // 2. Collect and render core templates and the entry points of the configured environments
+    //    (flavors), then add the module templates
+    const generatedFiles: GeneratedFile[] = [
+      ...(await collectAndRenderTemplates(this.getTemplatesDir(), templateContext, this.renderer)),
+      ...(await renderFlavorTemplates(
+        this.getFlavorsTemplatesDir(),
+        templateContext,
+        this.renderer,
+      )),
+    ].map((file) => ({ ...file, module: 'core' }));
+    generatedFiles.push(...moduleFiles);
+
+    // 3. Merge module dependencies into pubspec.yaml and export module providers from the barrel
+    const pubspec = generatedFiles.find((f) => f.relativePath === 'pubspec.yaml');
+    if (pubspec) {
+      pubspec.content = mergePubspecContent(pubspec.content, composed);
+    }
+    const providersBarrel = generatedFiles.find((f) => f.relativePath === APP_PROVIDERS_OUTPUT_PATH);
+    if (providersBarrel) {
+      providersBarrel.content = new ModuleComposer().generateAppProvidersBarrel(composed.providers);
+    }
+
+    // 4. Let module hooks adjust the generated files before anything is written
+    const files = new Map<string, string>(generatedFiles.map((f) => [f.relativePath, f.content]));
+    const beforeGenerate = await runModuleHooks(
+      modules,
+      'beforeGenerate',
+      context,
+      context.outputDir,
+      files,
+    );
+    for (const [relativePath, content] of beforeGenerate.changes) {
+      files.set(relativePath, content);
+    }
+
+    return {
+      files,
+      generatedFiles,
+      modules,
+      registry,
+      composed,
+      externalModuleErrors,
+      moduleMessages: [...beforeGenerate.messages],
     };
   }
 
@@ -222,10 +346,46 @@ export class ScaffoldEngine {
     return join(__dirname, '../../templates/modules');
   }
 
-  private async getRegistry(): Promise<ModuleRegistry> {
+  private getFlavorsTemplatesDir(): string {
+    if (this.flavorsTemplatesDirOverride !== undefined) {
+      return this.flavorsTemplatesDirOverride;
+    }
+    return join(__dirname, '../../templates/flavors');
+  }
+
+  /**
+   * Resolve the optional modules enabled in the context (plus always-included and
+   * transitive dependencies) into dependency order.
+   * Returns no modules (and no registry) when no module is enabled, without loading the registry.
+   * External modules that fail to load are appended to `externalErrors`.
+   */
+  private async resolveModules(
+    context: ProjectContext,
+    externalErrors: string[],
+  ): Promise<{ modules: readonly ModuleManifest[]; registry: ModuleRegistry | null }> {
+    // Quick check: skip registry loading entirely when all modules are disabled.
+    const mods = context.modules as Record<string, unknown>;
+    const hasPotentialModules = Object.values(mods).some((v) => v !== false);
+    if (!hasPotentialModules) return { modules: [], registry: null };
+
+    const registry = await this.getRegistry(context, externalErrors);
+    // Filter to only modules that exist in the registry (safety net)
+    const validIds = this.getEnabledModuleIds(context, registry).filter((id) => registry.has(id));
+    if (validIds.length === 0) return { modules: [], registry };
+
+    return { modules: new ModuleResolver(registry).resolve(validIds).ordered, registry };
+  }
+
+  private async getRegistry(
+    context: ProjectContext,
+    externalErrors: string[],
+  ): Promise<ModuleRegistry> {
     if (this.registryOverride) return this.registryOverride;
-    const registry = new ModuleRegistry();
-    await registry.loadAll();
+    const { registry, externalErrors: errors } = await loadModuleRegistry(
+      context.rawConfig.externalModules ?? [],
+      context.outputDir,
+    );
+    externalErrors.push(...errors.map(formatExternalModuleError));
     return registry;
   }
 
@@ -238,58 +398,8 @@ export class ScaffoldEngine {
   private getEnabledModuleIds(context: ProjectContext, registry: ModuleRegistry): string[] {
     const mods = context.modules as Record<string, unknown>;
     return registry.getAllOptionalIds().filter((id) => {
-      const key = id.replace(/-([a-z])/g, (_, c: string) => (c as string).toUpperCase());
+      const key = toModuleKey(id);
       return mods[key] !== false && mods[key] !== undefined;
     });
   }
-
-  /**
-   * Merge additional dependencies from modules into the rendered pubspec.yaml.
-   */
-  private mergePubspecDependencies(
-    files: GeneratedFile[],
-    extraDeps: Map<string, string | Record<string, unknown>>,
-    extraDevDeps: Map<string, string | Record<string, unknown>>,
-    extraFlutter: Record<string, unknown> = {},
-  ): void {
-    const pubspecIdx = files.findIndex((f) => f.relativePath === 'pubspec.yaml');
-    if (pubspecIdx < 0) return;
-
-    const pubspec = yamlLoad(files[pubspecIdx].content) as Record<string, unknown>;
-
-    const deps = (pubspec['dependencies'] ?? {}) as Record<string, unknown>;
-    for (const [name, version] of extraDeps) {
-      if (typeof version === 'object') {
-        deps[name] = version;
-      } else if (typeof deps[name] === 'string') {
-        deps[name] = pickNewerVersion(deps[name] as string, version);
-      } else if (deps[name] === undefined) {
-        deps[name] = version;
-      }
-    }
-    pubspec['dependencies'] = deps;
-
-    const devDeps = (pubspec['dev_dependencies'] ?? {}) as Record<string, unknown>;
-    for (const [name, version] of extraDevDeps) {
-      if (typeof version === 'object') {
-        devDeps[name] = version;
-      } else if (typeof devDeps[name] === 'string') {
-        devDeps[name] = pickNewerVersion(devDeps[name] as string, version);
-      } else if (devDeps[name] === undefined) {
-        devDeps[name] = version;
-      }
-    }
-    pubspec['dev_dependencies'] = devDeps;
-
-    if (Object.keys(extraFlutter).length > 0) {
-      const flutterSection = (pubspec['flutter'] ?? {}) as Record<string, unknown>;
-      Object.assign(flutterSection, extraFlutter);
-      pubspec['flutter'] = flutterSection;
-    }
-
-    files[pubspecIdx] = {
-      ...files[pubspecIdx],
-      content: yamlDump(pubspec, { indent: 2, lineWidth: 120, noRefs: true }),
-    };
-  }
 }
@@ -1,8 +1,23 @@
 import fsExtra from 'fs-extra';
-const { ensureDir, pathExists, writeFile } = fsExtra;
+const { ensureDir, pathExists, readFile, writeFile } = fsExtra;
 import { join, dirname } from 'node:path';
+import { mergeThreeWay } from './three-way-merge.js';
 
-export type OverwriteMode = 'ask' | 'always' | 'never';
+/**
+ * How existing files are handled: ask (via `onConflict`), always overwrite, never overwrite,
+ * or merge the template changes into them (asking when there is no base content to merge against).
+ */
+export type OverwriteMode = 'ask' | 'always' | 'never' | 'merge';
+
+/**
+ * Directory (relative to the output directory) holding the pristine generated content of
+ * every written file, the base of later three-way merges. Files are stored under their
+ * relative path plus BASE_FILE_SUFFIX, so tools scanning the project ignore them.
+ */
+export const BASE_DIR = '.maxsim/base';
+
+/** Suffix of the files in BASE_DIR. */
+export const BASE_FILE_SUFFIX = '.base';
 
 export interface FileWriterOptions {
   outputDir: string;
@@ -14,9 +29,16 @@ export interface FileWriterOptions {
 export interface WriteResult {
   written: string[];
   skipped: string[];
+  /** Existing files left unchanged because no decision could be made (ask mode without `onConflict`) */
   conflicts: string[];
+  /** Existing files the template changes were merged into cleanly */
+  merged: string[];
+  /** Existing files written with conflict markers where the template and local changes overlap */
+  mergeConflicts: string[];
 }
 
+export type WriteOutcome = 'written' | 'skipped' | 'conflict' | 'merged' | 'merge-conflict';
+
 export class FileWriter {
   private readonly outputDir: string;
   private readonly dryRun: boolean;
@@ -35,6 +57,8 @@ export class FileWriter {
       written: [],
       skipped: [],
       conflicts: [],
+      merged: [],
+      mergeConflicts: [],
     };
 
     for (const [relativePath, content] of files) {
@@ -43,6 +67,10 @@ export class FileWriter {
         result.written.push(relativePath);
       } else if (outcome === 'skipped') {
         result.skipped.push(relativePath);
+      } else if (outcome === 'merged') {
+        result.merged.push(relativePath);
+      } else if (outcome === 'merge-conflict') {
+        result.mergeConflicts.push(relativePath);
       } else {
         result.conflicts.push(relativePath);
       }
@@ -51,10 +79,7 @@ export class FileWriter {
     return result;
   }
 
-  async writeFile(
-    relativePath: string,
-    content: string,
-  ): Promise<'written' | 'skipped' | 'conflict'> {
+  async writeFile(relativePath: string, content: string): Promise<WriteOutcome> {
     const absolutePath = join(this.outputDir, relativePath);
 
     if (this.dryRun) {
@@ -65,8 +90,7 @@ export class FileWriter {
 
     if (exists) {
       if (this.overwriteMode === 'always') {
-        await ensureDir(dirname(absolutePath));
-        await writeFile(absolutePath, content, 'utf-8');
+        await this.write(relativePath, content);
         return 'written';
       }
 
@@ -74,12 +98,23 @@ export class FileWriter {
         return 'skipped';
       }
 
+      if (this.overwriteMode === 'merge') {
+        const base = await this.readBase(relativePath);
+        if (base !== undefined) {
+          const current = await readFile(absolutePath, 'utf-8');
+          const merge = mergeThreeWay(base, current, content);
+          await this.write(relativePath, merge.content, content);
+          if (merge.conflicts > 0) return 'merge-conflict';
+          return merge.content === content ? 'written' : 'merged';
+        }
+        // Generated before base content was stored — fall back to asking
+      }
+
       // 'ask' mode
       if (this.onConflict) {
         const shouldOverwrite = await this.onConflict(absolutePath);
         if (shouldOverwrite) {
-          await ensureDir(dirname(absolutePath));
-          await writeFile(absolutePath, content, 'utf-8');
+          await this.write(relativePath, content);
           return 'written';
         }
         return 'skipped';
@@ -89,8 +124,47 @@ export class FileWriter {
       return 'conflict';
     }
 
+    await this.write(relativePath, content);
+    return 'written';
+  }
+
+  /**
+   * Store the current content of written files as their merge base, e.g. after formatters and
+   * code generators changed them, so the next merge does not take those changes for edits.
+   * Files that do not exist are skipped.
+   */
+  async refreshBases(relativePaths: Iterable<string>): Promise<void> {
+    if (this.dryRun) return;
+
+    for (const relativePath of relativePaths) {
+      const absolutePath = join(this.outputDir, relativePath);
+      if (!(await pathExists(absolutePath))) continue;
+      const basePath = this.getBasePath(relativePath);
+      await ensureDir(dirname(basePath));
+      await writeFile(basePath, await readFile(absolutePath, 'utf-8'), 'utf-8');
+    }
+  }
+
+  /**
+   * Write a file and record the generated content it was written from as its merge base.
+   */
+  private async write(relativePath: string, content: string, generated = content): Promise<void> {
+    const absolutePath = join(this.outputDir, relativePath);
     await ensureDir(dirname(absolutePath));
     await writeFile(absolutePath, content, 'utf-8');
-    return 'written';
+
+    const basePath = this.getBasePath(relativePath);
+    await ensureDir(dirname(basePath));
+    await writeFile(basePath, generated, 'utf-8');
+  }
+
+  private async readBase(relativePath: string): Promise<string | undefined> {
+    const basePath = this.getBasePath(relativePath);
+    if (!(await pathExists(basePath))) return undefined;
+    return readFile(basePath, 'utf-8');
+  }
+
+  private getBasePath(relativePath: string): string {
+    return join(this.outputDir, BASE_DIR, `${relativePath}${BASE_FILE_SUFFIX}`);
   }
 }
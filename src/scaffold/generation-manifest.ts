@@ -0,0 +1,230 @@
+import { createHash } from 'node:crypto';
+import { isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { readFile } from 'node:fs/promises';
+import fsExtra from 'fs-extra';
+
+import { getCurrentVersion } from '../cli/version-check.js';
+import type { GeneratedFile } from '../types/project.js';
+
+const { pathExists, outputFile } = fsExtra;
+
+/** Manifest of the files maxsim-flutter generated (relative to the project root). */
+export const GENERATION_MANIFEST_PATH = '.maxsim/generated.json';
+
+/** Root of the maxsim-flutter package; built-in templates are recorded relative to it. */
+const PACKAGE_ROOT = fileURLToPath(new URL('../..', import.meta.url));
+
+/**
+ * A file recorded in the generation manifest.
+ */
+export interface GeneratedFileRecord {
+  /** Path relative to the project root, with forward slashes */
+  path: string;
+  /** ID of the module whose templates generated the file ('core' for the core templates) */
+  module: string;
+  /**
+   * Template the file was rendered from: relative to the maxsim-flutter package for built-in
+   * templates (e.g. 'templates/core/lib/main.dart.hbs'), relative to the project for
+   * project-local modules, absolute otherwise
+   */
+  template?: string;
+  /** SHA-256 of the content as generated, e.g. 'sha256:9f86d0…' */
+  hash: string;
+  /** maxsim-flutter version that generated the file */
+  toolVersion: string;
+}
+
+/**
+ * Content of `.maxsim/generated.json`.
+ */
+export interface GenerationManifest {
+  /** Generated files, sorted by path */
+  files: GeneratedFileRecord[];
+}
+
+/**
+ * State of a recorded file in the project:
+ * - `untouched` — unchanged since it was generated
+ * - `modified` — edited since it was generated
+ * - `missing` — deleted since it was generated
+ */
+export type GeneratedFileState = 'untouched' | 'modified' | 'missing';
+
+export interface GeneratedFileStatus {
+  record: GeneratedFileRecord;
+  state: GeneratedFileState;
+}
+
+/** Hash of file content as recorded in the generation manifest. */
+export function hashContent(content: string): string {
+  return `sha256:${createHash('sha256').update(content, 'utf-8').digest('hex')}`;
+}
+
+/**
+ * Create manifest records for generated files, hashing `contents` when given (e.g. the files
+ * as written to disk after formatting) and the generated content otherwise.
+ *
+ * @param files - Generated files; files without a module are recorded as 'core'
+ * @param contents - Final content by relative path
+ */
+export function createFileRecords(
+  files: readonly GeneratedFile[],
+  projectRoot: string,
+  contents: ReadonlyMap<string, string> = new Map(),
+): GeneratedFileRecord[] {
+  const toolVersion = getCurrentVersion();
+  return files.map((file) => ({
+    path: file.relativePath.split(sep).join('/'),
+    module: file.module ?? 'core',
+    template: file.templateSource && describeTemplate(file.templateSource, projectRoot),
+    hash: hashContent(contents.get(file.relativePath) ?? file.content),
+    toolVersion,
+  }));
+}
+
+/**
+ * Read the generation manifest of a project.
+ * Returns null when the project has none (e.g. it was generated by an older maxsim-flutter).
+ *
+ * @throws Error when the manifest is not valid JSON or has no `files` list
+ */
+export async function readGenerationManifest(
+  projectRoot: string,
+): Promise<GenerationManifest | null> {
+  const manifestPath = join(projectRoot, GENERATION_MANIFEST_PATH);
+  if (!(await pathExists(manifestPath))) return null;
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await readFile(manifestPath, 'utf-8'));
+  } catch (err) {
+    throw new Error(
+      `${GENERATION_MANIFEST_PATH} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  if (!Array.isArray((manifest as Partial<GenerationManifest> | null)?.files)) {
+    throw new Error(`${GENERATION_MANIFEST_PATH} must list the generated files under 'files'`);
+  }
+  return manifest as GenerationManifest;
+}
+
+/**
+ * Write the generation manifest of a project, with the files sorted by path.
+ */
+export async function writeGenerationManifest(
+  projectRoot: string,
+  manifest: GenerationManifest,
+): Promise<void> {
+  const files = [...manifest.files].sort((a, b) => a.path.localeCompare(b.path));
+  await outputFile(
+    join(projectRoot, GENERATION_MANIFEST_PATH),
+    `${JSON.stringify({ files }, null, 2)}\n`,
+    'utf-8',
+  );
+}
+
+/**
+ * Add records to the generation manifest (replacing the records of the same paths) and drop
+ * the records of `removed` paths. Creates the manifest when the project has none.
+ */
+export async function updateGenerationManifest(
+  projectRoot: string,
+  records: readonly GeneratedFileRecord[],
+  removed: readonly string[] = [],
+): Promise<void> {
+  const manifest = (await readGenerationManifest(projectRoot)) ?? { files: [] };
+  const dropped = new Set([...records.map((r) => r.path), ...removed]);
+  await writeGenerationManifest(projectRoot, {
+    files: [...manifest.files.filter((r) => !dropped.has(r.path)), ...records],
+  });
+}
+
+/**
+ * Record generated files in the project's generation manifest, hashed as they are on disk,
+ * i.e. after hook edits and formatting. Files missing on disk are not recorded.
+ */
+export async function recordGeneratedFiles(
+  projectRoot: string,
+  files: readonly GeneratedFile[],
+): Promise<void> {
+  const written: GeneratedFile[] = [];
+  const contents = new Map<string, string>();
+  for (const file of files) {
+    const filePath = join(projectRoot, file.relativePath);
+    if (!(await pathExists(filePath))) continue;
+    written.push(file);
+    contents.set(file.relativePath, await readFile(filePath, 'utf-8'));
+  }
+  await updateGenerationManifest(projectRoot, createFileRecords(written, projectRoot, contents));
+}
+
+/**
+ * Tell whether a recorded file is untouched, modified or missing in the project.
+ */
+export async function getGeneratedFileState(
+  projectRoot: string,
+  record: GeneratedFileRecord,
+): Promise<GeneratedFileState> {
+  const filePath = join(projectRoot, record.path);
+  if (!(await pathExists(filePath))) return 'missing';
+  return hashContent(await readFile(filePath, 'utf-8')) === record.hash ? 'untouched' : 'modified';
+}
+
+/**
+ * Check every file in the project's generation manifest.
+ * Returns an empty list when the project has no manifest.
+ */
+export async function checkGeneratedFiles(projectRoot: string): Promise<GeneratedFileStatus[]> {
+  const manifest = await readGenerationManifest(projectRoot);
+  const statuses: GeneratedFileStatus[] = [];
+  for (const record of manifest?.files ?? []) {
+    statuses.push({ record, state: await getGeneratedFileState(projectRoot, record) });
+  }
+  return statuses;
+}
+
+/**
+ * Tell whether files of the project were modified since they were generated, by comparing
+ * their content with the hash recorded in the generation manifest. Files the manifest does not
+ * record (e.g. in projects generated before it existed) are untouched when `isUnchanged`
+ * returns true for their content.
+ *
+ * @param paths - Paths relative to the project root
+ * @returns The state of each path
+ */
+export async function getFileStates(
+  projectRoot: string,
+  paths: Iterable<string>,
+  isUnchanged: (relativePath: string, content: string) => boolean,
+): Promise<Map<string, GeneratedFileState>> {
+  const manifest = await readGenerationManifest(projectRoot);
+  const records = new Map((manifest?.files ?? []).map((r) => [r.path, r]));
+  const states = new Map<string, GeneratedFileState>();
+
+  for (const relativePath of paths) {
+    const filePath = join(projectRoot, relativePath);
+    if (!(await pathExists(filePath))) {
+      states.set(relativePath, 'missing');
+      continue;
+    }
+    const content = await readFile(filePath, 'utf-8');
+    const record = records.get(relativePath.split(sep).join('/'));
+    const unchanged = record
+      ? hashContent(content) === record.hash
+      : isUnchanged(relativePath, content);
+    states.set(relativePath, unchanged ? 'untouched' : 'modified');
+  }
+  return states;
+}
+
+/** Portable description of a template path (see GeneratedFileRecord.template). */
+function describeTemplate(templateSource: string, projectRoot: string): string {
+  for (const root of [PACKAGE_ROOT, resolve(projectRoot)]) {
+    const path = relative(root, templateSource);
+    if (path !== '' && !path.startsWith('..') && !isAbsolute(path)) {
+      return path.split(sep).join('/');
+    }
+  }
+  return templateSource;
+}
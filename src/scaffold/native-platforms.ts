@@ -0,0 +1,167 @@
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { execa } from 'execa';
+import fsExtra from 'fs-extra';
+const { copy, pathExists, remove } = fsExtra;
+
+import type { ProjectContext } from '../core/context.js';
+import type { TemplateEnvironment } from './template-helpers.js';
+
+/**
+ * Runs `flutter <args>` in a directory. Replaceable for tests and environments without Flutter.
+ */
+export type FlutterRunner = (args: string[], cwd: string) => Promise<void>;
+
+/** Runs the Flutter SDK on the PATH, capturing its output. */
+export const runFlutter: FlutterRunner = async (args, cwd) => {
+  await execa('flutter', args, { cwd });
+};
+
+/** File `flutter create` keeps next to the platform folders; `flutter` uses it for migrations. */
+const FLUTTER_METADATA_FILE = '.metadata';
+
+/**
+ * The `flutter create` command that generates the native folders of a project's platforms.
+ */
+export function flutterCreateArgs(context: ProjectContext, projectDir: string): string[] {
+  const args = [
+    'create',
+    '--project-name',
+    context.projectName,
+    '--org',
+    context.orgId,
+    `--platforms=${context.platforms.join(',')}`,
+  ];
+  if (context.description) args.push('--description', context.description);
+  return [...args, projectDir];
+}
+
+/**
+ * Generate the native platform folders (android/, ios/, web/, …) of the configured platforms
+ * with `flutter create` in a temporary directory and merge them into the output directory.
+ * Files that already exist are kept, so neither the templates nor earlier edits of native
+ * files are overwritten.
+ *
+ * @returns The platforms whose folder was merged in
+ * @throws Error when Flutter is not installed or `flutter create` fails
+ */
+export async function createNativePlatforms(
+  context: ProjectContext,
+  flutter: FlutterRunner = runFlutter,
+): Promise<string[]> {
+  const tempDir = await mkdtemp(join(tmpdir(), 'maxsim-flutter-create-'));
+  try {
+    const projectDir = join(tempDir, context.projectName);
+    try {
+      await flutter(flutterCreateArgs(context, projectDir), tempDir);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error('Flutter SDK not found on the PATH');
+      }
+      throw err;
+    }
+
+    const merged: string[] = [];
+    for (const platform of context.platforms) {
+      const source = join(projectDir, platform);
+      if (!(await pathExists(source))) continue;
+      await copy(source, join(context.outputDir, platform), {
+        overwrite: false,
+        errorOnExist: false,
+      });
+      merged.push(platform);
+    }
+    const metadata = join(projectDir, FLUTTER_METADATA_FILE);
+    if (merged.length > 0 && (await pathExists(metadata))) {
+      await copy(metadata, join(context.outputDir, FLUTTER_METADATA_FILE), {
+        overwrite: false,
+        errorOnExist: false,
+      });
+    }
+    return merged;
+  } finally {
+    await remove(tempDir);
+  }
+}
+
+/** Gradle build files `flutter create` generates for the Android app, Kotlin DSL first. */
+const ANDROID_APP_BUILD_FILES = ['android/app/build.gradle.kts', 'android/app/build.gradle'];
+
+/**
+ * Declare a product flavor per environment in the Android app's build file, so
+ * `flutter build apk --flavor <name>` finds it. Build files that already declare product
+ * flavors are left alone.
+ *
+ * @returns The build file that was patched (relative to the project root), or null
+ */
+export async function addAndroidProductFlavors(
+  projectDir: string,
+  environments: readonly TemplateEnvironment[],
+): Promise<string | null> {
+  if (environments.length === 0) return null;
+
+  for (const relativePath of ANDROID_APP_BUILD_FILES) {
+    const buildFile = join(projectDir, relativePath);
+    if (!(await pathExists(buildFile))) continue;
+
+    const content = await readFile(buildFile, 'utf-8');
+    const androidBlock = /^android\s*\{[ \t]*\n/m.exec(content);
+    if (!androidBlock || content.includes('productFlavors')) return null;
+
+    const lines = relativePath.endsWith('.kts')
+      ? kotlinProductFlavors(environments)
+      : groovyProductFlavors(environments);
+    const block = lines.map((line) => `    ${line}\n`).join('');
+    const insertAt = androidBlock.index + androidBlock[0].length;
+    await writeFile(
+      buildFile,
+      `${content.slice(0, insertAt)}${block}\n${content.slice(insertAt)}`,
+      'utf-8',
+    );
+    return relativePath;
+  }
+  return null;
+}
+
+function kotlinProductFlavors(environments: readonly TemplateEnvironment[]): string[] {
+  return [
+    'flavorDimensions += "environment"',
+    'productFlavors {',
+    ...environments.flatMap((environment) => [
+      `    create("${environment.name}") {`,
+      '        dimension = "environment"',
+      ...(environment.bundleIdSuffix
+        ? [`        applicationIdSuffix = "${environment.bundleIdSuffix}"`]
+        : []),
+      `        resValue("string", "app_name", ${toGradleString(environment.appName)})`,
+      '    }',
+    ]),
+    '}',
+  ];
+}
+
+function groovyProductFlavors(environments: readonly TemplateEnvironment[]): string[] {
+  return [
+    'flavorDimensions "environment"',
+    'productFlavors {',
+    ...environments.flatMap((environment) => [
+      `    ${environment.name} {`,
+      '        dimension "environment"',
+      ...(environment.bundleIdSuffix
+        ? [`        applicationIdSuffix "${environment.bundleIdSuffix}"`]
+        : []),
+      `        resValue "string", "app_name", ${toGradleString(environment.appName)}`,
+      '    }',
+    ]),
+    '}',
+  ];
+}
+
+/**
+ * Quote a value as a double-quoted Kotlin or Groovy string literal. Both interpolate `$`,
+ * so it is escaped along with `"` and `\`.
+ */
+function toGradleString(value: string): string {
+  return `"${value.replace(/[\\"$]/g, (char) => `\\${char}`)}"`;
+}
@@ -1,9 +1,13 @@
 import { execa } from 'execa';
+import type { PostProcessorCommandOptions } from './pipeline.js';
 
-export async function runBuildRunner(projectDir: string): Promise<void> {
-  await execa(
-    'dart',
-    ['run', 'build_runner', 'build', '--delete-conflicting-outputs'],
-    { cwd: projectDir, stdio: 'inherit' },
-  );
+export async function runBuildRunner(
+  projectDir: string,
+  options: PostProcessorCommandOptions = {},
+): Promise<void> {
+  await execa('dart', ['run', 'build_runner', 'build', '--delete-conflicting-outputs'], {
+    cwd: projectDir,
+    stdio: 'inherit',
+    cancelSignal: options.signal,
+  });
 }
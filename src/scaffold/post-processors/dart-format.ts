@@ -1,5 +1,13 @@
 import { execa } from 'execa';
+import type { PostProcessorCommandOptions } from './pipeline.js';
 
-export async function runDartFormat(projectDir: string): Promise<void> {
-  await execa('dart', ['format', '.'], { cwd: projectDir, stdio: 'inherit' });
+export async function runDartFormat(
+  projectDir: string,
+  options: PostProcessorCommandOptions = {},
+): Promise<void> {
+  await execa('dart', ['format', '.'], {
+    cwd: projectDir,
+    stdio: 'inherit',
+    cancelSignal: options.signal,
+  });
 }
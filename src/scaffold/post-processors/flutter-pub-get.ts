@@ -1,5 +1,13 @@
 import { execa } from 'execa';
+import type { PostProcessorCommandOptions } from './pipeline.js';
 
-export async function runFlutterPubGet(projectDir: string): Promise<void> {
-  await execa('flutter', ['pub', 'get'], { cwd: projectDir, stdio: 'inherit' });
+export async function runFlutterPubGet(
+  projectDir: string,
+  options: PostProcessorCommandOptions = {},
+): Promise<void> {
+  await execa('flutter', ['pub', 'get'], {
+    cwd: projectDir,
+    stdio: 'inherit',
+    cancelSignal: options.signal,
+  });
 }
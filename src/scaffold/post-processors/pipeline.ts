@@ -0,0 +1,251 @@
+import { execa, parseCommandString } from 'execa';
+import type { ProjectContext } from '../../core/context.js';
+import type { PostProcessorConfig } from '../../types/config.js';
+import type { ModuleManifest } from '../../types/module.js';
+import type { PostProcessor, PostProcessorResult } from '../../types/post-processor.js';
+import { runFlutterPubGet } from './flutter-pub-get.js';
+import { runBuildRunner } from './build-runner.js';
+import { runDartFormat } from './dart-format.js';
+
+/** Options of the built-in post-processor commands. */
+export interface PostProcessorCommandOptions {
+  /** Aborts the command, e.g. when its step times out */
+  signal?: AbortSignal;
+}
+
+/** Timeout of a step that does not set `timeoutMs`. */
+export const DEFAULT_POST_PROCESSOR_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** How long a timed-out step may take to stop after it was aborted. */
+export const POST_PROCESSOR_ABORT_GRACE_MS = 5 * 1000;
+
+/**
+ * The built-in steps enabled in the context: dependencies are fetched first, then code is
+ * generated, and the result is formatted last.
+ */
+export function getBuiltInPostProcessors(context: ProjectContext): PostProcessor[] {
+  const { postProcessors } = context.scaffold;
+  const steps: PostProcessor[] = [];
+
+  if (postProcessors.flutterPubGet) {
+    steps.push({
+      id: 'flutter-pub-get',
+      name: 'flutter pub get',
+      timeoutMs: 5 * 60 * 1000,
+      run: ({ projectDir, signal }) => runFlutterPubGet(projectDir, { signal }),
+    });
+  }
+
+  if (postProcessors.buildRunner) {
+    steps.push({
+      id: 'build-runner',
+      name: 'build_runner',
+      dependsOn: ['flutter-pub-get'],
+      timeoutMs: 10 * 60 * 1000,
+      run: ({ projectDir, signal }) => runBuildRunner(projectDir, { signal }),
+    });
+  }
+
+  if (postProcessors.dartFormat) {
+    steps.push({
+      id: 'dart-format',
+      name: 'dart format',
+      after: ['build-runner'],
+      timeoutMs: 2 * 60 * 1000,
+      run: ({ projectDir, signal }) => runDartFormat(projectDir, { signal }),
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * A step that runs `command` with `args` in the project directory.
+ */
+export function commandPostProcessor(
+  step: Omit<PostProcessor, 'run'>,
+  command: string,
+  args: readonly string[] = [],
+): PostProcessor {
+  return {
+    ...step,
+    run: async ({ projectDir, signal }) => {
+      await execa(command, args, { cwd: projectDir, stdio: 'inherit', cancelSignal: signal });
+    },
+  };
+}
+
+/**
+ * The step of a `scaffold.postProcessors` entry in maxsim.config.yaml.
+ */
+export function configPostProcessor(config: PostProcessorConfig): PostProcessor {
+  const [command, ...args] = parseCommandString(config.command);
+  return commandPostProcessor(
+    {
+      id: config.id,
+      name: config.command,
+      dependsOn: config.dependsOn,
+      after: config.after,
+      before: config.before,
+      timeoutMs: config.timeout === undefined ? undefined : config.timeout * 1000,
+    },
+    command,
+    args,
+  );
+}
+
+/**
+ * The steps of a run, in registration order: the enabled built-in steps, those of the
+ * modules (in module order) and those of maxsim.config.yaml.
+ */
+export function collectPostProcessors(
+  context: ProjectContext,
+  modules: readonly ModuleManifest[],
+): PostProcessor[] {
+  return [
+    ...getBuiltInPostProcessors(context),
+    ...modules
+      .filter((mod) => !mod.isEnabled || mod.isEnabled(context))
+      .flatMap((mod) => mod.postProcessors ?? []),
+    ...(context.scaffold.postProcessors.custom ?? []).map(configPostProcessor),
+  ];
+}
+
+/**
+ * Order the steps so each runs after its `dependsOn` and `after` steps and before its `before`
+ * steps; otherwise registration order is kept. A step replaces an earlier one with the same ID
+ * (keeping its position).
+ *
+ * @throws Error when the ordering constraints are circular
+ */
+export function orderPostProcessors(steps: readonly PostProcessor[]): PostProcessor[] {
+  const byId = new Map<string, PostProcessor>();
+  for (const step of steps) {
+    byId.set(step.id, step);
+  }
+
+  const predecessors = new Map<string, Set<string>>();
+  for (const id of byId.keys()) {
+    predecessors.set(id, new Set());
+  }
+  for (const step of byId.values()) {
+    for (const id of [...(step.dependsOn ?? []), ...(step.after ?? [])]) {
+      if (byId.has(id)) predecessors.get(step.id)?.add(id);
+    }
+    for (const id of step.before ?? []) {
+      predecessors.get(id)?.add(step.id);
+    }
+  }
+
+  // Kahn's algorithm, taking the first ready step in registration order each time
+  const remaining = [...byId.keys()];
+  const ordered: PostProcessor[] = [];
+  while (remaining.length > 0) {
+    const index = remaining.findIndex((id) =>
+      [...(predecessors.get(id) ?? [])].every((p) => !remaining.includes(p)),
+    );
+    if (index === -1) {
+      throw new Error(`Circular ordering detected among post-processors: ${remaining.join(', ')}`);
+    }
+    const [id] = remaining.splice(index, 1);
+    ordered.push(byId.get(id) as PostProcessor);
+  }
+  return ordered;
+}
+
+/**
+ * Run one step, aborting it when it exceeds its timeout. An aborted step gets a short grace
+ * period to stop (e.g. for its process to exit), so it does not run on alongside later steps.
+ */
+async function runPostProcessor(
+  step: PostProcessor,
+  context: ProjectContext,
+): Promise<PostProcessorResult> {
+  const name = step.name ?? step.id;
+  const timeoutMs = step.timeoutMs ?? DEFAULT_POST_PROCESSOR_TIMEOUT_MS;
+  const controller = new AbortController();
+  const startedAt = Date.now();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<'timeout'>((resolve) => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs);
+  });
+
+  try {
+    const running = step
+      .run({ projectDir: context.outputDir, context, signal: controller.signal })
+      .then(() => 'success' as const);
+    const outcome = await Promise.race([running, timedOut]);
+    if (outcome === 'timeout') {
+      controller.abort();
+      const stopped = await Promise.race([
+        running.then(
+          () => true,
+          () => true,
+        ),
+        new Promise<false>((resolve) => {
+          timer = setTimeout(() => resolve(false), POST_PROCESSOR_ABORT_GRACE_MS);
+        }),
+      ]);
+      return {
+        id: step.id,
+        name,
+        status: 'timeout',
+        durationMs: Date.now() - startedAt,
+        message:
+          `aborted after ${Math.round(timeoutMs / 1000)}s` +
+          (stopped ? '' : `, still running ${POST_PROCESSOR_ABORT_GRACE_MS / 1000}s later`),
+      };
+    }
+    return { id: step.id, name, status: 'success', durationMs: Date.now() - startedAt };
+  } catch (err) {
+    return {
+      id: step.id,
+      name,
+      status: 'failed',
+      durationMs: Date.now() - startedAt,
+      message: err instanceof Error ? err.message : String(err),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run the ordered steps one at a time. A failing step does not stop the pipeline; only the
+ * steps that depend on it are skipped.
+ */
+export async function runPostProcessors(
+  steps: readonly PostProcessor[],
+  context: ProjectContext,
+): Promise<PostProcessorResult[]> {
+  const results = new Map<string, PostProcessorResult>();
+
+  for (const step of steps) {
+    const unmet = (step.dependsOn ?? [])
+      .map((id) => results.get(id))
+      .find((result) => result !== undefined && result.status !== 'success');
+    if (unmet) {
+      results.set(step.id, {
+        id: step.id,
+        name: step.name ?? step.id,
+        status: 'skipped',
+        durationMs: 0,
+        message: `${unmet.name} did not succeed`,
+      });
+      continue;
+    }
+    results.set(step.id, await runPostProcessor(step, context));
+  }
+
+  return [...results.values()];
+}
+
+/**
+ * Describe a step that did not succeed, e.g. 'flutter pub get failed: <error>'.
+ */
+export function formatPostProcessorError(result: PostProcessorResult): string {
+  const outcome =
+    result.status === 'timeout' ? 'timed out' : result.status === 'skipped' ? 'skipped' : 'failed';
+  return `${result.name} ${outcome}: ${result.message ?? 'unknown error'}`;
+}
@@ -0,0 +1,123 @@
+import { mkdtemp, readFile, readdir, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, sep } from 'node:path';
+import { execa } from 'execa';
+import fsExtra from 'fs-extra';
+
+import type { ProjectContext } from '../core/context.js';
+import { runClaudeSetup } from '../claude-setup/setup-orchestrator.js';
+import { ScaffoldEngine } from './engine.js';
+import type { ScaffoldEngineOptions } from './engine.js';
+import { createUnifiedDiff } from './unified-diff.js';
+import type { UnifiedDiff } from './unified-diff.js';
+
+const { pathExists, outputFile } = fsExtra;
+
+/**
+ * A file regeneration would change: `added` when it does not exist in the project yet,
+ * `modified` when its content differs.
+ */
+export interface FileDiff extends UnifiedDiff {
+  /** Path relative to the project root, with forward slashes */
+  path: string;
+  status: 'added' | 'modified';
+}
+
+/**
+ * What regenerating a project from its config would change, computed without writing to it.
+ */
+export interface ProjectDiff {
+  /** Changed files, sorted by path */
+  files: FileDiff[];
+  /** External modules from config.externalModules that failed to load (skipped) */
+  externalModuleErrors: string[];
+  /** Post-processors that could not run on the rendered files, e.g. dart format */
+  postProcessorErrors: string[];
+}
+
+/**
+ * Render a project for its current config — the templates (with pubspec.yaml merges and
+ * module hooks, formatted by dart format when the config enables it) and the Claude setup —
+ * and diff every file against the working tree in `context.outputDir`.
+ * prd.json is left out, as `upgrade` preserves it.
+ */
+export async function diffProject(
+  context: ProjectContext,
+  options: ScaffoldEngineOptions = {},
+): Promise<ProjectDiff> {
+  const rendered = await new ScaffoldEngine(options).render(context);
+  const files = new Map(rendered.files);
+  const postProcessorErrors: string[] = [];
+
+  // Claude setup and dart format only write to disk, so run them in a scratch directory
+  const scratchDir = await mkdtemp(join(tmpdir(), 'maxsim-diff-'));
+  try {
+    if (context.scaffold.postProcessors.dartFormat) {
+      try {
+        await formatDartFiles(files, join(scratchDir, 'project'));
+      } catch (err) {
+        postProcessorErrors.push(
+          `dart format skipped: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+
+    if (context.claude.enabled && !options.noClaude) {
+      const claudeDir = join(scratchDir, 'claude');
+      await runClaudeSetup(context, claudeDir, {
+        skipPrd: true,
+        modules: rendered.registry?.getAll(),
+      });
+      for (const [relativePath, content] of await readTree(claudeDir)) {
+        files.set(relativePath, content);
+      }
+    }
+  } finally {
+    await rm(scratchDir, { recursive: true, force: true });
+  }
+
+  const diffs: FileDiff[] = [];
+  for (const [relativePath, content] of files) {
+    const path = relativePath.split(sep).join('/');
+    const filePath = join(context.outputDir, relativePath);
+    const current = (await pathExists(filePath)) ? await readFile(filePath, 'utf-8') : undefined;
+    const diff = createUnifiedDiff(path, current, content);
+    if (current === undefined || diff.text !== '') {
+      diffs.push({ path, status: current === undefined ? 'added' : 'modified', ...diff });
+    }
+  }
+  diffs.sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    files: diffs,
+    externalModuleErrors: rendered.externalModuleErrors,
+    postProcessorErrors,
+  };
+}
+
+/**
+ * Format the Dart files among `files` in place with `dart format`, run on a copy of all
+ * files in `dir` so that the project's formatter settings apply.
+ */
+async function formatDartFiles(files: Map<string, string>, dir: string): Promise<void> {
+  for (const [relativePath, content] of files) {
+    await outputFile(join(dir, relativePath), content, 'utf-8');
+  }
+  await execa('dart', ['format', '.'], { cwd: dir });
+  for (const relativePath of files.keys()) {
+    if (relativePath.endsWith('.dart')) {
+      files.set(relativePath, await readFile(join(dir, relativePath), 'utf-8'));
+    }
+  }
+}
+
+/** Read every file below `dir`, by relative path. */
+async function readTree(dir: string): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+  for (const entry of await readdir(dir, { recursive: true })) {
+    const filePath = join(dir, String(entry));
+    if ((await stat(filePath)).isDirectory()) continue;
+    files.set(String(entry), await readFile(filePath, 'utf-8'));
+  }
+  return files;
+}
@@ -1,6 +1,10 @@
 import Handlebars from 'handlebars';
-import { readFile, readdir } from 'node:fs/promises';
+import { readFile, readdir, stat } from 'node:fs/promises';
 import { join, extname, basename } from 'node:path';
+import { mapWithConcurrency } from './concurrency.js';
+
+/** Number of template files read or stat'ed at a time. */
+const FILE_CONCURRENCY = 16;
 
 export interface TemplateContext {
   project: {
@@ -13,16 +17,23 @@ export interface TemplateContext {
   [key: string]: unknown;
 }
 
-function toCamelCase(str: string): string {
+/** A file of a template directory. */
+export interface TemplateEntry {
+  /** Path relative to the template directory */
+  relativePath: string;
+  absolutePath: string;
+}
+
+export function toCamelCase(str: string): string {
   return str.replace(/[-_](.)/g, (_, char: string) => char.toUpperCase());
 }
 
-function toPascalCase(str: string): string {
+export function toPascalCase(str: string): string {
   const camel = toCamelCase(str);
   return camel.charAt(0).toUpperCase() + camel.slice(1);
 }
 
-function toSnakeCase(str: string): string {
+export function toSnakeCase(str: string): string {
   return str
     .replace(/([A-Z])/g, '_$1')
     .toLowerCase()
@@ -30,8 +41,17 @@ function toSnakeCase(str: string): string {
     .replace(/[-\s]+/g, '_');
 }
 
+/**
+ * Renders Handlebars templates with the project helpers and partials.
+ *
+ * Templates are compiled once per renderer, keyed by their source. Template files and the
+ * file lists of template directories are read once too, until `clearFileCache()` is called.
+ */
 export class TemplateRenderer {
   private readonly hbs: typeof Handlebars;
+  private readonly compiled = new Map<string, Handlebars.TemplateDelegate>();
+  private readonly files = new Map<string, Promise<string>>();
+  private readonly indexes = new Map<string, Promise<TemplateEntry[]>>();
 
   constructor() {
     this.hbs = Handlebars.create();
@@ -99,13 +119,85 @@ export class TemplateRenderer {
     );
   }
 
+  /**
+   * The compiled template of `template`, compiled on first use.
+   */
+  compile(template: string): Handlebars.TemplateDelegate {
+    let compiled = this.compiled.get(template);
+    if (!compiled) {
+      compiled = this.hbs.compile(template);
+      this.compiled.set(template, compiled);
+    }
+    return compiled;
+  }
+
   render(template: string, context: TemplateContext): string {
-    const compiled = this.hbs.compile(template);
-    return compiled(context);
+    return this.compile(template)(context);
   }
 
   async renderFile(filePath: string, context: TemplateContext): Promise<string> {
-    const template = await readFile(filePath, 'utf-8');
+    const template = await this.readTemplate(filePath);
     return this.render(template, context);
   }
+
+  /**
+   * Content of a template file, read once per renderer.
+   */
+  readTemplate(filePath: string): Promise<string> {
+    return memoize(this.files, filePath, () => readFile(filePath, 'utf-8'));
+  }
+
+  /**
+   * The files of a template directory and its subdirectories, sorted by relative path.
+   * Listed once per renderer; a missing directory has no files.
+   */
+  listTemplates(dirPath: string): Promise<TemplateEntry[]> {
+    return memoize(this.indexes, dirPath, async () => {
+      let names: string[];
+      try {
+        names = (await readdir(dirPath, { recursive: true })).map(String);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw err;
+      }
+
+      const entries = await mapWithConcurrency(names, FILE_CONCURRENCY, async (name) => {
+        const absolutePath = join(dirPath, name);
+        const isFile = !(await stat(absolutePath)).isDirectory();
+        return isFile ? { relativePath: name, absolutePath } : null;
+      });
+      return entries
+        .filter((entry): entry is TemplateEntry => entry !== null)
+        .sort((a, b) =>
+          a.relativePath < b.relativePath ? -1 : a.relativePath > b.relativePath ? 1 : 0,
+        );
+    });
+  }
+
+  /**
+   * Forget the template files and directory listings read so far, e.g. before a new run
+   * picks up changed templates. Compiled templates are kept: they are keyed by their source.
+   */
+  clearFileCache(): void {
+    this.files.clear();
+    this.indexes.clear();
+  }
+}
+
+/**
+ * The cached promise of `key`, created with `load` on first use. A rejected promise is not
+ * cached, so a later call tries again.
+ */
+function memoize<T>(
+  cache: Map<string, Promise<T>>,
+  key: string,
+  load: () => Promise<T>,
+): Promise<T> {
+  let promise = cache.get(key);
+  if (!promise) {
+    promise = load();
+    cache.set(key, promise);
+    promise.catch(() => cache.delete(key));
+  }
+  return promise;
 }
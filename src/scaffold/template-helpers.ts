@@ -1,25 +1,236 @@
 import { join, extname } from 'node:path';
-import { readFile, readdir, stat } from 'node:fs/promises';
-import { load as yamlLoad } from 'js-yaml';
+import { readFile } from 'node:fs/promises';
+import { isDeepStrictEqual } from 'node:util';
+import { load as yamlLoad, dump as yamlDump } from 'js-yaml';
 import fsExtra from 'fs-extra';
 const { pathExists } = fsExtra;
 
+import { mapWithConcurrency } from './concurrency.js';
+import { toCamelCase } from './renderer.js';
 import type { TemplateRenderer, TemplateContext } from './renderer.js';
 import type { ProjectContext } from '../core/context.js';
+import type { EnvironmentConfig, FeatureConfig } from '../types/config.js';
 import type { GeneratedFile } from '../types/project.js';
-import { pickNewerVersion } from '../modules/composer.js';
+import type { ModuleManifest, PubspecDependency, RouteContribution } from '../types/module.js';
+import { ModuleComposer, pickNewerVersion } from '../modules/composer.js';
+import type { ComposeResult } from '../modules/composer.js';
+
+/** File in a module's template directory that holds its pubspec.yaml additions. */
+export const PUBSPEC_PARTIAL_FILE = 'pubspec.partial.yaml';
+
+/** Number of templates rendered at a time. */
+export const TEMPLATE_RENDER_CONCURRENCY = 16;
 
 export interface PubspecPartialResult {
-  deps: Map<string, string | Record<string, unknown>>;
-  devDeps: Map<string, string | Record<string, unknown>>;
+  deps: Map<string, PubspecDependency>;
+  devDeps: Map<string, PubspecDependency>;
   flutter: Record<string, unknown>;
 }
 
+/** Dependencies and `flutter:` entries to merge into a pubspec.yaml. */
+export interface PubspecAdditions {
+  dependencies: ReadonlyMap<string, PubspecDependency>;
+  devDependencies: ReadonlyMap<string, PubspecDependency>;
+  pubspecFlutter?: Readonly<Record<string, unknown>>;
+}
+
+/** Dependencies and `flutter:` keys to remove from a pubspec.yaml. */
+export interface PubspecRemovals {
+  dependencies: readonly string[];
+  devDependencies: readonly string[];
+  pubspecFlutter?: readonly string[];
+}
+
+export interface ComposeModulesOptions {
+  renderer: TemplateRenderer;
+  /** Directory holding the built-in module templates (templates/modules) */
+  modulesTemplatesDir: string;
+  /** Template directory of modules that ship their own templates (external and project-local modules) */
+  getTemplateDir?: (moduleId: string) => string | undefined;
+  /** Only render the templates of these modules (default: all); pubspec partials of every module are still merged */
+  renderModuleIds?: readonly string[];
+}
+
+export interface ModuleComposition {
+  /** Template context with the routes of all composed modules */
+  templateContext: TemplateContext;
+  /** Rendered module templates */
+  files: GeneratedFile[];
+  /** Contributions of all modules, including their pubspec partials */
+  composed: ComposeResult;
+}
+
+/**
+ * A route as exposed to templates — a RouteContribution with its page class resolved.
+ */
+export interface TemplateRoute {
+  path: string;
+  name: string;
+  importPath: string;
+  pageClass: string;
+  /** Names of the `:param` segments of the path, passed to the page as named arguments */
+  pathParams: string[];
+}
+
+/**
+ * An environment variable as exposed to templates, with the name of its Env field.
+ */
+export interface TemplateEnvVar {
+  name: string;
+  field: string;
+}
+
+/**
+ * A flavor of the app as exposed to templates, with the defaults of its values applied.
+ */
+export interface TemplateEnvironment {
+  name: string;
+  /** Appended to the application/bundle ID; empty for production flavors */
+  bundleIdSuffix: string;
+  appName: string;
+  apiBaseUrl: string;
+}
+
+/** Generated env file (relative to the project root) listing the env vars of all modules. */
+export const ENV_EXAMPLE_OUTPUT_PATH = '.env.example';
+
+/** Generated accessor (relative to the project root) reading the env vars at compile time. */
+export const ENV_ACCESSOR_OUTPUT_PATH = 'lib/core/config/env.dart';
+
+/**
+ * Derive the Dart field name of an environment variable (e.g., 'API_BASE_URL' → 'apiBaseUrl').
+ */
+export function toEnvField(name: string): string {
+  return name.toLowerCase().replace(/[_-]+([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Append the variables missing from an existing .env.example, keeping its values and comments.
+ * Returns the content unchanged when every variable is already listed.
+ */
+export function appendEnvVars(content: string, envVars: readonly string[]): string {
+  const listed = new Set(
+    content
+      .split('\n')
+      .map((line) => /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=/.exec(line)?.[1])
+      .filter((name): name is string => name !== undefined),
+  );
+  const missing = envVars.filter((name) => !listed.has(name));
+  if (missing.length === 0) return content;
+
+  const separator = content.length === 0 || content.endsWith('\n') ? '' : '\n';
+  return content + separator + missing.map((name) => `${name}=\n`).join('');
+}
+
+/**
+ * Remove variables from an existing .env.example, keeping every other line.
+ * Returns the content unchanged when none of them is listed.
+ */
+export function removeEnvVars(content: string, envVars: readonly string[]): string {
+  const names = new Set(envVars);
+  const lines = content.split('\n');
+  const kept = lines.filter((line) => {
+    const name = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*=/.exec(line)?.[1];
+    return name === undefined || !names.has(name);
+  });
+  return kept.length === lines.length ? content : kept.join('\n');
+}
+
+/**
+ * Resolve the page widget class for a route.
+ * Falls back to the PascalCase form of the import file name
+ * (e.g., '.../login_page.dart' → 'LoginPage') when pageClass is not declared.
+ */
+export function resolvePageClass(route: RouteContribution): string {
+  if (route.pageClass) return route.pageClass;
+  const fileName = route.importPath.split('/').pop() ?? '';
+  return fileName
+    .replace(/\.dart$/, '')
+    .split(/[_-]/)
+    .filter((part) => part.length > 0)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/** Dependencies of features with an offline cache. */
+const OFFLINE_CACHE_DEPENDENCIES: ReadonlyMap<string, PubspecDependency> = new Map([
+  ['shared_preferences', '^2.3.3'],
+]);
+
+/**
+ * Routes of features generated by `maxsim-flutter generate feature`: the feature's page,
+ * plus its detail page at `<route>/:id` for list/detail features.
+ */
+export function getFeatureRoutes(features: readonly FeatureConfig[] = []): RouteContribution[] {
+  const routes: RouteContribution[] = [];
+  for (const feature of features) {
+    const name = toCamelCase(feature.name);
+    const pagesDir = `../../features/${feature.name}/presentation/pages`;
+    routes.push({ path: feature.route, name, importPath: `${pagesDir}/${feature.name}_page.dart` });
+    if (feature.listDetail) {
+      routes.push({
+        path: `${feature.route.replace(/\/$/, '')}/:id`,
+        name: `${name}Detail`,
+        importPath: `${pagesDir}/${feature.name}_detail_page.dart`,
+      });
+    }
+  }
+  return routes;
+}
+
+/**
+ * pubspec.yaml dependencies of features generated by `maxsim-flutter generate feature`.
+ */
+export function getFeatureDependencies(
+  features: readonly FeatureConfig[] = [],
+): Map<string, PubspecDependency> {
+  return new Map(features.some((f) => f.offlineCache) ? OFFLINE_CACHE_DEPENDENCIES : []);
+}
+
+/** Flavors released to the stores; they keep the plain application ID and app name by default. */
+const PRODUCTION_ENVIRONMENTS = ['prod', 'production'];
+
+/** Base URL of the API when neither the flavor nor the api module sets one. */
+const DEFAULT_API_BASE_URL = 'https://api.example.com';
+
+/** Flavor templates rendered once per environment; `[flavor]` in their paths stands for its name. */
+const PER_FLAVOR_TEMPLATES = ['lib/main_[flavor].dart.hbs'];
+
+/**
+ * Resolve the configured environments (flavors) of a project, applying the defaults of
+ * their bundle ID suffix, app name and API base URL.
+ */
+export function getTemplateEnvironments(
+  ctx: ProjectContext,
+  environments: readonly EnvironmentConfig[] = ctx.rawConfig.environments ?? [],
+): TemplateEnvironment[] {
+  const api = ctx.modules.api as false | { baseUrl?: string } | undefined;
+  return environments.map((environment) => {
+    const isProduction = PRODUCTION_ENVIRONMENTS.includes(environment.name);
+    return {
+      name: environment.name,
+      bundleIdSuffix: environment.bundleIdSuffix ?? (isProduction ? '' : `.${environment.name}`),
+      appName:
+        environment.appName ??
+        (isProduction ? ctx.projectName : `${ctx.projectName} (${environment.name})`),
+      apiBaseUrl:
+        environment.api?.baseUrl ?? (api ? api.baseUrl : undefined) ?? DEFAULT_API_BASE_URL,
+    };
+  });
+}
+
 /**
  * Build a TemplateContext from a ProjectContext.
  * Shared between the scaffold engine and add command.
+ *
+ * @param routes - Resolved route contributions of the active modules (wired into app_router.dart)
+ * @param envVars - Environment variables of the active modules (listed in .env.example and env.dart)
  */
-export function buildTemplateContext(ctx: ProjectContext): TemplateContext {
+export function buildTemplateContext(
+  ctx: ProjectContext,
+  routes: readonly RouteContribution[] = [],
+  envVars: readonly string[] = [],
+): TemplateContext {
   const platforms: Record<string, boolean> = {};
   for (const platform of ctx.platforms) {
     platforms[platform] = true;
@@ -34,6 +245,7 @@ export function buildTemplateContext(ctx: ProjectContext): TemplateContext {
     }
   }
 
+  const environments = getTemplateEnvironments(ctx);
   return {
     project: {
       name: ctx.projectName,
@@ -42,6 +254,21 @@ export function buildTemplateContext(ctx: ProjectContext): TemplateContext {
     },
     platforms,
     modules,
+    routes: routes.map(
+      (route): TemplateRoute => ({
+        path: route.path,
+        name: route.name,
+        importPath: route.importPath,
+        pageClass: resolvePageClass(route),
+        pathParams: [...route.path.matchAll(/:(\w+)/g)].map((match) => match[1]),
+      }),
+    ),
+    envVars: envVars.map((name): TemplateEnvVar => ({ name, field: toEnvField(name) })),
+    environments,
+    // `flutter create` adds the Android app, and the engine its product flavors (one per
+    // environment); without them, `flutter build --flavor` fails
+    androidFlavors:
+      environments.length > 0 && ctx.platforms.includes('android') && !!ctx.scaffold.flutterCreate,
     claude: {
       enabled: ctx.claude.enabled,
       agentTeams: ctx.claude.agentTeams,
@@ -51,6 +278,7 @@ export function buildTemplateContext(ctx: ProjectContext): TemplateContext {
 
 /**
  * Collect and render all template files from a directory, excluding specified files.
+ * Templates are rendered concurrently; the files are returned sorted by template path.
  * Shared between the scaffold engine and add command.
  */
 export async function collectAndRenderTemplates(
@@ -59,33 +287,61 @@ export async function collectAndRenderTemplates(
   renderer: TemplateRenderer,
   excludeFiles: string[] = [],
 ): Promise<GeneratedFile[]> {
-  const exists = await pathExists(baseDir);
-  if (!exists) return [];
-
-  const entries = await readdir(baseDir, { recursive: true });
-  const results: GeneratedFile[] = [];
-
-  for (const entry of entries) {
-    const entryStr = String(entry);
-    const absolutePath = join(baseDir, entryStr);
+  const entries = (await renderer.listTemplates(baseDir)).filter(
+    ({ relativePath }) => !excludeFiles.some((e) => relativePath === e || relativePath.endsWith(e)),
+  );
 
-    const fileStat = await stat(absolutePath);
-    if (fileStat.isDirectory()) continue;
-    if (excludeFiles.some((e) => entryStr === e || entryStr.endsWith(e))) continue;
-
-    const isHbs = extname(entryStr) === '.hbs';
-    const outputPath = isHbs ? entryStr.replace(/\.hbs$/, '') : entryStr;
+  return mapWithConcurrency(
+    entries,
+    TEMPLATE_RENDER_CONCURRENCY,
+    async ({ relativePath, absolutePath }): Promise<GeneratedFile> => {
+      const isHbs = extname(relativePath) === '.hbs';
+      const content = isHbs
+        ? await renderer.renderFile(absolutePath, templateContext)
+        : await readFile(absolutePath, 'utf-8');
+      return {
+        relativePath: isHbs ? relativePath.replace(/\.hbs$/, '') : relativePath,
+        content,
+        templateSource: absolutePath,
+      };
+    },
+  );
+}
 
-    let content: string;
-    if (isHbs) {
-      content = await renderer.renderFile(absolutePath, templateContext);
-    } else {
-      content = await readFile(absolutePath, 'utf-8');
-    }
+/**
+ * Render the flavor templates of a project with environments: the shared environment config
+ * and flavor notes once, and the entry point lib/main_<flavor>.dart for each environment.
+ * Renders nothing when no environments are configured.
+ */
+export async function renderFlavorTemplates(
+  baseDir: string,
+  templateContext: TemplateContext,
+  renderer: TemplateRenderer,
+): Promise<GeneratedFile[]> {
+  const environments = (templateContext['environments'] ?? []) as TemplateEnvironment[];
+  if (environments.length === 0) return [];
 
-    results.push({ relativePath: outputPath, content, templateSource: absolutePath });
+  const results = await collectAndRenderTemplates(
+    baseDir,
+    templateContext,
+    renderer,
+    PER_FLAVOR_TEMPLATES,
+  );
+  const templates = await renderer.listTemplates(baseDir);
+  for (const template of PER_FLAVOR_TEMPLATES) {
+    const entry = templates.find((t) => t.relativePath === template);
+    if (!entry) continue;
+    const perFlavor = await mapWithConcurrency(
+      environments,
+      TEMPLATE_RENDER_CONCURRENCY,
+      async (flavor): Promise<GeneratedFile> => ({
+        relativePath: template.replace(/\.hbs$/, '').replace('[flavor]', flavor.name),
+        content: await renderer.renderFile(entry.absolutePath, { ...templateContext, flavor }),
+        templateSource: entry.absolutePath,
+      }),
+    );
+    results.push(...perFlavor);
   }
-
   return results;
 }
 
@@ -99,13 +355,13 @@ export async function processPubspecPartial(
   renderer: TemplateRenderer,
   templateContext: TemplateContext,
 ): Promise<PubspecPartialResult> {
-  const deps = new Map<string, string | Record<string, unknown>>();
-  const devDeps = new Map<string, string | Record<string, unknown>>();
+  const deps = new Map<string, PubspecDependency>();
+  const devDeps = new Map<string, PubspecDependency>();
   const flutter: Record<string, unknown> = {};
 
   if (!(await pathExists(partialPath))) return { deps, devDeps, flutter };
 
-  const partialContent = await readFile(partialPath, 'utf-8');
+  const partialContent = await renderer.readTemplate(partialPath);
   const rendered = renderer.render(partialContent, templateContext);
   const parsed = yamlLoad(rendered) as Record<string, Record<string, unknown>> | null;
 
@@ -151,3 +407,160 @@ export async function processPubspecPartial(
 
   return { deps, devDeps, flutter };
 }
+
+/**
+ * Render the templates of resolved modules and compose their contributions —
+ * manifest contributions and pubspec.partial.yaml — into one result.
+ * Shared between the scaffold engine and add command so both produce the same project.
+ *
+ * @param modules - Topologically sorted module manifests (from ModuleResolver)
+ */
+export async function composeModules(
+  modules: readonly ModuleManifest[],
+  context: ProjectContext,
+  options: ComposeModulesOptions,
+): Promise<ModuleComposition> {
+  const composer = new ModuleComposer();
+  // Routes and env vars only come from manifests (and generated features), so they are known
+  // before any template is rendered
+  const { routes, envVars } = composer.compose(modules, context);
+  const templateContext = buildTemplateContext(
+    context,
+    [...routes, ...getFeatureRoutes(context.rawConfig.features)],
+    envVars,
+  );
+  const files: GeneratedFile[] = [];
+  const partials = new Map<string, PubspecPartialResult>();
+
+  for (const mod of modules) {
+    if (mod.alwaysIncluded) continue;
+    if (mod.isEnabled && !mod.isEnabled(context)) continue;
+
+    // External modules ship their own templates; built-in ones live under templates/modules
+    const moduleTemplateDir =
+      options.getTemplateDir?.(mod.id) ?? join(options.modulesTemplatesDir, mod.id);
+    if (!(await pathExists(moduleTemplateDir))) continue;
+
+    if (!options.renderModuleIds || options.renderModuleIds.includes(mod.id)) {
+      const rendered = await collectAndRenderTemplates(
+        moduleTemplateDir,
+        templateContext,
+        options.renderer,
+        [PUBSPEC_PARTIAL_FILE],
+      );
+      files.push(...rendered.map((file) => ({ ...file, module: mod.id })));
+    }
+
+    partials.set(
+      mod.id,
+      await processPubspecPartial(
+        join(moduleTemplateDir, PUBSPEC_PARTIAL_FILE),
+        options.renderer,
+        templateContext,
+      ),
+    );
+  }
+
+  // Generated features add their dependencies to those of the modules
+  const composed = composer.compose(modules, context, partials);
+  const dependencies = new Map(composed.dependencies);
+  for (const [name, version] of getFeatureDependencies(context.rawConfig.features)) {
+    const current = dependencies.get(name);
+    dependencies.set(
+      name,
+      typeof current === 'string' && typeof version === 'string'
+        ? pickNewerVersion(current, version)
+        : (current ?? version),
+    );
+  }
+
+  return { templateContext, files, composed: { ...composed, dependencies } };
+}
+
+/**
+ * Remove dependencies and `flutter:` keys from pubspec.yaml content.
+ * Returns the content unchanged when none of them is present.
+ */
+export function removePubspecEntries(content: string, removals: PubspecRemovals): string {
+  const pubspec = (yamlLoad(content) ?? {}) as Record<string, unknown>;
+
+  let changed = false;
+  const sections: [string, readonly string[]][] = [
+    ['dependencies', removals.dependencies],
+    ['dev_dependencies', removals.devDependencies],
+    ['flutter', removals.pubspecFlutter ?? []],
+  ];
+  for (const [section, keys] of sections) {
+    const entries = pubspec[section] as Record<string, unknown> | null | undefined;
+    if (!entries) continue;
+    for (const key of keys) {
+      if (key in entries) {
+        delete entries[key];
+        changed = true;
+      }
+    }
+  }
+
+  if (!changed) return content;
+  return yamlDump(pubspec, { indent: 2, lineWidth: 120, noRefs: true });
+}
+
+/**
+ * Merge dependencies into the sections of a parsed pubspec.yaml.
+ * Sources (sdk/path/git) replace existing entries, version constraints only upgrade
+ * existing constraints, and entries the project pinned to a source are kept.
+ * Returns true when the section changed.
+ */
+function mergeDependencySection(
+  pubspec: Record<string, unknown>,
+  section: 'dependencies' | 'dev_dependencies',
+  additions: ReadonlyMap<string, PubspecDependency>,
+): boolean {
+  const entries = (pubspec[section] ?? {}) as Record<string, unknown>;
+  let changed = false;
+
+  for (const [name, version] of additions) {
+    const current = entries[name];
+    let next: unknown = current;
+    if (typeof version === 'object' || current === undefined) {
+      next = version;
+    } else if (typeof current === 'string') {
+      next = pickNewerVersion(current, version);
+    }
+    if (!isDeepStrictEqual(current, next)) {
+      entries[name] = next;
+      changed = true;
+    }
+  }
+
+  if (changed) pubspec[section] = entries;
+  return changed;
+}
+
+/**
+ * Merge module dependencies into pubspec.yaml content.
+ * Returns the content unchanged when it already contains every addition.
+ */
+export function mergePubspecContent(content: string, additions: PubspecAdditions): string {
+  const pubspec = (yamlLoad(content) ?? {}) as Record<string, unknown>;
+
+  const depsChanged = mergeDependencySection(pubspec, 'dependencies', additions.dependencies);
+  const devDepsChanged = mergeDependencySection(
+    pubspec,
+    'dev_dependencies',
+    additions.devDependencies,
+  );
+
+  let flutterChanged = false;
+  const flutterSection = (pubspec['flutter'] ?? {}) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(additions.pubspecFlutter ?? {})) {
+    if (!isDeepStrictEqual(flutterSection[key], value)) {
+      flutterSection[key] = value;
+      flutterChanged = true;
+    }
+  }
+  if (flutterChanged) pubspec['flutter'] = flutterSection;
+
+  if (!depsChanged && !devDepsChanged && !flutterChanged) return content;
+  return yamlDump(pubspec, { indent: 2, lineWidth: 120, noRefs: true });
+}
@@ -0,0 +1,154 @@
+/**
+ * Outcome of a three-way merge.
+ */
+export interface MergeResult {
+  /** Merged content; conflicting regions are wrapped in conflict markers */
+  content: string;
+  /** Number of conflicting regions */
+  conflicts: number;
+}
+
+/** Opening conflict marker, followed by the lines of the current file. */
+export const CONFLICT_START = '<<<<<<< current';
+/** Separates the current lines from the newly generated ones. */
+export const CONFLICT_SEPARATOR = '=======';
+/** Closing conflict marker, after the newly generated lines. */
+export const CONFLICT_END = '>>>>>>> generated';
+
+/**
+ * Above this many line pairs the changed middle of two files is not diffed line by line;
+ * it is treated as one replaced block instead.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Merge the changes between `base` (the previously generated content) and `generated`
+ * (the new template output) into `current` (the file as it is now), line by line.
+ * Regions changed on one side only take that side; regions changed identically on both sides
+ * are taken once; regions changed differently on both sides become conflicts:
+ *
+ * ```
+ * <<<<<<< current
+ * …lines of the current file
+ * =======
+ * …newly generated lines
+ * >>>>>>> generated
+ * ```
+ */
+export function mergeThreeWay(base: string, current: string, generated: string): MergeResult {
+  if (current === base || current === generated) return { content: generated, conflicts: 0 };
+  if (generated === base) return { content: current, conflicts: 0 };
+
+  const baseLines = base.split('\n');
+  const currentLines = current.split('\n');
+  const generatedLines = generated.split('\n');
+  const toCurrent = matchLines(baseLines, currentLines);
+  const toGenerated = matchLines(baseLines, generatedLines);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let c = 0;
+  let g = 0;
+
+  while (b < baseLines.length || c < currentLines.length || g < generatedLines.length) {
+    // Copy lines unchanged on both sides
+    while (b < baseLines.length && toCurrent[b] === c && toGenerated[b] === g) {
+      merged.push(baseLines[b]);
+      b++;
+      c++;
+      g++;
+    }
+
+    // Find the next base line both sides kept; everything before it is a changed region
+    let next = b;
+    while (next < baseLines.length && (toCurrent[next] < 0 || toGenerated[next] < 0)) {
+      next++;
+    }
+    const currentEnd = next < baseLines.length ? toCurrent[next] : currentLines.length;
+    const generatedEnd = next < baseLines.length ? toGenerated[next] : generatedLines.length;
+    if (next === b && currentEnd === c && generatedEnd === g) continue;
+
+    const baseRegion = baseLines.slice(b, next);
+    const currentRegion = currentLines.slice(c, currentEnd);
+    const generatedRegion = generatedLines.slice(g, generatedEnd);
+
+    if (sameLines(currentRegion, baseRegion) || sameLines(currentRegion, generatedRegion)) {
+      merged.push(...generatedRegion);
+    } else if (sameLines(generatedRegion, baseRegion)) {
+      merged.push(...currentRegion);
+    } else {
+      conflicts++;
+      merged.push(
+        CONFLICT_START,
+        ...currentRegion,
+        CONFLICT_SEPARATOR,
+        ...generatedRegion,
+        CONFLICT_END,
+      );
+    }
+
+    b = next;
+    c = currentEnd;
+    g = generatedEnd;
+  }
+
+  return { content: merged.join('\n'), conflicts };
+}
+
+function sameLines(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Match the lines of `from` to the lines of `to` along a longest common subsequence.
+ * Returns, for every line of `from`, the index of its matching line in `to`, or -1.
+ */
+export function matchLines(from: readonly string[], to: readonly string[]): Int32Array {
+  const matches = new Int32Array(from.length).fill(-1);
+
+  // Common prefix and suffix need no diffing
+  let start = 0;
+  while (start < from.length && start < to.length && from[start] === to[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let fromEnd = from.length;
+  let toEnd = to.length;
+  while (fromEnd > start && toEnd > start && from[fromEnd - 1] === to[toEnd - 1]) {
+    fromEnd--;
+    toEnd--;
+    matches[fromEnd] = toEnd;
+  }
+
+  const rows = fromEnd - start;
+  const cols = toEnd - start;
+  if (rows === 0 || cols === 0 || rows * cols > MAX_DIFF_CELLS) return matches;
+
+  // lengths[i * (cols + 1) + j] = LCS length of from[start + i..fromEnd) and to[start + j..toEnd)
+  const width = cols + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        from[start + i] === to[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (from[start + i] === to[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,173 @@
+import { mkdtemp } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import fsExtra from 'fs-extra';
+const { copy, emptyDir, pathExists, readdir, remove } = fsExtra;
+
+interface JournalEntry {
+  /** Absolute path of the tracked file or directory */
+  path: string;
+  /** Copy of its content before the transaction changed it; null when it did not exist */
+  backup: string | null;
+}
+
+/**
+ * Journal of the changes a command makes to a project directory, so a failure part-way
+ * leaves the directory as it was. Paths are tracked before they are written: `track()`
+ * copies their current content (a file or a whole directory) outside the project, or notes
+ * that they do not exist yet. `rollback()` restores the copies and removes the paths that
+ * did not exist; `commit()` discards the copies.
+ *
+ * A directory that is missing or empty when the transaction begins needs no journal:
+ * rolling back removes everything written to it.
+ */
+export class ScaffoldTransaction {
+  private readonly rootDir: string;
+  private readonly rootExisted: boolean;
+  private readonly fresh: boolean;
+  private readonly entries: JournalEntry[] = [];
+  private backupDir: string | null = null;
+  private finished = false;
+
+  private constructor(rootDir: string, rootExisted: boolean, fresh: boolean) {
+    this.rootDir = resolve(rootDir);
+    this.rootExisted = rootExisted;
+    this.fresh = fresh;
+  }
+
+  /**
+   * Start a transaction on `rootDir` (which does not need to exist yet).
+   */
+  static async begin(rootDir: string): Promise<ScaffoldTransaction> {
+    const rootExisted = await pathExists(rootDir);
+    const fresh = !rootExisted || (await readdir(rootDir)).length === 0;
+    return new ScaffoldTransaction(rootDir, rootExisted, fresh);
+  }
+
+  /**
+   * Record the current state of files or directories (relative to the root) before they are
+   * written. Paths tracked before, or inside a tracked directory, keep their first state.
+   */
+  async track(relativePaths: Iterable<string>): Promise<void> {
+    this.assertOpen();
+    if (this.fresh) return;
+
+    for (const relativePath of relativePaths) {
+      let path = this.resolvePath(relativePath);
+      if (this.isTracked(path)) continue;
+
+      if (!(await pathExists(path))) {
+        // Track the topmost missing directory, so rolling back removes the directories created too
+        while (dirname(path) !== this.rootDir && !(await pathExists(dirname(path)))) {
+          path = dirname(path);
+        }
+        if (!this.isTracked(path)) this.entries.push({ path, backup: null });
+        continue;
+      }
+      this.backupDir ??= await mkdtemp(join(tmpdir(), 'maxsim-transaction-'));
+      const backup = join(this.backupDir, String(this.entries.length));
+      await copy(path, backup, { preserveTimestamps: true });
+      this.entries.push({ path, backup });
+    }
+  }
+
+  /**
+   * Keep the changes and discard the recorded state.
+   */
+  async commit(): Promise<void> {
+    this.assertOpen();
+    this.finished = true;
+    await this.discardBackups();
+  }
+
+  /**
+   * Restore the tracked paths to their state before the transaction. When a path cannot be
+   * restored, the error names the directory the previous contents were kept in.
+   */
+  async rollback(): Promise<void> {
+    this.assertOpen();
+    this.finished = true;
+
+    if (this.fresh) {
+      if (this.rootExisted) {
+        await emptyDir(this.rootDir);
+      } else {
+        await remove(this.rootDir);
+      }
+      return;
+    }
+
+    // Latest first: a directory tracked after one of its files holds the file's new content
+    for (const entry of [...this.entries].reverse()) {
+      try {
+        await remove(entry.path);
+        if (entry.backup !== null) {
+          await copy(entry.backup, entry.path, { preserveTimestamps: true });
+        }
+      } catch (err) {
+        throw new Error(
+          `Could not restore ${relative(this.rootDir, entry.path)}: ` +
+            `${err instanceof Error ? err.message : String(err)}` +
+            (this.backupDir ? ` (previous contents are kept in ${this.backupDir})` : ''),
+        );
+      }
+    }
+    await this.discardBackups();
+  }
+
+  private isTracked(path: string): boolean {
+    return this.entries.some((e) => path === e.path || path.startsWith(e.path + sep));
+  }
+
+  private async discardBackups(): Promise<void> {
+    if (this.backupDir !== null) {
+      await remove(this.backupDir);
+      this.backupDir = null;
+    }
+  }
+
+  private resolvePath(relativePath: string): string {
+    const path = resolve(this.rootDir, relativePath);
+    const fromRoot = relative(this.rootDir, path);
+    if (fromRoot === '' || fromRoot.startsWith('..') || isAbsolute(fromRoot)) {
+      throw new Error(`Cannot track '${relativePath}': path is outside ${this.rootDir}`);
+    }
+    return path;
+  }
+
+  private assertOpen(): void {
+    if (this.finished) {
+      throw new Error('The transaction was already committed or rolled back');
+    }
+  }
+}
+
+/**
+ * Run `fn` in a transaction on `rootDir`: committed when it resolves, rolled back when it
+ * throws (the error is rethrown).
+ */
+export async function withTransaction<T>(
+  rootDir: string,
+  fn: (transaction: ScaffoldTransaction) => Promise<T>,
+): Promise<T> {
+  const transaction = await ScaffoldTransaction.begin(rootDir);
+
+  let result: T;
+  try {
+    result = await fn(transaction);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    try {
+      await transaction.rollback();
+    } catch (rollbackErr) {
+      throw new Error(
+        `${message}. Rolling back failed: ` +
+          `${rollbackErr instanceof Error ? rollbackErr.message : String(rollbackErr)}`,
+      );
+    }
+    throw err;
+  }
+
+  await transaction.commit();
+  return result;
+}
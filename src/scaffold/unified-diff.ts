@@ -0,0 +1,137 @@
+import { matchLines } from './three-way-merge.js';
+
+/**
+ * A unified diff of one file.
+ */
+export interface UnifiedDiff {
+  /** Diff text (`---`/`+++` header and `@@` hunks); empty when the contents are equal */
+  text: string;
+  /** Number of added lines */
+  additions: number;
+  /** Number of deleted lines */
+  deletions: number;
+}
+
+/** Marker printed after a line that has no trailing newline. */
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  /** Line content including its newline (the last line of a file may have none) */
+  line: string;
+}
+
+/**
+ * Create a unified diff (as printed by `git diff`) between two versions of a file.
+ *
+ * @param path - Path shown in the `a/` and `b/` headers
+ * @param before - Current content, or undefined when the file does not exist yet
+ * @param after - New content
+ * @param contextLines - Unchanged lines shown around each change
+ */
+export function createUnifiedDiff(
+  path: string,
+  before: string | undefined,
+  after: string,
+  contextLines = 3,
+): UnifiedDiff {
+  const lines = diffLines(splitLines(before ?? ''), splitLines(after));
+  const additions = lines.filter((l) => l.type === '+').length;
+  const deletions = lines.filter((l) => l.type === '-').length;
+  if (additions === 0 && deletions === 0) return { text: '', additions, deletions };
+
+  const out = [before === undefined ? '--- /dev/null' : `--- a/${path}`, `+++ b/${path}`];
+  for (const hunk of findHunks(lines, contextLines)) {
+    const hunkLines = lines.slice(hunk.start, hunk.end);
+    const oldCount = hunkLines.filter((l) => l.type !== '+').length;
+    const newCount = hunkLines.filter((l) => l.type !== '-').length;
+    out.push(
+      `@@ -${formatRange(hunk.oldStart, oldCount)} +${formatRange(hunk.newStart, newCount)} @@`,
+    );
+    for (const { type, line } of hunkLines) {
+      if (line.endsWith('\n')) {
+        out.push(`${type}${line.slice(0, -1)}`);
+      } else {
+        out.push(`${type}${line}`, NO_NEWLINE_MARKER);
+      }
+    }
+  }
+
+  return { text: `${out.join('\n')}\n`, additions, deletions };
+}
+
+/** Split content into lines, keeping each line's newline. */
+function splitLines(content: string): string[] {
+  return content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/** Edit script turning `from` into `to`: kept (' '), deleted ('-') and added ('+') lines. */
+function diffLines(from: readonly string[], to: readonly string[]): DiffLine[] {
+  const matches = matchLines(from, to);
+  const lines: DiffLine[] = [];
+  let j = 0;
+  for (let i = 0; i < from.length; i++) {
+    if (matches[i] < 0) {
+      lines.push({ type: '-', line: from[i] });
+      continue;
+    }
+    while (j < matches[i]) lines.push({ type: '+', line: to[j++] });
+    lines.push({ type: ' ', line: from[i] });
+    j++;
+  }
+  while (j < to.length) lines.push({ type: '+', line: to[j++] });
+  return lines;
+}
+
+interface Hunk {
+  /** Range of the hunk in the edit script */
+  start: number;
+  end: number;
+  /** 0-based line index of the hunk in the old and new content */
+  oldStart: number;
+  newStart: number;
+}
+
+/**
+ * Group the changes of an edit script into hunks with `contextLines` unchanged lines around
+ * them; changes less than two contexts apart share a hunk.
+ */
+function findHunks(lines: readonly DiffLine[], contextLines: number): Hunk[] {
+  const hunks: Hunk[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  let current: Hunk | undefined;
+  let lastChange = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].type !== ' ') {
+      if (!current || i - lastChange > 2 * contextLines) {
+        if (current) current.end = lastChange + contextLines + 1;
+        const start = Math.max(0, i - contextLines);
+        const before = lines.slice(start, i);
+        current = {
+          start,
+          end: i + 1,
+          oldStart: oldLine - before.filter((l) => l.type !== '+').length,
+          newStart: newLine - before.filter((l) => l.type !== '-').length,
+        };
+        hunks.push(current);
+      }
+      lastChange = i;
+    }
+    if (lines[i].type !== '+') oldLine++;
+    if (lines[i].type !== '-') newLine++;
+  }
+  if (current) current.end = Math.min(lines.length, lastChange + contextLines + 1);
+
+  return hunks;
+}
+
+/**
+ * `start,count` of a hunk header, with a 1-based start (the preceding line for empty ranges);
+ * single-line ranges are printed as just `start`.
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 1) return String(start + 1);
+  return `${count === 0 ? start : start + 1},${count}`;
+}
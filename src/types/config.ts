@@ -1,4 +1,15 @@
 import type { z } from 'zod';
-import type { MaxsimConfigSchema } from '../core/config/schema.js';
+import type {
+  EnvironmentConfigSchema,
+  FeatureConfigSchema,
+  MaxsimConfigSchema,
+  PostProcessorConfigSchema,
+} from '../core/config/schema.js';
 
 export type MaxsimConfig = z.infer<typeof MaxsimConfigSchema>;
+
+export type FeatureConfig = z.infer<typeof FeatureConfigSchema>;
+
+export type EnvironmentConfig = z.infer<typeof EnvironmentConfigSchema>;
+
+export type PostProcessorConfig = z.infer<typeof PostProcessorConfigSchema>;
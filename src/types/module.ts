@@ -1,4 +1,6 @@
+import type { AnyZodObject } from 'zod';
 import type { ProjectContext } from '../core/context.js';
+import type { PostProcessor } from './post-processor.js';
 
 /**
  * A question to present during interactive module configuration.
@@ -34,19 +36,27 @@ export interface RouteContribution {
   path: string;
   /** Route name for named routing */
   name: string;
-  /** Dart import path for the page widget */
+  /** Dart import path for the page widget (relative to lib/core/router/) */
   importPath: string;
+  /** Page widget class name; derived from the import file name when omitted (login_page.dart → LoginPage) */
+  pageClass?: string;
 }
 
+/**
+ * A pubspec.yaml dependency: a version constraint (e.g. '^2.6.1') or a
+ * source description (e.g. { sdk: 'flutter' } or { path: '../shared' }).
+ */
+export type PubspecDependency = string | Record<string, unknown>;
+
 /**
  * Describes what a module contributes to the generated project.
  * Used by the ModuleComposer to merge contributions from all active modules.
  */
 export interface ModuleContribution {
   /** Dependencies to add to pubspec.yaml */
-  pubspecDependencies?: Record<string, string>;
+  pubspecDependencies?: Record<string, PubspecDependency>;
   /** Dev dependencies to add to pubspec.yaml */
-  pubspecDevDependencies?: Record<string, string>;
+  pubspecDevDependencies?: Record<string, PubspecDependency>;
   /** Riverpod providers to register */
   providers?: ProviderContribution[];
   /** Routes to add to go_router config */
@@ -55,6 +65,120 @@ export interface ModuleContribution {
   envVars?: string[];
 }
 
+/**
+ * A block of contributions that only applies to some projects,
+ * e.g. the dependencies of the selected auth provider.
+ */
+export interface ConditionalContribution {
+  /** The block applies when this returns true for the project context */
+  when: (context: ProjectContext) => boolean;
+  /** Contributions merged with the module's base contributions when the block applies */
+  contributions: ModuleContribution;
+}
+
+/**
+ * Edits project files from a module hook. Paths are relative to the project root and must
+ * stay inside it. Edits are staged and only applied once every hook of the run succeeded.
+ */
+export interface ModuleFileEditor {
+  /** Whether the file exists: generated or edited in this run, or on disk */
+  exists(path: string): Promise<boolean>;
+  /** Content of the file as generated or edited in this run, otherwise as on disk */
+  read(path: string): Promise<string | undefined>;
+  /** Create or replace the file */
+  write(path: string, content: string): Promise<void>;
+  /** Transform an existing file; returns false (and changes nothing) when it does not exist */
+  update(path: string, edit: (content: string) => string): Promise<boolean>;
+}
+
+/**
+ * What a module hook receives.
+ */
+export interface ModuleHookContext {
+  /** Context of the project */
+  readonly context: ProjectContext;
+  /** Files generated in this run (relative path -> content); empty for `onRemove` */
+  readonly files: ReadonlyMap<string, string>;
+  /** Safe file-edit API for the project */
+  readonly fs: ModuleFileEditor;
+  /** Show a message to the user, e.g. manual setup instructions */
+  log(message: string): void;
+}
+
+export type ModuleHook = (hookContext: ModuleHookContext) => Promise<void>;
+
+/**
+ * Lifecycle hooks of a module, run in module dependency order.
+ */
+export interface ModuleHooks {
+  /** After the templates were rendered and before anything is written; edits end up in the generated files */
+  beforeGenerate?: ModuleHook;
+  /** After the generated files were written (not in dry runs) */
+  afterGenerate?: ModuleHook;
+  /** After `add` wrote the files of the module into an existing project */
+  onAdd?: ModuleHook;
+  /** After `remove` deleted the files of the module; the context no longer includes the module */
+  onRemove?: ModuleHook;
+}
+
+/** Name of a module lifecycle hook. */
+export type ModuleHookName = keyof ModuleHooks;
+
+/**
+ * A `.claude/rules/<name>.md` file contributed by a module.
+ */
+export interface ClaudeRuleContribution {
+  /** File name without extension, in kebab-case (e.g. 'auth') */
+  name: string;
+  /** Globs of the files the rule applies to, written to the rule's frontmatter */
+  paths: string[];
+  /** Markdown body of the rule */
+  content: string;
+}
+
+/**
+ * A `.claude/skills/<name>/SKILL.md` file contributed by a module.
+ */
+export interface ClaudeSkillContribution {
+  /** Skill directory name, in kebab-case */
+  name: string;
+  /** Complete SKILL.md content, including its frontmatter */
+  content: string;
+}
+
+/**
+ * A Phase 2 story a module adds to prd.json. The ID, phase and module are assigned
+ * by the PRD generator.
+ */
+export interface PrdStoryContribution {
+  priority: 'P0' | 'P1' | 'P2' | 'P3';
+  title: string;
+  description: string;
+  storyPoints: 1 | 2 | 3 | 5 | 8 | 13;
+  /**
+   * IDs of the stories this one builds on, e.g. 'P1-CORE-001' (project structure),
+   * 'P1-CORE-002' (router) or 'P1-CORE-003' (Riverpod setup)
+   */
+  dependencies: string[];
+  acceptanceCriteria: string[];
+}
+
+/**
+ * AI guidance a module contributes to the generated Claude setup.
+ */
+export interface ClaudeContribution {
+  /** Rules written to `.claude/rules/` and imported from CLAUDE.md */
+  rules?: ClaudeRuleContribution[];
+  /** Skills written to `.claude/skills/` */
+  skills?: ClaudeSkillContribution[];
+  /** Markdown added to the "Module Notes" section of CLAUDE.md */
+  claudeMd?: string;
+  /** Stories added to Phase 2 of prd.json */
+  stories?: PrdStoryContribution[];
+  /** Story ID prefix (P2-<prefix>-001); defaults to the upper-cased module ID */
+  storyPrefix?: string;
+}
+
 /**
  * The complete definition of a scaffolding module.
  * Each module in src/modules/definitions/<name>/module.ts must export a manifest
@@ -67,10 +191,26 @@ export interface ModuleManifest {
   name: string;
   /** Brief description of what the module provides */
   description: string;
-  /** Module IDs this module depends on */
+  /**
+   * Semantic version of the module's templates (e.g. '1.2.0'), recorded in the project's
+   * `.maxsim/modules.lock.json`. Bump it when the templates change so `upgrade --modules`
+   * offers the update. Defaults to '0.0.0'.
+   */
+  version?: string;
+  /**
+   * Module IDs or capabilities this module depends on. A capability (e.g. 'crash-reporting')
+   * is satisfied by any module that provides it.
+   */
   requires: readonly string[];
   /** Module IDs that cannot be used alongside this module */
   conflictsWith?: readonly string[];
+  /** Capabilities this module implements (e.g. 'crash-reporting'), so others can require them */
+  provides?: readonly string[];
+  /**
+   * Module IDs or capabilities this module integrates with when they are present.
+   * Unlike `requires`, they are never added automatically; they are only ordered before this module.
+   */
+  enhances?: readonly string[];
   /** Relative path to the module's templates directory */
   templateDir: string;
   /** PRD phase (1-4) this module belongs to */
@@ -79,8 +219,24 @@ export interface ModuleManifest {
   alwaysIncluded?: boolean;
   /** What this module contributes to the generated project */
   contributions: ModuleContribution;
+  /** Contributions that depend on the project context (e.g. on the chosen provider or engine) */
+  conditionalContributions?: readonly ConditionalContribution[];
+  /**
+   * Zod schema of the module's options in maxsim.config.yaml. `enabled` is added automatically,
+   * and the parsed options become `context.modules.<camelCaseId>` once the module is enabled.
+   * Omit for modules without options.
+   */
+  configSchema?: AnyZodObject;
+  /** Options shown by `list`, mapped to their label. Defaults to every string and number option. */
+  configSummary?: Record<string, string>;
   /** Interactive questions for module-specific configuration */
   questions?: ModuleQuestion[];
   /** Optional predicate — module templates are only included when this returns true */
   isEnabled?: (context: ProjectContext) => boolean;
+  /** Lifecycle hooks for changes templates cannot express, e.g. editing native project files */
+  hooks?: ModuleHooks;
+  /** Steps run on the generated project with the built-in ones, e.g. code generation */
+  postProcessors?: readonly PostProcessor[];
+  /** Claude rules, skills, CLAUDE.md notes and PRD stories; a function when they depend on the context */
+  claude?: ClaudeContribution | ((context: ProjectContext) => ClaudeContribution);
 }
@@ -0,0 +1,53 @@
+import type { ProjectContext } from '../core/context.js';
+
+/**
+ * What a post-processor receives when it runs.
+ */
+export interface PostProcessorRunContext {
+  /** Root directory of the generated project */
+  readonly projectDir: string;
+  /** Context of the project */
+  readonly context: ProjectContext;
+  /** Aborted when the step times out; pass it on to child processes (execa's `cancelSignal`) */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * A step run on the generated project after it was written, e.g. `flutter pub get`.
+ * Steps run one at a time, ordered by `dependsOn`, `after` and `before`.
+ */
+export interface PostProcessor {
+  /** Kebab-case identifier (e.g. 'flutter-gen-l10n'); a later step with the same ID replaces an earlier one */
+  id: string;
+  /** Label used in messages (e.g. 'flutter gen-l10n'); defaults to the ID */
+  name?: string;
+  /**
+   * Steps that must succeed first; this one is skipped when one of them fails, times out or
+   * is skipped. Steps that are not in the pipeline (e.g. disabled ones) are ignored.
+   */
+  dependsOn?: readonly string[];
+  /** Steps this one runs after when they are in the pipeline, whether they succeed or not */
+  after?: readonly string[];
+  /** Steps this one runs before when they are in the pipeline */
+  before?: readonly string[];
+  /** Milliseconds before the step is aborted (default 10 minutes) */
+  timeoutMs?: number;
+  /** Run the step; rejecting marks it as failed */
+  run(runContext: PostProcessorRunContext): Promise<void>;
+}
+
+export type PostProcessorStatus = 'success' | 'failed' | 'skipped' | 'timeout';
+
+/**
+ * Outcome of one post-processor step.
+ */
+export interface PostProcessorResult {
+  id: string;
+  /** Label of the step, as used in messages */
+  name: string;
+  status: PostProcessorStatus;
+  /** How long the step ran (0 when skipped) */
+  durationMs: number;
+  /** Why the step failed, timed out or was skipped */
+  message?: string;
+}
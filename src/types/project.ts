@@ -4,6 +4,7 @@ export interface GeneratedFile {
   relativePath: string;
   content: string;
   templateSource?: string; // original .hbs file path
+  module?: string; // ID of the module whose templates produced the file
 }
 
 export interface TemplateInstruction {
@@ -0,0 +1,53 @@
+import { join } from 'node:path';
+import fsExtra from 'fs-extra';
+const { outputFile } = fsExtra;
+
+import type { FlutterRunner } from '../../src/scaffold/native-platforms.js';
+
+/**
+ * Minimal native files per platform, standing in for what `flutter create` generates.
+ */
+const NATIVE_FILES: Record<string, Record<string, string>> = {
+  android: {
+    'app/src/main/AndroidManifest.xml': [
+      '<manifest xmlns:android="http://schemas.android.com/apk/res/android">',
+      '    <application android:label="my_app">',
+      '        <activity android:name=".MainActivity">',
+      '        </activity>',
+      '    </application>',
+      '</manifest>',
+      '',
+    ].join('\n'),
+    'app/build.gradle.kts': 'android {\n}\n',
+  },
+  ios: {
+    'Runner/Info.plist': '<plist version="1.0">\n<dict>\n</dict>\n</plist>\n',
+  },
+  web: {
+    'index.html': '<!DOCTYPE html>\n<html></html>\n',
+  },
+};
+
+/**
+ * Stub of the Flutter SDK for environments without Flutter: `flutter create <dir>` writes
+ * minimal native folders for the requested platforms, plus lib/main.dart and .metadata.
+ * Every call is recorded in `calls`.
+ */
+export function createFlutterStub(): FlutterRunner & { calls: string[][] } {
+  const calls: string[][] = [];
+  const stub = async (args: string[]): Promise<void> => {
+    calls.push(args);
+    const projectDir = args[args.length - 1];
+    const platforms = (args.find((arg) => arg.startsWith('--platforms=')) ?? '')
+      .replace('--platforms=', '')
+      .split(',');
+    for (const platform of platforms) {
+      for (const [path, content] of Object.entries(NATIVE_FILES[platform] ?? {})) {
+        await outputFile(join(projectDir, platform, path), content, 'utf-8');
+      }
+    }
+    await outputFile(join(projectDir, 'lib/main.dart'), 'void main() {}\n', 'utf-8');
+    await outputFile(join(projectDir, '.metadata'), 'version:\n  channel: stable\n', 'utf-8');
+  };
+  return Object.assign(stub, { calls });
+}
@@ -12,6 +12,7 @@ import {
   getEnabledModuleIds,
   mergePubspecYaml,
   createAddCommand,
+  writeRegeneratedFiles,
 } from '../../src/cli/commands/add.js';
 import { parseConfig } from '../../src/core/config/loader.js';
 
@@ -279,7 +280,7 @@ describe('Integration: adding modules to an existing project', () => {
           api: false,
           database: false,
           i18n: false,
-          theme: { seedColor: '#6750A4', darkMode: true },
+          theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
           push: false,
           analytics: false,
           cicd: false,
@@ -430,3 +431,53 @@ describe('Integration: add command --dry-run behavior', () => {
     expect(await pathExists(join(tmpDir, 'lib/main.dart'))).toBe(false);
   });
 });
+
+describe('Integration: writeRegeneratedFiles', () => {
+  const tmp = useTempDir('add-regenerated-test-');
+  const ROUTER = 'lib/core/router/app_router.dart';
+
+  async function scaffoldRouter(): Promise<string> {
+    await new ScaffoldEngine({ templatesDir: TEMPLATES_DIR }).run(makeContext(tmp.path));
+    return readFile(join(tmp.path, ROUTER), 'utf-8');
+  }
+
+  it('keeps changes made by hand while applying the regenerated content', async () => {
+    const generated = await scaffoldRouter();
+    await writeFile(join(tmp.path, ROUTER), `${generated}// my route\n`, 'utf-8');
+
+    const result = await writeRegeneratedFiles(tmp.path, [
+      { relativePath: ROUTER, content: `// regenerated\n${generated}` },
+    ]);
+
+    expect(result.merged).toEqual([ROUTER]);
+    expect(await readFile(join(tmp.path, ROUTER), 'utf-8')).toBe(
+      `// regenerated\n${generated}// my route\n`,
+    );
+  });
+
+  it('backs up edited files without a merge base before replacing them', async () => {
+    await scaffoldRouter();
+    await fsExtra.remove(join(tmp.path, '.maxsim/base'));
+    await writeFile(join(tmp.path, ROUTER), '// edited\n', 'utf-8');
+
+    const result = await writeRegeneratedFiles(tmp.path, [
+      { relativePath: ROUTER, content: '// regenerated\n' },
+    ]);
+
+    expect(result.backedUp).toEqual([ROUTER]);
+    expect(await readFile(join(tmp.path, `${ROUTER}.bak`), 'utf-8')).toBe('// edited\n');
+    expect(await readFile(join(tmp.path, ROUTER), 'utf-8')).toBe('// regenerated\n');
+  });
+
+  it('replaces files left as generated without a backup', async () => {
+    await scaffoldRouter();
+    await fsExtra.remove(join(tmp.path, '.maxsim/base'));
+
+    const result = await writeRegeneratedFiles(tmp.path, [
+      { relativePath: ROUTER, content: '// regenerated\n' },
+    ]);
+
+    expect(result.backedUp).toEqual([]);
+    expect(await pathExists(join(tmp.path, `${ROUTER}.bak`))).toBe(false);
+  });
+});
@@ -226,7 +226,7 @@ describe('Integration: create command generates working Flutter project', () =>
         api: { baseUrl: 'https://api.test.com' },
         database: false,
         i18n: false,
-        theme: { seedColor: '#6750A4', darkMode: true },
+        theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
         push: false,
         analytics: false,
         cicd: false,
@@ -260,7 +260,7 @@ describe('Integration: create command generates working Flutter project', () =>
         api: { baseUrl: 'https://api.test.com' },
         database: false,
         i18n: false,
-        theme: { seedColor: '#6750A4', darkMode: true },
+        theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
         push: false,
         analytics: false,
         cicd: false,
@@ -760,7 +760,7 @@ describe('Integration: create command generates working Flutter project', () =>
           api: { baseUrl: 'https://api.example.com' },
           database: { engine: 'drift' },
           i18n: { defaultLocale: 'en', supportedLocales: ['en'] },
-          theme: { seedColor: '#6750A4', darkMode: true },
+          theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
           push: { provider: 'firebase' },
           analytics: { enabled: true },
           cicd: { provider: 'github' },
@@ -845,7 +845,7 @@ describe('Integration: create command generates working Flutter project', () =>
           api: { baseUrl: 'https://api.example.com' },
           database: { engine: 'drift' },
           i18n: { defaultLocale: 'en', supportedLocales: ['en'] },
-          theme: { seedColor: '#6750A4', darkMode: true },
+          theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
           push: { provider: 'firebase' },
           analytics: { enabled: true },
           cicd: { provider: 'github' },
@@ -906,7 +906,7 @@ describe('Integration: create command generates working Flutter project', () =>
           api: { baseUrl: 'https://api.example.com' },
           database: { engine: 'drift' },
           i18n: { defaultLocale: 'en', supportedLocales: ['en'] },
-          theme: { seedColor: '#6750A4', darkMode: true },
+          theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
           push: { provider: 'firebase' },
           analytics: { enabled: true },
           cicd: { provider: 'github' },
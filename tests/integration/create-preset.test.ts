@@ -1,21 +1,35 @@
 import { jest } from '@jest/globals';
+import { join } from 'node:path';
+import fsExtra from 'fs-extra';
+
+const { outputFile, remove } = fsExtra;
 
 const mockPromptForPreset = jest.fn<() => Promise<string>>();
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const mockPromptForProjectCreation = jest.fn<(defaults?: any, options?: any) => Promise<Record<string, unknown>>>();
 const mockPromptForModuleConfig = jest.fn<() => Promise<Record<string, unknown>>>();
-const mockValidateEnvironment = jest.fn<() => Promise<{ valid: boolean; errors: string[] }>>();
+const mockPromptForProviders = jest.fn<() => Promise<Record<string, string>>>();
+const mockValidateEnvironment = jest.fn<() => Promise<{ valid: boolean; errors: string[]; warnings: string[] }>>();
 const mockEngineRun = jest.fn<() => Promise<{
   filesWritten: string[];
   filesSkipped: string[];
+  filesMerged: string[];
+  mergeConflicts: string[];
+  nativePlatforms: string[];
+  nativePlatformErrors: string[];
+  postProcessorResults: unknown[];
   postProcessorsRun: string[];
   postProcessorErrors: string[];
+  externalModuleErrors: string[];
+  dependencyConflicts: string[];
+  moduleMessages: string[];
 }>>();
 
 jest.unstable_mockModule('../../src/cli/ui/prompts.js', () => ({
   promptForPreset: mockPromptForPreset,
   promptForProjectCreation: mockPromptForProjectCreation,
   promptForModuleConfig: mockPromptForModuleConfig,
+  promptForProviders: mockPromptForProviders,
   getPresetModules: (id: string) => {
     if (id === 'standard') return ['auth', 'api', 'theme'];
     if (id === 'full') return ['auth', 'api', 'theme', 'database', 'i18n', 'push', 'analytics', 'cicd', 'deep-linking'];
@@ -37,14 +51,23 @@ const { createCreateCommand } = await import('../../src/cli/commands/create.js')
 describe('create command preset integration', () => {
   beforeEach(() => {
     jest.clearAllMocks();
-    mockValidateEnvironment.mockResolvedValue({ valid: true, errors: [] });
+    mockValidateEnvironment.mockResolvedValue({ valid: true, errors: [], warnings: [] });
     mockEngineRun.mockResolvedValue({
       filesWritten: ['lib/main.dart'],
       filesSkipped: [],
+      filesMerged: [],
+      mergeConflicts: [],
+      nativePlatforms: [],
+      nativePlatformErrors: [],
+      postProcessorResults: [],
       postProcessorsRun: [],
       postProcessorErrors: [],
+      externalModuleErrors: [],
+      dependencyConflicts: [],
+      moduleMessages: [],
     });
     mockPromptForModuleConfig.mockResolvedValue({ enabled: true });
+    mockPromptForProviders.mockResolvedValue({});
   });
 
   it('standard preset skips module multiselect and passes auth/api/theme to config', async () => {
@@ -115,4 +138,106 @@ describe('create command preset integration', () => {
     expect(mockPromptForProjectCreation).not.toHaveBeenCalled();
     expect(mockEngineRun).toHaveBeenCalledTimes(1);
   });
+
+  it('validates and defaults the options of project-local modules passed with --modules', async () => {
+    const projectDir = join(process.cwd(), 'billing_app');
+    await outputFile(
+      join(projectDir, '.maxsim/modules/billing/module.mjs'),
+      `import { z } from 'zod';
+export const manifest = {
+  id: 'billing',
+  name: 'Billing',
+  description: 'Project-local billing module',
+  requires: [],
+  templateDir: 'templates',
+  ralphPhase: 2,
+  contributions: {},
+  configSchema: z.object({ plan: z.enum(['free', 'pro']).default('free') }),
+};
+`,
+      'utf-8',
+    );
+
+    try {
+      const cmd = createCreateCommand();
+      await cmd.parseAsync(['node', 'maxsim', 'billing_app', '--yes', '--modules', 'billing']);
+
+      const [[context]] = mockEngineRun.mock.calls as unknown as [
+        [{ rawConfig: Record<string, unknown> }],
+      ];
+      expect(context.rawConfig['modules']).toEqual({ billing: { enabled: true, plan: 'free' } });
+    } finally {
+      await remove(projectDir);
+    }
+  });
+
+  /** Project-local modules: shop requires payments, which stripe and paypal provide. */
+  async function writePaymentModules(projectDir: string): Promise<void> {
+    const writeModule = (id: string, fields: string) =>
+      outputFile(
+        join(projectDir, `.maxsim/modules/${id}/module.mjs`),
+        `export const manifest = {
+  id: '${id}',
+  name: '${id}',
+  description: 'Project-local module',
+  templateDir: 'templates',
+  ralphPhase: 2,
+  contributions: {},
+  ${fields}
+};
+`,
+        'utf-8',
+      );
+    await writeModule('shop', "requires: ['payments'],");
+    await writeModule('stripe', "requires: [], provides: ['payments'],");
+    await writeModule('paypal', "requires: [], provides: ['payments'],");
+  }
+
+  it('fails on a required capability that several modules provide with --yes', async () => {
+    const projectDir = join(process.cwd(), 'shop_app');
+    await writePaymentModules(projectDir);
+    const mockProcessExit = jest
+      .spyOn(process, 'exit')
+      .mockImplementation((() => {}) as typeof process.exit);
+
+    try {
+      const cmd = createCreateCommand();
+      await cmd.parseAsync(['node', 'maxsim', 'shop_app', '--yes', '--modules', 'shop']);
+
+      expect(mockProcessExit).toHaveBeenCalledWith(1);
+      expect(mockEngineRun).not.toHaveBeenCalled();
+    } finally {
+      mockProcessExit.mockRestore();
+      await remove(projectDir);
+    }
+  });
+
+  it('asks which module provides a required capability and enables it', async () => {
+    const projectDir = join(process.cwd(), 'shop_app');
+    await writePaymentModules(projectDir);
+    mockPromptForPreset.mockResolvedValue('custom');
+    mockPromptForProjectCreation.mockResolvedValue({
+      projectName: 'shop_app',
+      orgId: 'com.test',
+      description: 'Test',
+      platforms: ['android'],
+      modules: ['shop'],
+    });
+    mockPromptForProviders.mockResolvedValue({ payments: 'paypal' });
+
+    try {
+      const cmd = createCreateCommand();
+      await cmd.parseAsync(['node', 'maxsim', 'shop_app', '--dry-run']);
+
+      const [[context]] = mockEngineRun.mock.calls as unknown as [
+        [{ rawConfig: Record<string, unknown> }],
+      ];
+      expect(context.rawConfig['modules']).toEqual({
+        shop: { enabled: true },
+        paypal: { enabled: true },
+      });
+    } finally {
+      await remove(projectDir);
+    }
+  });
 });
@@ -0,0 +1,97 @@
+import { rm, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+import { ScaffoldEngine } from '../../src/scaffold/engine.js';
+import { diffProject } from '../../src/scaffold/project-diff.js';
+import { createProjectContext } from '../../src/core/context.js';
+import { parseConfig } from '../../src/core/config/loader.js';
+import { createDiffCommand, formatStat } from '../../src/cli/commands/diff.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+import { createTestRegistry } from '../helpers/registry-factory.js';
+
+const engineOptions = {
+  templatesDir: resolve('templates/core'),
+  modulesTemplatesDir: resolve('templates/modules'),
+};
+
+const rawConfig = {
+  project: { name: 'my_app', orgId: 'com.example' },
+  modules: { api: { enabled: true } },
+  claude: { enabled: true },
+  scaffold: { runDartFormat: false, runPubGet: false, runBuildRunner: false },
+};
+
+describe('Integration: diffing a project against its templates', () => {
+  const tmp = useTempDir('diff-command-test-');
+  const registry = createTestRegistry();
+
+  function makeContext(config: Record<string, unknown> = rawConfig) {
+    return createProjectContext(parseConfig(config, registry.getAll()), tmp.path);
+  }
+
+  beforeEach(async () => {
+    await new ScaffoldEngine({ ...engineOptions, registry }).run(makeContext());
+  });
+
+  it('finds no changes right after scaffolding', async () => {
+    const diff = await diffProject(makeContext(), { ...engineOptions, registry });
+
+    expect(diff.files).toEqual([]);
+    expect(diff.postProcessorErrors).toEqual([]);
+  });
+
+  it('shows edited files as modified and deleted ones as added, including .claude/ output', async () => {
+    await writeFile(join(tmp.path, 'lib/main.dart'), '// customised\n', 'utf-8');
+    await rm(join(tmp.path, 'CLAUDE.md'));
+
+    const diff = await diffProject(makeContext(), { ...engineOptions, registry });
+
+    expect(diff.files.map((f) => [f.path, f.status])).toEqual([
+      ['CLAUDE.md', 'added'],
+      ['lib/main.dart', 'modified'],
+    ]);
+    const main = diff.files[1];
+    expect(main.text).toMatch(/^--- a\/lib\/main\.dart\n\+\+\+ b\/lib\/main\.dart\n@@ /);
+    expect(main.text).toContain('\n-// customised\n');
+    expect(main.deletions).toBe(1);
+  });
+
+  it('includes the files and pubspec.yaml entries of newly enabled modules', async () => {
+    const config = {
+      ...rawConfig,
+      modules: { ...rawConfig.modules, analytics: { enabled: true } },
+    };
+
+    const diff = await diffProject(makeContext(config), { ...engineOptions, registry });
+    const paths = diff.files.map((f) => f.path);
+
+    expect(paths).toContain('lib/features/analytics/domain/services/analytics_service.dart');
+    expect(diff.files.find((f) => f.path === 'pubspec.yaml')?.text).toMatch(
+      /^\+ {2}firebase_analytics: /m,
+    );
+  });
+});
+
+describe('formatStat', () => {
+  it('lists each file with its changed line count and a +/- bar', () => {
+    const stat = formatStat([
+      { path: 'lib/main.dart', status: 'modified', text: '', additions: 2, deletions: 1 },
+      { path: 'README.md', status: 'added', text: '', additions: 80, deletions: 0 },
+    ]);
+
+    const lines = stat.split('\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatch(/^ lib\/main\.dart \| {2}3 .*\+.*-/);
+    expect(lines[1]).toContain(' README.md     | 80 ');
+    expect(lines[1].match(/\+/g)).toHaveLength(40);
+  });
+});
+
+describe('createDiffCommand', () => {
+  it('creates a Command named "diff" with --stat and --json options', () => {
+    const cmd = createDiffCommand();
+
+    expect(cmd.name()).toBe('diff');
+    expect(cmd.options.map((o) => o.long)).toEqual(['--stat', '--json']);
+  });
+});
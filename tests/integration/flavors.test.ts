@@ -0,0 +1,172 @@
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import fsExtra from 'fs-extra';
+const { pathExists } = fsExtra;
+
+import { ScaffoldEngine } from '../../src/scaffold/engine.js';
+import { createProjectContext } from '../../src/core/context.js';
+import { parseConfig } from '../../src/core/config/loader.js';
+import { getTemplateEnvironments } from '../../src/scaffold/template-helpers.js';
+import { createFlutterStub } from '../helpers/flutter-stub.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+import { createTestRegistry } from '../helpers/registry-factory.js';
+
+const engineOptions = {
+  templatesDir: resolve('templates/core'),
+  modulesTemplatesDir: resolve('templates/modules'),
+  flavorsTemplatesDir: resolve('templates/flavors'),
+};
+
+const rawConfig = {
+  project: { name: 'my_app', orgId: 'com.example' },
+  claude: { enabled: false },
+  scaffold: { runDartFormat: false, runPubGet: false, runBuildRunner: false },
+};
+
+describe('Integration: flavors', () => {
+  const tmp = useTempDir('flavors-test-');
+  const registry = createTestRegistry();
+
+  function makeContext(config: Record<string, unknown>) {
+    return createProjectContext(parseConfig(config, registry.getAll()), tmp.path);
+  }
+
+  async function read(relativePath: string): Promise<string> {
+    return readFile(join(tmp.path, relativePath), 'utf-8');
+  }
+
+  it('applies the defaults of the bundle ID suffix, app name and API base URL', () => {
+    const context = makeContext({
+      ...rawConfig,
+      modules: { api: { enabled: true, baseUrl: 'https://api.my-app.com' } },
+      environments: [
+        'dev',
+        { name: 'staging', bundleIdSuffix: '.stg', api: { baseUrl: 'https://stg.my-app.com' } },
+        'prod',
+      ],
+    });
+
+    expect(getTemplateEnvironments(context)).toEqual([
+      {
+        name: 'dev',
+        bundleIdSuffix: '.dev',
+        appName: 'my_app (dev)',
+        apiBaseUrl: 'https://api.my-app.com',
+      },
+      {
+        name: 'staging',
+        bundleIdSuffix: '.stg',
+        appName: 'my_app (staging)',
+        apiBaseUrl: 'https://stg.my-app.com',
+      },
+      { name: 'prod', bundleIdSuffix: '', appName: 'my_app', apiBaseUrl: 'https://api.my-app.com' },
+    ]);
+  });
+
+  it('generates an entry point per flavor, the environment config and the flavor notes', async () => {
+    await new ScaffoldEngine({ ...engineOptions, registry }).run(
+      makeContext({ ...rawConfig, environments: ['dev', 'staging', 'prod'] }),
+    );
+
+    const mainDev = await read('lib/main_dev.dart');
+    expect(mainDev).toContain(
+      'environmentConfigProvider.overrideWithValue(EnvironmentConfig.dev),',
+    );
+    expect(await read('lib/main_prod.dart')).toContain('EnvironmentConfig.prod');
+    expect(await pathExists(join(tmp.path, 'lib/main.dart'))).toBe(true);
+
+    const environment = await read('lib/core/config/environment.dart');
+    expect(environment).toContain('enum Flavor {\n  dev,\n  staging,\n  prod,\n}');
+    expect(environment).toContain("appName: 'my_app (staging)',");
+    expect(environment).toContain(
+      'EnvironmentConfig environmentConfig(Ref ref) => EnvironmentConfig.dev;',
+    );
+    expect(environment).not.toContain('apiBaseUrl');
+
+    const notes = await read('FLAVORS.md');
+    expect(notes).toContain('create("dev") {');
+    expect(notes).toContain('applicationIdSuffix = ".dev"');
+    expect(notes).toContain('`Debug-staging`, `Release-staging`, `Profile-staging`');
+
+    const launch = JSON.parse(await read('.vscode/launch.json')) as {
+      configurations: { program: string; args: string[] }[];
+    };
+    expect(launch.configurations.map((c) => c.program)).toEqual([
+      'lib/main_dev.dart',
+      'lib/main_staging.dart',
+      'lib/main_prod.dart',
+    ]);
+    // No module needs env vars, so there is no .env to pass, and without `flutter create` the
+    // Android app declares no product flavors
+    expect(launch.configurations[0].args).toEqual([]);
+    expect(notes).toContain('flutter run -t lib/main_dev.dart');
+    expect(notes).toContain('Declare a product flavor per environment');
+    expect(await read('README.md')).toContain('flutter run -t lib/main_dev.dart');
+    expect(await read('lib/app.dart')).toContain(
+      'title: ref.watch(environmentConfigProvider).appName,',
+    );
+  });
+
+  it('passes the flavor API base URL to the ApiClient and builds each flavor in CI', async () => {
+    await new ScaffoldEngine({ ...engineOptions, registry }).run(
+      makeContext({
+        ...rawConfig,
+        modules: { api: { enabled: true }, cicd: { enabled: true, provider: 'github' } },
+        environments: ['dev', { name: 'prod', api: { baseUrl: 'https://api.my-app.com' } }],
+      }),
+    );
+
+    expect(await read('lib/core/config/environment.dart')).toContain(
+      "apiBaseUrl: 'https://api.my-app.com',",
+    );
+    expect(await read('lib/features/api/presentation/providers/api_provider.dart')).toContain(
+      'return ApiClient(baseUrl: ref.watch(environmentConfigProvider).apiBaseUrl);',
+    );
+    const workflow = await read('.github/workflows/ci.yml');
+    // Without `flutter create`, the Android app declares no product flavors
+    expect(workflow).toContain(
+      'run: flutter build apk --debug -t lib/main_dev.dart --dart-define-from-file=.env',
+    );
+    expect(workflow).not.toContain('--flavor');
+    expect(workflow).toContain('- name: Build Android APK (prod)');
+    const launch = JSON.parse(await read('.vscode/launch.json')) as {
+      configurations: { args: string[] }[];
+    };
+    expect(launch.configurations[0].args).toEqual(['--dart-define-from-file=.env']);
+  });
+
+  it('runs and builds each flavor with --flavor once flutter create adds the Android app', async () => {
+    await new ScaffoldEngine({
+      ...engineOptions,
+      registry,
+      flutterRunner: createFlutterStub(),
+    }).run(
+      makeContext({
+        ...rawConfig,
+        scaffold: { ...rawConfig.scaffold, runFlutterCreate: true },
+        modules: { cicd: { enabled: true, provider: 'github' } },
+        environments: ['dev', 'prod'],
+      }),
+    );
+
+    const launch = JSON.parse(await read('.vscode/launch.json')) as {
+      configurations: { args: string[] }[];
+    };
+    expect(launch.configurations[0].args).toEqual(['--flavor', 'dev']);
+    expect(await read('.github/workflows/ci.yml')).toContain('--flavor prod -t lib/main_prod.dart');
+    const notes = await read('FLAVORS.md');
+    expect(notes).toContain('flutter run --flavor dev -t lib/main_dev.dart');
+    expect(notes).toContain('`flutter create` added a product flavor per environment');
+    expect(await read('lib/main_prod.dart')).toContain(
+      '`flutter run --flavor prod -t lib/main_prod.dart`',
+    );
+  });
+
+  it('generates no flavor files without environments', async () => {
+    await new ScaffoldEngine({ ...engineOptions, registry }).run(makeContext(rawConfig));
+
+    expect(await pathExists(join(tmp.path, 'FLAVORS.md'))).toBe(false);
+    expect(await pathExists(join(tmp.path, 'lib/core/config/environment.dart'))).toBe(false);
+    expect(await read('lib/app.dart')).toContain("title: 'my_app',");
+  });
+});
@@ -0,0 +1,272 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { dump as yamlDump, load as yamlLoad } from 'js-yaml';
+
+import { ScaffoldEngine } from '../../src/scaffold/engine.js';
+import { createProjectContext } from '../../src/core/context.js';
+import { parseConfig } from '../../src/core/config/loader.js';
+import {
+  ARTIFACT_KINDS,
+  ARTIFACT_LAYERS,
+  parseArtifactTarget,
+  renderArtifact,
+  renderFeature,
+} from '../../src/generate/index.js';
+import { createGenerateCommand } from '../../src/cli/commands/generate.js';
+import { readGenerationManifest } from '../../src/scaffold/generation-manifest.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+import { createTestRegistry } from '../helpers/registry-factory.js';
+
+const engineOptions = {
+  templatesDir: resolve('templates/core'),
+  modulesTemplatesDir: resolve('templates/modules'),
+};
+
+const rawConfig = {
+  project: { name: 'my_app', orgId: 'com.example' },
+  claude: { enabled: false },
+  scaffold: { runDartFormat: false, runPubGet: false, runBuildRunner: false },
+};
+
+describe('Integration: generating a feature', () => {
+  const tmp = useTempDir('generate-command-test-');
+  const registry = createTestRegistry();
+
+  function makeContext(config: Record<string, unknown> = rawConfig) {
+    return createProjectContext(parseConfig(config, registry.getAll()), tmp.path);
+  }
+
+  it('renders the feature skeleton under lib/features/<name>/ and test/features/<name>/', async () => {
+    const generation = await renderFeature(makeContext(), { name: 'orders' });
+
+    expect(generation.files.map((f) => f.relativePath).sort()).toEqual([
+      'lib/features/orders/data/datasources/orders_remote_data_source.dart',
+      'lib/features/orders/data/models/orders_model.dart',
+      'lib/features/orders/data/repositories/orders_repository_impl.dart',
+      'lib/features/orders/domain/entities/orders.dart',
+      'lib/features/orders/domain/repositories/orders_repository.dart',
+      'lib/features/orders/presentation/pages/orders_page.dart',
+      'lib/features/orders/presentation/providers/orders_providers.dart',
+      'test/features/orders/data/orders_repository_impl_test.dart',
+      'test/features/orders/presentation/orders_page_test.dart',
+    ]);
+    expect(generation.feature).toEqual({
+      name: 'orders',
+      route: '/orders',
+      listDetail: false,
+      offlineCache: false,
+    });
+    expect(generation.dependencies.size).toBe(0);
+
+    const repository = generation.files.find((f) =>
+      f.relativePath.endsWith('orders_repository.dart'),
+    )!.content;
+    expect(repository).toContain('abstract class OrdersRepository {');
+    expect(repository).not.toContain('Future<void> delete(String id);');
+  });
+
+  it('adds the files and operations of the CRUD, list/detail and offline-cache variants', async () => {
+    const generation = await renderFeature(makeContext(), {
+      name: 'order_items',
+      route: '/orders/items',
+      crud: true,
+      listDetail: true,
+      offlineCache: true,
+    });
+    const content = (suffix: string) =>
+      generation.files.find((f) => f.relativePath.endsWith(suffix))!.content;
+
+    expect(generation.files.map((f) => f.relativePath)).toEqual(
+      expect.arrayContaining([
+        'lib/features/order_items/presentation/pages/order_items_detail_page.dart',
+        'lib/features/order_items/data/datasources/order_items_local_data_source.dart',
+      ]),
+    );
+    expect(content('order_items_repository.dart')).toContain('Future<void> delete(String id);');
+    expect(content('order_items_repository_impl.dart')).toContain('await _local.writeAll(models);');
+    expect(content('order_items_providers.dart')).toContain(
+      'Future<OrderItems?> orderItemsDetail(Ref ref, String id) {',
+    );
+    expect(content('order_items_page.dart')).toContain(
+      "onTap: () => context.push('/orders/items/${item.id}'),",
+    );
+    expect([...generation.dependencies.keys()]).toEqual(['shared_preferences']);
+  });
+
+  it('loads items through the ApiClient when the api module is enabled', async () => {
+    const withApi = await renderFeature(
+      makeContext({ ...rawConfig, modules: { api: { enabled: true } } }),
+      { name: 'orders' },
+    );
+    const withoutApi = await renderFeature(makeContext(), { name: 'orders' });
+    const remote = (files: typeof withApi.files) =>
+      files.find((f) => f.relativePath.endsWith('orders_remote_data_source.dart'))!.content;
+
+    expect(remote(withApi.files)).toContain("static const _path = '/orders';");
+    expect(remote(withApi.files)).toContain('final ApiClient _client;');
+    expect(remote(withoutApi.files)).toContain('final Map<String, OrdersModel> _items = {};');
+  });
+
+  it('rejects names that are not snake_case and routes without a leading slash', async () => {
+    await expect(renderFeature(makeContext(), { name: 'Orders' })).rejects.toThrow(
+      "Invalid feature name 'Orders'",
+    );
+    await expect(renderFeature(makeContext(), { name: 'orders', route: 'orders' })).rejects.toThrow(
+      "Invalid route 'orders'",
+    );
+  });
+
+  it('wires the routes and dependencies of configured features into a generated project', async () => {
+    const config = {
+      ...rawConfig,
+      features: [{ name: 'orders', route: '/orders', listDetail: true, offlineCache: true }],
+    };
+    await new ScaffoldEngine({ ...engineOptions, registry }).run(makeContext(config));
+
+    const router = await readFile(join(tmp.path, 'lib/core/router/app_router.dart'), 'utf-8');
+    expect(router).toContain(
+      "import '../../features/orders/presentation/pages/orders_detail_page.dart';",
+    );
+    expect(router).toContain('builder: (context, state) => const OrdersPage(),');
+    expect(router).toContain("path: '/orders/:id',");
+    expect(router).toContain(
+      "builder: (context, state) => OrdersDetailPage(id: state.pathParameters['id']!),",
+    );
+    const pubspec = await readFile(join(tmp.path, 'pubspec.yaml'), 'utf-8');
+    expect(pubspec).toContain('shared_preferences:');
+  });
+
+  it('writes the feature, registers its route and records it in maxsim.config.yaml', async () => {
+    await new ScaffoldEngine({ ...engineOptions, registry }).run(makeContext());
+    await writeFile(join(tmp.path, 'maxsim.config.yaml'), yamlDump(rawConfig), 'utf-8');
+
+    await createGenerateCommand().parseAsync(
+      ['feature', 'orders', '--list-detail', '--project-dir', tmp.path],
+      { from: 'user' },
+    );
+
+    const page = await readFile(
+      join(tmp.path, 'lib/features/orders/presentation/pages/orders_detail_page.dart'),
+      'utf-8',
+    );
+    expect(page).toContain('class OrdersDetailPage extends ConsumerWidget {');
+    const router = await readFile(join(tmp.path, 'lib/core/router/app_router.dart'), 'utf-8');
+    expect(router).toContain("path: '/orders/:id',");
+    const config = yamlLoad(
+      await readFile(join(tmp.path, 'maxsim.config.yaml'), 'utf-8'),
+    ) as Record<string, unknown>;
+    expect(config['features']).toEqual([
+      { name: 'orders', route: '/orders', listDetail: true, offlineCache: false },
+    ]);
+    const manifest = await readGenerationManifest(tmp.path);
+    expect(manifest!.files.map((f) => f.path)).toContain(
+      'lib/features/orders/domain/entities/orders.dart',
+    );
+  });
+
+  it('has a feature subcommand with the variant options', () => {
+    const feature = createGenerateCommand().commands.find((c) => c.name() === 'feature')!;
+
+    expect(feature.options.map((o) => o.long)).toEqual([
+      '--project-dir',
+      '--route',
+      '--crud',
+      '--list-detail',
+      '--offline-cache',
+      '--dry-run',
+    ]);
+  });
+});
+
+describe('Integration: generating artifacts of a feature', () => {
+  const tmp = useTempDir('generate-artifact-test-');
+  const registry = createTestRegistry();
+
+  function makeContext() {
+    return createProjectContext(parseConfig(rawConfig, registry.getAll()), tmp.path);
+  }
+
+  it('parses <feature>/<name> targets, with an optional layer directory', () => {
+    expect(parseArtifactTarget('usecase', 'orders/GetOrders')).toEqual({
+      feature: 'orders',
+      name: 'get_orders',
+    });
+    expect(parseArtifactTarget('usecase', 'orders/domain/usecases/get_orders')).toEqual({
+      feature: 'orders',
+      name: 'get_orders',
+    });
+    expect(parseArtifactTarget('repository', 'orders/data/order_stats').name).toBe('order_stats');
+    expect(() => parseArtifactTarget('page', 'orders')).toThrow("Invalid target 'orders'");
+  });
+
+  it('refuses targets in the wrong layer', () => {
+    expect(() => parseArtifactTarget('usecase', 'orders/data/get_orders')).toThrow(
+      'A usecase belongs in lib/features/orders/domain/usecases/, not in lib/features/orders/data/',
+    );
+    expect(() => parseArtifactTarget('model', 'orders/presentation/pages/order')).toThrow(
+      'A model belongs in lib/features/orders/data/models/',
+    );
+  });
+
+  it.each(ARTIFACT_KINDS)(
+    'renders a %s into its layer directory with a matching test',
+    async (kind) => {
+      const files = await renderArtifact(makeContext(), kind, {
+        feature: 'orders',
+        name: 'order_stats',
+      });
+      const paths = files.map((f) => f.relativePath);
+      const sources = paths.filter((path) => path.startsWith('lib/'));
+      const tests = paths.filter((path) => path.startsWith('test/'));
+
+      expect(sources).toHaveLength(ARTIFACT_LAYERS[kind].length);
+      for (const path of sources) {
+        expect(
+          ARTIFACT_LAYERS[kind].some((layer) =>
+            path.startsWith(`lib/features/orders/${layer}/order_stats`),
+          ),
+        ).toBe(true);
+      }
+      expect(tests).toHaveLength(1);
+      expect(tests[0]).toMatch(/^test\/features\/orders\/.*order_stats.*_test\.dart$/);
+      expect(files.every((f) => !f.content.includes('{{'))).toBe(true);
+    },
+  );
+
+  it('names classes with the case helpers', async () => {
+    const files = await renderArtifact(makeContext(), 'model', {
+      feature: 'orders',
+      name: 'order_line',
+    });
+    const model = files.find((f) => f.relativePath.startsWith('lib/'))!;
+
+    expect(model.relativePath).toBe('lib/features/orders/data/models/order_line_model.dart');
+    expect(model.content).toContain('class OrderLineModel with _$OrderLineModel {');
+    expect(model.content).toContain("part 'order_line_model.g.dart';");
+  });
+
+  it('writes the artifact into an existing feature', async () => {
+    await writeFile(join(tmp.path, 'maxsim.config.yaml'), yamlDump(rawConfig), 'utf-8');
+    await createGenerateCommand().parseAsync(['feature', 'orders', '--project-dir', tmp.path], {
+      from: 'user',
+    });
+
+    await createGenerateCommand().parseAsync(
+      ['usecase', 'orders/get_orders', '--project-dir', tmp.path],
+      { from: 'user' },
+    );
+
+    const useCase = await readFile(
+      join(tmp.path, 'lib/features/orders/domain/usecases/get_orders.dart'),
+      'utf-8',
+    );
+    expect(useCase).toContain('class GetOrders {');
+    const test = await readFile(
+      join(tmp.path, 'test/features/orders/domain/usecases/get_orders_test.dart'),
+      'utf-8',
+    );
+    expect(test).toContain(
+      "import 'package:my_app/features/orders/domain/usecases/get_orders.dart';",
+    );
+  });
+});
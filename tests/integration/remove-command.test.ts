@@ -0,0 +1,315 @@
+import { jest } from '@jest/globals';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { dump as yamlDump, load as yamlLoad } from 'js-yaml';
+import fsExtra from 'fs-extra';
+
+import { ScaffoldEngine } from '../../src/scaffold/engine.js';
+import { createProjectContext } from '../../src/core/context.js';
+import { parseConfig } from '../../src/core/config/loader.js';
+import { removePubspecEntries } from '../../src/scaffold/template-helpers.js';
+import { createRemoveCommand, planRemoval } from '../../src/cli/commands/remove.js';
+import { LOCAL_MODULES_DIR } from '../../src/modules/registry.js';
+import { recordGeneratedFiles } from '../../src/scaffold/generation-manifest.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+import { createTestRegistry } from '../helpers/registry-factory.js';
+
+const { outputFile, pathExists } = fsExtra;
+
+const TEMPLATES_DIR = resolve('templates/core');
+const MODULES_DIR = resolve('templates/modules');
+
+function makeRawConfig(modules: Record<string, unknown>): Record<string, unknown> {
+  return {
+    project: { name: 'my_app', orgId: 'com.example', description: 'A test Flutter app' },
+    modules,
+    claude: { enabled: false },
+    scaffold: { runDartFormat: false, runPubGet: false, runBuildRunner: false },
+  };
+}
+
+/** Scaffold a project from a raw config, the way `create` writes it. */
+async function scaffold(projectDir: string, rawConfig: Record<string, unknown>): Promise<void> {
+  const registry = createTestRegistry();
+  const config = parseConfig(rawConfig, registry.getAll());
+  const engine = new ScaffoldEngine({
+    templatesDir: TEMPLATES_DIR,
+    modulesTemplatesDir: MODULES_DIR,
+    registry,
+  });
+  await engine.run(createProjectContext(config, projectDir));
+  await writeFile(join(projectDir, 'maxsim.config.yaml'), yamlDump(rawConfig), 'utf-8');
+}
+
+describe('Integration: planning the removal of a module', () => {
+  const tmp = useTempDir('remove-module-test-');
+  const rawConfig = makeRawConfig({
+    auth: { enabled: true, provider: 'firebase' },
+    api: { enabled: true, baseUrl: 'https://api.example.com' },
+  });
+
+  it('deletes every generated file of the module when none was edited', async () => {
+    await scaffold(tmp.path, rawConfig);
+
+    const plan = await planRemoval(tmp.path, rawConfig, createTestRegistry(), 'api');
+
+    expect(plan.modifiedFiles).toEqual([]);
+    expect(plan.deletedFiles).toContain('lib/features/api/presentation/providers/api_provider.dart');
+    expect(plan.deletedFiles.every((f) => f.startsWith('lib/features/api/'))).toBe(true);
+  });
+
+  it('keeps generated files that were edited since', async () => {
+    await scaffold(tmp.path, rawConfig);
+    const edited = 'lib/features/api/presentation/providers/api_provider.dart';
+    await writeFile(join(tmp.path, edited), '// customised\n', 'utf-8');
+
+    const plan = await planRemoval(tmp.path, rawConfig, createTestRegistry(), 'api');
+
+    expect(plan.modifiedFiles).toEqual([edited]);
+    expect(plan.deletedFiles).not.toContain(edited);
+  });
+
+  it('deletes files changed by formatting, as recorded in .maxsim/generated.json', async () => {
+    await scaffold(tmp.path, rawConfig);
+    const formatted = 'lib/features/api/presentation/providers/api_provider.dart';
+    await writeFile(join(tmp.path, formatted), '// formatted\n', 'utf-8');
+    await recordGeneratedFiles(tmp.path, [{ relativePath: formatted, content: '', module: 'api' }]);
+
+    const plan = await planRemoval(tmp.path, rawConfig, createTestRegistry(), 'api');
+
+    expect(plan.deletedFiles).toContain(formatted);
+    expect(plan.modifiedFiles).toEqual([]);
+  });
+
+  it('drops only the dependencies the core template and remaining modules do not need', async () => {
+    await scaffold(tmp.path, rawConfig);
+
+    const plan = await planRemoval(tmp.path, rawConfig, createTestRegistry(), 'api');
+
+    expect(plan.pubspec.dependencies).toEqual(['dio', 'retrofit']);
+    expect(plan.pubspec.devDependencies).toEqual(['retrofit_generator']);
+    expect(plan.envVars).toEqual(['API_BASE_URL']);
+
+    const pubspecPath = join(tmp.path, 'pubspec.yaml');
+    const pubspec = yamlLoad(
+      removePubspecEntries(await readFile(pubspecPath, 'utf-8'), plan.pubspec),
+    ) as Record<string, Record<string, unknown>>;
+    expect(pubspec['dependencies']).not.toHaveProperty('dio');
+    expect(pubspec['dependencies']).toHaveProperty('json_annotation');
+    expect(pubspec['dependencies']).toHaveProperty('firebase_auth');
+  });
+
+  it('disables the module in the updated config and composes the remaining modules', async () => {
+    await scaffold(tmp.path, rawConfig);
+
+    const plan = await planRemoval(tmp.path, rawConfig, createTestRegistry(), 'auth');
+
+    expect(plan.config.modules['auth']).toBe(false);
+    expect(plan.context.modules.auth).toBe(false);
+    expect(plan.remaining.composed.routes.map((r) => r.name)).not.toContain('login');
+    expect(plan.remaining.composed.envVars).toEqual(['API_BASE_URL']);
+    expect(await pathExists(join(tmp.path, 'lib/features/auth'))).toBe(true);
+  });
+
+  it('lists the Claude rules the module contributed', async () => {
+    await scaffold(tmp.path, rawConfig);
+
+    const plan = await planRemoval(tmp.path, rawConfig, createTestRegistry(), 'api');
+
+    expect(plan.claudeFiles).toEqual(['.claude/rules/api.md']);
+  });
+
+  it('refuses to remove a module another enabled module requires', async () => {
+    const registry = createTestRegistry();
+    registry.register({
+      id: 'payments',
+      name: 'Payments',
+      description: 'Checkout',
+      requires: ['api'],
+      templateDir: 'templates/modules/payments',
+      ralphPhase: 3,
+      contributions: {},
+    });
+    const config = makeRawConfig({ api: { enabled: true }, payments: { enabled: true } });
+
+    await expect(planRemoval(tmp.path, config, registry, 'api')).rejects.toThrow(
+      "Module 'api' is required by payments",
+    );
+  });
+
+  describe('with two providers of a required capability', () => {
+    function makeRegistry() {
+      const registry = createTestRegistry();
+      for (const id of ['storage-local', 'storage-cloud']) {
+        registry.register({
+          id,
+          name: id,
+          description: 'Storage',
+          requires: [],
+          provides: ['storage'],
+          templateDir: `templates/modules/${id}`,
+          ralphPhase: 2,
+          contributions: {},
+        });
+      }
+      registry.register({
+        id: 'uploads',
+        name: 'Uploads',
+        description: 'File uploads',
+        requires: ['storage'],
+        templateDir: 'templates/modules/uploads',
+        ralphPhase: 3,
+        contributions: {},
+      });
+      return registry;
+    }
+
+    it('removes a provider while another enabled module provides the capability', async () => {
+      const config = makeRawConfig({
+        'storage-cloud': { enabled: true },
+        'storage-local': { enabled: true },
+        uploads: { enabled: true },
+      });
+
+      const plan = await planRemoval(tmp.path, config, makeRegistry(), 'storage-cloud');
+
+      expect(plan.addedModules).toEqual([]);
+      expect(plan.remaining.files).toEqual([]);
+    });
+
+    it('adds the other provider when it was not enabled', async () => {
+      const config = makeRawConfig({
+        'storage-cloud': { enabled: true },
+        uploads: { enabled: true },
+      });
+
+      const plan = await planRemoval(tmp.path, config, makeRegistry(), 'storage-cloud');
+
+      expect(plan.addedModules.map((m) => m.id)).toEqual(['storage-local']);
+      expect(plan.config.modules['storage-cloud']).toBe(false);
+      expect(plan.config.modules['storage-local']).toEqual({ enabled: true });
+    });
+
+    it('refuses when the other provider conflicts with an enabled module', async () => {
+      const registry = makeRegistry();
+      registry.register({
+        id: 'offline',
+        name: 'Offline',
+        description: 'Offline mode',
+        requires: [],
+        conflictsWith: ['storage-local'],
+        templateDir: 'templates/modules/offline',
+        ralphPhase: 3,
+        contributions: {},
+      });
+      const config = makeRawConfig({
+        offline: { enabled: true },
+        'storage-cloud': { enabled: true },
+        uploads: { enabled: true },
+      });
+
+      await expect(planRemoval(tmp.path, config, registry, 'storage-cloud')).rejects.toThrow(
+        "Module 'storage-cloud' is required by uploads",
+      );
+    });
+  });
+
+  it('refuses to remove modules that are not enabled or always included', async () => {
+    const registry = createTestRegistry();
+
+    await expect(planRemoval(tmp.path, rawConfig, registry, 'push')).rejects.toThrow(
+      "Module 'push' is not enabled in this project.",
+    );
+    await expect(planRemoval(tmp.path, rawConfig, registry, 'core')).rejects.toThrow(
+      'always included',
+    );
+    await expect(planRemoval(tmp.path, rawConfig, registry, 'nope')).rejects.toThrow(
+      "Unknown module 'nope'",
+    );
+  });
+});
+
+describe('Integration: remove command', () => {
+  const tmp = useTempDir('remove-command-test-');
+
+  let mockProcessExit: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    mockProcessExit = jest
+      .spyOn(process, 'exit')
+      .mockImplementation((() => {}) as typeof process.exit);
+  });
+
+  afterEach(() => {
+    mockProcessExit.mockRestore();
+  });
+
+  /** Write a project-local module providing the 'storage' capability. */
+  async function writeStorageModule(id: string): Promise<void> {
+    const moduleDir = join(tmp.path, LOCAL_MODULES_DIR, id);
+    await outputFile(
+      join(moduleDir, 'module.mjs'),
+      `export const manifest = {
+  id: '${id}',
+  name: '${id}',
+  description: 'Storage',
+  requires: [],
+  provides: ['storage'],
+  templateDir: 'templates',
+  ralphPhase: 2,
+  contributions: { pubspecDependencies: { '${id.replace('-', '_')}': '^1.0.0' } },
+};
+`,
+      'utf-8',
+    );
+    await outputFile(join(moduleDir, `templates/lib/${id}.dart.hbs`), `// ${id}\n`, 'utf-8');
+  }
+
+  it('adds the other provider of a capability in place of the removed one', async () => {
+    await writeStorageModule('storage-cloud');
+    await writeStorageModule('storage-local');
+    await outputFile(
+      join(tmp.path, LOCAL_MODULES_DIR, 'uploads/module.mjs'),
+      `export const manifest = {
+  id: 'uploads',
+  name: 'Uploads',
+  description: 'File uploads',
+  requires: ['storage'],
+  templateDir: 'templates',
+  ralphPhase: 3,
+  contributions: {},
+};
+`,
+      'utf-8',
+    );
+    const rawConfig = makeRawConfig({});
+    await scaffold(tmp.path, rawConfig);
+    await writeFile(
+      join(tmp.path, 'maxsim.config.yaml'),
+      yamlDump(
+        makeRawConfig({ 'storage-cloud': { enabled: true }, uploads: { enabled: true } }),
+      ),
+      'utf-8',
+    );
+    await outputFile(join(tmp.path, 'lib/storage-cloud.dart'), '// storage-cloud\n', 'utf-8');
+
+    await createRemoveCommand().parseAsync(
+      ['storage-cloud', '--project-dir', tmp.path, '--no-claude'],
+      { from: 'user' },
+    );
+
+    expect(mockProcessExit).not.toHaveBeenCalled();
+    expect(await pathExists(join(tmp.path, 'lib/storage-cloud.dart'))).toBe(false);
+    expect(await readFile(join(tmp.path, 'lib/storage-local.dart'), 'utf-8')).toBe(
+      '// storage-local\n',
+    );
+    const config = yamlLoad(
+      await readFile(join(tmp.path, 'maxsim.config.yaml'), 'utf-8'),
+    ) as { modules: Record<string, unknown> };
+    expect(config.modules['storage-cloud']).toBe(false);
+    expect(config.modules['storage-local']).toEqual({ enabled: true });
+    expect(await readFile(join(tmp.path, 'pubspec.yaml'), 'utf-8')).toContain(
+      'storage_local: ^1.0.0',
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { jest } from '@jest/globals';
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { dump as yamlDump } from 'js-yaml';
+import fsExtra from 'fs-extra';
+
+import { ScaffoldEngine } from '../../src/scaffold/engine.js';
+import { createAddCommand } from '../../src/cli/commands/add.js';
+import { LOCAL_MODULES_DIR } from '../../src/modules/registry.js';
+import { makeWritableContext } from '../helpers/context-factory.js';
+import { createTestRegistry } from '../helpers/registry-factory.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+import type { ModuleManifest } from '../../src/types/module.js';
+
+const { outputFile, pathExists } = fsExtra;
+
+const engineOptions = {
+  templatesDir: resolve('templates/core'),
+  modulesTemplatesDir: resolve('templates/modules'),
+};
+
+const failingManifest: ModuleManifest = {
+  id: 'failing',
+  name: 'Failing',
+  description: 'Module whose afterGenerate hook throws',
+  requires: [],
+  templateDir: 'templates',
+  ralphPhase: 2,
+  contributions: {},
+  hooks: {
+    afterGenerate: async () => {
+      throw new Error('afterGenerate failed');
+    },
+  },
+};
+
+describe('Integration: ScaffoldEngine rollback', () => {
+  const tmp = useTempDir('engine-rollback-test-');
+
+  function makeFailingRun(outputDir: string) {
+    const registry = createTestRegistry();
+    registry.register(failingManifest);
+    const context = makeWritableContext(outputDir);
+    return new ScaffoldEngine({ ...engineOptions, registry }).run({
+      ...context,
+      modules: { ...context.modules, failing: {} },
+    });
+  }
+
+  it('removes everything it wrote to an empty output directory when a step throws', async () => {
+    await expect(makeFailingRun(tmp.path)).rejects.toThrow('afterGenerate failed');
+
+    expect(await readdir(tmp.path)).toEqual([]);
+  });
+
+  it('restores the previous contents of an existing project when a step throws', async () => {
+    await writeFile(join(tmp.path, 'pubspec.yaml'), 'name: original\n', 'utf-8');
+    await outputFile(join(tmp.path, 'notes.txt'), 'kept', 'utf-8');
+
+    await expect(makeFailingRun(tmp.path)).rejects.toThrow('afterGenerate failed');
+
+    expect(await readFile(join(tmp.path, 'pubspec.yaml'), 'utf-8')).toBe('name: original\n');
+    expect((await readdir(tmp.path)).sort()).toEqual(['notes.txt', 'pubspec.yaml']);
+  });
+});
+
+describe('Integration: add rollback', () => {
+  const tmp = useTempDir('add-rollback-test-');
+
+  let mockProcessExit: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    mockProcessExit = jest
+      .spyOn(process, 'exit')
+      .mockImplementation((() => {}) as typeof process.exit);
+  });
+
+  afterEach(() => {
+    mockProcessExit.mockRestore();
+  });
+
+  it('restores the project when a hook of the added module throws', async () => {
+    const rawConfig = {
+      project: { name: 'my_app', orgId: 'com.example' },
+      claude: { enabled: false },
+      scaffold: { runDartFormat: false, runPubGet: false, runBuildRunner: false },
+    };
+    await new ScaffoldEngine(engineOptions).run(makeWritableContext(tmp.path));
+    await writeFile(join(tmp.path, 'maxsim.config.yaml'), yamlDump(rawConfig), 'utf-8');
+
+    // A project-local module that writes a file, then fails in its onAdd hook
+    const moduleDir = join(tmp.path, LOCAL_MODULES_DIR, 'failing');
+    await outputFile(
+      join(moduleDir, 'module.mjs'),
+      `export const manifest = {
+  id: 'failing',
+  name: 'Failing',
+  description: 'Module whose onAdd hook throws',
+  requires: [],
+  templateDir: 'templates',
+  ralphPhase: 2,
+  contributions: { pubspecDependencies: { http: '^1.2.0' } },
+  hooks: {
+    onAdd: async () => {
+      throw new Error('onAdd failed');
+    },
+  },
+};
+`,
+      'utf-8',
+    );
+    await outputFile(join(moduleDir, 'templates/lib/failing.dart.hbs'), '// failing\n', 'utf-8');
+
+    const configBefore = await readFile(join(tmp.path, 'maxsim.config.yaml'), 'utf-8');
+    const pubspecBefore = await readFile(join(tmp.path, 'pubspec.yaml'), 'utf-8');
+    const manifestBefore = await readFile(join(tmp.path, '.maxsim/generated.json'), 'utf-8');
+
+    await createAddCommand().parseAsync(['failing', '--project-dir', tmp.path, '--no-claude'], {
+      from: 'user',
+    });
+
+    expect(mockProcessExit).toHaveBeenCalledWith(1);
+    expect(await pathExists(join(tmp.path, 'lib/failing.dart'))).toBe(false);
+    expect(await pathExists(join(tmp.path, '.maxsim/base/lib/failing.dart.base'))).toBe(false);
+    expect(await readFile(join(tmp.path, 'maxsim.config.yaml'), 'utf-8')).toBe(configBefore);
+    expect(await readFile(join(tmp.path, 'pubspec.yaml'), 'utf-8')).toBe(pubspecBefore);
+    expect(await readFile(join(tmp.path, '.maxsim/generated.json'), 'utf-8')).toBe(manifestBefore);
+  });
+});
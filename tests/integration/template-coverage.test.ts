@@ -3,6 +3,7 @@ import { readFile } from 'node:fs/promises';
 import fsExtra from 'fs-extra';
 import { load as yamlLoad } from 'js-yaml';
 import { ScaffoldEngine } from '../../src/scaffold/engine.js';
+import { ModuleResolver } from '../../src/modules/resolver.js';
 import { makeWritableContext } from '../helpers/context-factory.js';
 import { useTempDir } from '../helpers/temp-dir.js';
 import { createTestRegistry } from '../helpers/registry-factory.js';
@@ -202,6 +203,46 @@ describe('Analytics router wiring', () => {
       'utf-8',
     );
     expect(routerContent).not.toContain('analyticsRouteObserverProvider');
+    expect(routerContent).not.toContain('authStateProvider');
+  });
+
+  it('app_router.dart sets the analytics user from the auth state with auth enabled', async () => {
+    const registry = createTestRegistry();
+    const engine = new ScaffoldEngine({
+      templatesDir: TEMPLATES_DIR,
+      modulesTemplatesDir: MODULES_DIR,
+      registry,
+    });
+    const context = makeWritableContext(tmp.path, {
+      modules: {
+        analytics: { enabled: true },
+        auth: { provider: 'firebase' },
+        api: false,
+        database: false,
+        i18n: false,
+        theme: false,
+        push: false,
+        cicd: false,
+        deepLinking: false,
+      },
+    });
+    await engine.run(context);
+
+    const routerContent = await readFile(
+      join(tmp.path, 'lib/core/router/app_router.dart'),
+      'utf-8',
+    );
+    expect(routerContent).toContain(
+      "import '../../features/auth/presentation/providers/auth_provider.dart';",
+    );
+    expect(routerContent).toContain('ref.listen(authStateProvider, (_, next) {');
+    expect(routerContent).toContain('analytics.setUserId(user.id);');
+    expect(routerContent).toContain('analytics.resetAnalyticsData();');
+
+    // analytics enhances auth, so it is ordered after it
+    const ordered = new ModuleResolver(registry).resolve(['analytics', 'auth']).ordered;
+    const ids = ordered.map((m) => m.id);
+    expect(ids.indexOf('analytics')).toBeGreaterThan(ids.indexOf('auth'));
   });
 });
 
@@ -0,0 +1,94 @@
+import { rm, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+import { ScaffoldEngine } from '../../src/scaffold/engine.js';
+import { createProjectContext } from '../../src/core/context.js';
+import { parseConfig } from '../../src/core/config/loader.js';
+import { planModuleUpgrade } from '../../src/cli/commands/upgrade.js';
+import { MODULE_LOCK_PATH, readModuleLock } from '../../src/modules/versions.js';
+import { recordGeneratedFiles } from '../../src/scaffold/generation-manifest.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+import { createTestRegistry } from '../helpers/registry-factory.js';
+
+const TEMPLATES_DIR = resolve('templates/core');
+const MODULES_DIR = resolve('templates/modules');
+const API_PROVIDER = 'lib/features/api/presentation/providers/api_provider.dart';
+
+const rawConfig = {
+  project: { name: 'my_app', orgId: 'com.example' },
+  modules: { auth: { enabled: true, provider: 'firebase' }, api: { enabled: true } },
+  claude: { enabled: false },
+  scaffold: { runDartFormat: false, runPubGet: false, runBuildRunner: false },
+};
+
+describe('Integration: upgrading module templates', () => {
+  const tmp = useTempDir('upgrade-modules-test-');
+
+  async function scaffold() {
+    const registry = createTestRegistry();
+    const context = createProjectContext(parseConfig(rawConfig, registry.getAll()), tmp.path);
+    await new ScaffoldEngine({
+      templatesDir: TEMPLATES_DIR,
+      modulesTemplatesDir: MODULES_DIR,
+      registry,
+    }).run(context);
+    return { registry, context };
+  }
+
+  it('records the installed module versions when scaffolding', async () => {
+    await scaffold();
+
+    expect(await readModuleLock(tmp.path)).toEqual({ modules: { auth: '1.0.0', api: '1.0.0' } });
+  });
+
+  it('finds nothing to upgrade right after scaffolding', async () => {
+    const { registry, context } = await scaffold();
+
+    const plan = await planModuleUpgrade(tmp.path, context, registry);
+
+    expect(plan.updates).toEqual([]);
+    expect(plan.files.size).toBe(0);
+  });
+
+  it('lists new and changed files of modules with newer templates', async () => {
+    const { registry, context } = await scaffold();
+    registry.register({ ...registry.get('api'), version: '1.1.0' });
+    await writeFile(join(tmp.path, API_PROVIDER), '// customised\n', 'utf-8');
+    const deleted = 'lib/features/api/data/interceptors/retry_interceptor.dart';
+    await rm(join(tmp.path, deleted), { force: true });
+
+    const plan = await planModuleUpgrade(tmp.path, context, registry);
+
+    expect(plan.updates).toEqual([{ moduleId: 'api', installed: '1.0.0', available: '1.1.0' }]);
+    expect(plan.modules.map((m) => m.id)).toEqual(['api']);
+    expect(plan.changedFiles).toEqual([API_PROVIDER]);
+    expect(plan.editedFiles).toEqual([API_PROVIDER]);
+    expect(plan.newFiles).toEqual([deleted]);
+    expect([...plan.files.keys()].every((f) => f.startsWith('lib/features/api/'))).toBe(true);
+  });
+
+  it('treats every module as outdated in projects without a lockfile', async () => {
+    const { registry, context } = await scaffold();
+    await rm(join(tmp.path, MODULE_LOCK_PATH));
+
+    const plan = await planModuleUpgrade(tmp.path, context, registry);
+
+    expect(plan.updates.map((u) => u.moduleId)).toEqual(['api', 'auth']);
+    expect(plan.newFiles).toEqual([]);
+    expect(plan.changedFiles).toEqual([]);
+  });
+
+  it('does not count files left as generated as edited', async () => {
+    const { registry, context } = await scaffold();
+    await writeFile(join(tmp.path, API_PROVIDER), '// generated by 1.0.0\n', 'utf-8');
+    await recordGeneratedFiles(tmp.path, [
+      { relativePath: API_PROVIDER, content: '', module: 'api' },
+    ]);
+    registry.register({ ...registry.get('api'), version: '1.1.0' });
+
+    const plan = await planModuleUpgrade(tmp.path, context, registry);
+
+    expect(plan.changedFiles).toEqual([API_PROVIDER]);
+    expect(plan.editedFiles).toEqual([]);
+  });
+});
@@ -160,6 +160,20 @@ describe('getEnabledModuleIds', () => {
     const enabled = getEnabledModuleIds(config);
     expect(enabled.size).toBe(9);
   });
+
+  it('detects enabled external modules and ignores disabled ones', () => {
+    const config = parseConfig({
+      project: { name: 'my_app', orgId: 'com.example' },
+      modules: {
+        'stripe-payments': { enabled: true },
+        'paypal-payments': { enabled: false },
+      },
+      externalModules: ['maxsim-module-stripe', 'maxsim-module-paypal'],
+    });
+    const enabled = getEnabledModuleIds(config);
+    expect(enabled.has('stripe-payments')).toBe(true);
+    expect(enabled.has('paypal-payments')).toBe(false);
+  });
 });
 
 describe('mergePubspecYaml', () => {
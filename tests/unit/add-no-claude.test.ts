@@ -7,6 +7,7 @@ import { useTempDir } from '../helpers/temp-dir.js';
 // ── Mock factories (declared before unstable_mockModule calls) ─────────────
 
 const mockLogInfo = jest.fn();
+const mockLogError = jest.fn();
 const mockRunClaudeSetup = jest.fn<() => Promise<void>>();
 const mockLoadConfig = jest.fn<() => Promise<Record<string, unknown>>>();
 const mockParseConfig = jest.fn<() => Record<string, unknown>>();
@@ -19,8 +20,7 @@ const mockRegistryGet = jest.fn<() => Record<string, unknown>>();
 
 const mockResolverResolve = jest.fn<() => Record<string, unknown>>();
 const mockWriteAll = jest.fn<() => Promise<Record<string, unknown>>>();
-const mockCollectAndRenderTemplates = jest.fn<() => Promise<unknown[]>>();
-const mockProcessPubspecPartial = jest.fn<() => Promise<Record<string, unknown>>>();
+const mockComposeModules = jest.fn<() => Promise<Record<string, unknown>>>();
 
 // ── ESM mocks (BEFORE dynamic import) ──────────────────────────────────────
 
@@ -31,7 +31,7 @@ jest.unstable_mockModule('@clack/prompts', () => ({
     success: jest.fn(),
     warn: jest.fn(),
     step: jest.fn(),
-    error: jest.fn(),
+    error: mockLogError,
   },
   outro: jest.fn(),
   isCancel: jest.fn().mockReturnValue(false),
@@ -51,21 +51,31 @@ jest.unstable_mockModule('../../src/core/context.js', () => ({
 }));
 
 jest.unstable_mockModule('../../src/claude-setup/index.js', () => ({
+  CLAUDE_SETUP_PATHS: [],
   runClaudeSetup: mockRunClaudeSetup,
 }));
 
 jest.unstable_mockModule('../../src/modules/registry.js', () => ({
-  ModuleRegistry: jest.fn().mockImplementation(() => ({
-    loadAll: mockRegistryLoadAll,
-    getAllOptionalIds: mockRegistryGetAllOptionalIds,
-    has: mockRegistryHas,
-    get: mockRegistryGet,
-  })),
+  loadModuleRegistry: jest.fn(async () => {
+    await mockRegistryLoadAll();
+    return {
+      registry: {
+        getAllOptionalIds: mockRegistryGetAllOptionalIds,
+        has: mockRegistryHas,
+        get: mockRegistryGet,
+        getAll: jest.fn(() => []),
+        getTemplateDir: jest.fn(),
+      },
+      externalErrors: [],
+    };
+  }),
+  formatExternalModuleError: jest.fn(),
 }));
 
 jest.unstable_mockModule('../../src/modules/resolver.js', () => ({
   ModuleResolver: jest.fn().mockImplementation(() => ({
     resolve: mockResolverResolve,
+    findCapabilityChoices: jest.fn(() => []),
   })),
 }));
 
@@ -74,15 +84,18 @@ jest.unstable_mockModule('../../src/scaffold/renderer.js', () => ({
 }));
 
 jest.unstable_mockModule('../../src/scaffold/file-writer.js', () => ({
+  BASE_DIR: '.maxsim/base',
   FileWriter: jest.fn().mockImplementation(() => ({
     writeAll: mockWriteAll,
   })),
 }));
 
 jest.unstable_mockModule('../../src/scaffold/template-helpers.js', () => ({
-  buildTemplateContext: jest.fn().mockReturnValue({}),
-  collectAndRenderTemplates: mockCollectAndRenderTemplates,
-  processPubspecPartial: mockProcessPubspecPartial,
+  ENV_ACCESSOR_OUTPUT_PATH: 'lib/core/config/env.dart',
+  ENV_EXAMPLE_OUTPUT_PATH: '.env.example',
+  appendEnvVars: jest.fn((content: string) => content),
+  composeModules: mockComposeModules,
+  mergePubspecContent: jest.fn((content: string) => content),
 }));
 
 jest.unstable_mockModule('../../src/cli/ui/spinner.js', () => ({
@@ -111,14 +124,21 @@ function setupMocksForSuccessfulAdd(): void {
     alwaysIncluded: false,
   });
   mockResolverResolve.mockReturnValue({
-    ordered: [{ id: 'theme', alwaysIncluded: false }],
+    ordered: [{ id: 'theme', alwaysIncluded: false, contributions: {} }],
   });
   mockWriteAll.mockResolvedValue({ written: [], skipped: [] });
-  mockCollectAndRenderTemplates.mockResolvedValue([]);
-  mockProcessPubspecPartial.mockResolvedValue({
-    deps: new Map(),
-    devDeps: new Map(),
-    flutter: {},
+  mockComposeModules.mockResolvedValue({
+    templateContext: {},
+    files: [],
+    composed: {
+      dependencies: new Map(),
+      devDependencies: new Map(),
+      pubspecFlutter: {},
+      conflicts: [],
+      providers: [],
+      routes: [],
+      envVars: [],
+    },
   });
   mockLoadConfig.mockResolvedValue({
     project: { name: 'test_app', orgId: 'com.example' },
@@ -192,3 +212,43 @@ describe('add command — --no-claude flag behavior', () => {
     expect(allInfoCalls.some((arg) => arg.includes('CLAUDE.md'))).toBe(false);
   });
 });
+
+describe('add command — dependency resolution', () => {
+  const tmp = useTempDir('add-resolution-');
+
+  let mockProcessExit: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockProcessExit = jest.spyOn(process, 'exit').mockImplementation(
+      (() => {}) as typeof process.exit,
+    );
+
+    const configYaml = yamlDump({
+      project: { name: 'test_app', orgId: 'com.example' },
+      modules: {},
+    });
+    await writeFile(join(tmp.path, 'maxsim.config.yaml'), configYaml, 'utf-8');
+
+    setupMocksForSuccessfulAdd();
+  });
+
+  afterEach(() => {
+    mockProcessExit.mockRestore();
+  });
+
+  it('fails without writing files when a required capability has no provider', async () => {
+    mockResolverResolve.mockImplementation(() => {
+      throw new Error("Module 'theme' requires 'storage', but 'storage' was not found in registry");
+    });
+
+    const cmd = createAddCommand();
+    await cmd.parseAsync(['theme', '--project-dir', tmp.path, '--no-claude'], { from: 'user' });
+
+    expect(mockLogError).toHaveBeenCalledWith(
+      "Module 'theme' requires 'storage', but 'storage' was not found in registry",
+    );
+    expect(mockProcessExit).toHaveBeenCalledWith(1);
+    expect(mockWriteAll).not.toHaveBeenCalled();
+  });
+});
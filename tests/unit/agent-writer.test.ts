@@ -175,7 +175,7 @@ describe('buildAgentDefinitions', () => {
           ...makeContext().modules,
           auth: { provider: 'firebase' },
           api: { baseUrl: 'https://api.test.com' },
-          theme: { seedColor: '#6750A4', darkMode: true },
+          theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
         },
       });
       const agents = buildAgentDefinitions(ctx);
@@ -191,7 +191,7 @@ describe('buildAgentDefinitions', () => {
           api: { baseUrl: 'https://api.test.com' },
           database: { engine: 'drift' },
           i18n: { defaultLocale: 'en', supportedLocales: ['en'] },
-          theme: { seedColor: '#6750A4', darkMode: true },
+          theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
           push: { provider: 'firebase' },
           analytics: { enabled: true },
           cicd: { provider: 'github' },
@@ -1,5 +1,6 @@
 import { generateClaudeMd } from '../../src/claude-setup/claude-md-generator.js';
-import { makeTestContext } from '../helpers/context-factory.js';
+import { DEFAULT_CONTEXT, makeTestContext } from '../helpers/context-factory.js';
+import type { ProjectContext } from '../../src/core/context.js';
 
 function makeContext(overrides: Partial<Parameters<typeof makeTestContext>[0]> = {}) {
   return makeTestContext({
@@ -74,7 +75,7 @@ describe('generateClaudeMd', () => {
           api: { baseUrl: 'https://api.test.com' },
           database: { engine: 'drift' },
           i18n: { defaultLocale: 'en', supportedLocales: ['en'] },
-          theme: { darkMode: true },
+          theme: { useMaterial3: true, darkMode: true },
           push: { provider: 'firebase' },
           analytics: { enabled: true },
           cicd: { provider: 'github' },
@@ -110,6 +111,34 @@ describe('generateClaudeMd', () => {
       expect(result).toContain('flutter pub get');
       expect(result).toContain('flutter run');
     });
+
+    it('runs each flavor through its entry point when environments are configured', () => {
+      const result = generateClaudeMd(
+        makeContext({
+          rawConfig: {
+            environments: [{ name: 'dev' }, { name: 'prod' }],
+          } as ProjectContext['rawConfig'],
+        }),
+      );
+      // Without `flutter create`, the Android app declares no product flavors
+      expect(result).toContain('flutter run -t lib/main_dev.dart');
+      expect(result).toContain('flutter run -t lib/main_prod.dart');
+      expect(result).not.toContain('--flavor');
+      expect(result).not.toMatch(/^flutter run$/m);
+    });
+
+    it('names the flavor once flutter create adds the Android product flavors', () => {
+      const result = generateClaudeMd(
+        makeContext({
+          scaffold: { ...DEFAULT_CONTEXT.scaffold, flutterCreate: true },
+          rawConfig: {
+            environments: [{ name: 'dev' }, { name: 'prod' }],
+          } as ProjectContext['rawConfig'],
+        }),
+      );
+      expect(result).toContain('flutter run --flavor dev -t lib/main_dev.dart');
+      expect(result).toContain('flutter run --flavor prod -t lib/main_prod.dart');
+    });
   });
 
   describe('agent teams workflow section', () => {
@@ -160,7 +189,7 @@ describe('generateClaudeMd', () => {
           api: { baseUrl: 'https://api.example.com' },
           database: { engine: 'drift' },
           i18n: { defaultLocale: 'en', supportedLocales: ['en', 'de'] },
-          theme: { seedColor: '#6750A4', darkMode: true },
+          theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
           push: { provider: 'firebase' },
           analytics: { enabled: true },
           cicd: { provider: 'github' },
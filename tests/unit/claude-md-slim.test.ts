@@ -10,7 +10,7 @@ const ALL_MODULES_CTX = makeTestContext({
     api: { baseUrl: 'https://api.example.com' },
     database: { engine: 'drift' },
     i18n: { defaultLocale: 'en', supportedLocales: ['en', 'de'] },
-    theme: { seedColor: '#6750A4', darkMode: true },
+    theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
     push: { provider: 'firebase' },
     analytics: { enabled: true },
     cicd: { provider: 'github' },
@@ -1,4 +1,13 @@
-import { ModuleComposer, pickNewerVersion } from '../../src/modules/composer.js';
+import { jest } from '@jest/globals';
+import {
+  ModuleComposer,
+  formatVersionConflict,
+  getActiveContributions,
+  pickNewerVersion,
+} from '../../src/modules/composer.js';
+import { manifest as authManifest } from '../../src/modules/definitions/auth/module.js';
+import { manifest as pushManifest } from '../../src/modules/definitions/push/module.js';
+import { manifest as databaseManifest } from '../../src/modules/definitions/database/module.js';
 import type { ModuleManifest } from '../../src/types/module.js';
 import type { ProjectContext } from '../../src/core/context.js';
 import { makeTestContext } from '../helpers/context-factory.js';
@@ -332,6 +341,63 @@ describe('ModuleComposer', () => {
       expect(result.dependencies.get('always_dep')).toBe('^1.0.0');
     });
 
+    it('merges conditional blocks whose predicate matches the context', () => {
+      const mod = makeManifest({
+        id: 'payments',
+        contributions: {
+          pubspecDependencies: { 'base_dep': '^1.0.0' },
+        },
+        conditionalContributions: [
+          {
+            when: () => true,
+            contributions: {
+              pubspecDependencies: { 'stripe_dep': '^2.0.0' },
+              providers: [{ name: 'stripeProvider', importPath: 'stripe.dart' }],
+            },
+          },
+          {
+            when: () => false,
+            contributions: {
+              pubspecDependencies: { 'paypal_dep': '^3.0.0' },
+              routes: [{ path: '/paypal', name: 'paypal', importPath: 'paypal_page.dart' }],
+            },
+          },
+        ],
+      });
+
+      const result = composer.compose([mod], context);
+
+      expect([...result.dependencies.keys()]).toEqual(['base_dep', 'stripe_dep']);
+      expect(result.providers.map((p) => p.name)).toEqual(['stripeProvider']);
+      expect(result.routes).toHaveLength(0);
+    });
+
+    it('evaluates conditional blocks against the given context', () => {
+      const when = jest.fn((ctx: ProjectContext) => ctx.projectName === 'shop_app');
+      const mod = makeManifest({
+        conditionalContributions: [
+          { when, contributions: { envVars: ['SHOP_API_KEY'] } },
+        ],
+      });
+
+      expect(composer.compose([mod], context).envVars).toEqual([]);
+      expect(
+        composer.compose([mod], makeContext({ projectName: 'shop_app' })).envVars,
+      ).toEqual(['SHOP_API_KEY']);
+      expect(when).toHaveBeenCalledTimes(2);
+    });
+
+    it('skips conditional blocks of modules where isEnabled returns false', () => {
+      const when = jest.fn(() => true);
+      const mod = makeManifest({
+        isEnabled: () => false,
+        conditionalContributions: [{ when, contributions: { envVars: ['UNUSED'] } }],
+      });
+
+      expect(composer.compose([mod], context).envVars).toEqual([]);
+      expect(when).not.toHaveBeenCalled();
+    });
+
     it('handles modules with empty contributions', () => {
       const mod = makeManifest({
         id: 'empty',
@@ -420,6 +486,159 @@ describe('ModuleComposer', () => {
     });
   });
 
+  describe('provider-specific built-in contributions', () => {
+    it.each([
+      ['firebase', ['firebase_core', 'firebase_auth']],
+      ['supabase', ['supabase_flutter']],
+      ['custom', ['dio']],
+    ] as const)('auth with %s contributes only its own dependencies', (provider, expected) => {
+      const ctx = makeContext({ modules: { ...makeContext().modules, auth: { provider } } });
+      const result = composer.compose([authManifest], ctx);
+      expect([...result.dependencies.keys()]).toEqual(expected);
+      expect(result.routes.map((r) => r.path)).toEqual(['/login', '/register']);
+    });
+
+    it.each([
+      ['firebase', ['firebase_messaging']],
+      ['onesignal', ['onesignal_flutter']],
+    ] as const)('push with %s contributes only its own dependencies', (provider, expected) => {
+      const ctx = makeContext({ modules: { ...makeContext().modules, push: { provider } } });
+      expect([...composer.compose([pushManifest], ctx).dependencies.keys()]).toEqual(expected);
+    });
+
+    it('database contributes the dependencies of the selected engine', () => {
+      const ctx = makeContext({ modules: { ...makeContext().modules, database: { engine: 'hive' } } });
+      const result = composer.compose([databaseManifest], ctx);
+      expect([...result.dependencies.keys()]).toEqual(['path_provider', 'hive_ce_flutter']);
+      expect([...result.devDependencies.keys()]).toEqual(['hive_ce_generator']);
+    });
+
+    it('getActiveContributions returns the base contributions first', () => {
+      const ctx = makeContext({ modules: { ...makeContext().modules, auth: { provider: 'supabase' } } });
+      const active = getActiveContributions(authManifest, ctx);
+      expect(active[0]).toBe(authManifest.contributions);
+      expect(active).toHaveLength(2);
+    });
+  });
+
+  describe('pubspec partials and version conflicts', () => {
+    function makePartial(
+      deps: Record<string, string | Record<string, unknown>> = {},
+      devDeps: Record<string, string | Record<string, unknown>> = {},
+      flutter: Record<string, unknown> = {},
+    ) {
+      return {
+        deps: new Map(Object.entries(deps)),
+        devDeps: new Map(Object.entries(devDeps)),
+        flutter,
+      };
+    }
+
+    function requiring(
+      id: string,
+      deps: Record<string, string | Record<string, unknown>>,
+      section: 'pubspecDependencies' | 'pubspecDevDependencies' = 'pubspecDependencies',
+    ): ModuleManifest {
+      return makeManifest({ id, contributions: { [section]: deps } });
+    }
+
+    it('merges the pubspec partial of each module with its manifest dependencies', () => {
+      const mod = makeManifest({
+        id: 'i18n',
+        contributions: { pubspecDependencies: { intl: '^0.19.0' } },
+      });
+      const partials = new Map([
+        [
+          'i18n',
+          makePartial(
+            { flutter_localizations: { sdk: 'flutter' }, intl: '^0.19.0' },
+            { intl_utils: '^2.8.7' },
+            { generate: true },
+          ),
+        ],
+      ]);
+
+      const result = composer.compose([mod], context, partials);
+
+      expect(result.dependencies.get('flutter_localizations')).toEqual({ sdk: 'flutter' });
+      expect(result.dependencies.get('intl')).toBe('^0.19.0');
+      expect(result.devDependencies.get('intl_utils')).toBe('^2.8.7');
+      expect(result.pubspecFlutter).toEqual({ generate: true });
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('ignores partials of modules that are not composed', () => {
+      const partials = new Map([['other', makePartial({ other_dep: '^1.0.0' })]]);
+      const result = composer.compose([makeManifest()], context, partials);
+      expect(result.dependencies.size).toBe(0);
+    });
+
+    it('lets a source dependency win over a version constraint', () => {
+      const modA = requiring('a', { shared: { path: '../shared' } });
+      const modB = requiring('b', { shared: '^1.0.0' });
+
+      const result = composer.compose([modA, modB], context);
+
+      expect(result.dependencies.get('shared')).toEqual({ path: '../shared' });
+      expect(result.conflicts).toEqual([
+        {
+          package: 'shared',
+          section: 'dependencies',
+          requested: [
+            { moduleId: 'a', version: 'path: ../shared' },
+            { moduleId: 'b', version: '^1.0.0' },
+          ],
+          resolved: 'path: ../shared',
+        },
+      ]);
+    });
+
+    it('reports constraints with different major versions as a conflict', () => {
+      const modA = requiring('a', { dio: '^4.0.6' });
+      const modB = requiring('b', { dio: '^5.7.0' }, 'pubspecDevDependencies');
+      const modC = requiring('c', { dio: '^5.7.0' });
+
+      const result = composer.compose([modA, modB, modC], context);
+
+      expect(result.dependencies.get('dio')).toBe('^5.7.0');
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0]).toMatchObject({
+        package: 'dio',
+        section: 'dependencies',
+        resolved: '^5.7.0',
+      });
+    });
+
+    it('treats 0.x constraints with different minor versions as incompatible', () => {
+      const modA = requiring('a', { intl: '^0.18.1' });
+      const modB = requiring('b', { intl: '^0.19.0' });
+
+      const result = composer.compose([modA, modB], context);
+      expect(result.conflicts.map((c) => c.package)).toEqual(['intl']);
+    });
+
+    it('does not report compatible constraints', () => {
+      const modA = requiring('a', { json_serializable: '^6.8.0' }, 'pubspecDevDependencies');
+      const modB = requiring('b', { json_serializable: '^6.9.0' }, 'pubspecDevDependencies');
+
+      const result = composer.compose([modA, modB], context);
+
+      expect(result.devDependencies.get('json_serializable')).toBe('^6.9.0');
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('formatVersionConflict describes every requested constraint', () => {
+      const modA = requiring('a', { dio: '^4.0.6' });
+      const modB = requiring('b', { dio: '^5.7.0' });
+
+      const [conflict] = composer.compose([modA, modB], context).conflicts;
+
+      expect(formatVersionConflict(conflict)).toBe(
+        'Version conflict for dio: a requires ^4.0.6, b requires ^5.7.0 — using ^5.7.0',
+      );
+    });
+  });
+
   describe('formatPubspecDependencies()', () => {
     it('formats an empty map as empty string', () => {
       const result = composer.formatPubspecDependencies(new Map());
@@ -440,6 +659,16 @@ describe('ModuleComposer', () => {
       );
     });
 
+    it('formats source dependencies as nested maps', () => {
+      const deps = new Map<string, string | Record<string, unknown>>([
+        ['intl', '^0.19.0'],
+        ['flutter_localizations', { sdk: 'flutter' }],
+      ]);
+      expect(composer.formatPubspecDependencies(deps)).toBe(
+        '  flutter_localizations:\n    sdk: flutter\n  intl: ^0.19.0',
+      );
+    });
+
     it('formats a single dependency', () => {
       const deps = new Map([['dio', '^5.4.0']]);
       const result = composer.formatPubspecDependencies(deps);
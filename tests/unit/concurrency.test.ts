@@ -0,0 +1,47 @@
+import { mapWithConcurrency } from '../../src/scaffold/concurrency.js';
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('mapWithConcurrency', () => {
+  it('returns results in input order when calls finish out of order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20, 0], 4, async (ms, index) => {
+      await delay(ms);
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20', '3:0']);
+  });
+
+  it('runs at most limit calls at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapWithConcurrency(
+      Array.from({ length: 10 }, (_, i) => i),
+      3,
+      async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(5);
+        running--;
+      },
+    );
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('returns an empty array for no items', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+
+  it('rejects with the error of a failing call', async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (n) => {
+        if (n === 2) throw new Error('render failed');
+        return n;
+      }),
+    ).rejects.toThrow('render failed');
+  });
+});
@@ -1,4 +1,8 @@
-import { MaxsimConfigSchema } from '../../src/core/config/schema.js';
+import { z } from 'zod';
+import { MaxsimConfigSchema, createMaxsimConfigSchema } from '../../src/core/config/schema.js';
+import { parseConfig } from '../../src/core/config/loader.js';
+import { BUILT_IN_MODULES } from '../../src/modules/definitions/index.js';
+import type { ModuleManifest } from '../../src/types/module.js';
 
 const minimalProjectConfig = {
   project: { name: 'my_app', orgId: 'com.example' },
@@ -44,3 +48,91 @@ describe('MaxsimConfigSchema — externalModules', () => {
     expect(result.project.name).toBe('my_app');
   });
 });
+
+describe('createMaxsimConfigSchema — manifest config schemas', () => {
+  const stripeManifest: ModuleManifest = {
+    id: 'stripe-payments',
+    name: 'Stripe Payments',
+    description: 'Stripe checkout',
+    requires: [],
+    templateDir: 'templates',
+    ralphPhase: 3,
+    contributions: {},
+    configSchema: z.object({
+      publishableKey: z.string(),
+      currency: z.enum(['usd', 'eur']).default('usd'),
+    }),
+  };
+
+  it('every built-in module declares a config schema', () => {
+    for (const { manifest, configSchema } of Object.values(BUILT_IN_MODULES)) {
+      expect(manifest.configSchema).toBe(configSchema);
+    }
+  });
+
+  it('applies defaults from a built-in module config schema', () => {
+    const result = MaxsimConfigSchema.parse({
+      ...minimalProjectConfig,
+      modules: { theme: { enabled: true } },
+    });
+    expect(result.modules.theme).toEqual({ enabled: true, useMaterial3: true, darkMode: true });
+  });
+
+  it('only checks `enabled` of modules whose schema is not passed in', () => {
+    const result = MaxsimConfigSchema.parse({
+      ...minimalProjectConfig,
+      modules: { 'stripe-payments': { currency: 'gbp' } },
+    });
+    expect(result.modules['stripe-payments']).toEqual({ enabled: true, currency: 'gbp' });
+  });
+
+  it('validates and defaults options of modules passed in as manifests', () => {
+    const schema = createMaxsimConfigSchema([stripeManifest]);
+    const result = schema.parse({
+      ...minimalProjectConfig,
+      modules: { 'stripe-payments': { publishableKey: 'pk_test' } },
+    });
+    expect(result.modules['stripe-payments']).toEqual({
+      enabled: true,
+      publishableKey: 'pk_test',
+      currency: 'usd',
+    });
+  });
+
+  it('rejects invalid options of modules passed in as manifests', () => {
+    const schema = createMaxsimConfigSchema([stripeManifest]);
+    expect(
+      schema.safeParse({
+        ...minimalProjectConfig,
+        modules: { 'stripe-payments': { currency: 'gbp' } },
+      }).success,
+    ).toBe(false);
+  });
+
+  it('accepts false for modules passed in as manifests', () => {
+    const schema = createMaxsimConfigSchema([stripeManifest]);
+    const result = schema.parse({ ...minimalProjectConfig, modules: { 'stripe-payments': false } });
+    expect(result.modules['stripe-payments']).toBe(false);
+  });
+
+  it('parseConfig reports invalid module options under the module entry', () => {
+    expect(() =>
+      parseConfig(
+        { ...minimalProjectConfig, modules: { 'stripe-payments': { enabled: true } } },
+        [stripeManifest],
+      ),
+    ).toThrow(/modules\.stripe-payments: Invalid input/);
+  });
+
+  it('parseConfig accepts an already parsed config', () => {
+    const parsed = parseConfig({
+      ...minimalProjectConfig,
+      modules: { 'stripe-payments': { publishableKey: 'pk_test' } },
+    });
+    expect(parseConfig(parsed, [stripeManifest]).modules['stripe-payments']).toEqual({
+      enabled: true,
+      publishableKey: 'pk_test',
+      currency: 'usd',
+    });
+  });
+});
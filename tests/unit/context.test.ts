@@ -1,5 +1,7 @@
-import { createProjectContext } from '../../src/core/context.js';
+import { z } from 'zod';
+import { createProjectContext, toModuleKey } from '../../src/core/context.js';
 import { parseConfig } from '../../src/core/config/loader.js';
+import type { ModuleManifest } from '../../src/types/module.js';
 
 /**
  * Helper to build a MaxsimConfig via parseConfig with minimal boilerplate.
@@ -170,7 +172,7 @@ describe('createProjectContext', () => {
     it('resolves theme with dark mode', () => {
       const config = buildConfig({ theme: { enabled: true, seedColor: '#FF0000', darkMode: true } });
       const ctx = createProjectContext(config, '/out');
-      expect(ctx.modules.theme).toEqual({ seedColor: '#FF0000', darkMode: true });
+      expect(ctx.modules.theme).toEqual({ seedColor: '#FF0000', useMaterial3: true, darkMode: true });
     });
 
     it('returns false when theme is disabled', () => {
@@ -201,10 +203,10 @@ describe('createProjectContext', () => {
   });
 
   describe('analytics module', () => {
-    it('resolves analytics when enabled', () => {
+    it('resolves analytics when enabled (no options)', () => {
       const config = buildConfig({ analytics: { enabled: true } });
       const ctx = createProjectContext(config, '/out');
-      expect(ctx.modules.analytics).toEqual({ enabled: true });
+      expect(ctx.modules.analytics).toStrictEqual({});
     });
 
     it('returns false when analytics is disabled', () => {
@@ -248,6 +250,42 @@ describe('createProjectContext', () => {
     });
   });
 
+  describe('external modules', () => {
+    it('resolves an enabled external module under its camelCase key without `enabled`', () => {
+      const config = buildConfig({ 'stripe-payments': { enabled: true, publishableKey: 'pk_test' } });
+      const ctx = createProjectContext(config, '/out');
+      expect(ctx.modules['stripePayments']).toEqual({ publishableKey: 'pk_test' });
+    });
+
+    it('returns false for a disabled external module', () => {
+      const config = buildConfig({ 'stripe-payments': { enabled: false } });
+      const ctx = createProjectContext(config, '/out');
+      expect(ctx.modules['stripePayments']).toBe(false);
+    });
+
+    it('includes defaults from the module config schema when parsed with its manifest', () => {
+      const manifest: ModuleManifest = {
+        id: 'stripe-payments',
+        name: 'Stripe Payments',
+        description: 'Stripe checkout',
+        requires: [],
+        templateDir: 'templates',
+        ralphPhase: 3,
+        contributions: {},
+        configSchema: z.object({ currency: z.string().default('usd') }),
+      };
+      const config = parseConfig(
+        {
+          project: { name: 'test_app', orgId: 'com.example' },
+          modules: { 'stripe-payments': { enabled: true } },
+        },
+        [manifest],
+      );
+      const ctx = createProjectContext(config, '/out');
+      expect(ctx.modules['stripePayments']).toEqual({ currency: 'usd' });
+    });
+  });
+
   describe('multiple modules simultaneously', () => {
     it('resolves multiple enabled modules at once', () => {
       const config = buildConfig({
@@ -260,7 +298,7 @@ describe('createProjectContext', () => {
 
       expect(ctx.modules.auth).toEqual({ provider: 'firebase' });
       expect(ctx.modules.api).toEqual({ baseUrl: 'https://api.test.com' });
-      expect(ctx.modules.theme).toEqual({ seedColor: undefined, darkMode: true });
+      expect(ctx.modules.theme).toEqual({ useMaterial3: true, darkMode: true });
       expect(ctx.modules.i18n).toEqual({ defaultLocale: 'en', supportedLocales: ['en', 'de'] });
       // Others remain false
       expect(ctx.modules.database).toBe(false);
@@ -343,3 +381,14 @@ describe('createProjectContext', () => {
     });
   });
 });
+
+describe('toModuleKey', () => {
+  it('keeps single-word module IDs unchanged', () => {
+    expect(toModuleKey('auth')).toBe('auth');
+  });
+
+  it('converts kebab-case module IDs to camelCase', () => {
+    expect(toModuleKey('deep-linking')).toBe('deepLinking');
+    expect(toModuleKey('stripe-payments-v2')).toBe('stripePaymentsV2');
+  });
+});
@@ -0,0 +1,208 @@
+import { jest } from '@jest/globals';
+import { chmod, mkdir, rm, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { dump as yamlDump } from 'js-yaml';
+
+const mockExeca = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+
+jest.unstable_mockModule('execa', () => ({
+  execa: mockExeca,
+  // Imported by the post-processor pipeline of the scaffold engine
+  parseCommandString: jest.fn(),
+}));
+
+const {
+  checkClaudeHooks,
+  checkModuleFiles,
+  checkPlatforms,
+  checkProject,
+  checkTools,
+  createDoctorCommand,
+} = await import('../../src/cli/commands/doctor.js');
+const { ScaffoldEngine } = await import('../../src/scaffold/engine.js');
+const { createProjectContext } = await import('../../src/core/context.js');
+const { parseConfig } = await import('../../src/core/config/loader.js');
+const { useTempDir } = await import('../helpers/temp-dir.js');
+const { createTestRegistry } = await import('../helpers/registry-factory.js');
+
+const rawConfig = {
+  project: { name: 'my_app', orgId: 'com.example' },
+  platforms: ['android', 'web'],
+  modules: { api: { enabled: true } },
+  claude: { enabled: false },
+  scaffold: { runDartFormat: false, runPubGet: false, runBuildRunner: false },
+};
+
+/** Make execa report the given `--version` output per tool (undefined = not installed). */
+function mockTools(tools: Record<string, string | undefined>): void {
+  mockExeca.mockImplementation(async (command) => {
+    const stdout = tools[String(command)];
+    if (stdout === undefined) throw new Error(`spawn ${String(command)} ENOENT`);
+    return { stdout, stderr: '' };
+  });
+}
+
+describe('createDoctorCommand', () => {
+  it('creates a Command named "doctor" with an optional path argument', () => {
+    const cmd = createDoctorCommand();
+    expect(cmd.name()).toBe('doctor');
+    expect(cmd.registeredArguments.map((arg) => arg.required)).toEqual([false]);
+  });
+});
+
+describe('checkTools', () => {
+  afterEach(() => mockExeca.mockReset());
+
+  it('passes supported tool versions', async () => {
+    mockTools({
+      flutter: 'Flutter 3.24.3 • channel stable\nTools • Dart 3.5.3',
+      dart: 'Dart SDK version: 3.5.3 (stable)',
+      git: 'git version 2.43.0',
+    });
+
+    expect(await checkTools()).toEqual([
+      { status: 'pass', message: 'flutter 3.24.3 (requires ^3.24.0)' },
+      { status: 'pass', message: 'dart 3.5.3 (requires ^3.5.0)' },
+      { status: 'pass', message: 'git is installed' },
+    ]);
+  });
+
+  it('warns about outdated SDKs and fails missing tools, with fixes', async () => {
+    mockTools({ flutter: 'Flutter 3.19.6 • channel stable', dart: 'Dart SDK version: 3.3.4' });
+
+    const [flutter, dart, git] = await checkTools();
+
+    expect(flutter).toMatchObject({ status: 'warn', fix: 'Run `flutter upgrade`' });
+    expect(dart.status).toBe('warn');
+    expect(git).toMatchObject({ status: 'fail', fix: expect.stringContaining('Install git') });
+  });
+});
+
+describe('project checks', () => {
+  const tmp = useTempDir('doctor-test-');
+
+  const registry = createTestRegistry();
+  const config = parseConfig(rawConfig, registry.getAll());
+
+  beforeEach(async () => {
+    mockTools({ jq: 'jq-1.7.1' });
+    await new ScaffoldEngine({
+      templatesDir: resolve('templates/core'),
+      modulesTemplatesDir: resolve('templates/modules'),
+      registry,
+    }).run(createProjectContext(config, tmp.path));
+    await writeFile(join(tmp.path, 'maxsim.config.yaml'), yamlDump(rawConfig), 'utf-8');
+  });
+
+  afterEach(() => mockExeca.mockReset());
+
+  it('passes a freshly scaffolded project except for the platform folders', async () => {
+    await mkdir(join(tmp.path, 'android'));
+
+    const checks = await checkProject(tmp.path);
+
+    expect(checks[0]).toEqual({ status: 'pass', message: 'maxsim.config.yaml is valid' });
+    expect(checks.slice(1, -1).every((c) => c.status === 'pass')).toBe(true);
+    expect(checks.at(-1)).toEqual({
+      status: 'warn',
+      message: 'Platform folder(s) missing: web',
+      fix: 'Run `flutter create --platforms=web .` in the project',
+    });
+  });
+
+  it('passes when all files of the enabled modules exist', async () => {
+    expect(await checkModuleFiles(tmp.path, config, registry)).toEqual([
+      { status: 'pass', message: 'All files of the enabled modules exist (api)' },
+    ]);
+  });
+
+  it('fails when files of an enabled module are missing', async () => {
+    const file = 'lib/features/api/data/interceptors/retry_interceptor.dart';
+    await rm(join(tmp.path, file));
+
+    expect(await checkModuleFiles(tmp.path, config, registry)).toEqual([
+      {
+        status: 'fail',
+        message: `Module 'api' is missing 1 file(s): ${file}`,
+        fix: 'Restore the files from version control, or see them with `maxsim-flutter diff`',
+      },
+    ]);
+  });
+
+  it('fails when the enabled modules cannot be rendered', async () => {
+    const broken = createTestRegistry();
+    broken.register({
+      ...broken.get('api'),
+      requires: ['payments'],
+    });
+
+    expect(await checkModuleFiles(tmp.path, config, broken)).toEqual([
+      {
+        status: 'fail',
+        message:
+          "Cannot render the enabled modules: Module 'api' requires 'payments', but 'payments' " +
+          'was not found in registry',
+        fix: 'Fix the modules in maxsim.config.yaml (`maxsim-flutter why <module>` explains them)',
+      },
+    ]);
+  });
+
+  it('fails an invalid config and skips the checks that need it', async () => {
+    await writeFile(
+      join(tmp.path, 'maxsim.config.yaml'),
+      yamlDump({ ...rawConfig, modules: { unknown: true } }),
+      'utf-8',
+    );
+
+    const checks = await checkProject(tmp.path);
+
+    expect(checks).toHaveLength(1);
+    expect(checks[0].status).toBe('fail');
+    expect(checks[0].message).toContain('Invalid configuration');
+  });
+
+  it('checks platform folders', async () => {
+    await mkdir(join(tmp.path, 'web'));
+
+    expect(await checkPlatforms(tmp.path, ['web'])).toEqual([
+      { status: 'pass', message: 'Platform folders exist (web)' },
+    ]);
+  });
+
+  describe('checkClaudeHooks', () => {
+    const hooksDir = (): string => join(tmp.path, '.claude', 'hooks');
+
+    beforeEach(async () => {
+      await mkdir(hooksDir(), { recursive: true });
+      await writeFile(join(hooksDir(), 'protect-secrets.sh'), '#!/bin/bash\n', 'utf-8');
+      await chmod(join(hooksDir(), 'protect-secrets.sh'), 0o755);
+    });
+
+    it('returns no checks for projects without Claude hooks', async () => {
+      await rm(join(tmp.path, '.claude'), { recursive: true });
+
+      expect(await checkClaudeHooks(tmp.path)).toEqual([]);
+    });
+
+    it('passes executable hooks and an installed jq', async () => {
+      expect(await checkClaudeHooks(tmp.path)).toEqual([
+        { status: 'pass', message: 'Claude hooks are executable' },
+        { status: 'pass', message: 'jq is installed (used by protect-secrets.sh)' },
+      ]);
+    });
+
+    it('fails hooks that are not executable and warns when jq is missing', async () => {
+      await chmod(join(hooksDir(), 'protect-secrets.sh'), 0o644);
+      mockTools({});
+
+      const [hooks, jq] = await checkClaudeHooks(tmp.path);
+
+      expect(hooks).toEqual({
+        status: 'fail',
+        message: 'Claude hook(s) not executable: protect-secrets.sh',
+        fix: 'Run `chmod +x .claude/hooks/*.sh`',
+      });
+      expect(jq).toMatchObject({ status: 'warn', fix: expect.stringContaining('Install jq') });
+    });
+  });
+});
@@ -20,6 +20,7 @@ jest.unstable_mockModule('../../src/scaffold/post-processors/build-runner.js', (
   runBuildRunner: mockRunBuildRunner,
 }));
 jest.unstable_mockModule('../../src/claude-setup/index.js', () => ({
+  CLAUDE_SETUP_PATHS: [],
   runClaudeSetup: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
 }));
 
@@ -77,7 +78,7 @@ describe('ScaffoldEngine post-processor error handling', () => {
     const result = await engine.run(context);
 
     expect(result.postProcessorErrors).toHaveLength(1);
-    expect(result.postProcessorErrors[0]).toBe('dart format skipped: dart not found');
+    expect(result.postProcessorErrors[0]).toBe('dart format failed: dart not found');
     expect(result.postProcessorsRun).not.toContain('dart-format');
   });
 
@@ -203,8 +204,61 @@ describe('ScaffoldEngine post-processor error handling', () => {
     const result = await engine.run(context);
 
     expect(result.postProcessorErrors).toHaveLength(2);
-    expect(result.postProcessorErrors[0]).toContain('dart format skipped');
-    expect(result.postProcessorErrors[1]).toContain('flutter pub get failed');
+    expect(result.postProcessorErrors[0]).toContain('flutter pub get failed');
+    expect(result.postProcessorErrors[1]).toContain('dart format failed');
     expect(result.postProcessorsRun).toEqual([]);
   });
+
+  it('runs pub get, then build_runner, then dart format', async () => {
+    mockRunDartFormat.mockResolvedValue(undefined);
+    mockRunFlutterPubGet.mockResolvedValue(undefined);
+    mockRunBuildRunner.mockResolvedValue(undefined);
+
+    const engine = new ScaffoldEngine({ templatesDir: TEMPLATES_DIR });
+    const context = makeWritableContext(tmp.path, {
+      scaffold: {
+        dryRun: false,
+        overwrite: 'always',
+        postProcessors: { dartFormat: true, flutterPubGet: true, buildRunner: true },
+      },
+    });
+
+    const result = await engine.run(context);
+
+    expect(result.postProcessorsRun).toEqual(['flutter-pub-get', 'build-runner', 'dart-format']);
+    expect(result.postProcessorResults.map((r) => r.status)).toEqual([
+      'success',
+      'success',
+      'success',
+    ]);
+    expect(mockRunFlutterPubGet.mock.invocationCallOrder[0]).toBeLessThan(
+      mockRunBuildRunner.mock.invocationCallOrder[0],
+    );
+    expect(mockRunBuildRunner.mock.invocationCallOrder[0]).toBeLessThan(
+      mockRunDartFormat.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('skips build_runner but still formats when pub get fails', async () => {
+    mockRunFlutterPubGet.mockRejectedValue(new Error('flutter missing'));
+    mockRunDartFormat.mockResolvedValue(undefined);
+
+    const engine = new ScaffoldEngine({ templatesDir: TEMPLATES_DIR });
+    const context = makeWritableContext(tmp.path, {
+      scaffold: {
+        dryRun: false,
+        overwrite: 'always',
+        postProcessors: { dartFormat: true, flutterPubGet: true, buildRunner: true },
+      },
+    });
+
+    const result = await engine.run(context);
+
+    expect(mockRunBuildRunner).not.toHaveBeenCalled();
+    expect(result.postProcessorErrors).toEqual([
+      'flutter pub get failed: flutter missing',
+      'build_runner skipped: flutter pub get did not succeed',
+    ]);
+    expect(result.postProcessorsRun).toEqual(['dart-format']);
+  });
 });
@@ -1,6 +1,8 @@
+import { jest } from '@jest/globals';
 import { writeFile, readFile } from 'node:fs/promises';
 import { join, resolve } from 'node:path';
 import { pathExists, ensureDir } from 'fs-extra';
+import { load as yamlLoad } from 'js-yaml';
 import { ScaffoldEngine } from '../../src/scaffold/engine.js';
 import { ModuleRegistry } from '../../src/modules/registry.js';
 import { makeTestContext, makeWritableContext } from '../helpers/context-factory.js';
@@ -9,7 +11,17 @@ import { createTestRegistry } from '../helpers/registry-factory.js';
 import type { ModuleManifest } from '../../src/types/module.js';
 import type { ProjectContext } from '../../src/core/context.js';
 import { TemplateRenderer } from '../../src/scaffold/renderer.js';
-import { processPubspecPartial } from '../../src/scaffold/template-helpers.js';
+import {
+  appendEnvVars,
+  collectAndRenderTemplates,
+  composeModules,
+  mergePubspecContent,
+  processPubspecPartial,
+  removeEnvVars,
+  removePubspecEntries,
+  toEnvField,
+} from '../../src/scaffold/template-helpers.js';
+import { APP_PROVIDERS_OUTPUT_PATH } from '../../src/modules/composer.js';
 
 // The actual templates/core directory relative to the project root
 const TEMPLATES_DIR = resolve('templates/core');
@@ -341,6 +353,315 @@ describe('ScaffoldEngine', () => {
       );
       expect(await pathExists(deepLinkProviderPath)).toBe(true);
     });
+
+    it('wires module routes into app_router.dart with imports and GoRoute entries', async () => {
+      const engine = new ScaffoldEngine({
+        templatesDir: TEMPLATES_DIR,
+        modulesTemplatesDir: MODULES_DIR,
+        registry: createTestRegistry(),
+      });
+      const context = makeWritableContext(tmp.path, {
+        modules: {
+          auth: { provider: 'firebase' },
+          api: false,
+          database: false,
+          i18n: false,
+          theme: false,
+          push: false,
+          analytics: false,
+          cicd: false,
+          deepLinking: false,
+        },
+      });
+      await engine.run(context);
+
+      const router = await readFile(join(tmp.path, 'lib/core/router/app_router.dart'), 'utf-8');
+      expect(router).toContain("import '../../features/auth/presentation/pages/login_page.dart';");
+      expect(router).toContain("import '../../features/auth/presentation/pages/register_page.dart';");
+      expect(router).toContain("path: '/login',");
+      expect(router).toContain("name: 'register',");
+      expect(router).toContain('builder: (context, state) => const LoginPage(),');
+      expect(router).toContain('builder: (context, state) => const RegisterPage(),');
+    });
+
+    it('wires routes contributed by a registered external module', async () => {
+      const registry = createTestRegistry();
+      registry.register(
+        makeMinimalManifest({
+          id: 'stripe',
+          contributions: {
+            routes: [
+              {
+                path: '/checkout',
+                name: 'checkout',
+                importPath: '../../features/stripe/presentation/pages/checkout_screen.dart',
+                pageClass: 'StripeCheckoutScreen',
+              },
+            ],
+          },
+        }),
+      );
+      const engine = new ScaffoldEngine({
+        templatesDir: TEMPLATES_DIR,
+        modulesTemplatesDir: MODULES_DIR,
+        registry,
+      });
+      const mods = { stripe: { enabled: true } } as unknown as ProjectContext['modules'];
+      await engine.run(makeWritableContext(tmp.path, { modules: mods }));
+
+      const router = await readFile(join(tmp.path, 'lib/core/router/app_router.dart'), 'utf-8');
+      expect(router).toContain(
+        "import '../../features/stripe/presentation/pages/checkout_screen.dart';",
+      );
+      expect(router).toContain("path: '/checkout',");
+      expect(router).toContain('const StripeCheckoutScreen()');
+    });
+
+    it('renders templates and pubspec partial from an external module templateDir', async () => {
+      const pkgDir = await createTempDir('engine-external-pkg-');
+      try {
+        const templatesDir = join(pkgDir, 'templates');
+        await ensureDir(join(templatesDir, 'lib/features/stripe'));
+        await writeFile(
+          join(templatesDir, 'lib/features/stripe/stripe_config.dart.hbs'),
+          "const stripeApp = '{{project.name}}';\n",
+          'utf-8',
+        );
+        await writeFile(
+          join(templatesDir, 'pubspec.partial.yaml'),
+          'dependencies:\n  flutter_stripe: ^11.2.0\n',
+          'utf-8',
+        );
+
+        const registry = createTestRegistry();
+        registry.register(makeMinimalManifest({ id: 'stripe', templateDir: 'templates' }), templatesDir);
+        const engine = new ScaffoldEngine({
+          templatesDir: TEMPLATES_DIR,
+          modulesTemplatesDir: MODULES_DIR,
+          registry,
+        });
+        const mods = { stripe: { enabled: true } } as unknown as ProjectContext['modules'];
+        await engine.run(makeWritableContext(tmp.path, { modules: mods }));
+
+        const config = await readFile(join(tmp.path, 'lib/features/stripe/stripe_config.dart'), 'utf-8');
+        expect(config).toBe("const stripeApp = 'my_app';\n");
+        const pubspec = await readFile(join(tmp.path, 'pubspec.yaml'), 'utf-8');
+        expect(pubspec).toContain('flutter_stripe: ^11.2.0');
+      } finally {
+        await removeTempDir(pkgDir);
+      }
+    });
+
+    it('adds manifest-only dependencies of a module to pubspec.yaml', async () => {
+      const registry = createTestRegistry();
+      registry.register(
+        makeMinimalManifest({
+          id: 'stripe',
+          contributions: {
+            pubspecDependencies: { flutter_stripe: '^11.2.0' },
+            pubspecDevDependencies: { stripe_lints: { path: '../stripe_lints' } },
+          },
+        }),
+      );
+      const engine = new ScaffoldEngine({
+        templatesDir: TEMPLATES_DIR,
+        modulesTemplatesDir: MODULES_DIR,
+        registry,
+      });
+      const mods = { stripe: { enabled: true } } as unknown as ProjectContext['modules'];
+      await engine.run(makeWritableContext(tmp.path, { modules: mods }));
+
+      const pubspec = yamlLoad(await readFile(join(tmp.path, 'pubspec.yaml'), 'utf-8')) as Record<
+        string,
+        Record<string, unknown>
+      >;
+      expect(pubspec['dependencies']['flutter_stripe']).toBe('^11.2.0');
+      expect(pubspec['dev_dependencies']['stripe_lints']).toEqual({ path: '../stripe_lints' });
+    });
+
+    it('exports the providers of enabled modules from app_providers.dart', async () => {
+      const engine = new ScaffoldEngine({
+        templatesDir: TEMPLATES_DIR,
+        modulesTemplatesDir: MODULES_DIR,
+        registry: createTestRegistry(),
+      });
+      const context = makeWritableContext(tmp.path, {
+        modules: {
+          ...makeTestContext().modules,
+          auth: { provider: 'firebase' },
+          theme: { seedColor: '#6750A4', darkMode: true, useMaterial3: true },
+        },
+      });
+      await engine.run(context);
+
+      const barrel = await readFile(join(tmp.path, APP_PROVIDERS_OUTPUT_PATH), 'utf-8');
+      expect(barrel).toContain("export '../router/app_router.dart';");
+      expect(barrel).toContain(
+        "export '../../features/auth/presentation/providers/auth_provider.dart';",
+      );
+      expect(barrel).toContain("export '../../core/theme/theme_provider.dart';");
+      expect(barrel).not.toContain('push_provider.dart');
+    });
+
+    it('lists module env vars in .env.example and the Env accessor', async () => {
+      const registry = createTestRegistry();
+      registry.register(
+        makeMinimalManifest({ id: 'stripe', contributions: { envVars: ['STRIPE_PUBLISHABLE_KEY'] } }),
+      );
+      const engine = new ScaffoldEngine({
+        templatesDir: TEMPLATES_DIR,
+        modulesTemplatesDir: MODULES_DIR,
+        registry,
+      });
+      const mods = {
+        ...makeTestContext().modules,
+        api: { baseUrl: 'https://api.example.com' },
+        stripe: { enabled: true },
+      } as unknown as ProjectContext['modules'];
+      await engine.run(makeWritableContext(tmp.path, { modules: mods }));
+
+      const envExample = await readFile(join(tmp.path, '.env.example'), 'utf-8');
+      expect(envExample).toMatch(/^API_BASE_URL=$/m);
+      expect(envExample).toMatch(/^STRIPE_PUBLISHABLE_KEY=$/m);
+      const env = await readFile(join(tmp.path, 'lib/core/config/env.dart'), 'utf-8');
+      expect(env).toContain(
+        "static const String apiBaseUrl = String.fromEnvironment('API_BASE_URL');",
+      );
+      expect(env).toContain(
+        "static const String stripePublishableKey = String.fromEnvironment('STRIPE_PUBLISHABLE_KEY');",
+      );
+    });
+
+    it('passes .env to CI builds, written from the variables listed in .env.example', async () => {
+      const engine = new ScaffoldEngine({
+        templatesDir: TEMPLATES_DIR,
+        modulesTemplatesDir: MODULES_DIR,
+        registry: createTestRegistry(),
+      });
+      const context = makeWritableContext(tmp.path, {
+        modules: {
+          ...makeTestContext().modules,
+          api: { baseUrl: 'https://api.example.com' },
+          cicd: { provider: 'github' },
+        },
+      });
+      await engine.run(context);
+
+      const workflow = yamlLoad(
+        await readFile(join(tmp.path, '.github/workflows/ci.yml'), 'utf-8'),
+      ) as {
+        jobs: {
+          flutter: { steps: Array<{ name?: string; run?: string; env?: Record<string, string> }> };
+        };
+      };
+      const steps = workflow.jobs.flutter.steps;
+      const writeEnv = steps.find((step) => step.name === 'Write .env from repository secrets');
+      // Only the secrets named in .env.example are exposed to the step
+      expect(writeEnv?.env).toEqual({ API_BASE_URL: '${{ secrets.API_BASE_URL }}' });
+      expect(writeEnv?.run).toContain('.env.example');
+      expect(steps.map((step) => step.run)).toContain(
+        'flutter test --coverage --dart-define-from-file=.env',
+      );
+    });
+
+    it.each([
+      ['gitlab', '.gitlab-ci.yml'],
+      ['bitbucket', 'bitbucket-pipelines.yml'],
+    ] as const)('%s pipelines write .env before building', async (provider, file) => {
+      const engine = new ScaffoldEngine({
+        templatesDir: TEMPLATES_DIR,
+        modulesTemplatesDir: MODULES_DIR,
+        registry: createTestRegistry(),
+      });
+      const context = makeWritableContext(tmp.path, {
+        modules: { ...makeTestContext().modules, cicd: { provider } },
+      });
+      await engine.run(context);
+
+      const content = await readFile(join(tmp.path, file), 'utf-8');
+      expect(() => yamlLoad(content)).not.toThrow();
+      expect(content).toContain('printenv "$key"');
+      expect(content).toContain('flutter build apk --debug --dart-define-from-file=.env');
+    });
+
+    it('reports dependencies requested with incompatible versions', async () => {
+      const registry = createTestRegistry();
+      registry.register(
+        makeMinimalManifest({
+          id: 'legacy-http',
+          contributions: { pubspecDependencies: { dio: '^4.0.6' } },
+        }),
+      );
+      const engine = new ScaffoldEngine({
+        templatesDir: TEMPLATES_DIR,
+        modulesTemplatesDir: MODULES_DIR,
+        registry,
+      });
+      const mods = {
+        ...makeTestContext().modules,
+        api: { baseUrl: 'https://api.example.com' },
+        legacyHttp: { enabled: true },
+      } as unknown as ProjectContext['modules'];
+      const result = await engine.run(makeWritableContext(tmp.path, { modules: mods }));
+
+      expect(result.dependencyConflicts).toEqual([
+        'Version conflict for dio: api requires ^5.7.0, legacy-http requires ^4.0.6 — using ^5.7.0',
+      ]);
+      const pubspec = await readFile(join(tmp.path, 'pubspec.yaml'), 'utf-8');
+      expect(pubspec).toContain('dio: ^5.7.0');
+    });
+
+    describe('module hooks', () => {
+      function runWithHooks(hooks: ModuleManifest['hooks'], dryRun = false) {
+        const registry = createTestRegistry();
+        registry.register(makeMinimalManifest({ id: 'native-setup', hooks }));
+        const engine = new ScaffoldEngine({
+          templatesDir: TEMPLATES_DIR,
+          modulesTemplatesDir: MODULES_DIR,
+          registry,
+        });
+        const mods = {
+          ...makeTestContext().modules,
+          nativeSetup: { enabled: true },
+        } as unknown as ProjectContext['modules'];
+        const context = makeWritableContext(tmp.path, { modules: mods });
+        return engine.run({ ...context, scaffold: { ...context.scaffold, dryRun } });
+      }
+
+      it('writes the edits of beforeGenerate hooks with the generated files', async () => {
+        const result = await runWithHooks({
+          beforeGenerate: async ({ files, fs }) => {
+            expect(files.has('pubspec.yaml')).toBe(true);
+            await fs.update('README.md', (content) => `${content}\n## Native setup\n`);
+            await fs.write('tool/setup.sh', 'echo setup\n');
+          },
+        });
+
+        expect(result.filesWritten).toContain('tool/setup.sh');
+        expect(await readFile(join(tmp.path, 'README.md'), 'utf-8')).toContain('## Native setup');
+      });
+
+      it('runs afterGenerate hooks on the written project and reports their messages', async () => {
+        const result = await runWithHooks({
+          afterGenerate: async ({ fs, log }) => {
+            const pubspec = await fs.read('pubspec.yaml');
+            await fs.write('tool/pubspec-size.txt', String(pubspec?.length));
+            log('Open the project in Xcode once');
+          },
+        });
+
+        expect(await pathExists(join(tmp.path, 'tool/pubspec-size.txt'))).toBe(true);
+        expect(result.moduleMessages).toEqual(['native-setup: Open the project in Xcode once']);
+      });
+
+      it('does not run afterGenerate hooks in dry runs', async () => {
+        const afterGenerate = jest.fn(async () => {});
+
+        await runWithHooks({ afterGenerate }, true);
+
+        expect(afterGenerate).not.toHaveBeenCalled();
+      });
+    });
   });
 });
 
@@ -377,3 +698,203 @@ describe('processPubspecPartial', () => {
     }
   });
 });
+
+describe('mergePubspecContent', () => {
+  const base = [
+    'name: my_app',
+    'dependencies:',
+    '  flutter:',
+    '    sdk: flutter',
+    '  go_router: ^14.6.2',
+    '  shared: ',
+    '    path: ../shared',
+    'dev_dependencies:',
+    '  build_runner: ^2.4.13',
+    '',
+  ].join('\n');
+
+  it('returns the content unchanged when every dependency is already present', () => {
+    const result = mergePubspecContent(base, {
+      dependencies: new Map([['go_router', '^14.0.0']]),
+      devDependencies: new Map([['build_runner', '^2.4.13']]),
+    });
+
+    expect(result).toBe(base);
+  });
+
+  it('adds new dependencies and upgrades older constraints', () => {
+    const result = mergePubspecContent(base, {
+      dependencies: new Map([
+        ['go_router', '^14.7.0'],
+        ['dio', '^5.7.0'],
+      ]),
+      devDependencies: new Map([['retrofit_generator', '^9.1.5']]),
+      pubspecFlutter: { generate: true },
+    });
+    const pubspec = yamlLoad(result) as Record<string, Record<string, unknown>>;
+
+    expect(pubspec['dependencies']['go_router']).toBe('^14.7.0');
+    expect(pubspec['dependencies']['dio']).toBe('^5.7.0');
+    expect(pubspec['dev_dependencies']['retrofit_generator']).toBe('^9.1.5');
+    expect(pubspec['flutter']).toEqual({ generate: true });
+  });
+
+  it('keeps dependencies the project pinned to a source', () => {
+    const result = mergePubspecContent(base, {
+      dependencies: new Map([['shared', '^1.0.0']]),
+      devDependencies: new Map(),
+    });
+
+    expect(result).toBe(base);
+  });
+});
+
+describe('removePubspecEntries', () => {
+  const base = [
+    'name: my_app',
+    'dependencies:',
+    '  go_router: ^14.6.2',
+    '  dio: ^5.7.0',
+    'dev_dependencies:',
+    '  retrofit_generator: ^9.1.5',
+    'flutter:',
+    '  generate: true',
+    '  uses-material-design: true',
+    '',
+  ].join('\n');
+
+  it('removes dependencies, dev dependencies and flutter keys', () => {
+    const result = removePubspecEntries(base, {
+      dependencies: ['dio'],
+      devDependencies: ['retrofit_generator'],
+      pubspecFlutter: ['generate'],
+    });
+    const pubspec = yamlLoad(result) as Record<string, Record<string, unknown>>;
+
+    expect(pubspec['dependencies']).toEqual({ go_router: '^14.6.2' });
+    expect(pubspec['dev_dependencies']).toEqual({});
+    expect(pubspec['flutter']).toEqual({ 'uses-material-design': true });
+  });
+
+  it('returns the content unchanged when none of the entries is present', () => {
+    expect(removePubspecEntries(base, { dependencies: ['retrofit'], devDependencies: [] })).toBe(
+      base,
+    );
+  });
+});
+
+describe('appendEnvVars', () => {
+  it('appends only the variables missing from the file and keeps existing values', () => {
+    const content = '# Environment values\nAPI_BASE_URL=https://staging.example.com\n';
+
+    expect(appendEnvVars(content, ['API_BASE_URL', 'SENTRY_DSN'])).toBe(
+      '# Environment values\nAPI_BASE_URL=https://staging.example.com\nSENTRY_DSN=\n',
+    );
+  });
+
+  it('returns the content unchanged when every variable is listed', () => {
+    expect(appendEnvVars('API_BASE_URL=\n', ['API_BASE_URL'])).toBe('API_BASE_URL=\n');
+  });
+
+  it('adds a line break before appending to a file without a trailing newline', () => {
+    expect(appendEnvVars('API_BASE_URL=x', ['SENTRY_DSN'])).toBe('API_BASE_URL=x\nSENTRY_DSN=\n');
+  });
+
+  it('removeEnvVars drops the listed variables and keeps other lines', () => {
+    const content = '# Environment values\nAPI_BASE_URL=https://staging.example.com\nSENTRY_DSN=\n';
+
+    expect(removeEnvVars(content, ['API_BASE_URL'])).toBe('# Environment values\nSENTRY_DSN=\n');
+    expect(removeEnvVars(content, ['MAPS_KEY'])).toBe(content);
+  });
+
+  it('toEnvField derives camelCase field names', () => {
+    expect(toEnvField('API_BASE_URL')).toBe('apiBaseUrl');
+    expect(toEnvField('SENTRY_DSN')).toBe('sentryDsn');
+  });
+});
+
+describe('composeModules', () => {
+  const registry = createTestRegistry();
+  const context = makeTestContext({
+    modules: {
+      ...makeTestContext().modules,
+      api: { baseUrl: 'https://api.example.com' },
+      i18n: { defaultLocale: 'en', supportedLocales: ['en'] },
+    },
+  });
+  const modules = ['core', 'api', 'i18n'].map((id) => registry.get(id));
+  const options = {
+    renderer: new TemplateRenderer(),
+    modulesTemplatesDir: resolve('templates/modules'),
+  };
+
+  it('renders module templates and merges their pubspec partials with the manifests', async () => {
+    const { files, composed } = await composeModules(modules, context, options);
+
+    expect(files.some((f) => f.relativePath.startsWith('lib/features/api/'))).toBe(true);
+    expect(files.some((f) => f.relativePath === 'pubspec.partial.yaml')).toBe(false);
+    expect(composed.dependencies.get('flutter_localizations')).toEqual({ sdk: 'flutter' });
+    expect(composed.dependencies.get('retrofit')).toBe('^4.4.1');
+    expect(composed.devDependencies.get('json_serializable')).toBe('^6.9.0');
+    expect(composed.pubspecFlutter).toEqual({ generate: true });
+    expect(composed.conflicts).toEqual([]);
+  });
+
+  it('only renders the templates of renderModuleIds but composes every module', async () => {
+    const all = await composeModules(modules, context, options);
+    const onlyI18n = await composeModules(modules, context, {
+      ...options,
+      renderModuleIds: ['i18n'],
+    });
+
+    expect(onlyI18n.files.some((f) => f.relativePath.startsWith('lib/features/api/'))).toBe(false);
+    expect(onlyI18n.files.length).toBeGreaterThan(0);
+    expect(onlyI18n.composed).toEqual(all.composed);
+  });
+});
+
+describe('collectAndRenderTemplates', () => {
+  const tmp = useTempDir('collect-templates-test-');
+  const context = {
+    project: { name: 'my_app', org: 'com.example', description: '' },
+    platforms: {},
+    modules: {},
+  };
+
+  it('renders .hbs files, copies other files and returns them sorted by path', async () => {
+    await ensureDir(join(tmp.path, 'lib/src'));
+    await writeFile(join(tmp.path, 'pubspec.yaml.hbs'), 'name: {{project.name}}\n');
+    await writeFile(join(tmp.path, 'lib/src/b.dart.hbs'), '// {{pascalCase project.name}}\n');
+    await writeFile(join(tmp.path, 'lib/a.dart'), '// {{kept}}\n');
+    await writeFile(join(tmp.path, 'pubspec.partial.yaml'), 'dependencies: {}\n');
+
+    const files = await collectAndRenderTemplates(tmp.path, context, new TemplateRenderer(), [
+      'pubspec.partial.yaml',
+    ]);
+
+    expect(files.map(({ relativePath, content }) => [relativePath, content])).toEqual([
+      ['lib/a.dart', '// {{kept}}\n'],
+      ['lib/src/b.dart', '// MyApp\n'],
+      ['pubspec.yaml', 'name: my_app\n'],
+    ]);
+  });
+
+  it('renders the templates of a directory the same way on every call', async () => {
+    for (let i = 0; i < 40; i++) {
+      await writeFile(join(tmp.path, `file_${i}.dart.hbs`), `// ${i} {{project.name}}\n`);
+    }
+    const renderer = new TemplateRenderer();
+
+    const first = await collectAndRenderTemplates(tmp.path, context, renderer);
+    const second = await collectAndRenderTemplates(tmp.path, context, renderer);
+
+    expect(first).toHaveLength(40);
+    expect(second).toEqual(first);
+  });
+
+  it('returns no files for a missing directory', async () => {
+    expect(
+      await collectAndRenderTemplates(join(tmp.path, 'missing'), context, new TemplateRenderer()),
+    ).toEqual([]);
+  });
+});
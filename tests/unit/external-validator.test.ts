@@ -128,4 +128,127 @@ describe('validateExternalManifest', () => {
       /@org\/maxsim-module-x/,
     );
   });
+
+  it('accepts well-formed route contributions', () => {
+    const manifest = {
+      ...makeValidManifest(),
+      contributions: {
+        routes: [{ path: '/checkout', name: 'checkout', importPath: '../../features/checkout/page.dart' }],
+      },
+    };
+    expect(validateExternalManifest(manifest, 'maxsim-module-stripe')).toEqual(manifest);
+  });
+
+  it('throws when contributions.routes is not an array', () => {
+    const bad = { ...makeValidManifest(), contributions: { routes: {} } };
+    expect(() => validateExternalManifest(bad, 'maxsim-module-stripe')).toThrow(
+      /contributions\.routes/,
+    );
+  });
+
+  it('throws when a route is missing its importPath', () => {
+    const bad = {
+      ...makeValidManifest(),
+      contributions: { routes: [{ path: '/checkout', name: 'checkout' }] },
+    };
+    expect(() => validateExternalManifest(bad, 'maxsim-module-stripe')).toThrow(/importPath/);
+  });
+
+  it('accepts conditional contribution blocks', () => {
+    const manifest = {
+      ...makeValidManifest(),
+      conditionalContributions: [
+        { when: () => true, contributions: { pubspecDependencies: { stripe_sdk: '^1.0.0' } } },
+      ],
+    };
+    expect(validateExternalManifest(manifest, 'maxsim-module-stripe')).toEqual(manifest);
+  });
+
+  it('throws when conditionalContributions is not an array', () => {
+    const bad = { ...makeValidManifest(), conditionalContributions: {} };
+    expect(() => validateExternalManifest(bad, 'maxsim-module-stripe')).toThrow(
+      /'conditionalContributions' must be an array/,
+    );
+  });
+
+  it('throws when a conditional block has no when predicate', () => {
+    const bad = {
+      ...makeValidManifest(),
+      conditionalContributions: [{ when: 'firebase', contributions: {} }],
+    };
+    expect(() => validateExternalManifest(bad, 'maxsim-module-stripe')).toThrow(
+      /conditionalContributions\[0\]\.when/,
+    );
+  });
+
+  it('validates routes inside conditional blocks', () => {
+    const bad = {
+      ...makeValidManifest(),
+      conditionalContributions: [
+        { when: () => true, contributions: { routes: [{ path: '/checkout' }] } },
+      ],
+    };
+    expect(() => validateExternalManifest(bad, 'maxsim-module-stripe')).toThrow(
+      /conditionalContributions\[0\]\.contributions\.routes/,
+    );
+  });
+
+  it('accepts provides and enhances lists', () => {
+    const manifest = { ...makeValidManifest(), provides: ['payments'], enhances: ['analytics'] };
+    expect(validateExternalManifest(manifest, 'maxsim-module-stripe')).toEqual(manifest);
+  });
+
+  it.each(['provides', 'enhances'])('throws when %s is not an array of strings', (field) => {
+    const bad = { ...makeValidManifest(), [field]: ['payments', 42] };
+    expect(() => validateExternalManifest(bad, 'maxsim-module-stripe')).toThrow(
+      `'${field}' must be an array of strings`,
+    );
+  });
+
+  it('accepts lifecycle hooks', () => {
+    const manifest = { ...makeValidManifest(), hooks: { afterGenerate: async () => {} } };
+    expect(validateExternalManifest(manifest, 'maxsim-module-stripe')).toEqual(manifest);
+  });
+
+  it('throws when a hook is not a function', () => {
+    const bad = { ...makeValidManifest(), hooks: { onAdd: 'echo added' } };
+    expect(() => validateExternalManifest(bad, 'maxsim-module-stripe')).toThrow(
+      "'hooks.onAdd' must be a function",
+    );
+  });
+
+  it('throws on unknown hook names', () => {
+    const bad = { ...makeValidManifest(), hooks: { afterInstall: async () => {} } };
+    expect(() => validateExternalManifest(bad, 'maxsim-module-stripe')).toThrow(
+      "'hooks.afterInstall' is not a lifecycle hook",
+    );
+  });
+
+  it('accepts static and context-dependent Claude contributions', () => {
+    const rules = [{ name: 'stripe', paths: ['lib/**'], content: '# Stripe' }];
+    const staticClaude = { ...makeValidManifest(), claude: { rules } };
+    const dynamicClaude = { ...makeValidManifest(), claude: () => ({ rules }) };
+
+    expect(validateExternalManifest(staticClaude, 'maxsim-module-stripe')).toEqual(staticClaude);
+    expect(validateExternalManifest(dynamicClaude, 'maxsim-module-stripe')).toEqual(dynamicClaude);
+  });
+
+  it('throws when claude is neither an object nor a function', () => {
+    const bad = { ...makeValidManifest(), claude: '# Stripe rules' };
+    expect(() => validateExternalManifest(bad, 'maxsim-module-stripe')).toThrow(
+      "'claude' must be an object or a function",
+    );
+  });
+
+  it('accepts a semantic version', () => {
+    const manifest = { ...makeValidManifest(), version: '1.2.0-beta.1' };
+    expect(validateExternalManifest(manifest, 'maxsim-module-stripe')).toEqual(manifest);
+  });
+
+  it('throws when version is not a semantic version', () => {
+    const bad = { ...makeValidManifest(), version: 'v2' };
+    expect(() => validateExternalManifest(bad, 'maxsim-module-stripe')).toThrow(
+      "'version' must be a semantic version",
+    );
+  });
 });
@@ -1,7 +1,7 @@
 import { readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { pathExists } from 'fs-extra';
-import { FileWriter } from '../../src/scaffold/file-writer.js';
+import { BASE_DIR, FileWriter } from '../../src/scaffold/file-writer.js';
 import { useTempDir } from '../helpers/temp-dir.js';
 
 describe('FileWriter', () => {
@@ -190,4 +190,70 @@ describe('FileWriter', () => {
       expect(result.conflicts).toEqual(['conflict.txt']);
     });
   });
+
+  describe('merge mode', () => {
+    const generated = 'line 1\nline 2\nline 3\n';
+
+    async function generate(): Promise<FileWriter> {
+      const writer = new FileWriter({ outputDir: tmp.path, overwriteMode: 'merge' });
+      await writer.writeFile('lib/main.dart', generated);
+      return writer;
+    }
+
+    it('stores the generated content as the merge base', async () => {
+      await generate();
+      const base = await readFile(join(tmp.path, BASE_DIR, 'lib/main.dart.base'), 'utf-8');
+      expect(base).toBe(generated);
+    });
+
+    it('merges template changes into edited files', async () => {
+      const writer = await generate();
+      await writeFile(join(tmp.path, 'lib/main.dart'), 'line 1\nline 2\nline 3\nmine\n');
+
+      const result = await writer.writeAll(
+        new Map([['lib/main.dart', 'line 1\nline 2 updated\nline 3\n']]),
+      );
+
+      expect(result.merged).toEqual(['lib/main.dart']);
+      const content = await readFile(join(tmp.path, 'lib/main.dart'), 'utf-8');
+      expect(content).toBe('line 1\nline 2 updated\nline 3\nmine\n');
+      const base = await readFile(join(tmp.path, BASE_DIR, 'lib/main.dart.base'), 'utf-8');
+      expect(base).toBe('line 1\nline 2 updated\nline 3\n');
+    });
+
+    it('writes conflict markers where both sides changed the same lines', async () => {
+      const writer = await generate();
+      await writeFile(join(tmp.path, 'lib/main.dart'), 'line 1\nmine\nline 3\n');
+
+      const outcome = await writer.writeFile('lib/main.dart', 'line 1\ntheirs\nline 3\n');
+
+      expect(outcome).toBe('merge-conflict');
+      const content = await readFile(join(tmp.path, 'lib/main.dart'), 'utf-8');
+      expect(content).toContain('<<<<<<< current\nmine\n=======\ntheirs\n>>>>>>> generated');
+    });
+
+    it('falls back to asking when there is no merge base', async () => {
+      await writeFile(join(tmp.path, 'legacy.txt'), 'original');
+      const writer = new FileWriter({ outputDir: tmp.path, overwriteMode: 'merge' });
+
+      const outcome = await writer.writeFile('legacy.txt', 'new content');
+
+      expect(outcome).toBe('conflict');
+      const content = await readFile(join(tmp.path, 'legacy.txt'), 'utf-8');
+      expect(content).toBe('original');
+    });
+
+    it('does not take formatting applied after writing for a local edit', async () => {
+      const writer = await generate();
+      // e.g. dart format reformats the file after it was written
+      await writeFile(join(tmp.path, 'lib/main.dart'), 'line 1\nline 2 formatted\nline 3\n');
+      await writer.refreshBases(['lib/main.dart', 'missing.dart']);
+
+      const outcome = await writer.writeFile('lib/main.dart', `${generated}new\n`);
+
+      expect(outcome).toBe('written');
+      const content = await readFile(join(tmp.path, 'lib/main.dart'), 'utf-8');
+      expect(content).toBe(`${generated}new\n`);
+    });
+  });
 });
@@ -0,0 +1,139 @@
+import { readFile, writeFile, rm } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+import { ScaffoldEngine } from '../../src/scaffold/engine.js';
+import {
+  GENERATION_MANIFEST_PATH,
+  checkGeneratedFiles,
+  createFileRecords,
+  getFileStates,
+  getGeneratedFileState,
+  hashContent,
+  readGenerationManifest,
+  recordGeneratedFiles,
+  updateGenerationManifest,
+} from '../../src/scaffold/generation-manifest.js';
+import { getCurrentVersion } from '../../src/cli/version-check.js';
+import { makeWritableContext } from '../helpers/context-factory.js';
+import { createTestRegistry } from '../helpers/registry-factory.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+
+describe('generation manifest', () => {
+  const tmp = useTempDir('generation-manifest-test-');
+
+  it('records the module, template, hash and tool version of each file', () => {
+    const [record] = createFileRecords(
+      [
+        {
+          relativePath: 'lib/main.dart',
+          content: 'void main() {}\n',
+          templateSource: resolve('templates/core/lib/main.dart.hbs'),
+        },
+      ],
+      tmp.path,
+    );
+
+    expect(record).toEqual({
+      path: 'lib/main.dart',
+      module: 'core',
+      template: 'templates/core/lib/main.dart.hbs',
+      hash: hashContent('void main() {}\n'),
+      toolVersion: getCurrentVersion(),
+    });
+    expect(record.hash).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+
+  it('tells untouched, modified and missing files apart', async () => {
+    await writeFile(join(tmp.path, 'a.dart'), 'a', 'utf-8');
+    await writeFile(join(tmp.path, 'b.dart'), 'b', 'utf-8');
+    await writeFile(join(tmp.path, 'c.dart'), 'c', 'utf-8');
+    await recordGeneratedFiles(tmp.path, [
+      { relativePath: 'a.dart', content: 'a' },
+      { relativePath: 'b.dart', content: 'b', module: 'api' },
+      { relativePath: 'c.dart', content: 'c' },
+    ]);
+    await writeFile(join(tmp.path, 'b.dart'), 'edited', 'utf-8');
+    await rm(join(tmp.path, 'c.dart'));
+
+    const states = (await checkGeneratedFiles(tmp.path)).map((s) => [s.record.path, s.state]);
+
+    expect(states).toEqual([
+      ['a.dart', 'untouched'],
+      ['b.dart', 'modified'],
+      ['c.dart', 'missing'],
+    ]);
+  });
+
+  it('hashes the files as they are on disk', async () => {
+    await writeFile(join(tmp.path, 'main.dart'), 'formatted', 'utf-8');
+
+    await recordGeneratedFiles(tmp.path, [{ relativePath: 'main.dart', content: 'raw' }]);
+
+    const manifest = await readGenerationManifest(tmp.path);
+    expect(await getGeneratedFileState(tmp.path, manifest!.files[0])).toBe('untouched');
+  });
+
+  it('compares recorded files by hash and others with the fallback', async () => {
+    await writeFile(join(tmp.path, 'recorded.dart'), 'formatted', 'utf-8');
+    await recordGeneratedFiles(tmp.path, [{ relativePath: 'recorded.dart', content: 'raw' }]);
+    await writeFile(join(tmp.path, 'unrecorded.dart'), 'rendered', 'utf-8');
+
+    const states = await getFileStates(
+      tmp.path,
+      ['recorded.dart', 'unrecorded.dart', 'missing.dart'],
+      (_, content) => content === 'rendered',
+    );
+
+    expect([...states]).toEqual([
+      ['recorded.dart', 'untouched'],
+      ['unrecorded.dart', 'untouched'],
+      ['missing.dart', 'missing'],
+    ]);
+  });
+
+  it('replaces and drops records when updated', async () => {
+    const [a, b] = createFileRecords(
+      [
+        { relativePath: 'a.dart', content: 'a' },
+        { relativePath: 'b.dart', content: 'b' },
+      ],
+      tmp.path,
+    );
+    await updateGenerationManifest(tmp.path, [a, b]);
+
+    await updateGenerationManifest(tmp.path, [{ ...a, hash: hashContent('a2') }], ['b.dart']);
+
+    const manifest = await readGenerationManifest(tmp.path);
+    expect(manifest?.files).toEqual([{ ...a, hash: hashContent('a2') }]);
+  });
+
+  it('returns no files for projects without a manifest', async () => {
+    expect(await readGenerationManifest(tmp.path)).toBeNull();
+    expect(await checkGeneratedFiles(tmp.path)).toEqual([]);
+  });
+
+  it('is written by the scaffold engine for core and module files', async () => {
+    const engine = new ScaffoldEngine({
+      templatesDir: resolve('templates/core'),
+      modulesTemplatesDir: resolve('templates/modules'),
+      registry: createTestRegistry(),
+    });
+    await engine.run(
+      makeWritableContext(tmp.path, {
+        modules: { ...makeWritableContext(tmp.path).modules, api: { baseUrl: undefined } },
+      }),
+    );
+
+    const raw = JSON.parse(await readFile(join(tmp.path, GENERATION_MANIFEST_PATH), 'utf-8')) as {
+      files: { path: string; module: string; template?: string }[];
+    };
+    expect(raw.files.find((f) => f.path === 'lib/main.dart')).toMatchObject({
+      module: 'core',
+      template: 'templates/core/lib/main.dart.hbs',
+    });
+    expect(
+      raw.files.find((f) => f.path === 'lib/features/api/presentation/providers/api_provider.dart'),
+    ).toMatchObject({ module: 'api' });
+    expect((await checkGeneratedFiles(tmp.path)).every((s) => s.state === 'untouched')).toBe(true);
+  });
+});
@@ -0,0 +1,403 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import {
+  ANDROID_MANIFEST_PATH,
+  IOS_INFO_PLIST_PATH,
+  ProjectFileEditor,
+  insertMarkedBlock,
+  removeMarkedBlock,
+  runModuleHooks,
+  writeHookChanges,
+} from '../../src/modules/hooks.js';
+import { manifest as deepLinkingManifest } from '../../src/modules/definitions/deep-linking/module.js';
+import { manifest as pushManifest } from '../../src/modules/definitions/push/module.js';
+import type { ModuleManifest } from '../../src/types/module.js';
+import { makeTestContext } from '../helpers/context-factory.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+
+const ANDROID_MANIFEST = [
+  '<manifest xmlns:android="http://schemas.android.com/apk/res/android">',
+  '    <application android:label="my_app">',
+  '        <activity android:name=".MainActivity">',
+  '            <intent-filter>',
+  '                <action android:name="android.intent.action.MAIN"/>',
+  '            </intent-filter>',
+  '        </activity>',
+  '    </application>',
+  '</manifest>',
+  '',
+].join('\n');
+
+const INFO_PLIST = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<plist version="1.0">',
+  '<dict>',
+  '\t<key>CFBundleName</key>',
+  '\t<string>my_app</string>',
+  '</dict>',
+  '</plist>',
+  '',
+].join('\n');
+
+function makeManifest(overrides: Partial<ModuleManifest> = {}): ModuleManifest {
+  return {
+    id: 'test-module',
+    name: 'Test Module',
+    description: 'A test module',
+    requires: [],
+    templateDir: 'templates/modules/test-module',
+    ralphPhase: 2,
+    contributions: {},
+    ...overrides,
+  };
+}
+
+async function writeNativeProjects(projectRoot: string): Promise<void> {
+  await mkdir(join(projectRoot, 'android/app/src/main'), { recursive: true });
+  await mkdir(join(projectRoot, 'ios/Runner'), { recursive: true });
+  await writeFile(join(projectRoot, ANDROID_MANIFEST_PATH), ANDROID_MANIFEST, 'utf-8');
+  await writeFile(join(projectRoot, IOS_INFO_PLIST_PATH), INFO_PLIST, 'utf-8');
+}
+
+describe('ProjectFileEditor', () => {
+  const tmp = useTempDir('module-hooks-editor-');
+
+  it('reads staged edits first, then generated files, then the project on disk', async () => {
+    await writeFile(join(tmp.path, 'a.txt'), 'disk', 'utf-8');
+    await writeFile(join(tmp.path, 'b.txt'), 'disk', 'utf-8');
+    const editor = new ProjectFileEditor(tmp.path, new Map([['b.txt', 'generated']]));
+
+    expect(await editor.read('a.txt')).toBe('disk');
+    expect(await editor.read('b.txt')).toBe('generated');
+
+    await editor.write('b.txt', 'staged');
+    expect(await editor.read('b.txt')).toBe('staged');
+    expect(await editor.read('missing.txt')).toBeUndefined();
+  });
+
+  it('stages writes without touching the disk', async () => {
+    const editor = new ProjectFileEditor(tmp.path);
+
+    await editor.write('./config/new.txt', 'content');
+
+    expect(editor.changes).toEqual(new Map([['config/new.txt', 'content']]));
+    expect(await editor.exists('config/new.txt')).toBe(true);
+    await expect(readFile(join(tmp.path, 'config/new.txt'), 'utf-8')).rejects.toThrow();
+  });
+
+  it('returns false when updating a missing file and skips unchanged content', async () => {
+    await writeFile(join(tmp.path, 'a.txt'), 'same', 'utf-8');
+    const editor = new ProjectFileEditor(tmp.path);
+
+    expect(await editor.update('missing.txt', (c) => c + '!')).toBe(false);
+    expect(await editor.update('a.txt', (c) => c)).toBe(true);
+    expect(editor.changes.size).toBe(0);
+  });
+
+  it('rejects paths outside the project', async () => {
+    const editor = new ProjectFileEditor(tmp.path);
+
+    await expect(editor.read('../outside.txt')).rejects.toThrow(
+      "Module hooks can only edit files inside the project: '../outside.txt'",
+    );
+    await expect(editor.write('/etc/hosts', '')).rejects.toThrow('inside the project');
+    await expect(editor.write('lib/../../x', '')).rejects.toThrow('inside the project');
+  });
+});
+
+describe('runModuleHooks', () => {
+  const tmp = useTempDir('module-hooks-run-');
+
+  it('runs the hook of each module in order on a shared editor', async () => {
+    const first = makeManifest({
+      id: 'first',
+      hooks: {
+        afterGenerate: async ({ fs, log }) => {
+          await fs.write('notes.txt', 'first');
+          log('wrote notes');
+        },
+      },
+    });
+    const second = makeManifest({
+      id: 'second',
+      hooks: {
+        afterGenerate: async ({ fs }) => {
+          await fs.update('notes.txt', (content) => `${content}, second`);
+        },
+      },
+    });
+    const withoutHooks = makeManifest({ id: 'plain' });
+
+    const result = await runModuleHooks(
+      [first, withoutHooks, second],
+      'afterGenerate',
+      makeTestContext(),
+      tmp.path,
+    );
+
+    expect(result.changes).toEqual(new Map([['notes.txt', 'first, second']]));
+    expect(result.messages).toEqual(['first: wrote notes']);
+  });
+
+  it('only runs the requested hook', async () => {
+    const mod = makeManifest({
+      hooks: {
+        onAdd: async ({ log }) => log('added'),
+        onRemove: async ({ log }) => log('removed'),
+      },
+    });
+
+    const result = await runModuleHooks([mod], 'onRemove', makeTestContext(), tmp.path);
+
+    expect(result.messages).toEqual(['test-module: removed']);
+  });
+
+  it('names the module and hook when a hook fails', async () => {
+    const mod = makeManifest({
+      id: 'broken',
+      hooks: {
+        beforeGenerate: () => {
+          throw new Error('boom');
+        },
+      },
+    });
+
+    await expect(
+      runModuleHooks([mod], 'beforeGenerate', makeTestContext(), tmp.path),
+    ).rejects.toThrow("Module 'broken' beforeGenerate hook failed: boom");
+  });
+});
+
+describe('writeHookChanges', () => {
+  const tmp = useTempDir('module-hooks-write-');
+
+  it('writes every change, creating parent directories', async () => {
+    await writeHookChanges(tmp.path, new Map([['ios/Runner/new.txt', 'hello']]));
+
+    expect(await readFile(join(tmp.path, 'ios/Runner/new.txt'), 'utf-8')).toBe('hello');
+  });
+});
+
+describe('insertMarkedBlock and removeMarkedBlock', () => {
+  const content = ['<root>', '  <child />', '</root>', ''].join('\n');
+
+  it('inserts a marked block with the indentation of the anchor line', () => {
+    const updated = insertMarkedBlock(content, 'demo', '<a />\n<b />', {
+      before: '</root>',
+      indent: '  ',
+    });
+
+    expect(updated).toBe(
+      [
+        '<root>',
+        '  <child />',
+        '  <!-- maxsim:demo -->',
+        '  <a />',
+        '  <b />',
+        '  <!-- /maxsim:demo -->',
+        '</root>',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('is idempotent and leaves content without the anchor unchanged', () => {
+    const once = insertMarkedBlock(content, 'demo', '<a />', { before: '</root>' });
+
+    expect(insertMarkedBlock(once, 'demo', '<a />', { before: '</root>' })).toBe(once);
+    expect(insertMarkedBlock(content, 'demo', '<a />', { before: '</missing>' })).toBe(content);
+  });
+
+  it('uses the last occurrence of the anchor when asked', () => {
+    const nested = '<dict>\n\t<dict>\n\t</dict>\n</dict>\n';
+
+    const updated = insertMarkedBlock(nested, 'demo', '<a />', { before: '</dict>', last: true });
+
+    expect(updated.endsWith('<!-- /maxsim:demo -->\n</dict>\n')).toBe(true);
+  });
+
+  it('removes exactly the block that was inserted', () => {
+    const inserted = insertMarkedBlock(content, 'demo', '<a />', { before: '</root>' });
+
+    expect(removeMarkedBlock(inserted, 'demo')).toBe(content);
+    expect(removeMarkedBlock(content, 'demo')).toBe(content);
+  });
+});
+
+describe('built-in module hooks', () => {
+  const tmp = useTempDir('module-hooks-native-');
+
+  it('deep-linking registers and unregisters its scheme and host', async () => {
+    await writeNativeProjects(tmp.path);
+    const context = makeTestContext({
+      modules: {
+        ...makeTestContext().modules,
+        deepLinking: { scheme: 'shop', host: 'shop.example.com' },
+      },
+    });
+
+    const added = await runModuleHooks([deepLinkingManifest], 'afterGenerate', context, tmp.path);
+    const manifest = added.changes.get(ANDROID_MANIFEST_PATH) ?? '';
+    const plist = added.changes.get(IOS_INFO_PLIST_PATH) ?? '';
+
+    expect(manifest).toContain('<data android:scheme="https" android:host="shop.example.com" />');
+    expect(manifest).toContain('<data android:scheme="shop" />');
+    expect(manifest.indexOf('maxsim:deep-linking')).toBeLessThan(manifest.indexOf('</activity>'));
+    expect(plist).toContain('\t\t\t\t<string>shop</string>');
+    expect(added.messages.some((m) => m.includes('applinks:shop.example.com'))).toBe(true);
+
+    await writeHookChanges(tmp.path, added.changes);
+    const removed = await runModuleHooks(
+      [deepLinkingManifest],
+      'onRemove',
+      makeTestContext(),
+      tmp.path,
+    );
+
+    expect(removed.changes.get(ANDROID_MANIFEST_PATH)).toBe(ANDROID_MANIFEST);
+    expect(removed.changes.get(IOS_INFO_PLIST_PATH)).toBe(INFO_PLIST);
+  });
+
+  it('deep-linking explains the manual steps when the native projects are missing', async () => {
+    const context = makeTestContext({
+      modules: { ...makeTestContext().modules, deepLinking: {} },
+    });
+
+    const result = await runModuleHooks([deepLinkingManifest], 'afterGenerate', context, tmp.path);
+
+    expect(result.changes.size).toBe(0);
+    expect(result.messages).toContain(
+      `deep-linking: ${ANDROID_MANIFEST_PATH} not found — add intent filters for myapp:// to MainActivity`,
+    );
+  });
+
+  it('deep-linking registers only the custom scheme without a configured host', async () => {
+    await writeNativeProjects(tmp.path);
+    const context = makeTestContext({
+      modules: { ...makeTestContext().modules, deepLinking: { scheme: 'shop' } },
+    });
+
+    const result = await runModuleHooks([deepLinkingManifest], 'afterGenerate', context, tmp.path);
+    const manifest = result.changes.get(ANDROID_MANIFEST_PATH) ?? '';
+
+    expect(manifest).toContain('<data android:scheme="shop" />');
+    expect(manifest).not.toContain('autoVerify');
+    expect(manifest).not.toContain('android:host');
+    expect(result.messages.some((m) => m.includes('applinks:'))).toBe(false);
+  });
+
+  it('deep-linking adds its scheme to an existing CFBundleURLTypes array', async () => {
+    await writeNativeProjects(tmp.path);
+    const plist = INFO_PLIST.replace(
+      '</dict>',
+      [
+        '\t<key>CFBundleURLTypes</key>',
+        '\t<array>',
+        '\t\t<dict>',
+        '\t\t\t<key>CFBundleURLSchemes</key>',
+        '\t\t\t<array>',
+        '\t\t\t\t<string>fb123</string>',
+        '\t\t\t</array>',
+        '\t\t</dict>',
+        '\t</array>',
+        '</dict>',
+      ].join('\n'),
+    );
+    await writeFile(join(tmp.path, IOS_INFO_PLIST_PATH), plist, 'utf-8');
+    const context = makeTestContext({
+      modules: { ...makeTestContext().modules, deepLinking: { scheme: 'shop' } },
+    });
+
+    const added = await runModuleHooks([deepLinkingManifest], 'afterGenerate', context, tmp.path);
+    const updated = added.changes.get(IOS_INFO_PLIST_PATH) ?? '';
+
+    expect(updated.split('<key>CFBundleURLTypes</key>')).toHaveLength(2);
+    expect(updated).toContain(
+      [
+        '\t\t</dict>',
+        '\t\t<!-- maxsim:deep-linking -->',
+        '\t\t<dict>',
+        '\t\t\t<key>CFBundleURLSchemes</key>',
+        '\t\t\t<array>',
+        '\t\t\t\t<string>shop</string>',
+        '\t\t\t</array>',
+        '\t\t</dict>',
+        '\t\t<!-- /maxsim:deep-linking -->',
+        '\t</array>',
+      ].join('\n'),
+    );
+
+    // Running the hook again changes nothing, and removing the module restores the plist
+    await writeHookChanges(tmp.path, added.changes);
+    const again = await runModuleHooks([deepLinkingManifest], 'afterGenerate', context, tmp.path);
+    expect(again.changes.has(IOS_INFO_PLIST_PATH)).toBe(false);
+    const removed = await runModuleHooks(
+      [deepLinkingManifest],
+      'onRemove',
+      makeTestContext(),
+      tmp.path,
+    );
+    expect(removed.changes.get(IOS_INFO_PLIST_PATH)).toBe(plist);
+  });
+
+  it('deep-linking leaves CFBundleURLTypes alone when the scheme is listed', async () => {
+    await writeNativeProjects(tmp.path);
+    const plist = INFO_PLIST.replace(
+      '</dict>',
+      [
+        '\t<key>CFBundleURLTypes</key>',
+        '\t<array>',
+        '\t\t<dict>',
+        '\t\t\t<key>CFBundleURLSchemes</key>',
+        '\t\t\t<array>',
+        '\t\t\t\t<string>shop</string>',
+        '\t\t\t</array>',
+        '\t\t</dict>',
+        '\t</array>',
+        '</dict>',
+      ].join('\n'),
+    );
+    await writeFile(join(tmp.path, IOS_INFO_PLIST_PATH), plist, 'utf-8');
+    const context = makeTestContext({
+      modules: { ...makeTestContext().modules, deepLinking: { scheme: 'shop' } },
+    });
+
+    const result = await runModuleHooks([deepLinkingManifest], 'afterGenerate', context, tmp.path);
+
+    expect(result.changes.has(IOS_INFO_PLIST_PATH)).toBe(false);
+  });
+
+  it('push adds the notification permission and background mode', async () => {
+    await writeNativeProjects(tmp.path);
+    const context = makeTestContext({
+      modules: { ...makeTestContext().modules, push: { provider: 'firebase' } },
+    });
+
+    const result = await runModuleHooks([pushManifest], 'afterGenerate', context, tmp.path);
+    const manifest = result.changes.get(ANDROID_MANIFEST_PATH) ?? '';
+
+    expect(manifest).toContain('android.permission.POST_NOTIFICATIONS');
+    expect(manifest.indexOf('POST_NOTIFICATIONS')).toBeLessThan(manifest.indexOf('<application'));
+    expect(result.changes.get(IOS_INFO_PLIST_PATH)).toContain(
+      '<string>remote-notification</string>',
+    );
+    expect(result.messages.some((m) => m.includes('flutterfire configure'))).toBe(true);
+  });
+
+  it('push leaves an existing UIBackgroundModes entry alone', async () => {
+    await writeNativeProjects(tmp.path);
+    const plist = INFO_PLIST.replace(
+      '</dict>',
+      '\t<key>UIBackgroundModes</key>\n\t<array>\n\t\t<string>fetch</string>\n\t</array>\n</dict>',
+    );
+    await writeFile(join(tmp.path, IOS_INFO_PLIST_PATH), plist, 'utf-8');
+    const context = makeTestContext({
+      modules: { ...makeTestContext().modules, push: { provider: 'onesignal' } },
+    });
+
+    const result = await runModuleHooks([pushManifest], 'afterGenerate', context, tmp.path);
+
+    expect(result.changes.has(IOS_INFO_PLIST_PATH)).toBe(false);
+  });
+});
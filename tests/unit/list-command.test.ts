@@ -132,6 +132,33 @@ describe('getModuleConfigDetails', () => {
     const details = getModuleConfigDetails(config, 'api');
     expect(details).toBe('baseUrl: https://api.example.com');
   });
+
+  it('shows every string and number option of modules without a configSummary', () => {
+    const config = parseConfig({
+      project: { name: 'my_app', orgId: 'com.example' },
+      modules: { 'stripe-payments': { enabled: true, currency: 'eur', retries: 3, live: true } },
+    });
+    const details = getModuleConfigDetails(config, 'stripe-payments');
+    expect(details).toBe('currency: eur, retries: 3');
+  });
+
+  it('uses the configSummary labels of the given manifest', () => {
+    const config = parseConfig({
+      project: { name: 'my_app', orgId: 'com.example' },
+      modules: { 'stripe-payments': { enabled: true, currency: 'eur', retries: 3 } },
+    });
+    const details = getModuleConfigDetails(config, 'stripe-payments', {
+      id: 'stripe-payments',
+      name: 'Stripe Payments',
+      description: 'Stripe checkout',
+      requires: [],
+      templateDir: 'templates',
+      ralphPhase: 3,
+      contributions: {},
+      configSummary: { currency: 'cur' },
+    });
+    expect(details).toBe('cur: eur');
+  });
 });
 
 describe('printModuleTable', () => {
@@ -194,6 +221,19 @@ describe('printModuleTable', () => {
     const output = consoleOutput.join('\n');
     expect(output).toContain('provider: supabase');
   });
+
+  it('prints rows for the given module IDs, including external modules', () => {
+    const config = parseConfig({
+      project: { name: 'my_app', orgId: 'com.example' },
+      modules: { 'stripe-payments': { enabled: true } },
+    });
+
+    printModuleTable(config, new Set(['stripe-payments']), ['auth', 'stripe-payments']);
+
+    const stripeRow = consoleOutput.find((line) => line.includes('stripe-payments'));
+    expect(stripeRow).toContain('enabled');
+    expect(consoleOutput.some((line) => line.includes('deep-linking'))).toBe(false);
+  });
 });
 
 describe('list command integration', () => {
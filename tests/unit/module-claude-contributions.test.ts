@@ -0,0 +1,139 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { collectClaudeContributions } from '../../src/claude-setup/module-contributions.js';
+import { generateClaudeMd } from '../../src/claude-setup/claude-md-generator.js';
+import { generatePrd } from '../../src/claude-setup/prd-generator.js';
+import { writeRules } from '../../src/claude-setup/rules-writer.js';
+import { writeSkills } from '../../src/claude-setup/skill-writer.js';
+import type { ProjectContext } from '../../src/core/context.js';
+import type { Prd } from '../../src/claude-setup/prd-schema.js';
+import type { ModuleManifest } from '../../src/types/module.js';
+import { makeTestContext } from '../helpers/context-factory.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+
+const payments: ModuleManifest = {
+  id: 'payments',
+  name: 'Payments',
+  description: 'Stripe checkout',
+  requires: [],
+  templateDir: 'templates/modules/payments',
+  ralphPhase: 3,
+  contributions: {},
+  claude: (context) => ({
+    rules: [{ name: 'payments', paths: ['lib/features/payments/**'], content: '# Payments\n' }],
+    skills: [{ name: 'checkout-flow', content: '---\nname: checkout-flow\n---\n\n# Checkout\n' }],
+    claudeMd: `Checkout runs in test mode for ${context.projectName}.`,
+    stories: [
+      {
+        priority: 'P1',
+        title: 'Implement Stripe checkout',
+        description: 'Build the checkout flow.',
+        storyPoints: 5,
+        dependencies: ['P1-CORE-002'],
+        acceptanceCriteria: ['Checkout page is reachable at `/checkout`'],
+      },
+    ],
+  }),
+};
+
+function makeContext(modules: Partial<ProjectContext['modules']> = {}) {
+  return makeTestContext({
+    claude: { enabled: true, agentTeams: false },
+    modules: { ...makeTestContext().modules, ...modules },
+  });
+}
+
+describe('collectClaudeContributions', () => {
+  it('lists enabled built-in modules in display order, then registered modules', () => {
+    const context = makeContext({ api: {}, auth: { provider: 'firebase' }, payments: {} });
+
+    const ids = collectClaudeContributions(context, [payments]).map((c) => c.moduleId);
+
+    expect(ids).toEqual(['auth', 'api', 'payments']);
+  });
+
+  it('skips registered modules that are not enabled', () => {
+    const ids = collectClaudeContributions(makeContext(), [payments]).map((c) => c.moduleId);
+
+    expect(ids).toEqual([]);
+  });
+
+  it('uses a static contribution as is', () => {
+    const context = makeContext({ analytics: {} });
+
+    const [analytics] = collectClaudeContributions(context);
+
+    expect(analytics.contribution.rules?.map((r) => r.name)).toEqual(['analytics']);
+  });
+
+  it('rejects rule and skill names that are not kebab-case', () => {
+    const bad: ModuleManifest = {
+      ...payments,
+      claude: { rules: [{ name: '../settings', paths: [], content: '' }] },
+    };
+
+    expect(() => collectClaudeContributions(makeContext({ payments: {} }), [bad])).toThrow(
+      "Module 'payments' contributes an invalid Claude rule or skill name: '../settings'",
+    );
+  });
+});
+
+describe('module contributions in the Claude setup', () => {
+  const tmp = useTempDir('module-claude-test-');
+  const context = makeContext({ payments: {} });
+
+  it('writes module rules and imports them from CLAUDE.md', async () => {
+    const written = await writeRules(context, tmp.path, [payments]);
+
+    const rulePath = join(tmp.path, '.claude', 'rules', 'payments.md');
+    expect(written).toContain(rulePath);
+    expect(await readFile(rulePath, 'utf-8')).toBe(
+      '---\npaths:\n  - "lib/features/payments/**"\n---\n\n# Payments\n',
+    );
+    expect(generateClaudeMd(context, [payments])).toContain('@.claude/rules/payments.md');
+  });
+
+  it('refuses module rules that would replace a core rule', async () => {
+    const bad: ModuleManifest = {
+      ...payments,
+      claude: { rules: [{ name: 'security', paths: ['**'], content: '' }] },
+    };
+
+    await expect(writeRules(context, tmp.path, [bad])).rejects.toThrow(
+      "Module 'payments' contributes a rule named 'security', which already exists",
+    );
+  });
+
+  it('writes module skills', async () => {
+    const written = await writeSkills(context, tmp.path, [payments]);
+
+    const skillPath = join(tmp.path, '.claude', 'skills', 'checkout-flow', 'SKILL.md');
+    expect(written).toContain(skillPath);
+    expect(await readFile(skillPath, 'utf-8')).toContain('# Checkout');
+  });
+
+  it('adds module notes to CLAUDE.md', () => {
+    const claudeMd = generateClaudeMd(context, [payments]);
+
+    expect(claudeMd).toContain('**Active modules:** payments');
+    expect(claudeMd).toContain(
+      '## Module Notes\n\n### Payments\n\nCheckout runs in test mode for my_app.',
+    );
+  });
+
+  it('adds module stories to Phase 2 of prd.json', () => {
+    const prd = JSON.parse(generatePrd(context, [payments])) as Prd;
+
+    const story = prd.stories.find((s) => s.module === 'payments');
+    expect(story).toMatchObject({
+      id: 'P2-PAYMENTS-001',
+      phase: 2,
+      dependencies: ['P1-CORE-002'],
+      acceptanceCriteria: [{ description: 'Checkout page is reachable at `/checkout`' }],
+      passes: false,
+    });
+    const qa = prd.stories.find((s) => s.id === 'P3-QA-001');
+    expect(qa?.dependencies).toContain('P2-PAYMENTS-001');
+  });
+});
@@ -0,0 +1,113 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import {
+  MODULE_LOCK_PATH,
+  compareVersions,
+  findModuleUpdates,
+  formatModuleUpdate,
+  lockModules,
+  readModuleLock,
+  updateModuleLock,
+  writeModuleLock,
+} from '../../src/modules/versions.js';
+import type { ModuleManifest } from '../../src/types/module.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+
+function makeManifest(id: string, version?: string, alwaysIncluded?: boolean): ModuleManifest {
+  return {
+    id,
+    name: id,
+    description: `${id} module`,
+    version,
+    requires: [],
+    templateDir: `templates/modules/${id}`,
+    ralphPhase: 2,
+    alwaysIncluded,
+    contributions: {},
+  };
+}
+
+describe('compareVersions', () => {
+  it('compares major, minor and patch numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+    expect(compareVersions('1.0.2', '2.0.0')).toBeLessThan(0);
+    expect(compareVersions('1.2.3', '1.2.3')).toBe(0);
+  });
+
+  it('orders pre-releases before their release', () => {
+    expect(compareVersions('1.0.0-beta.2', '1.0.0')).toBeLessThan(0);
+    expect(compareVersions('1.0.0-beta.10', '1.0.0-beta.2')).toBeGreaterThan(0);
+  });
+
+  it('throws on versions that are not semver', () => {
+    expect(() => compareVersions('1.0', '1.0.0')).toThrow("'1.0' is not a semantic version");
+  });
+});
+
+describe('findModuleUpdates', () => {
+  const modules = [
+    makeManifest('core', '1.0.0', true),
+    makeManifest('auth', '1.1.0'),
+    makeManifest('api', '1.0.0'),
+    makeManifest('theme'),
+  ];
+
+  it('reports modules with newer templates than the lockfile records', () => {
+    const lock = { modules: { auth: '1.0.0', api: '1.0.0', theme: '0.0.0' } };
+
+    expect(findModuleUpdates(modules, lock)).toEqual([
+      { moduleId: 'auth', installed: '1.0.0', available: '1.1.0' },
+    ]);
+  });
+
+  it('reports every module with an unknown version when there is no lockfile', () => {
+    const updates = findModuleUpdates(modules, null);
+
+    expect(updates.map(formatModuleUpdate)).toEqual([
+      'auth unknown → 1.1.0',
+      'api unknown → 1.0.0',
+      'theme unknown → 0.0.0',
+    ]);
+  });
+
+  it('does not record always-included modules', () => {
+    expect(lockModules(modules)).toEqual({ auth: '1.1.0', api: '1.0.0', theme: '0.0.0' });
+  });
+});
+
+describe('module lockfile', () => {
+  const tmp = useTempDir('module-lock-test-');
+
+  it('returns null when the project has no lockfile', async () => {
+    expect(await readModuleLock(tmp.path)).toBeNull();
+  });
+
+  it('writes the modules sorted by ID and reads them back', async () => {
+    await writeModuleLock(tmp.path, { modules: { theme: '1.0.0', auth: '1.2.0' } });
+
+    expect(await readFile(join(tmp.path, MODULE_LOCK_PATH), 'utf-8')).toBe(
+      '{\n  "modules": {\n    "auth": "1.2.0",\n    "theme": "1.0.0"\n  }\n}\n',
+    );
+    expect(await readModuleLock(tmp.path)).toEqual({
+      modules: { auth: '1.2.0', theme: '1.0.0' },
+    });
+  });
+
+  it('records added modules and drops removed ones', async () => {
+    await writeModuleLock(tmp.path, { modules: { auth: '1.0.0', api: '1.0.0' } });
+
+    await updateModuleLock(tmp.path, [makeManifest('auth', '1.1.0')], ['api']);
+
+    expect(await readModuleLock(tmp.path)).toEqual({ modules: { auth: '1.1.0' } });
+  });
+
+  it('rejects malformed lockfiles', async () => {
+    await mkdir(join(tmp.path, '.maxsim'), { recursive: true });
+    await writeFile(join(tmp.path, MODULE_LOCK_PATH), '{"modules": ["auth"]}', 'utf-8');
+
+    await expect(readModuleLock(tmp.path)).rejects.toThrow(
+      "must map module IDs to versions under 'modules'",
+    );
+  });
+});
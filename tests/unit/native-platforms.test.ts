@@ -0,0 +1,247 @@
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import fsExtra from 'fs-extra';
+const { ensureDir, pathExists } = fsExtra;
+
+import { ScaffoldEngine } from '../../src/scaffold/engine.js';
+import { createProjectContext } from '../../src/core/context.js';
+import { parseConfig } from '../../src/core/config/loader.js';
+import {
+  addAndroidProductFlavors,
+  createNativePlatforms,
+  flutterCreateArgs,
+} from '../../src/scaffold/native-platforms.js';
+import { ANDROID_MANIFEST_PATH } from '../../src/modules/hooks.js';
+import { createFlutterStub } from '../helpers/flutter-stub.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+import { createTestRegistry } from '../helpers/registry-factory.js';
+
+const rawConfig = {
+  project: { name: 'my_app', orgId: 'com.example', description: 'A test app' },
+  platforms: ['android', 'ios'],
+  claude: { enabled: false },
+  scaffold: {
+    runFlutterCreate: true,
+    runDartFormat: false,
+    runPubGet: false,
+    runBuildRunner: false,
+  },
+};
+
+describe('createNativePlatforms', () => {
+  const tmp = useTempDir('native-platforms-test-');
+
+  function makeContext(config: Record<string, unknown> = rawConfig) {
+    return createProjectContext(parseConfig(config), tmp.path);
+  }
+
+  it('runs flutter create with the project name, org, platforms and description', () => {
+    expect(flutterCreateArgs(makeContext(), '/tmp/out/my_app')).toEqual([
+      'create',
+      '--project-name',
+      'my_app',
+      '--org',
+      'com.example',
+      '--platforms=android,ios',
+      '--description',
+      'A test app',
+      '/tmp/out/my_app',
+    ]);
+  });
+
+  it('merges the platform folders and .metadata into the output, but not lib/', async () => {
+    const flutter = createFlutterStub();
+
+    const platforms = await createNativePlatforms(makeContext(), flutter);
+
+    expect(platforms).toEqual(['android', 'ios']);
+    expect(flutter.calls).toHaveLength(1);
+    expect(await pathExists(join(tmp.path, ANDROID_MANIFEST_PATH))).toBe(true);
+    expect(await pathExists(join(tmp.path, 'ios/Runner/Info.plist'))).toBe(true);
+    expect(await pathExists(join(tmp.path, '.metadata'))).toBe(true);
+    expect(await pathExists(join(tmp.path, 'lib/main.dart'))).toBe(false);
+  });
+
+  it('keeps native files that already exist', async () => {
+    await ensureDir(join(tmp.path, 'android/app'));
+    await writeFile(join(tmp.path, 'android/app/build.gradle.kts'), '// edited\n', 'utf-8');
+
+    await createNativePlatforms(makeContext(), createFlutterStub());
+
+    expect(await readFile(join(tmp.path, 'android/app/build.gradle.kts'), 'utf-8')).toBe(
+      '// edited\n',
+    );
+    expect(await pathExists(join(tmp.path, ANDROID_MANIFEST_PATH))).toBe(true);
+  });
+
+  it('reports a missing Flutter SDK', async () => {
+    const missing = async () => {
+      throw Object.assign(new Error('spawn flutter ENOENT'), { code: 'ENOENT' });
+    };
+
+    await expect(createNativePlatforms(makeContext(), missing)).rejects.toThrow(
+      'Flutter SDK not found on the PATH',
+    );
+  });
+});
+
+describe('addAndroidProductFlavors', () => {
+  const tmp = useTempDir('android-flavors-test-');
+  const environments = [
+    { name: 'dev', bundleIdSuffix: '.dev', appName: 'my_app (dev)', apiBaseUrl: '' },
+    { name: 'prod', bundleIdSuffix: '', appName: 'my_app', apiBaseUrl: '' },
+  ];
+
+  async function writeBuildFile(relativePath: string, content: string): Promise<void> {
+    await ensureDir(join(tmp.path, 'android/app'));
+    await writeFile(join(tmp.path, relativePath), content, 'utf-8');
+  }
+
+  it('declares a product flavor per environment in build.gradle.kts', async () => {
+    await writeBuildFile('android/app/build.gradle.kts', 'android {\n    namespace = "a"\n}\n');
+
+    expect(await addAndroidProductFlavors(tmp.path, environments)).toBe(
+      'android/app/build.gradle.kts',
+    );
+
+    expect(await readFile(join(tmp.path, 'android/app/build.gradle.kts'), 'utf-8')).toBe(
+      [
+        'android {',
+        '    flavorDimensions += "environment"',
+        '    productFlavors {',
+        '        create("dev") {',
+        '            dimension = "environment"',
+        '            applicationIdSuffix = ".dev"',
+        '            resValue("string", "app_name", "my_app (dev)")',
+        '        }',
+        '        create("prod") {',
+        '            dimension = "environment"',
+        '            resValue("string", "app_name", "my_app")',
+        '        }',
+        '    }',
+        '',
+        '    namespace = "a"',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('uses the Groovy syntax in build.gradle', async () => {
+    await writeBuildFile('android/app/build.gradle', 'android {\n}\n');
+
+    expect(await addAndroidProductFlavors(tmp.path, environments)).toBe('android/app/build.gradle');
+
+    const buildFile = await readFile(join(tmp.path, 'android/app/build.gradle'), 'utf-8');
+    expect(buildFile).toContain('    flavorDimensions "environment"\n');
+    expect(buildFile).toContain('        dev {\n            dimension "environment"\n');
+    expect(buildFile).toContain('            applicationIdSuffix ".dev"\n');
+  });
+
+  it('escapes quotes, backslashes and dollar signs in the app name', async () => {
+    const named = [{ name: 'dev', bundleIdSuffix: '', appName: 'My "Dev" $app\\', apiBaseUrl: '' }];
+    const kotlinFile = join(tmp.path, 'android/app/build.gradle.kts');
+    await writeBuildFile('android/app/build.gradle.kts', 'android {\n}\n');
+    await addAndroidProductFlavors(tmp.path, named);
+    const kotlin = await readFile(kotlinFile, 'utf-8');
+    await rm(kotlinFile);
+    await writeBuildFile('android/app/build.gradle', 'android {\n}\n');
+    await addAndroidProductFlavors(tmp.path, named);
+
+    expect(kotlin).toContain('resValue("string", "app_name", "My \\"Dev\\" \\$app\\\\")');
+    expect(await readFile(join(tmp.path, 'android/app/build.gradle'), 'utf-8')).toContain(
+      'resValue "string", "app_name", "My \\"Dev\\" \\$app\\\\"',
+    );
+  });
+
+  it('leaves build files that already declare product flavors alone', async () => {
+    const content = 'android {\n    productFlavors {\n    }\n}\n';
+    await writeBuildFile('android/app/build.gradle.kts', content);
+
+    expect(await addAndroidProductFlavors(tmp.path, environments)).toBeNull();
+    expect(await readFile(join(tmp.path, 'android/app/build.gradle.kts'), 'utf-8')).toBe(content);
+  });
+
+  it('does nothing without environments or an Android app', async () => {
+    expect(await addAndroidProductFlavors(tmp.path, environments)).toBeNull();
+
+    await writeBuildFile('android/app/build.gradle.kts', 'android {\n}\n');
+    expect(await addAndroidProductFlavors(tmp.path, [])).toBeNull();
+  });
+});
+
+describe('ScaffoldEngine with runFlutterCreate', () => {
+  const tmp = useTempDir('native-platforms-engine-test-');
+  const registry = createTestRegistry();
+  const engineOptions = {
+    templatesDir: resolve('templates/core'),
+    modulesTemplatesDir: resolve('templates/modules'),
+    registry,
+  };
+
+  function makeContext(config: Record<string, unknown>) {
+    return createProjectContext(parseConfig(config, registry.getAll()), tmp.path);
+  }
+
+  it('adds the native folders before the module hooks patch them', async () => {
+    const result = await new ScaffoldEngine({
+      ...engineOptions,
+      flutterRunner: createFlutterStub(),
+    }).run(
+      makeContext({
+        ...rawConfig,
+        modules: { 'deep-linking': { enabled: true, scheme: 'myapp', host: 'example.com' } },
+      }),
+    );
+
+    expect(result.nativePlatforms).toEqual(['android', 'ios']);
+    expect(result.nativePlatformErrors).toEqual([]);
+    const manifest = await readFile(join(tmp.path, ANDROID_MANIFEST_PATH), 'utf-8');
+    expect(manifest).toContain('<data android:scheme="myapp" />');
+    expect(await readFile(join(tmp.path, 'lib/main.dart'), 'utf-8')).toContain('ProviderScope');
+  });
+
+  it('adds the product flavors of the environments and builds them in CI', async () => {
+    await new ScaffoldEngine({ ...engineOptions, flutterRunner: createFlutterStub() }).run(
+      makeContext({
+        ...rawConfig,
+        modules: { cicd: { enabled: true, provider: 'github' } },
+        environments: ['dev', 'prod'],
+      }),
+    );
+
+    const buildFile = await readFile(join(tmp.path, 'android/app/build.gradle.kts'), 'utf-8');
+    expect(buildFile).toContain('create("dev") {');
+    expect(buildFile).toContain('create("prod") {');
+    expect(await readFile(join(tmp.path, '.github/workflows/ci.yml'), 'utf-8')).toContain(
+      'run: flutter build apk --debug --flavor dev -t lib/main_dev.dart --dart-define-from-file=.env',
+    );
+  });
+
+  it('still generates the project when Flutter is missing', async () => {
+    const result = await new ScaffoldEngine({
+      ...engineOptions,
+      flutterRunner: async () => {
+        throw Object.assign(new Error('spawn flutter ENOENT'), { code: 'ENOENT' });
+      },
+    }).run(makeContext(rawConfig));
+
+    expect(result.nativePlatforms).toEqual([]);
+    expect(result.nativePlatformErrors).toEqual([
+      'flutter create skipped: Flutter SDK not found on the PATH. Run `flutter create ' +
+        '--org com.example --platforms=android,ios .` in the project to add the native ' +
+        'platform folders.',
+    ]);
+    expect(await pathExists(join(tmp.path, 'lib/main.dart'))).toBe(true);
+    expect(await pathExists(join(tmp.path, 'android'))).toBe(false);
+  });
+
+  it('does not run flutter create unless enabled', async () => {
+    const flutter = createFlutterStub();
+    await new ScaffoldEngine({ ...engineOptions, flutterRunner: flutter }).run(
+      makeContext({ ...rawConfig, scaffold: { ...rawConfig.scaffold, runFlutterCreate: false } }),
+    );
+
+    expect(flutter.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,245 @@
+import { jest } from '@jest/globals';
+import {
+  collectPostProcessors,
+  configPostProcessor,
+  formatPostProcessorError,
+  orderPostProcessors,
+  runPostProcessors,
+} from '../../src/scaffold/post-processors/pipeline.js';
+import { manifest as i18nManifest } from '../../src/modules/definitions/i18n/module.js';
+import type { ModuleManifest } from '../../src/types/module.js';
+import type { PostProcessor } from '../../src/types/post-processor.js';
+import { makeTestContext } from '../helpers/context-factory.js';
+
+function step(id: string, options: Partial<PostProcessor> = {}): PostProcessor {
+  return { id, run: async () => undefined, ...options };
+}
+
+function ids(steps: readonly PostProcessor[]): string[] {
+  return steps.map((s) => s.id);
+}
+
+const allBuiltIns = {
+  dartFormat: true,
+  flutterPubGet: true,
+  buildRunner: true,
+};
+
+describe('orderPostProcessors', () => {
+  it('keeps registration order without constraints', () => {
+    expect(ids(orderPostProcessors([step('a'), step('b'), step('c')]))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('runs steps after their dependsOn and after steps, and before their before steps', () => {
+    const ordered = orderPostProcessors([
+      step('format', { after: ['codegen'] }),
+      step('codegen', { dependsOn: ['pub-get'] }),
+      step('pub-get'),
+      step('l10n', { before: ['codegen'] }),
+    ]);
+
+    expect(ids(ordered)).toEqual(['pub-get', 'l10n', 'codegen', 'format']);
+  });
+
+  it('ignores constraints on steps that are not in the pipeline', () => {
+    const ordered = orderPostProcessors([
+      step('b', { dependsOn: ['missing'], before: ['also-missing'] }),
+      step('a'),
+    ]);
+
+    expect(ids(ordered)).toEqual(['b', 'a']);
+  });
+
+  it('replaces a step with a later one of the same ID, keeping its position', () => {
+    const replacement = step('a', { name: 'custom a' });
+    const ordered = orderPostProcessors([step('a'), step('b'), replacement]);
+
+    expect(ids(ordered)).toEqual(['a', 'b']);
+    expect(ordered[0]).toBe(replacement);
+  });
+
+  it('throws on circular constraints', () => {
+    expect(() =>
+      orderPostProcessors([step('a', { after: ['b'] }), step('b', { after: ['a'] }), step('c')]),
+    ).toThrow('Circular ordering detected among post-processors: a, b');
+  });
+});
+
+describe('runPostProcessors', () => {
+  const context = makeTestContext({ outputDir: '/project' });
+
+  it('passes the project directory to each step and reports a result per step', async () => {
+    const run = jest.fn<PostProcessor['run']>().mockResolvedValue(undefined);
+
+    const results = await runPostProcessors(
+      [step('a', { name: 'step a', run }), step('b', { run })],
+      context,
+    );
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run.mock.calls[0][0].projectDir).toBe('/project');
+    expect(results.map(({ id, name, status }) => ({ id, name, status }))).toEqual([
+      { id: 'a', name: 'step a', status: 'success' },
+      { id: 'b', name: 'b', status: 'success' },
+    ]);
+  });
+
+  it('skips the dependents of a failed step and runs the others', async () => {
+    const results = await runPostProcessors(
+      [
+        step('a', { run: () => Promise.reject(new Error('boom')) }),
+        step('b', { dependsOn: ['a'] }),
+        step('c', { dependsOn: ['b'] }),
+        step('d', { after: ['a'] }),
+      ],
+      context,
+    );
+
+    expect(results.map((r) => [r.id, r.status, r.message])).toEqual([
+      ['a', 'failed', 'boom'],
+      ['b', 'skipped', 'a did not succeed'],
+      ['c', 'skipped', 'b did not succeed'],
+      ['d', 'success', undefined],
+    ]);
+  });
+
+  it('aborts a step that exceeds its timeout', async () => {
+    let signal: AbortSignal | undefined;
+    const results = await runPostProcessors(
+      [
+        step('slow', {
+          timeoutMs: 20,
+          run: (runContext) => {
+            signal = runContext.signal;
+            return new Promise<void>((_, reject) =>
+              runContext.signal.addEventListener('abort', () => reject(new Error('aborted'))),
+            );
+          },
+        }),
+        step('next'),
+      ],
+      context,
+    );
+
+    expect(signal?.aborted).toBe(true);
+    expect(results.map((r) => r.status)).toEqual(['timeout', 'success']);
+    expect(formatPostProcessorError(results[0])).toBe('slow timed out: aborted after 0s');
+  });
+
+  it('waits for an aborted step to stop before running the next one', async () => {
+    const events: string[] = [];
+    await runPostProcessors(
+      [
+        step('slow', {
+          timeoutMs: 20,
+          run: ({ signal }) =>
+            new Promise<void>((_, reject) =>
+              signal.addEventListener('abort', () =>
+                setTimeout(() => {
+                  events.push('slow stopped');
+                  reject(new Error('aborted'));
+                }, 30),
+              ),
+            ),
+        }),
+        step('next', {
+          run: async () => {
+            events.push('next ran');
+          },
+        }),
+      ],
+      context,
+    );
+
+    expect(events).toEqual(['slow stopped', 'next ran']);
+  });
+});
+
+describe('collectPostProcessors', () => {
+  it('orders the built-in steps pub get, build_runner, dart format', () => {
+    const context = makeTestContext({
+      scaffold: { dryRun: false, overwrite: 'always', postProcessors: allBuiltIns },
+    });
+
+    expect(ids(orderPostProcessors(collectPostProcessors(context, [])))).toEqual([
+      'flutter-pub-get',
+      'build-runner',
+      'dart-format',
+    ]);
+  });
+
+  it('runs flutter gen-l10n of the i18n module after pub get and before code generation', () => {
+    const context = makeTestContext({
+      scaffold: { dryRun: false, overwrite: 'always', postProcessors: allBuiltIns },
+    });
+
+    expect(ids(orderPostProcessors(collectPostProcessors(context, [i18nManifest])))).toEqual([
+      'flutter-pub-get',
+      'flutter-gen-l10n',
+      'build-runner',
+      'dart-format',
+    ]);
+  });
+
+  it('leaves out the steps of modules whose isEnabled predicate returns false', () => {
+    const mod = {
+      ...i18nManifest,
+      id: 'disabled',
+      isEnabled: () => false,
+      postProcessors: [step('never')],
+    } satisfies ModuleManifest;
+    const context = makeTestContext();
+
+    expect(ids(collectPostProcessors(context, [mod]))).toEqual([]);
+  });
+
+  it('adds the steps of maxsim.config.yaml, replacing built-in steps with the same ID', () => {
+    const context = makeTestContext({
+      scaffold: {
+        dryRun: false,
+        overwrite: 'always',
+        postProcessors: {
+          ...allBuiltIns,
+          custom: [
+            {
+              id: 'dart-fix',
+              command: 'dart fix --apply',
+              dependsOn: ['flutter-pub-get'],
+              after: [],
+              before: ['dart-format'],
+            },
+            {
+              id: 'dart-format',
+              command: 'dart format --line-length 100 .',
+              dependsOn: [],
+              after: ['build-runner'],
+              before: [],
+              timeout: 60,
+            },
+          ],
+        },
+      },
+    });
+
+    const ordered = orderPostProcessors(collectPostProcessors(context, []));
+
+    expect(ids(ordered)).toEqual(['flutter-pub-get', 'build-runner', 'dart-fix', 'dart-format']);
+    expect(ordered[3].name).toBe('dart format --line-length 100 .');
+    expect(ordered[3].timeoutMs).toBe(60_000);
+  });
+});
+
+describe('configPostProcessor', () => {
+  it('uses the command line as the name and the default timeout when none is set', () => {
+    const processor = configPostProcessor({
+      id: 'flutterfire',
+      command: 'flutterfire configure --yes',
+      dependsOn: [],
+      after: [],
+      before: [],
+    });
+
+    expect(processor).toMatchObject({ id: 'flutterfire', name: 'flutterfire configure --yes' });
+    expect(processor.timeoutMs).toBeUndefined();
+  });
+});
@@ -158,7 +158,7 @@ describe('generatePrd', () => {
   describe('phase 2 stories — theme module', () => {
     it('generates theme story with seed color and dark mode', () => {
       const prd = parsePrd(generatePrd(makePrdContext({
-        theme: { seedColor: '#6750A4', darkMode: true },
+        theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
       })));
       const themeStory = prd.stories.find((s) => s.title.includes('Material 3 theme'));
       expect(themeStory).toBeDefined();
@@ -170,7 +170,7 @@ describe('generatePrd', () => {
 
     it('generates theme story without dark mode', () => {
       const prd = parsePrd(generatePrd(makePrdContext({
-        theme: { darkMode: false },
+        theme: { useMaterial3: true, darkMode: false },
       })));
       const themeStory = prd.stories.find((s) => s.title.includes('Material 3 theme'));
       expect(themeStory!.description).toContain('Light theme only');
@@ -181,7 +181,7 @@ describe('generatePrd', () => {
 
     it('generates theme story with seedColor but no dark mode', () => {
       const prd = parsePrd(generatePrd(makePrdContext({
-        theme: { seedColor: '#FF0000', darkMode: false },
+        theme: { seedColor: '#FF0000', useMaterial3: true, darkMode: false },
       })));
       const themeStory = prd.stories.find((s) => s.title.includes('Material 3 theme'));
       expect(themeStory!.description).toContain('seed color #FF0000');
@@ -321,7 +321,7 @@ describe('generatePrd', () => {
         api: { baseUrl: 'https://api.test.com' },
         database: { engine: 'drift' },
         i18n: { defaultLocale: 'en', supportedLocales: ['en'] },
-        theme: { seedColor: '#000', darkMode: true },
+        theme: { seedColor: '#000', useMaterial3: true, darkMode: true },
         push: { provider: 'firebase' },
         analytics: { enabled: true },
         cicd: { provider: 'github' },
@@ -335,7 +335,7 @@ describe('generatePrd', () => {
     it('IDs use phase-prefixed format regardless of module count', () => {
       const prd = parsePrd(generatePrd(makePrdContext({
         auth: { provider: 'firebase' },
-        theme: { darkMode: true },
+        theme: { useMaterial3: true, darkMode: true },
       })));
 
       for (const story of prd.stories) {
@@ -1,4 +1,13 @@
-import { ModuleRegistry } from '../../src/modules/registry.js';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  ModuleRegistry,
+  createProjectLoader,
+  findPackageRoot,
+  formatExternalModuleError,
+  loadModuleRegistry,
+} from '../../src/modules/registry.js';
+import { useTempDir } from '../helpers/temp-dir.js';
 import type { ExternalLoader } from '../../src/modules/external-validator.js';
 import type { ModuleManifest } from '../../src/types/module.js';
 
@@ -151,3 +160,170 @@ describe('ModuleRegistry.loadExternal', () => {
     ).rejects.toThrow();
   });
 });
+
+describe('ModuleRegistry external template directories', () => {
+  it('resolves a relative templateDir against the package root reported by the loader', async () => {
+    const registry = new ModuleRegistry();
+    const manifest = makeValidManifest({ id: 'stripe-payments', templateDir: 'templates' });
+
+    await registry.loadExternal('maxsim-module-stripe', async () => ({
+      manifest,
+      packageRoot: '/project/node_modules/maxsim-module-stripe',
+    }));
+
+    expect(registry.getTemplateDir('stripe-payments')).toBe(
+      join('/project/node_modules/maxsim-module-stripe', 'templates'),
+    );
+  });
+
+  it('uses an absolute templateDir as-is', async () => {
+    const registry = new ModuleRegistry();
+    const manifest = makeValidManifest({ id: 'stripe-payments', templateDir: '/opt/stripe/templates' });
+
+    await registry.loadExternal('maxsim-module-stripe', async () => ({
+      manifest,
+      packageRoot: '/project/node_modules/maxsim-module-stripe',
+    }));
+
+    expect(registry.getTemplateDir('stripe-payments')).toBe('/opt/stripe/templates');
+  });
+
+  it('records no template directory when the package root is unknown', async () => {
+    const registry = new ModuleRegistry();
+
+    await registry.loadExternal('maxsim-module-stripe', makeLoader(makeValidManifest()));
+
+    expect(registry.getTemplateDir('stripe-payments')).toBeUndefined();
+  });
+
+  it('register() without templateDir leaves built-in modules on the default lookup', () => {
+    const registry = new ModuleRegistry();
+    registry.register(makeValidManifest({ id: 'auth' }));
+    expect(registry.getTemplateDir('auth')).toBeUndefined();
+  });
+});
+
+describe('ModuleRegistry.loadExternalModules', () => {
+  it('loads every listed package and returns no errors when all succeed', async () => {
+    const registry = new ModuleRegistry();
+    const manifests: Record<string, ModuleManifest> = {
+      'maxsim-module-stripe': makeValidManifest({ id: 'stripe-payments' }),
+      'maxsim-module-paypal': makeValidManifest({ id: 'paypal-payments' }),
+    };
+    const loader: ExternalLoader = async (pkg) => ({ manifest: manifests[pkg] });
+
+    const errors = await registry.loadExternalModules(Object.keys(manifests), loader);
+
+    expect(errors).toEqual([]);
+    expect(registry.has('stripe-payments')).toBe(true);
+    expect(registry.has('paypal-payments')).toBe(true);
+  });
+
+  it('reports a failing package and still loads the remaining ones', async () => {
+    const registry = new ModuleRegistry();
+    const loader: ExternalLoader = async (pkg) => {
+      if (pkg === 'maxsim-module-missing') {
+        throw new Error("Cannot find module 'maxsim-module-missing'");
+      }
+      return { manifest: makeValidManifest({ id: 'stripe-payments' }) };
+    };
+
+    const errors = await registry.loadExternalModules(
+      ['maxsim-module-missing', 'maxsim-module-stripe'],
+      loader,
+    );
+
+    expect(errors).toEqual([
+      {
+        packageName: 'maxsim-module-missing',
+        message: "Cannot find module 'maxsim-module-missing'",
+      },
+    ]);
+    expect(registry.has('stripe-payments')).toBe(true);
+  });
+
+  it('reports manifest validation failures instead of throwing', async () => {
+    const registry = new ModuleRegistry();
+
+    const errors = await registry.loadExternalModules(['maxsim-module-bad'], makeLoader(undefined));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].packageName).toBe('maxsim-module-bad');
+    expect(errors[0].message).toMatch(/invalid manifest/);
+  });
+
+  it('returns no errors for an empty package list', async () => {
+    const registry = new ModuleRegistry();
+    expect(await registry.loadExternalModules([])).toEqual([]);
+  });
+});
+
+describe('formatExternalModuleError', () => {
+  it('names the package and the reason', () => {
+    const message = formatExternalModuleError({
+      packageName: 'maxsim-module-stripe',
+      message: 'boom',
+    });
+    expect(message).toBe("Skipped external module 'maxsim-module-stripe': boom");
+  });
+});
+
+describe('createProjectLoader / loadModuleRegistry', () => {
+  const tmp = useTempDir('registry-external-project-');
+
+  async function installFakePackage(projectDir: string, manifestId: string): Promise<void> {
+    const pkgDir = join(projectDir, 'node_modules', 'maxsim-module-fake');
+    await mkdir(pkgDir, { recursive: true });
+    await writeFile(
+      join(pkgDir, 'package.json'),
+      JSON.stringify({ name: 'maxsim-module-fake', type: 'module', main: 'index.js' }),
+      'utf-8',
+    );
+    const manifest = makeValidManifest({ id: manifestId });
+    await writeFile(
+      join(pkgDir, 'index.js'),
+      `export const manifest = ${JSON.stringify(manifest)};\n`,
+      'utf-8',
+    );
+  }
+
+  it('resolves packages from the project node_modules', async () => {
+    await installFakePackage(tmp.path, 'fake-module');
+
+    const exports = await createProjectLoader(tmp.path)('maxsim-module-fake');
+
+    expect((exports.manifest as ModuleManifest).id).toBe('fake-module');
+    expect(exports.packageRoot).toBe(join(tmp.path, 'node_modules', 'maxsim-module-fake'));
+  });
+
+  it('resolves relative paths that cannot be required against the project directory', async () => {
+    const loader = createProjectLoader(tmp.path);
+
+    await expect(loader('./modules/missing.mjs')).rejects.toThrow(
+      join(tmp.path, 'modules', 'missing.mjs'),
+    );
+  });
+
+  it('findPackageRoot locates bare names in node_modules and path-like names on disk', async () => {
+    await installFakePackage(tmp.path, 'fake-module');
+    const pkgRoot = join(tmp.path, 'node_modules', 'maxsim-module-fake');
+    const nested = join(tmp.path, 'lib', 'features');
+    await mkdir(nested, { recursive: true });
+
+    expect(findPackageRoot('maxsim-module-fake', nested)).toBe(pkgRoot);
+    expect(findPackageRoot('./node_modules/maxsim-module-fake/index.js', tmp.path)).toBe(pkgRoot);
+    expect(findPackageRoot('maxsim-module-not-installed-xyz', tmp.path)).toBeUndefined();
+  });
+
+  it('loadModuleRegistry registers external modules and reports missing ones', async () => {
+    await installFakePackage(tmp.path, 'fake-module');
+
+    const { registry, externalErrors } = await loadModuleRegistry(
+      ['maxsim-module-fake', 'maxsim-module-not-installed-xyz'],
+      tmp.path,
+    );
+
+    expect(registry.has('fake-module')).toBe(true);
+    expect(externalErrors.map((e) => e.packageName)).toEqual(['maxsim-module-not-installed-xyz']);
+  });
+});
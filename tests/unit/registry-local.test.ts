@@ -0,0 +1,179 @@
+import { mkdir, readFile, symlink, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { dump as yamlDump } from 'js-yaml';
+import { ModuleRegistry, LOCAL_MODULES_DIR, loadModuleRegistry } from '../../src/modules/registry.js';
+import { ScaffoldEngine } from '../../src/scaffold/engine.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+import { makeWritableContext } from '../helpers/context-factory.js';
+import type { ModuleManifest } from '../../src/types/module.js';
+import type { ProjectContext } from '../../src/core/context.js';
+
+function makeManifest(overrides: Partial<ModuleManifest> = {}): ModuleManifest {
+  return {
+    id: 'internal-sso',
+    name: 'Internal SSO',
+    description: 'Company single sign-on',
+    requires: [],
+    templateDir: 'templates',
+    ralphPhase: 2,
+    contributions: {},
+    ...overrides,
+  };
+}
+
+async function writeLocalModule(
+  modulesDir: string,
+  folder: string,
+  fileName: string,
+  content: string,
+): Promise<string> {
+  const moduleDir = join(modulesDir, folder);
+  await mkdir(moduleDir, { recursive: true });
+  await writeFile(join(moduleDir, fileName), content, 'utf-8');
+  return moduleDir;
+}
+
+describe('ModuleRegistry.loadLocal', () => {
+  const tmp = useTempDir('registry-local-');
+
+  it('returns no errors when the local modules directory does not exist', async () => {
+    const registry = new ModuleRegistry();
+    expect(await registry.loadLocal(join(tmp.path, 'missing'))).toEqual([]);
+    expect(registry.size).toBe(0);
+  });
+
+  it('loads a module.json manifest and resolves templateDir against the module folder', async () => {
+    const moduleDir = await writeLocalModule(
+      tmp.path,
+      'internal-sso',
+      'module.json',
+      JSON.stringify(makeManifest()),
+    );
+    const registry = new ModuleRegistry();
+
+    const errors = await registry.loadLocal(tmp.path);
+
+    expect(errors).toEqual([]);
+    expect(registry.get('internal-sso').name).toBe('Internal SSO');
+    expect(registry.getTemplateDir('internal-sso')).toBe(join(moduleDir, 'templates'));
+  });
+
+  it('loads a module.yaml manifest', async () => {
+    await writeLocalModule(
+      tmp.path,
+      'design-system',
+      'module.yaml',
+      yamlDump(makeManifest({ id: 'design-system', name: 'Design System' })),
+    );
+    const registry = new ModuleRegistry();
+
+    await registry.loadLocal(tmp.path);
+
+    expect(registry.has('design-system')).toBe(true);
+  });
+
+  it('loads a module.js manifest exporting { manifest }', async () => {
+    await writeLocalModule(
+      tmp.path,
+      'js-module',
+      'module.mjs',
+      `export const manifest = ${JSON.stringify(makeManifest({ id: 'js-module' }))};\n`,
+    );
+    const registry = new ModuleRegistry();
+
+    await registry.loadLocal(tmp.path);
+
+    expect(registry.has('js-module')).toBe(true);
+  });
+
+  it('reports folders without a manifest and invalid manifests, and keeps loading others', async () => {
+    await mkdir(join(tmp.path, 'empty'), { recursive: true });
+    await writeLocalModule(tmp.path, 'invalid', 'module.json', JSON.stringify({ id: 'invalid' }));
+    await writeLocalModule(tmp.path, 'valid', 'module.json', JSON.stringify(makeManifest()));
+    const registry = new ModuleRegistry();
+
+    const errors = await registry.loadLocal(tmp.path);
+
+    expect(errors.map((e) => e.packageName)).toEqual([
+      `${LOCAL_MODULES_DIR}/empty`,
+      `${LOCAL_MODULES_DIR}/invalid`,
+    ]);
+    expect(errors[0].message).toMatch(/no manifest found/);
+    expect(errors[1].message).toMatch(/invalid manifest/);
+    expect(registry.has('internal-sso')).toBe(true);
+  });
+
+  it('reports a dangling symlink as a broken module and keeps loading others', async () => {
+    await symlink(join(tmp.path, 'gone'), join(tmp.path, 'dangling'));
+    await writeLocalModule(tmp.path, 'valid', 'module.json', JSON.stringify(makeManifest()));
+    const registry = new ModuleRegistry();
+
+    const errors = await registry.loadLocal(tmp.path);
+
+    expect(errors.map((e) => e.packageName)).toEqual([`${LOCAL_MODULES_DIR}/dangling`]);
+    expect(errors[0].message).toMatch(/ENOENT/);
+    expect(registry.has('internal-sso')).toBe(true);
+  });
+
+  it('lets a local module replace a registered module with the same ID', async () => {
+    await writeLocalModule(
+      tmp.path,
+      'auth',
+      'module.json',
+      JSON.stringify(makeManifest({ id: 'auth', name: 'Company Auth' })),
+    );
+    const registry = new ModuleRegistry();
+    registry.register(makeManifest({ id: 'auth', name: 'Authentication' }));
+
+    await registry.loadLocal(tmp.path);
+
+    expect(registry.get('auth').name).toBe('Company Auth');
+  });
+});
+
+describe('project-local modules end to end', () => {
+  const tmp = useTempDir('registry-local-project-');
+
+  async function createLocalSsoModule(projectDir: string): Promise<void> {
+    const moduleDir = await writeLocalModule(
+      join(projectDir, LOCAL_MODULES_DIR),
+      'internal-sso',
+      'module.json',
+      JSON.stringify(makeManifest()),
+    );
+    const templatesDir = join(moduleDir, 'templates', 'lib', 'features', 'sso');
+    await mkdir(templatesDir, { recursive: true });
+    await writeFile(
+      join(templatesDir, 'sso_client.dart.hbs'),
+      "const ssoClientId = '{{modules.internalSso.clientId}}';\n",
+      'utf-8',
+    );
+  }
+
+  it('loadModuleRegistry picks up modules from <project>/.maxsim/modules', async () => {
+    await createLocalSsoModule(tmp.path);
+
+    const { registry, externalErrors } = await loadModuleRegistry([], tmp.path);
+
+    expect(externalErrors).toEqual([]);
+    expect(registry.getAllOptionalIds()).toContain('internal-sso');
+  });
+
+  it('ScaffoldEngine renders templates of an enabled local module', async () => {
+    await createLocalSsoModule(tmp.path);
+    const engine = new ScaffoldEngine({ templatesDir: resolve('templates/core') });
+    const mods = {
+      internalSso: { clientId: 'acme-app' },
+    } as unknown as ProjectContext['modules'];
+
+    await engine.run(
+      makeWritableContext(tmp.path, {
+        modules: mods,
+        rawConfig: { externalModules: [] } as unknown as ProjectContext['rawConfig'],
+      }),
+    );
+
+    const content = await readFile(join(tmp.path, 'lib/features/sso/sso_client.dart'), 'utf-8');
+    expect(content).toBe("const ssoClientId = 'acme-app';\n");
+  });
+});
@@ -97,6 +97,21 @@ describe('ModuleRegistry', () => {
     });
   });
 
+  describe('getProviders', () => {
+    it('returns the modules providing a capability, sorted by ID', () => {
+      const registry = new ModuleRegistry();
+      registry.register(makeManifest({ id: 'sentry', provides: ['crash-reporting'] }));
+      registry.register(makeManifest({ id: 'auth' }));
+      registry.register(makeManifest({ id: 'crashlytics', provides: ['crash-reporting', 'analytics'] }));
+
+      expect(registry.getProviders('crash-reporting').map((m) => m.id)).toEqual([
+        'crashlytics',
+        'sentry',
+      ]);
+      expect(registry.getProviders('payments')).toEqual([]);
+    });
+  });
+
   describe('size', () => {
     it('reports correct size', () => {
       const registry = new ModuleRegistry();
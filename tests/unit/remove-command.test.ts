@@ -0,0 +1,21 @@
+import { createRemoveCommand } from '../../src/cli/commands/remove.js';
+
+describe('createRemoveCommand', () => {
+  it('creates a Command named "remove"', () => {
+    const cmd = createRemoveCommand();
+    expect(cmd.name()).toBe('remove');
+  });
+
+  it('requires a <module> argument', () => {
+    const cmd = createRemoveCommand();
+    expect(cmd.registeredArguments[0].name()).toBe('module');
+    expect(cmd.registeredArguments[0].required).toBe(true);
+  });
+
+  it('has --dry-run, --project-dir and --no-claude options', () => {
+    const cmd = createRemoveCommand();
+    for (const long of ['--dry-run', '--project-dir', '--no-claude']) {
+      expect(cmd.options.find((o) => o.long === long)).toBeDefined();
+    }
+  });
+});
@@ -1,4 +1,4 @@
-import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { TemplateRenderer } from '../../src/scaffold/renderer.js';
@@ -245,4 +245,77 @@ describe('TemplateRenderer', () => {
       expect(result).toBe('MyApp');
     });
   });
+
+  describe('compile cache', () => {
+    let tmpDir: string;
+
+    beforeEach(async () => {
+      tmpDir = await mkdtemp(join(tmpdir(), 'renderer-cache-test-'));
+    });
+
+    afterEach(async () => {
+      await rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('compiles a template once and reuses it', () => {
+      const compiled = renderer.compile('Hello {{project.name}}!');
+      expect(renderer.compile('Hello {{project.name}}!')).toBe(compiled);
+      expect(renderer.render('Hello {{project.name}}!', baseContext)).toBe('Hello my-app!');
+    });
+
+    it('reads a template file once until the file cache is cleared', async () => {
+      const filePath = join(tmpDir, 'template.hbs');
+      await writeFile(filePath, 'first {{project.name}}');
+      expect(await renderer.renderFile(filePath, baseContext)).toBe('first my-app');
+
+      await writeFile(filePath, 'second {{project.name}}');
+      expect(await renderer.renderFile(filePath, baseContext)).toBe('first my-app');
+
+      renderer.clearFileCache();
+      expect(await renderer.renderFile(filePath, baseContext)).toBe('second my-app');
+    });
+  });
+
+  describe('listTemplates', () => {
+    let tmpDir: string;
+
+    beforeEach(async () => {
+      tmpDir = await mkdtemp(join(tmpdir(), 'renderer-index-test-'));
+    });
+
+    afterEach(async () => {
+      await rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('lists the files of a directory recursively, sorted by relative path', async () => {
+      await mkdir(join(tmpDir, 'lib/core'), { recursive: true });
+      await writeFile(join(tmpDir, 'pubspec.yaml.hbs'), '');
+      await writeFile(join(tmpDir, 'lib/main.dart.hbs'), '');
+      await writeFile(join(tmpDir, 'lib/core/app.dart'), '');
+
+      const entries = await renderer.listTemplates(tmpDir);
+
+      expect(entries.map((e) => e.relativePath)).toEqual([
+        'lib/core/app.dart',
+        'lib/main.dart.hbs',
+        'pubspec.yaml.hbs',
+      ]);
+      expect(entries[0].absolutePath).toBe(join(tmpDir, 'lib/core/app.dart'));
+    });
+
+    it('returns the same index for a directory until the file cache is cleared', async () => {
+      const first = await renderer.listTemplates(tmpDir);
+      await writeFile(join(tmpDir, 'added.hbs'), '');
+
+      expect(await renderer.listTemplates(tmpDir)).toBe(first);
+      renderer.clearFileCache();
+      expect((await renderer.listTemplates(tmpDir)).map((e) => e.relativePath)).toEqual([
+        'added.hbs',
+      ]);
+    });
+
+    it('returns no files for a missing directory', async () => {
+      expect(await renderer.listTemplates(join(tmpDir, 'missing'))).toEqual([]);
+    });
+  });
 });
@@ -279,4 +279,203 @@ describe('ModuleResolver', () => {
       expect(coreCount).toBe(1);
     });
   });
+
+  describe('capabilities', () => {
+    const core = makeManifest({ id: 'core', alwaysIncluded: true });
+    const sentry = makeManifest({ id: 'sentry', provides: ['crash-reporting'] });
+    const crashlytics = makeManifest({ id: 'crashlytics', provides: ['crash-reporting'] });
+    const monitoring = makeManifest({ id: 'monitoring', requires: ['crash-reporting'] });
+
+    it('satisfies a required capability with a selected provider', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, sentry, crashlytics, monitoring));
+
+      const result = resolver.resolve(['monitoring', 'sentry']);
+
+      expect(result.ordered.map((m) => m.id)).toEqual(['core', 'sentry', 'monitoring']);
+      expect(result.capabilities.get('crash-reporting')).toBe('sentry');
+    });
+
+    it('adds the only provider of a required capability', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, sentry, monitoring));
+
+      const result = resolver.resolve(['monitoring']);
+
+      expect(result.ordered.map((m) => m.id)).toEqual(['core', 'sentry', 'monitoring']);
+    });
+
+    it('adds the chosen provider when several modules provide the capability', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, sentry, crashlytics, monitoring));
+
+      const result = resolver.resolve(['monitoring'], {
+        providerChoices: { 'crash-reporting': 'sentry' },
+      });
+
+      expect(result.ordered.map((m) => m.id)).toEqual(['core', 'sentry', 'monitoring']);
+    });
+
+    it('picks the first provider by ID when no choice was made', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, sentry, crashlytics, monitoring));
+
+      const result = resolver.resolve(['monitoring']);
+
+      expect(result.capabilities.get('crash-reporting')).toBe('crashlytics');
+      expect(result.ordered.map((m) => m.id)).not.toContain('sentry');
+    });
+
+    it('rejects a chosen module that does not provide the capability', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, sentry, crashlytics, monitoring));
+
+      expect(() =>
+        resolver.resolve(['monitoring'], { providerChoices: { 'crash-reporting': 'core' } }),
+      ).toThrow(/'core' was chosen for 'crash-reporting', but it does not provide it/);
+    });
+
+    it('throws when no registered module provides a required capability', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, monitoring));
+
+      expect(() => resolver.resolve(['monitoring'])).toThrow(
+        "Module 'monitoring' requires 'crash-reporting', but 'crash-reporting' was not found in registry",
+      );
+    });
+
+    it('findCapabilityChoices lists capabilities that need a choice', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, sentry, crashlytics, monitoring));
+
+      const [choice, ...rest] = resolver.findCapabilityChoices(['monitoring']);
+
+      expect(rest).toEqual([]);
+      expect(choice.capability).toBe('crash-reporting');
+      expect(choice.requiredBy).toBe('monitoring');
+      expect(choice.candidates.map((m) => m.id)).toEqual(['crashlytics', 'sentry']);
+      expect(resolver.findCapabilityChoices(['monitoring', 'sentry'])).toEqual([]);
+      expect(
+        resolver.findCapabilityChoices(['monitoring'], { 'crash-reporting': 'sentry' }),
+      ).toEqual([]);
+    });
+  });
+
+  describe('enhancements', () => {
+    const core = makeManifest({ id: 'core', alwaysIncluded: true });
+    const analytics = makeManifest({ id: 'analytics', enhances: ['auth', 'payments'] });
+    const auth = makeManifest({ id: 'auth', requires: ['core'] });
+
+    it('orders an enhancing module after the modules it enhances', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, analytics, auth));
+
+      const result = resolver.resolve(['analytics', 'auth']);
+
+      expect(result.ordered.map((m) => m.id)).toEqual(['core', 'auth', 'analytics']);
+      expect(result.enhancements.get('analytics')).toEqual(['auth']);
+    });
+
+    it('does not add enhanced modules that were not selected', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, analytics, auth));
+
+      const result = resolver.resolve(['analytics']);
+
+      expect(result.ordered.map((m) => m.id)).toEqual(['analytics', 'core']);
+      expect(result.enhancements.size).toBe(0);
+    });
+
+    it('matches enhanced capabilities against their providers', () => {
+      const stripe = makeManifest({ id: 'stripe', provides: ['payments'] });
+      const resolver = new ModuleResolver(setupRegistry(core, analytics, stripe));
+
+      const result = resolver.resolve(['analytics', 'stripe']);
+
+      expect(result.ordered.map((m) => m.id)).toEqual(['core', 'stripe', 'analytics']);
+    });
+
+    it('drops enhancements that would create a cycle', () => {
+      const authWithAnalytics = makeManifest({ id: 'auth', requires: ['analytics'] });
+      const resolver = new ModuleResolver(setupRegistry(core, analytics, authWithAnalytics));
+
+      const result = resolver.resolve(['auth']);
+
+      expect(result.ordered.map((m) => m.id)).toEqual(['analytics', 'auth', 'core']);
+    });
+  });
+
+  describe('trace', () => {
+    const core = makeManifest({ id: 'core', alwaysIncluded: true });
+    const api = makeManifest({ id: 'api', requires: ['core'], provides: ['http-client'] });
+    const auth = makeManifest({ id: 'auth', requires: ['core', 'http-client'] });
+
+    it('records why each module is present', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, api, auth));
+
+      const trace = resolver.trace(['auth']);
+
+      expect(trace.issues).toEqual([]);
+      expect(trace.reasons.get('core')).toEqual({ kind: 'always-included' });
+      expect(trace.reasons.get('auth')).toEqual({ kind: 'selected' });
+      expect(trace.reasons.get('api')).toEqual({
+        kind: 'required',
+        by: 'auth',
+        requirement: 'http-client',
+      });
+    });
+
+    it('maps each module to the resolved modules it requires', () => {
+      const resolver = new ModuleResolver(setupRegistry(core, api, auth));
+
+      const trace = resolver.trace(['auth']);
+
+      expect(trace.dependencies.get('auth')).toEqual(['core', 'api']);
+      expect(trace.dependencies.get('core')).toEqual([]);
+    });
+
+    it('reports every problem instead of throwing', () => {
+      const push = makeManifest({ id: 'push', requires: ['messaging'] });
+      const legacy = makeManifest({ id: 'legacy', conflictsWith: ['auth'] });
+      const resolver = new ModuleResolver(setupRegistry(core, api, auth, push, legacy));
+
+      const trace = resolver.trace(['unknown', 'auth', 'push', 'legacy']);
+
+      expect(trace.issues.map((issue) => issue.type)).toEqual([
+        'not-found',
+        'missing-requirement',
+        'conflict',
+      ]);
+      expect(trace.issues[1]).toMatchObject({ moduleId: 'push', requirement: 'messaging' });
+      expect(trace.ordered.map((m) => m.id)).toContain('legacy');
+    });
+
+    it('reports a conflict declared by both modules once', () => {
+      const a = makeManifest({ id: 'a', conflictsWith: ['b'] });
+      const b = makeManifest({ id: 'b', conflictsWith: ['a'] });
+      const resolver = new ModuleResolver(setupRegistry(a, b));
+
+      const trace = resolver.trace(['a', 'b']);
+
+      expect(trace.issues).toHaveLength(1);
+      expect(trace.issues[0]).toMatchObject({ type: 'conflict', moduleId: 'a', conflictsWith: 'b' });
+    });
+
+    it('leaves modules caught in a cycle out of the order', () => {
+      const a = makeManifest({ id: 'a', requires: ['b'] });
+      const b = makeManifest({ id: 'b', requires: ['a'] });
+      const resolver = new ModuleResolver(setupRegistry(core, a, b));
+
+      const trace = resolver.trace(['a']);
+
+      expect(trace.ordered.map((m) => m.id)).toEqual(['core']);
+      expect(trace.issues).toEqual([
+        {
+          type: 'cycle',
+          moduleIds: ['a', 'b'],
+          message: 'Circular dependency detected among modules: a, b',
+        },
+      ]);
+    });
+
+    it('uses the messages resolve() throws', () => {
+      const legacy = makeManifest({ id: 'legacy', conflictsWith: ['auth'] });
+      const resolver = new ModuleResolver(setupRegistry(core, api, auth, legacy));
+
+      const trace = resolver.trace(['auth', 'legacy']);
+
+      expect(() => resolver.resolve(['auth', 'legacy'])).toThrow(trace.issues[0].message);
+    });
+  });
 });
@@ -165,7 +165,7 @@ describe('P11-004: updated core file counts', () => {
         api: { baseUrl: 'https://api.example.com' },
         database: { engine: 'drift' },
         i18n: { defaultLocale: 'en', supportedLocales: ['en'] },
-        theme: { seedColor: '#6750A4', darkMode: true },
+        theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
         push: { provider: 'firebase' },
         analytics: { enabled: true },
         cicd: { provider: 'github' },
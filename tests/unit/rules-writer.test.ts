@@ -192,7 +192,7 @@ describe('writeRules', () => {
 
   it('generates theme.md when theme module is enabled', async () => {
     const ctx = makeContext({
-      modules: { ...makeContext().modules, theme: { seedColor: '#6750A4', darkMode: true } },
+      modules: { ...makeContext().modules, theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true } },
     });
     await writeRules(ctx, tmp.path);
     const entries = await readdir(join(tmp.path, '.claude', 'rules'));
@@ -207,7 +207,7 @@ describe('writeRules', () => {
 
   it('theme.md has YAML frontmatter with paths', async () => {
     const ctx = makeContext({
-      modules: { ...makeContext().modules, theme: { seedColor: '#6750A4', darkMode: true } },
+      modules: { ...makeContext().modules, theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true } },
     });
     await writeRules(ctx, tmp.path);
     const content = await readFile(
@@ -221,7 +221,7 @@ describe('writeRules', () => {
 
   it('theme.md content mentions Material 3 and ColorScheme', async () => {
     const ctx = makeContext({
-      modules: { ...makeContext().modules, theme: { seedColor: '#6750A4', darkMode: true } },
+      modules: { ...makeContext().modules, theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true } },
     });
     await writeRules(ctx, tmp.path);
     const content = await readFile(
@@ -406,7 +406,7 @@ describe('writeRules', () => {
         api: { baseUrl: 'https://api.example.com' },
         database: { engine: 'drift' },
         i18n: { defaultLocale: 'en', supportedLocales: ['en'] },
-        theme: { seedColor: '#6750A4', darkMode: true },
+        theme: { seedColor: '#6750A4', useMaterial3: true, darkMode: true },
         push: { provider: 'firebase' },
         analytics: { enabled: true },
         cicd: { provider: 'github' },
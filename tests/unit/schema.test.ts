@@ -136,6 +136,29 @@ describe('MaxsimConfigSchema', () => {
       });
       expect(result.success).toBe(false);
     });
+
+    it('keeps external module entries with their options', () => {
+      const result = MaxsimConfigSchema.safeParse({
+        project: { name: 'my_app', orgId: 'com.example' },
+        modules: { 'stripe-payments': { publishableKey: 'pk_test' } },
+        externalModules: ['maxsim-module-stripe'],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.modules['stripe-payments']).toEqual({
+          enabled: true,
+          publishableKey: 'pk_test',
+        });
+      }
+    });
+
+    it('fails external module entry that is neither false nor an object', () => {
+      const result = MaxsimConfigSchema.safeParse({
+        project: { name: 'my_app', orgId: 'com.example' },
+        modules: { 'stripe-payments': 'yes' },
+      });
+      expect(result.success).toBe(false);
+    });
   });
 
   describe('claude section', () => {
@@ -250,6 +273,94 @@ describe('MaxsimConfigSchema', () => {
       }
     });
   });
+
+  describe('features', () => {
+    it('defaults the variant flags of generated features', () => {
+      const result = MaxsimConfigSchema.safeParse({
+        project: { name: 'my_app', orgId: 'com.example' },
+        features: [{ name: 'orders', route: '/orders' }],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.features).toEqual([
+          { name: 'orders', route: '/orders', listDetail: false, offlineCache: false },
+        ]);
+      }
+    });
+
+    it('rejects feature names that are not snake_case and routes without a leading slash', () => {
+      for (const feature of [
+        { name: 'OrderItems', route: '/orders' },
+        { name: 'orders', route: 'orders' },
+      ]) {
+        const result = MaxsimConfigSchema.safeParse({
+          project: { name: 'my_app', orgId: 'com.example' },
+          features: [feature],
+        });
+        expect(result.success).toBe(false);
+      }
+    });
+  });
+
+  describe('environments', () => {
+    it('accepts environment names and objects with per-flavor values', () => {
+      const result = MaxsimConfigSchema.safeParse({
+        project: { name: 'my_app', orgId: 'com.example' },
+        environments: [
+          'dev',
+          { name: 'staging', bundleIdSuffix: '.stg', api: { baseUrl: 'https://stg.example.com' } },
+          'prod',
+        ],
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.environments).toEqual([
+          { name: 'dev' },
+          { name: 'staging', bundleIdSuffix: '.stg', api: { baseUrl: 'https://stg.example.com' } },
+          { name: 'prod' },
+        ]);
+      }
+    });
+
+    it('rejects invalid and duplicate environment names', () => {
+      for (const environments of [['Dev'], ['dev', 'qa-1'], ['dev', { name: 'dev' }]]) {
+        const result = MaxsimConfigSchema.safeParse({
+          project: { name: 'my_app', orgId: 'com.example' },
+          environments,
+        });
+        expect(result.success).toBe(false);
+      }
+    });
+  });
+
+  describe('scaffold.postProcessors', () => {
+    it('defaults the ordering fields of custom steps', () => {
+      const result = MaxsimConfigSchema.safeParse({
+        project: { name: 'my_app', orgId: 'com.example' },
+        scaffold: { postProcessors: [{ id: 'dart-fix', command: 'dart fix --apply' }] },
+      });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.scaffold.postProcessors).toEqual([
+          { id: 'dart-fix', command: 'dart fix --apply', dependsOn: [], after: [], before: [] },
+        ]);
+      }
+    });
+
+    it('rejects non-kebab-case IDs, empty commands and non-positive timeouts', () => {
+      for (const step of [
+        { id: 'Dart_Fix', command: 'dart fix --apply' },
+        { id: 'dart-fix', command: '  ' },
+        { id: 'dart-fix', command: 'dart fix --apply', timeout: 0 },
+      ]) {
+        const result = MaxsimConfigSchema.safeParse({
+          project: { name: 'my_app', orgId: 'com.example' },
+          scaffold: { postProcessors: [step] },
+        });
+        expect(result.success).toBe(false);
+      }
+    });
+  });
 });
 
 describe('parseConfig', () => {
@@ -0,0 +1,70 @@
+import {
+  CONFLICT_END,
+  CONFLICT_SEPARATOR,
+  CONFLICT_START,
+  mergeThreeWay,
+} from '../../src/scaffold/three-way-merge.js';
+
+const lines = (...l: string[]): string => `${l.join('\n')}\n`;
+
+describe('mergeThreeWay', () => {
+  const base = lines('import a;', '', 'void main() {', '  run();', '}');
+
+  it('takes the generated content when the file was not edited', () => {
+    const generated = lines('import a;', 'import b;', '', 'void main() {', '  run();', '}');
+
+    expect(mergeThreeWay(base, base, generated)).toEqual({ content: generated, conflicts: 0 });
+  });
+
+  it('keeps local edits when the template did not change', () => {
+    const current = lines('import a;', '', 'void main() {', '  setUp();', '  run();', '}');
+
+    expect(mergeThreeWay(base, current, base)).toEqual({ content: current, conflicts: 0 });
+  });
+
+  it('applies template changes and local edits to different lines', () => {
+    const current = lines('import a;', '', 'void main() {', '  run();', '  tearDown();', '}');
+    const generated = lines('import a;', 'import b;', '', 'void main() {', '  run();', '}');
+
+    expect(mergeThreeWay(base, current, generated)).toEqual({
+      content: lines('import a;', 'import b;', '', 'void main() {', '  run();', '  tearDown();', '}'),
+      conflicts: 0,
+    });
+  });
+
+  it('takes identical changes on both sides once', () => {
+    const changed = lines('import a;', '', 'void main() {', '  runApp();', '}');
+
+    expect(mergeThreeWay(base, changed, changed)).toEqual({ content: changed, conflicts: 0 });
+  });
+
+  it('marks overlapping changes as conflicts', () => {
+    const current = lines('import a;', '', 'void main() {', '  runLocal();', '}');
+    const generated = lines('import a;', '', 'void main() {', '  runApp();', '}');
+
+    expect(mergeThreeWay(base, current, generated)).toEqual({
+      content: lines(
+        'import a;',
+        '',
+        'void main() {',
+        CONFLICT_START,
+        '  runLocal();',
+        CONFLICT_SEPARATOR,
+        '  runApp();',
+        CONFLICT_END,
+        '}',
+      ),
+      conflicts: 1,
+    });
+  });
+
+  it('handles a local edit that deletes lines the template kept', () => {
+    const current = lines('import a;', '', 'void main() {', '}');
+    const generated = lines('// Generated', 'import a;', '', 'void main() {', '  run();', '}');
+
+    expect(mergeThreeWay(base, current, generated)).toEqual({
+      content: lines('// Generated', 'import a;', '', 'void main() {', '}'),
+      conflicts: 0,
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import fsExtra from 'fs-extra';
+import { ScaffoldTransaction, withTransaction } from '../../src/scaffold/transaction.js';
+import { useTempDir } from '../helpers/temp-dir.js';
+
+const { outputFile, pathExists, remove } = fsExtra;
+
+describe('ScaffoldTransaction', () => {
+  const tmp = useTempDir('transaction-test-');
+
+  async function read(relativePath: string): Promise<string> {
+    return readFile(join(tmp.path, relativePath), 'utf-8');
+  }
+
+  beforeEach(async () => {
+    await writeFile(join(tmp.path, 'pubspec.yaml'), 'name: original\n', 'utf-8');
+  });
+
+  it('restores changed files and removes created ones on rollback', async () => {
+    const transaction = await ScaffoldTransaction.begin(tmp.path);
+
+    await transaction.track(['pubspec.yaml', 'lib/main.dart']);
+    await writeFile(join(tmp.path, 'pubspec.yaml'), 'name: changed\n', 'utf-8');
+    await outputFile(join(tmp.path, 'lib/main.dart'), 'void main() {}\n', 'utf-8');
+    await transaction.rollback();
+
+    expect(await read('pubspec.yaml')).toBe('name: original\n');
+    expect(await pathExists(join(tmp.path, 'lib/main.dart'))).toBe(false);
+  });
+
+  it('restores a tracked directory as a whole', async () => {
+    await outputFile(join(tmp.path, '.claude/rules/kept.md'), 'kept', 'utf-8');
+    const transaction = await ScaffoldTransaction.begin(tmp.path);
+
+    await transaction.track(['.claude']);
+    await remove(join(tmp.path, '.claude/rules/kept.md'));
+    await outputFile(join(tmp.path, '.claude/agents/new.md'), 'new', 'utf-8');
+    await transaction.rollback();
+
+    expect(await read('.claude/rules/kept.md')).toBe('kept');
+    expect(await pathExists(join(tmp.path, '.claude/agents'))).toBe(false);
+  });
+
+  it('keeps the first recorded state of a path tracked again', async () => {
+    const transaction = await ScaffoldTransaction.begin(tmp.path);
+
+    await transaction.track(['pubspec.yaml']);
+    await writeFile(join(tmp.path, 'pubspec.yaml'), 'name: changed\n', 'utf-8');
+    await transaction.track(['pubspec.yaml']);
+    await transaction.rollback();
+
+    expect(await read('pubspec.yaml')).toBe('name: original\n');
+  });
+
+  it('restores a file changed before its parent directory was tracked', async () => {
+    await outputFile(join(tmp.path, '.maxsim/base/pubspec.yaml.base'), 'base', 'utf-8');
+    const transaction = await ScaffoldTransaction.begin(tmp.path);
+
+    await transaction.track(['.maxsim/base/pubspec.yaml.base']);
+    await writeFile(join(tmp.path, '.maxsim/base/pubspec.yaml.base'), 'changed', 'utf-8');
+    await transaction.track(['.maxsim']);
+    await transaction.rollback();
+
+    expect(await read('.maxsim/base/pubspec.yaml.base')).toBe('base');
+  });
+
+  it('keeps the changes on commit', async () => {
+    const transaction = await ScaffoldTransaction.begin(tmp.path);
+
+    await transaction.track(['pubspec.yaml']);
+    await writeFile(join(tmp.path, 'pubspec.yaml'), 'name: changed\n', 'utf-8');
+    await transaction.commit();
+
+    expect(await read('pubspec.yaml')).toBe('name: changed\n');
+    await expect(transaction.rollback()).rejects.toThrow('already committed or rolled back');
+  });
+
+  it('removes everything written to a directory that was empty or missing', async () => {
+    const emptyDir = join(tmp.path, 'empty');
+    await mkdir(emptyDir);
+    const missingDir = join(tmp.path, 'missing');
+
+    for (const dir of [emptyDir, missingDir]) {
+      const transaction = await ScaffoldTransaction.begin(dir);
+      await transaction.track(['lib/main.dart']);
+      await outputFile(join(dir, 'lib/main.dart'), 'void main() {}\n', 'utf-8');
+      await transaction.rollback();
+    }
+
+    expect(await readdir(emptyDir)).toEqual([]);
+    expect(await pathExists(missingDir)).toBe(false);
+  });
+
+  it('rejects paths outside the root directory', async () => {
+    const transaction = await ScaffoldTransaction.begin(tmp.path);
+
+    await expect(transaction.track(['../outside.txt'])).rejects.toThrow(
+      "Cannot track '../outside.txt': path is outside",
+    );
+  });
+});
+
+describe('withTransaction', () => {
+  const tmp = useTempDir('with-transaction-test-');
+
+  it('rolls back and rethrows when the callback throws', async () => {
+    await writeFile(join(tmp.path, 'pubspec.yaml'), 'name: original\n', 'utf-8');
+
+    await expect(
+      withTransaction(tmp.path, async (transaction) => {
+        await transaction.track(['pubspec.yaml']);
+        await writeFile(join(tmp.path, 'pubspec.yaml'), 'name: changed\n', 'utf-8');
+        throw new Error('render failed');
+      }),
+    ).rejects.toThrow('render failed');
+
+    expect(await readFile(join(tmp.path, 'pubspec.yaml'), 'utf-8')).toBe('name: original\n');
+  });
+
+  it('commits and returns the result of the callback', async () => {
+    const result = await withTransaction(tmp.path, async (transaction) => {
+      await transaction.track(['README.md']);
+      await writeFile(join(tmp.path, 'README.md'), '# app\n', 'utf-8');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await readFile(join(tmp.path, 'README.md'), 'utf-8')).toBe('# app\n');
+  });
+});
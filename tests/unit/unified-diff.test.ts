@@ -0,0 +1,60 @@
+import { createUnifiedDiff } from '../../src/scaffold/unified-diff.js';
+
+const lines = (...l: string[]): string => `${l.join('\n')}\n`;
+
+describe('createUnifiedDiff', () => {
+  const before = lines('a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm');
+
+  it('returns an empty diff for equal content', () => {
+    expect(createUnifiedDiff('lib/a.dart', before, before)).toEqual({
+      text: '',
+      additions: 0,
+      deletions: 0,
+    });
+  });
+
+  it('prints changes with three lines of context, in separate hunks when far apart', () => {
+    const after = lines('a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm', 'n');
+
+    expect(createUnifiedDiff('lib/a.dart', before, after)).toEqual({
+      text: lines(
+        '--- a/lib/a.dart',
+        '+++ b/lib/a.dart',
+        '@@ -1,5 +1,5 @@',
+        ' a',
+        '-b',
+        '+B',
+        ' c',
+        ' d',
+        ' e',
+        '@@ -11,3 +11,4 @@',
+        ' k',
+        ' l',
+        ' m',
+        '+n',
+      ),
+      additions: 2,
+      deletions: 1,
+    });
+  });
+
+  it('joins changes that are close together into one hunk', () => {
+    const after = lines('a', 'B', 'c', 'd', 'e', 'f', 'G', 'h', 'i', 'j', 'k', 'l', 'm');
+
+    const { text } = createUnifiedDiff('a', before, after);
+
+    expect(text.match(/^@@.*@@$/gm)).toEqual(['@@ -1,10 +1,10 @@']);
+  });
+
+  it('diffs new files against /dev/null', () => {
+    expect(createUnifiedDiff('README.md', undefined, lines('one', 'two')).text).toBe(
+      lines('--- /dev/null', '+++ b/README.md', '@@ -0,0 +1,2 @@', '+one', '+two'),
+    );
+  });
+
+  it('marks lines without a trailing newline', () => {
+    expect(createUnifiedDiff('a', 'x\n', 'x').text).toBe(
+      lines('--- a/a', '+++ b/a', '@@ -1 +1 @@', '-x', '+x', '\\ No newline at end of file'),
+    );
+  });
+});
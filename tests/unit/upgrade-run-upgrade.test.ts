@@ -38,7 +38,14 @@ jest.unstable_mockModule('@clack/prompts', () => ({
 }));
 
 jest.unstable_mockModule('../../src/cli/commands/add.js', () => ({
+  ROUTER_OUTPUT_PATH: 'lib/core/router/app_router.dart',
   findProjectRoot: mockFindProjectRoot,
+  getCoreTemplatesDir: jest.fn(),
+  getEnabledModuleIds: jest.fn(),
+  getModulesTemplatesDir: jest.fn(),
+  logRegeneratedFiles: jest.fn(),
+  mergePubspecYaml: jest.fn(),
+  writeRegeneratedFiles: jest.fn(),
 }));
 
 jest.unstable_mockModule('../../src/core/config/loader.js', () => ({
@@ -62,8 +69,12 @@ const { createUpgradeCommand } = await import('../../src/cli/commands/upgrade.js
 
 function setupValidProjectMocks(projectRoot: string): void {
   mockFindProjectRoot.mockResolvedValue(projectRoot);
-  mockLoadConfig.mockResolvedValue({});
-  mockParseConfig.mockReturnValue({ project: { name: 'test_app', orgId: 'com.example' }, modules: {} });
+  mockLoadConfig.mockResolvedValue({ externalModules: [] });
+  mockParseConfig.mockReturnValue({
+    project: { name: 'test_app', orgId: 'com.example' },
+    modules: {},
+    externalModules: [],
+  });
   mockCreateProjectContext.mockReturnValue({ projectName: 'test_app' });
   mockRunClaudeSetup.mockResolvedValue({ filesWritten: ['CLAUDE.md'] });
 }
@@ -190,7 +201,7 @@ describe('runUpgrade — via command action (mocked deps)', () => {
     expect(mockRunClaudeSetup).toHaveBeenCalledWith(
       expect.anything(),
       expect.anything(),
-      { skipPrd: true },
+      expect.objectContaining({ skipPrd: true }),
     );
   });
 
@@ -203,7 +214,7 @@ describe('runUpgrade — via command action (mocked deps)', () => {
     expect(mockRunClaudeSetup).toHaveBeenCalledWith(
       expect.anything(),
       expect.anything(),
-      { skipPrd: false },
+      expect.objectContaining({ skipPrd: false }),
     );
   });
 
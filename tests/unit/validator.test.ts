@@ -9,7 +9,8 @@ jest.unstable_mockModule('execa', () => ({
 }));
 
 // Dynamic import AFTER mocks are registered
-const { validateEnvironment } = await import('../../src/core/validator.js');
+const { validateEnvironment, parseToolVersions, readSdkConstraints, satisfiesConstraint } =
+  await import('../../src/core/validator.js');
 
 describe('validateEnvironment', () => {
   beforeEach(() => {
@@ -74,3 +75,63 @@ describe('validateEnvironment', () => {
     expect(result.errors).toContain('git is not installed or not found in PATH');
   });
 });
+
+describe('validateEnvironment SDK versions', () => {
+  beforeEach(() => {
+    mockExeca.mockReset();
+  });
+
+  it('warns when Flutter and Dart are older than the generated projects require', async () => {
+    mockExeca
+      .mockResolvedValueOnce({ stdout: 'Flutter 3.19.6 • channel stable\nTools • Dart 3.3.4' })
+      .mockResolvedValueOnce({ stdout: 'Dart SDK version: 3.3.4 (stable)' })
+      .mockResolvedValueOnce({ stdout: 'git version 2.43.0' });
+
+    const result = await validateEnvironment();
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      'Flutter 3.19.6 does not satisfy the Flutter SDK constraint ^3.24.0 of generated projects',
+      'Dart 3.3.4 does not satisfy the Dart SDK constraint ^3.5.0 of generated projects',
+    ]);
+  });
+
+  it('does not warn about supported versions', async () => {
+    mockExeca
+      .mockResolvedValueOnce({ stdout: 'Flutter 3.27.1 • channel stable\nTools • Dart 3.6.0' })
+      .mockResolvedValueOnce({ stdout: 'Dart SDK version: 3.6.0 (stable)' })
+      .mockResolvedValueOnce({ stdout: 'git version 2.43.0' });
+
+    expect((await validateEnvironment()).warnings).toEqual([]);
+  });
+});
+
+describe('SDK constraint helpers', () => {
+  it('reads the SDK constraints of the core pubspec.yaml template', async () => {
+    expect(await readSdkConstraints()).toEqual({ dart: '^3.5.0', flutter: '^3.24.0' });
+  });
+
+  it('parses flutter and dart version output', () => {
+    expect(parseToolVersions('Flutter 3.24.3 • channel stable\nTools • Dart 3.5.3')).toEqual({
+      flutter: '3.24.3',
+      dart: '3.5.3',
+    });
+    expect(parseToolVersions('Dart SDK version: 3.6.0-1.0.dev (dev)').dart).toBe('3.6.0-1.0.dev');
+  });
+
+  it.each([
+    ['3.5.0', '^3.5.0', true],
+    ['3.9.2', '^3.5.0', true],
+    ['4.0.0', '^3.5.0', false],
+    ['3.4.9', '^3.5.0', false],
+    ['0.2.5', '^0.2.1', true],
+    ['0.3.0', '^0.2.1', false],
+    ['3.5.0', '>=3.5.0 <4.0.0', true],
+    ['4.0.0', '>=3.5.0 <4.0.0', false],
+    ['3.5.0', '3.5.0', true],
+    ['3.5.1', '3.5.0', false],
+    ['3.5.0', 'any', true],
+  ])('%s satisfies %s: %s', (version, constraint, expected) => {
+    expect(satisfiesConstraint(version, constraint)).toBe(expected);
+  });
+});
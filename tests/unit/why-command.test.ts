@@ -0,0 +1,194 @@
+import {
+  createWhyCommand,
+  describeReason,
+  describeRelations,
+  findBlockers,
+  findSelectionRoot,
+  printResolutionGraph,
+  suggestFix,
+} from '../../src/cli/commands/why.js';
+import { ModuleRegistry } from '../../src/modules/registry.js';
+import { ModuleResolver } from '../../src/modules/resolver.js';
+import type { ModuleManifest } from '../../src/types/module.js';
+
+function makeManifest(overrides: Partial<ModuleManifest> = {}): ModuleManifest {
+  return {
+    id: 'test-module',
+    name: 'Test Module',
+    description: 'A test module',
+    requires: [],
+    templateDir: 'templates/modules/test-module',
+    ralphPhase: 2,
+    contributions: {},
+    ...overrides,
+  };
+}
+
+const core = makeManifest({ id: 'core', alwaysIncluded: true });
+const api = makeManifest({ id: 'api', requires: ['core'], provides: ['http-client'] });
+const auth = makeManifest({ id: 'auth', requires: ['core', 'http-client'] });
+const analytics = makeManifest({ id: 'analytics', requires: ['core'], enhances: ['auth'] });
+const legacy = makeManifest({ id: 'legacy-http', requires: ['core'], conflictsWith: ['api'] });
+
+function setupRegistry(...manifests: ModuleManifest[]): ModuleRegistry {
+  const registry = new ModuleRegistry();
+  for (const m of manifests) {
+    registry.register(m);
+  }
+  return registry;
+}
+
+describe('createWhyCommand', () => {
+  it('creates a Command named "why"', () => {
+    expect(createWhyCommand().name()).toBe('why');
+  });
+
+  it('requires a module argument', () => {
+    const cmd = createWhyCommand();
+    expect(cmd.registeredArguments.map((arg) => arg.required)).toEqual([true]);
+  });
+
+  it('has --project-dir option', () => {
+    const option = createWhyCommand().options.find((o) => o.long === '--project-dir');
+    expect(option).toBeDefined();
+  });
+});
+
+describe('describeReason', () => {
+  const resolver = new ModuleResolver(setupRegistry(core, api, auth, analytics));
+  const trace = resolver.trace(['auth', 'analytics']);
+
+  it('describes selected modules', () => {
+    expect(describeReason(trace, 'auth')).toBe('selected in maxsim.config.yaml');
+  });
+
+  it('describes always-included modules', () => {
+    expect(describeReason(trace, 'core')).toBe('always included');
+  });
+
+  it('follows the requirement chain back to the selected module', () => {
+    expect(describeReason(trace, 'api')).toBe(
+      "required by auth (provides 'http-client'), which is selected in maxsim.config.yaml",
+    );
+  });
+
+  it('returns an empty string for modules that are not resolved', () => {
+    expect(describeReason(trace, 'legacy-http')).toBe('');
+  });
+});
+
+describe('findSelectionRoot', () => {
+  const trace = new ModuleResolver(setupRegistry(core, api, auth)).trace(['auth']);
+
+  it('returns the selected module that pulled a dependency in', () => {
+    expect(findSelectionRoot(trace, 'api')).toBe('auth');
+    expect(findSelectionRoot(trace, 'auth')).toBe('auth');
+  });
+
+  it('returns undefined for always-included modules', () => {
+    expect(findSelectionRoot(trace, 'core')).toBeUndefined();
+  });
+});
+
+describe('describeRelations', () => {
+  const registry = setupRegistry(core, api, auth, analytics);
+  const trace = new ModuleResolver(registry).trace(['auth', 'analytics']);
+
+  it('lists dependents, dependencies and provided capabilities', () => {
+    expect(describeRelations(trace, registry, 'api')).toEqual([
+      'Required by: auth',
+      'Requires: core',
+      'Provides: http-client',
+    ]);
+  });
+
+  it('lists enhanced modules', () => {
+    expect(describeRelations(trace, registry, 'analytics')).toContain('Enhances: auth');
+  });
+});
+
+describe('findBlockers and suggestFix', () => {
+  const registry = setupRegistry(core, api, auth, legacy);
+  const resolver = new ModuleResolver(registry);
+
+  it('returns only the issues a candidate would introduce', () => {
+    const current = resolver.trace(['auth', 'unknown']);
+    const candidate = resolver.trace(['auth', 'unknown', 'legacy-http']);
+
+    const blockers = findBlockers(current, candidate);
+
+    expect(blockers.map((issue) => issue.type)).toEqual(['conflict']);
+  });
+
+  it('suggests disabling the selected module that requires a conflicting dependency', () => {
+    const candidate = resolver.trace(['auth', 'legacy-http']);
+    const [conflict] = findBlockers(resolver.trace(['auth']), candidate);
+
+    expect(suggestFix(conflict, candidate, 'legacy-http')).toBe(
+      'Set modules.auth: false in maxsim.config.yaml (it requires api)',
+    );
+  });
+
+  it('suggests disabling either module of a conflict in the current config', () => {
+    const trace = resolver.trace(['api', 'legacy-http']);
+
+    expect(suggestFix(trace.issues[0], trace)).toBe(
+      'Set modules.legacy-http: false in maxsim.config.yaml, or ' +
+        'set modules.api: false in maxsim.config.yaml',
+    );
+  });
+
+  it('suggests registering a provider for a missing requirement', () => {
+    const push = makeManifest({ id: 'push', requires: ['messaging'] });
+    const trace = new ModuleResolver(setupRegistry(core, push)).trace(['push']);
+
+    expect(suggestFix(trace.issues[0], trace)).toBe(
+      "Register a module providing 'messaging' (externalModules or .maxsim/modules/), " +
+        'or set modules.push: false in maxsim.config.yaml',
+    );
+  });
+
+  it('only suggests registering a provider when the candidate itself misses a requirement', () => {
+    const push = makeManifest({ id: 'push', requires: ['messaging'] });
+    const trace = new ModuleResolver(setupRegistry(core, push)).trace(['push']);
+
+    expect(suggestFix(trace.issues[0], trace, 'push')).toBe(
+      "Register a module providing 'messaging' (externalModules or .maxsim/modules/)",
+    );
+  });
+
+  it('suggests disabling unknown modules', () => {
+    const trace = resolver.trace(['unknown']);
+
+    expect(suggestFix(trace.issues[0], trace)).toMatch(/^Set modules\.unknown: false/);
+    expect(suggestFix(trace.issues[0], trace, 'unknown')).toMatch(/^Check the module ID/);
+  });
+});
+
+describe('printResolutionGraph', () => {
+  let consoleOutput: string[];
+  let originalLog: typeof console.log;
+
+  beforeEach(() => {
+    consoleOutput = [];
+    originalLog = console.log;
+    console.log = (...args: unknown[]) => {
+      consoleOutput.push(args.map(String).join(' '));
+    };
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+  });
+
+  it('prints each module in dependency order with its reason and requirements', () => {
+    const trace = new ModuleResolver(setupRegistry(core, api, auth)).trace(['auth']);
+
+    printResolutionGraph(trace);
+
+    const rows = consoleOutput.filter((line) => /^(core|api|auth)\s/.test(line));
+    expect(rows.map((line) => line.split(/\s+/)[0])).toEqual(['core', 'api', 'auth']);
+    expect(rows[2]).toContain('selected in maxsim.config.yaml');
+    expect(rows[2]).toContain('requires core, api');
+  });
+});